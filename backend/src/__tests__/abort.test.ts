@@ -0,0 +1,45 @@
+import { EventEmitter } from 'events';
+import { FfmpegCommand } from 'fluent-ffmpeg';
+import { killOnAbort } from '../utils/abort';
+
+const createCommand = () => {
+  const command = new EventEmitter() as EventEmitter & { kill: jest.Mock };
+  command.kill = jest.fn();
+  return command;
+};
+
+describe('killOnAbort', () => {
+  it('should kill a running command when the signal is aborted', () => {
+    const command = createCommand();
+    const controller = new AbortController();
+
+    killOnAbort(command as unknown as FfmpegCommand, controller.signal);
+    command.emit('start', 'ffmpeg -i input.mp4 output.mp4');
+    controller.abort();
+
+    expect(command.kill).toHaveBeenCalledWith('SIGKILL');
+  });
+
+  it('should kill a command as soon as it starts if the signal was already aborted', () => {
+    const command = createCommand();
+    const controller = new AbortController();
+    controller.abort();
+
+    killOnAbort(command as unknown as FfmpegCommand, controller.signal);
+    command.emit('start', 'ffmpeg -i input.mp4 output.mp4');
+
+    expect(command.kill).toHaveBeenCalledWith('SIGKILL');
+  });
+
+  it('should leave a finished command alone', () => {
+    const command = createCommand();
+    const controller = new AbortController();
+
+    killOnAbort(command as unknown as FfmpegCommand, controller.signal);
+    command.emit('start', 'ffmpeg -i input.mp4 output.mp4');
+    command.emit('end');
+    controller.abort();
+
+    expect(command.kill).not.toHaveBeenCalled();
+  });
+});
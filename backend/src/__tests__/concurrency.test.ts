@@ -0,0 +1,66 @@
+import { getSegmentConcurrency, mapWithConcurrency } from '../utils/concurrency';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Concurrency', () => {
+  describe('mapWithConcurrency', () => {
+    it('should keep the input order whatever order calls finish in', async () => {
+      const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+        await delay(ms);
+        return index + 1;
+      });
+
+      expect(results).toEqual([1, 2, 3]);
+    });
+
+    it('should never run more than the limit at once', async () => {
+      let running = 0;
+      let peak = 0;
+
+      await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await delay(5);
+        running--;
+      });
+
+      expect(peak).toBe(2);
+    });
+
+    it('should stop starting items after a failure and throw the first error', async () => {
+      const started: number[] = [];
+
+      await expect(mapWithConcurrency([1, 2, 3, 4], 1, async (item) => {
+        started.push(item);
+        if (item === 2) {
+          throw new Error('Failed to process segment 2');
+        }
+      })).rejects.toThrow('Failed to process segment 2');
+
+      expect(started).toEqual([1, 2]);
+    });
+
+    it('should handle an empty list', async () => {
+      await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+    });
+  });
+
+  describe('getSegmentConcurrency', () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it('should use SEGMENT_CONCURRENCY when set', () => {
+      process.env.SEGMENT_CONCURRENCY = '3';
+      expect(getSegmentConcurrency()).toBe(3);
+    });
+
+    it('should default to at least one segment', () => {
+      delete process.env.SEGMENT_CONCURRENCY;
+      process.env.FFMPEG_THREADS = '1024';
+      expect(getSegmentConcurrency()).toBe(1);
+    });
+  });
+});
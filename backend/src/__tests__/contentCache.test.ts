@@ -0,0 +1,77 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ContentCache, hashFile, hashText } from '../services/contentCache';
+import { getMetrics } from '../middleware/metrics';
+
+describe('ContentCache', () => {
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should compute a result once and serve it from disk afterwards', async () => {
+    const compute = jest.fn().mockResolvedValue({ text: 'Hello world', duration: 2 });
+
+    const first = await new ContentCache(cacheDir).getOrCompute('transcription', { audio: 'abc', provider: 'openai' }, compute);
+    // A new instance stands in for a restarted backend
+    const second = await new ContentCache(cacheDir).getOrCompute('transcription', { audio: 'abc', provider: 'openai' }, compute);
+
+    expect(second).toEqual(first);
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(await getMetrics()).toMatch(/cache_lookups_total\{cache="transcription",result="hit"\} [1-9]/);
+  });
+
+  it('should key results by every part of the key', async () => {
+    const cache = new ContentCache(cacheDir);
+    const compute = jest.fn().mockResolvedValue('A summary');
+
+    await cache.getOrCompute('summarization', { text: 'abc', style: 'concise' }, compute);
+    await cache.getOrCompute('summarization', { text: 'abc', style: 'detailed' }, compute);
+
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should compute again and replace the entry when refreshing', async () => {
+    const cache = new ContentCache(cacheDir);
+    await cache.getOrCompute('summarization', 'key', () => Promise.resolve('Old title'));
+
+    const refreshed = await cache.getOrCompute('summarization', 'key', () => Promise.resolve('New title'), { refresh: true });
+    const cached = await cache.getOrCompute('summarization', 'key', () => Promise.resolve('Unused'));
+
+    expect(refreshed).toBe('New title');
+    expect(cached).toBe('New title');
+  });
+
+  it('should not cache failures or empty results', async () => {
+    const cache = new ContentCache(cacheDir);
+
+    await expect(cache.getOrCompute('summarization', 'key', () => Promise.reject(new Error('Provider down')))).rejects.toThrow('Provider down');
+    await cache.getOrCompute('summarization', 'key', () => Promise.resolve(undefined));
+
+    expect(await cache.getStats()).toContainEqual({ name: 'summarization', entries: 0, bytes: 0 });
+  });
+
+  it('should purge one cache and leave the other', async () => {
+    const cache = new ContentCache(cacheDir);
+    await cache.getOrCompute('transcription', 'audio', () => Promise.resolve({ text: 'Hi' }));
+    await cache.getOrCompute('summarization', 'text', () => Promise.resolve('Summary'));
+
+    const purged = await cache.purge('summarization');
+
+    expect(purged).toEqual([expect.objectContaining({ name: 'summarization', entries: 1 })]);
+    expect((await cache.getStats()).map(stats => stats.entries)).toEqual([1, 0]);
+  });
+
+  it('should hash files by their contents', async () => {
+    const filePath = path.join(cacheDir, 'audio.wav');
+    await fs.writeFile(filePath, 'same bytes');
+
+    expect(await hashFile(filePath)).toBe(hashText('same bytes'));
+  });
+});
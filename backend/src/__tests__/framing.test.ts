@@ -0,0 +1,167 @@
+import {
+  buildCropXExpression,
+  buildFramingFilters,
+  columnEnergy,
+  createSubjectSampler,
+  findSubjectCenter,
+  formatFileSuffix,
+  getTitleTop,
+  planCropPath,
+  smoothCropPath
+} from '../utils/framing';
+
+describe('Framing', () => {
+  describe('columnEnergy', () => {
+    it('should score moving columns higher than static ones', () => {
+      const previous = Buffer.from([10, 10, 10, 10, 10, 10, 10, 10]);
+      const frame = Buffer.from([10, 10, 10, 200, 10, 10, 10, 200]);
+      const energy = columnEnergy(frame, previous, 4, 2);
+
+      expect(energy[3]).toBeGreaterThan(energy[0]);
+      expect(energy[3]).toBeGreaterThan(energy[1]);
+    });
+  });
+
+  describe('findSubjectCenter', () => {
+    it('should center the window on the most salient columns', () => {
+      expect(findSubjectCenter([0, 0, 0, 9, 9, 0], 1 / 3)).toBe(0.667);
+    });
+
+    it('should return null for a featureless frame', () => {
+      expect(findSubjectCenter([0, 0, 0, 0], 0.5)).toBeNull();
+    });
+  });
+
+  describe('smoothCropPath', () => {
+    it('should limit how fast the crop can pan', () => {
+      const path = smoothCropPath([0.3, 0.3, 0.3, 0.7, 0.7, 0.7], 0.3, 2);
+
+      for (let i = 1; i < path.length; i++) {
+        expect(Math.abs(path[i].center - path[i - 1].center)).toBeLessThanOrEqual(0.075 + 1e-9);
+      }
+    });
+
+    it('should keep the crop window inside the picture', () => {
+      const path = smoothCropPath([0, 0, 1, 1], 0.4, 2);
+
+      path.forEach(keyframe => {
+        expect(keyframe.center).toBeGreaterThanOrEqual(0.2);
+        expect(keyframe.center).toBeLessThanOrEqual(0.8);
+      });
+    });
+
+    it('should hold the last known position over featureless frames', () => {
+      const path = smoothCropPath([null, 0.5, null, null], 0.3, 2);
+
+      expect(path.map(keyframe => keyframe.center)).toEqual([0.5, 0.5, 0.5, 0.5]);
+      expect(path.map(keyframe => keyframe.time)).toEqual([0, 0.5, 1, 1.5]);
+    });
+  });
+
+  describe('planCropPath', () => {
+    it('should follow the subject with a window of the given width', () => {
+      const energies = [0, 1, 2].map(() => [0, 0, 9, 9, 0, 0, 0, 0]);
+
+      expect(planCropPath(energies, 0.25).map(keyframe => keyframe.center)).toEqual([0.375, 0.375, 0.375]);
+      expect(planCropPath(energies, 0.5).map(keyframe => keyframe.center)).toEqual([0.25, 0.25, 0.25]);
+    });
+  });
+
+  describe('createSubjectSampler', () => {
+    it('should sample the segment once for every caller', async () => {
+      const sample = createSubjectSampler('missing.mp4', 0, 10, { width: 1920, height: 1080 });
+      const first = sample();
+
+      expect(sample()).toBe(first);
+      await expect(first).rejects.toThrow('Failed to analyze subject motion');
+    });
+  });
+
+  describe('buildCropXExpression', () => {
+    it('should interpolate between keyframes using the frame time', () => {
+      const expression = buildCropXExpression([
+        { time: 0, center: 0.25 },
+        { time: 1, center: 0.5 }
+      ], 3414, 1080);
+
+      expect(expression).toBe('if(lt(t,1),314+853*(t-0)/1,1167)');
+    });
+
+    it('should center the crop when there are no keyframes', () => {
+      expect(buildCropXExpression([], 3414, 1080)).toBe('1167');
+    });
+  });
+
+  describe('buildFramingFilters', () => {
+    it('should scale and pad for letterbox', async () => {
+      const filters = await buildFramingFilters('letterbox', 'video.mp4', 0, 10);
+
+      expect(filters[0]).toContain('force_original_aspect_ratio=decrease');
+      expect(filters[1]).toMatch(/^pad=1080:1920/);
+    });
+
+    it('should overlay the letterboxed picture on a blurred copy for blur-fill', async () => {
+      const filters = await buildFramingFilters('blur-fill', 'video.mp4', 0, 10);
+
+      expect(filters).toHaveLength(1);
+      expect(filters[0]).toMatch(/^split=2\[background\]\[foreground\];/);
+      expect(filters[0]).toContain('boxblur=');
+      expect(filters[0]).toContain('[foreground]scale=1080:1920:force_original_aspect_ratio=decrease');
+      expect(filters[0]).toMatch(/overlay=\(W-w\)\/2:\(H-h\)\/2$/);
+    });
+
+    it('should target the dimensions of the requested output format', async () => {
+      const square = await buildFramingFilters('crop-center', 'video.mp4', 0, 10, undefined, '1:1');
+      const portrait = await buildFramingFilters('blur-fill', 'video.mp4', 0, 10, undefined, '4:5');
+
+      expect(square).toEqual([
+        'scale=1080:1080:force_original_aspect_ratio=increase',
+        'crop=1080:1080'
+      ]);
+      expect(portrait[0]).toContain('[foreground]scale=1080:1350:force_original_aspect_ratio=decrease');
+      expect(portrait[0]).toContain('crop=270:338');
+    });
+
+    it('should track the subject in every format from the shared samples', async () => {
+      const energies = [0, 1, 2].map(() => Array.from({ length: 160 }, (_, x) => (x < 40 ? 9 : 0)));
+      const sampleSubject = jest.fn().mockResolvedValue(energies);
+      const source = { width: 1920, height: 1080 };
+
+      const portrait = await buildFramingFilters('crop-track', 'video.mp4', 0, 10, source, '9:16', undefined, sampleSubject);
+      const square = await buildFramingFilters('crop-track', 'video.mp4', 0, 10, source, '1:1', undefined, sampleSubject);
+
+      expect(portrait[0]).toBe('scale=3414:1920');
+      expect(portrait[1]).toMatch(/^crop=1080:1920:'if\(/);
+      expect(square[0]).toBe('scale=1920:1080');
+      expect(square[1]).toMatch(/^crop=1080:1080:'if\(/);
+      expect(sampleSubject).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to a center crop for sources narrower than 9:16', async () => {
+      const filters = await buildFramingFilters('crop-track', 'video.mp4', 0, 10, { width: 720, height: 1280 });
+
+      expect(filters).toEqual([
+        'scale=1080:1920:force_original_aspect_ratio=increase',
+        'crop=1080:1920'
+      ]);
+    });
+  });
+
+  describe('getTitleTop', () => {
+    it('should place the title in the top bar of each format', () => {
+      expect(getTitleTop({ width: 1080, height: 1920 }, 120)).toBe(214);
+      expect(getTitleTop({ width: 1080, height: 1080 }, 120)).toBe(63);
+      expect(getTitleTop({ width: 1080, height: 1350 }, 120)).toBe(131);
+    });
+
+    it('should keep the title below the top edge without a bar', () => {
+      expect(getTitleTop({ width: 1920, height: 1080 }, 120)).toBe(32);
+    });
+  });
+
+  describe('formatFileSuffix', () => {
+    it('should turn the aspect ratio into a file name suffix', () => {
+      expect(formatFileSuffix('16:9')).toBe('_16x9');
+    });
+  });
+});
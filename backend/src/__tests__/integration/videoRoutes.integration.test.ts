@@ -32,11 +32,12 @@ describe('Video Routes Integration Tests', () => {
         .field('minSegmentDuration', '5')
         .field('maxSegmentDuration', '30');
 
-      // Without a real video file, ffmpeg fails (500). With valid video, expect 200.
-      expect([200, 400, 500]).toContain(response.status);
-      if (response.status === 200) {
+      // Without a real video file, ffprobe fails (500). With valid video, the job is queued (202).
+      expect([202, 400, 500]).toContain(response.status);
+      if (response.status === 202) {
         expect(response.body.success).toBe(true);
-        expect(response.body.data?.segments).toBeDefined();
+        expect(response.body.data?.jobId).toBeDefined();
+        expect(response.headers.location).toBe(`/api/jobs/${response.body.data.jobId}`);
       }
     });
 
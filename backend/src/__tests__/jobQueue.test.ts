@@ -0,0 +1,164 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Job, JobQueue } from '../services/jobQueue';
+import { createError } from '../middleware/errorHandler';
+
+const waitForStatus = async (queue: JobQueue, id: string, status: Job['status']) => {
+  for (let i = 0; i < 100; i++) {
+    if (queue.getJob(id)?.status === status) {
+      return queue.getJob(id) as Job;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Job ${id} never reached ${status}`);
+};
+
+describe('JobQueue', () => {
+  let storeDir: string;
+
+  beforeEach(async () => {
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(storeDir, { recursive: true, force: true });
+  });
+
+  it('should run a job and keep its result', async () => {
+    const queue = new JobQueue(storeDir);
+    queue.registerHandler('double', async (job: Job<{ value: number }>) => job.params.value * 2);
+
+    const job = await queue.enqueue('double', { value: 21 });
+    const finished = await waitForStatus(queue, job.id, 'completed');
+
+    expect(finished.result).toBe(42);
+    expect(finished.attempts).toBe(1);
+  });
+
+  it('should record the message and status code of a failed job', async () => {
+    const queue = new JobQueue(storeDir);
+    queue.registerHandler('fail', async () => {
+      throw createError('Unable to generate valid segments for this video', 400);
+    });
+
+    const job = await queue.enqueue('fail', {});
+    const finished = await waitForStatus(queue, job.id, 'failed');
+
+    expect(finished.error).toEqual({ message: 'Unable to generate valid segments for this video', statusCode: 400 });
+  });
+
+  it('should emit progress and status changes', async () => {
+    const queue = new JobQueue(storeDir);
+    queue.registerHandler('progress', async (_job, { reportProgress }) => {
+      reportProgress({ stage: 'encode', segment: 1, totalSegments: 2, percent: 10.2, overallPercent: 2.5 });
+      reportProgress({ stage: 'encode', segment: 1, totalSegments: 2, percent: 10.4, overallPercent: 2.6 });
+      reportProgress({ stage: 'encode', segment: 1, totalSegments: 2, percent: 60, overallPercent: 15 });
+    });
+    const progress: unknown[] = [];
+    const statuses: string[] = [];
+    queue.on('progress', (job: Job) => progress.push(job.progress));
+    queue.on('status', (job: Job) => statuses.push(job.status));
+
+    const job = await queue.enqueue('progress', {});
+    await waitForStatus(queue, job.id, 'completed');
+
+    // The second report rounds to the same values and is not forwarded
+    expect(progress).toEqual([
+      { stage: 'encode', segment: 1, totalSegments: 2, percent: 10, overallPercent: 3 },
+      { stage: 'encode', segment: 1, totalSegments: 2, percent: 60, overallPercent: 15 }
+    ]);
+    expect(statuses).toEqual(['processing', 'completed']);
+  });
+
+  it('should refuse job types without a handler', async () => {
+    const queue = new JobQueue(storeDir);
+
+    await expect(queue.enqueue('unknown', {})).rejects.toThrow("No handler registered for job type 'unknown'");
+  });
+
+  it('should run jobs one at a time in order', async () => {
+    const queue = new JobQueue(storeDir);
+    const order: number[] = [];
+    queue.registerHandler('record', async (job: Job<{ n: number }>) => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      order.push(job.params.n);
+    });
+
+    const jobs = [];
+    for (const n of [1, 2, 3]) {
+      jobs.push(await queue.enqueue('record', { n }));
+    }
+    await waitForStatus(queue, jobs[2].id, 'completed');
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('should abort a running job and move on to the next one', async () => {
+    const queue = new JobQueue(storeDir);
+    queue.registerHandler('wait', (_job, { signal }) => new Promise((_resolve, reject) => {
+      signal.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+    queue.registerHandler('double', async (job: Job<{ value: number }>) => job.params.value * 2);
+
+    const running = await queue.enqueue('wait', {});
+    const next = await queue.enqueue('double', { value: 2 });
+    await waitForStatus(queue, running.id, 'processing');
+
+    const cancelled = await queue.cancel(running.id);
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.error).toBeUndefined();
+    expect((await waitForStatus(queue, next.id, 'completed')).result).toBe(4);
+    await expect(queue.cancel(running.id)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should drop a queued job without running it and clean up after it', async () => {
+    const queue = new JobQueue(storeDir);
+    const handled: number[] = [];
+    const cleanedUp: number[] = [];
+    queue.registerHandler(
+      'record',
+      async (job: Job<{ n: number }>) => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        handled.push(job.params.n);
+      },
+      async (job: Job<{ n: number }>) => {
+        cleanedUp.push(job.params.n);
+      }
+    );
+
+    const first = await queue.enqueue('record', { n: 1 });
+    const second = await queue.enqueue('record', { n: 2 });
+    const cancelled = await queue.cancel(second.id);
+    await waitForStatus(queue, first.id, 'completed');
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(handled).toEqual([1]);
+    expect(cleanedUp).toEqual([2]);
+  });
+
+  it('should resume jobs that were interrupted by a restart', async () => {
+    const job: Job = {
+      id: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+      type: 'echo',
+      status: 'processing',
+      params: { message: 'hello' },
+      attempts: 1,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+    await fs.writeFile(path.join(storeDir, `${job.id}.json`), JSON.stringify(job));
+
+    const queue = new JobQueue(storeDir);
+    queue.registerHandler('echo', async (resumed: Job<{ message: string }>) => resumed.params.message);
+    await queue.start();
+    const finished = await waitForStatus(queue, job.id, 'completed');
+
+    expect(finished.result).toBe('hello');
+    expect(finished.attempts).toBe(2);
+
+    const persisted = JSON.parse(await fs.readFile(path.join(storeDir, `${job.id}.json`), 'utf-8'));
+    expect(persisted.status).toBe('completed');
+  });
+});
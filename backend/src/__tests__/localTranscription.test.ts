@@ -0,0 +1,162 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  getLocalWhisperConfig,
+  LocalWhisperConfig,
+  parseFasterWhisperOutput,
+  parseWhisperCppOutput,
+  transcribeLocally
+} from '../services/localTranscription';
+import { TranscriptionService } from '../services/transcriptionService';
+
+const whisperCppOutput = {
+  result: { language: 'en' },
+  transcription: [
+    {
+      offsets: { from: 0, to: 1500 },
+      text: ' Hello world.',
+      tokens: [
+        { text: '[_BEG_]', offsets: { from: 0, to: 0 } },
+        { text: ' Hello', offsets: { from: 0, to: 500 } },
+        { text: ' wor', offsets: { from: 600, to: 900 } },
+        { text: 'ld.', offsets: { from: 900, to: 1500 } },
+        { text: '[_TT_75]', offsets: { from: 1500, to: 1500 } }
+      ]
+    },
+    {
+      offsets: { from: 2000, to: 3000 },
+      text: ' Bye.',
+      tokens: [{ text: ' Bye.', offsets: { from: 2000, to: 3000 } }]
+    }
+  ]
+};
+
+describe('Local transcription', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  describe('parseWhisperCppOutput', () => {
+    it('should convert segments to seconds and rebuild words from tokens', () => {
+      expect(parseWhisperCppOutput(whisperCppOutput)).toEqual({
+        text: 'Hello world. Bye.',
+        language: 'en',
+        segments: [
+          { start: 0, end: 1.5, text: ' Hello world.' },
+          { start: 2, end: 3, text: ' Bye.' }
+        ],
+        words: [
+          { start: 0, end: 0.5, text: 'Hello' },
+          { start: 0.6, end: 1.5, text: 'world.' },
+          { start: 2, end: 3, text: 'Bye.' }
+        ]
+      });
+    });
+  });
+
+  describe('parseFasterWhisperOutput', () => {
+    it('should read the whisper JSON format', () => {
+      const result = parseFasterWhisperOutput({
+        text: ' Hello world.',
+        language: 'en',
+        segments: [{ start: 0, end: 1.5, text: ' Hello world.', words: [{ start: 0, end: 0.5, word: ' Hello' }, { start: 0.6, end: 1.5, word: ' world.' }] }]
+      });
+
+      expect(result.text).toBe('Hello world.');
+      expect(result.words).toEqual([{ start: 0, end: 0.5, text: 'Hello' }, { start: 0.6, end: 1.5, text: 'world.' }]);
+    });
+
+    it('should leave words out when they were not requested', () => {
+      expect(parseFasterWhisperOutput({ segments: [{ start: 0, end: 1, text: ' Hi' }] }).words).toBeUndefined();
+    });
+
+    it('should reject output of another shape', () => {
+      expect(() => parseFasterWhisperOutput({ segments: [{ start: '0', end: 1, text: ' Hi' }] }))
+        .toThrow('Unexpected faster-whisper output: segments.0.start');
+      expect(() => parseWhisperCppOutput(null)).toThrow('Unexpected whisper.cpp output');
+    });
+  });
+
+  describe('getLocalWhisperConfig', () => {
+    it('should need a binary, and a model for whisper.cpp', () => {
+      expect(getLocalWhisperConfig()).toBeUndefined();
+
+      process.env.LOCAL_WHISPER_PATH = '/opt/whisper.cpp/whisper-cli';
+      expect(getLocalWhisperConfig()).toBeUndefined();
+
+      process.env.LOCAL_WHISPER_MODEL = '/opt/models/ggml-base.en.bin';
+      process.env.LOCAL_WHISPER_THREADS = '2';
+      expect(getLocalWhisperConfig()).toEqual({
+        engine: 'whisper.cpp',
+        binaryPath: '/opt/whisper.cpp/whisper-cli',
+        model: '/opt/models/ggml-base.en.bin',
+        threads: 2
+      });
+    });
+
+    it('should default to half the CPU threads', () => {
+      const [cpu] = os.cpus();
+      jest.spyOn(os, 'cpus').mockReturnValueOnce(new Array(8).fill(cpu)).mockReturnValueOnce([cpu]);
+      process.env.LOCAL_WHISPER_PATH = 'whisper-ctranslate2';
+      process.env.LOCAL_WHISPER_ENGINE = 'faster-whisper';
+
+      expect(getLocalWhisperConfig()?.threads).toBe(4);
+      expect(getLocalWhisperConfig()?.threads).toBe(1);
+    });
+
+    it('should default the faster-whisper model', () => {
+      process.env.LOCAL_WHISPER_PATH = 'whisper-ctranslate2';
+      process.env.LOCAL_WHISPER_ENGINE = 'faster-whisper';
+
+      expect(getLocalWhisperConfig()).toMatchObject({ engine: 'faster-whisper', model: 'small' });
+    });
+
+    it('should list the local provider once configured', () => {
+      delete process.env.OPENAI_API_KEY;
+      delete process.env.ASSEMBLYAI_API_KEY;
+      delete process.env.DEEPGRAM_API_KEY;
+      process.env.LOCAL_WHISPER_PATH = 'whisper-ctranslate2';
+      process.env.LOCAL_WHISPER_ENGINE = 'faster-whisper';
+
+      const service = new TranscriptionService();
+
+      expect(service.getAvailableProviders()).toEqual(['local']);
+      expect(service.getCurrentProvider()).toBe('local');
+    });
+  });
+
+  describe('transcribeLocally', () => {
+    let binDir: string;
+    let config: LocalWhisperConfig;
+
+    beforeEach(async () => {
+      binDir = await fs.mkdtemp(path.join(os.tmpdir(), 'whisper-bin-'));
+      config = { engine: 'whisper.cpp', binaryPath: path.join(binDir, 'whisper-cli'), model: 'ggml-base.bin', threads: 1 };
+    });
+
+    afterEach(async () => {
+      await fs.rm(binDir, { recursive: true, force: true });
+    });
+
+    const writeBinary = (script: string) => fs.writeFile(config.binaryPath, `#!/bin/sh\n${script}\n`, { mode: 0o755 });
+
+    it('should run whisper.cpp and read its JSON output', async () => {
+      // Stands in for whisper-cli: writes the JSON to the -of path
+      await writeBinary(`while [ $# -gt 0 ]; do [ "$1" = "-of" ] && out="$2"; shift; done\ncat > "$out.json" <<'JSON'\n${JSON.stringify(whisperCppOutput)}\nJSON`);
+
+      const result = await transcribeLocally('audio.wav', config, { language: 'en' });
+
+      expect(result.text).toBe('Hello world. Bye.');
+      expect(result.words).toHaveLength(3);
+    });
+
+    it('should report the end of stderr when the engine fails', async () => {
+      await writeBinary('echo "failed to load model" >&2\nexit 3');
+
+      await expect(transcribeLocally('audio.wav', config)).rejects.toThrow('whisper-cli exited with code 3: failed to load model');
+    });
+  });
+});
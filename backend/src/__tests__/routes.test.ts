@@ -1,5 +1,11 @@
+import fs from 'fs/promises';
+import path from 'path';
 import request from 'supertest';
 import app from '../index';
+import { googleDriveService } from '../services/googleDriveService';
+import { Job, jobQueue } from '../services/jobQueue';
+import { videoLibrary } from '../services/videoLibrary';
+import * as videoProcessor from '../utils/videoProcessor';
 
 describe('API Routes', () => {
   describe('GET /api/health', () => {
@@ -27,6 +33,428 @@ describe('API Routes', () => {
     });
   });
 
+  describe('GET /api/jobs/:id', () => {
+    it('should reject an invalid job ID', async () => {
+      const response = await request(app).get('/api/jobs/not-a-uuid');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      const response = await request(app).get('/api/jobs/f47ac10b-58cc-4372-a567-0e02b2c3d479');
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe('GET /api/jobs/:id/events', () => {
+    it('should return 404 for an unknown job', async () => {
+      const response = await request(app).get('/api/jobs/f47ac10b-58cc-4372-a567-0e02b2c3d479/events');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should send the final status and end the stream for a finished job', async () => {
+      jobQueue.registerHandler('test-echo', async () => 'done');
+      const job = await jobQueue.enqueue('test-echo', {});
+      await new Promise<void>(resolve => {
+        const onStatus = (updated: Job) => {
+          if (updated.id === job.id && updated.status === 'completed') {
+            jobQueue.off('status', onStatus);
+            resolve();
+          }
+        };
+        jobQueue.on('status', onStatus);
+      });
+
+      const response = await request(app).get(`/api/jobs/${job.id}/events`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      expect(response.text).toContain('event: status');
+      expect(response.text).toContain('"status":"completed"');
+      expect(response.text).toContain('"result":"done"');
+    });
+  });
+
+  describe('DELETE /api/jobs/:id', () => {
+    it('should return 404 for an unknown job', async () => {
+      const response = await request(app).delete('/api/jobs/f47ac10b-58cc-4372-a567-0e02b2c3d479');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should cancel a running job, then refuse to cancel it again', async () => {
+      jobQueue.registerHandler('test-wait', (_job, { signal }) => new Promise((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+      const job = await jobQueue.enqueue('test-wait', {});
+
+      const response = await request(app).delete(`/api/jobs/${job.id}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe('cancelled');
+      expect(response.body.data.error).toBeUndefined();
+
+      const again = await request(app).delete(`/api/jobs/${job.id}`);
+      expect(again.status).toBe(409);
+    });
+  });
+
+  describe('Resumable uploads', () => {
+    it('should reject a file type that is not a video', async () => {
+      const response = await request(app)
+        .post('/api/uploads')
+        .send({ filename: 'notes.txt', size: 1024, mimeType: 'text/plain' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 when resuming an unknown upload', async () => {
+      const response = await request(app).head('/api/uploads/f47ac10b-58cc-4372-a567-0e02b2c3d479');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should require chunks to be sent as offset octet streams', async () => {
+      const response = await request(app)
+        .patch('/api/uploads/f47ac10b-58cc-4372-a567-0e02b2c3d479')
+        .set('Upload-Offset', '0')
+        .send({ chunk: 'data' });
+
+      expect(response.status).toBe(415);
+    });
+
+    it.each([
+      ['no', undefined],
+      ['an empty', ''],
+      ['a negative', '-5'],
+      ['a fractional', '1.5']
+    ])('should reject a chunk with %s Upload-Offset', async (_case, offset) => {
+      const patch = request(app)
+        .patch('/api/uploads/f47ac10b-58cc-4372-a567-0e02b2c3d479')
+        .set('Content-Type', 'application/offset+octet-stream');
+      const response = await (offset === undefined ? patch : patch.set('Upload-Offset', offset)).send(Buffer.from('data'));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Video library', () => {
+    it('should list videos one page at a time', async () => {
+      const response = await request(app).get('/api/videos?page=1&pageSize=10');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ videos: [], page: 1, pageSize: 10, total: 0 });
+    });
+
+    it('should reject an unknown sort field', async () => {
+      const response = await request(app).get('/api/videos?sort=size');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should require a search query', async () => {
+      const response = await request(app).get('/api/videos/search');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for a video that is not in the library', async () => {
+      const response = await request(app).get('/api/videos/f47ac10b-58cc-4372-a567-0e02b2c3d479');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for the thumbnail of a video that is not in the library', async () => {
+      const response = await request(app).get('/api/videos/f47ac10b-58cc-4372-a567-0e02b2c3d479/thumbnail');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Segment editing', () => {
+    const videoId = 'edit-video';
+    const segment = (segmentNumber: number) => ({
+      segmentNumber,
+      startTime: (segmentNumber - 1) * 10,
+      endTime: segmentNumber * 10,
+      duration: 10,
+      renders: [{ format: '9:16' as const, width: 1080, height: 1920, outputPath: `processed/${videoId}/segment_${segmentNumber}_abc.mp4` }]
+    });
+
+    beforeEach(() => {
+      videoLibrary.saveVideo({
+        id: videoId,
+        originalName: 'talk.mp4',
+        sourcePath: 'uploads/missing.mp4',
+        metadata: { duration: 60, width: 1920, height: 1080, format: 'mp4', size: 1024 }
+      });
+      videoLibrary.saveSegments(videoId, [segment(1), segment(2)]);
+    });
+
+    it('should queue a job to render a segment with new in/out points', async () => {
+      const response = await request(app).put(`/api/videos/${videoId}/segments/2`).send({ start: 12, end: 30 });
+
+      expect(response.status).toBe(202);
+      expect(response.body.data).toMatchObject({ videoId, segmentNumber: 2 });
+      expect(response.headers.location).toBe(response.body.data.statusUrl);
+    });
+
+    it('should reject a range that ends after the video', async () => {
+      const response = await request(app).put(`/api/videos/${videoId}/segments/1`).send({ start: 50, end: 70 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain('after the end of the video');
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      const response = await request(app).put(`/api/videos/${videoId}/segments/1`).send({ start: 20, end: 10 });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should only change segments that exist', async () => {
+      const next = await request(app).put(`/api/videos/${videoId}/segments/3`).send({ start: 40, end: 50 });
+      const missing = await request(app).put(`/api/videos/${videoId}/segments/5`).send({ start: 40, end: 50 });
+
+      expect(next.status).toBe(404);
+      expect(missing.status).toBe(404);
+    });
+
+    it('should queue a job to add a segment, numbered when it runs', async () => {
+      const response = await request(app).post(`/api/videos/${videoId}/segments`).send({ start: 40, end: 50 });
+
+      expect(response.status).toBe(202);
+      expect(response.body.data).toMatchObject({ videoId });
+      expect(response.body.data).not.toHaveProperty('segmentNumber');
+      expect(response.headers.location).toBe(response.body.data.statusUrl);
+    });
+
+    it('should not expose the server path of the source', async () => {
+      const video = await request(app).get(`/api/videos/${videoId}`);
+      const list = await request(app).get('/api/videos');
+
+      expect(video.body.data).toMatchObject({ id: videoId, originalName: 'talk.mp4' });
+      expect(video.body.data).not.toHaveProperty('sourcePath');
+      expect(list.body.data.videos).toContainEqual(expect.objectContaining({ id: videoId, segmentCount: 2 }));
+      list.body.data.videos.forEach((listed: object) => expect(listed).not.toHaveProperty('sourcePath'));
+    });
+
+    it('should refuse to edit a video that is still being split', async () => {
+      videoLibrary.saveVideo({ id: 'busy-video', originalName: 'busy.mp4', sourcePath: 'uploads/busy.mp4', metadata: { duration: 60, width: 1920, height: 1080, format: 'mp4', size: 1024 } });
+
+      const response = await request(app).put('/api/videos/busy-video/segments/1').send({ start: 0, end: 10 });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should delete a segment and keep the numbers of the others', async () => {
+      const response = await request(app).delete(`/api/videos/${videoId}/segments/1`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.segments.map((s: { segmentNumber: number }) => s.segmentNumber)).toEqual([2]);
+      expect((await request(app).delete(`/api/videos/${videoId}/segments/1`)).status).toBe(404);
+    });
+
+    it('should reject an unknown stage to re-run', async () => {
+      const response = await request(app).post(`/api/videos/${videoId}/segments/1/rerun?stages=title,upscale`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain('stages must be a list of');
+    });
+
+    it('should return 404 when re-running stages of a missing segment', async () => {
+      const response = await request(app).post(`/api/videos/${videoId}/segments/3/rerun?stages=title`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should refuse to re-encode a segment whose source is gone', async () => {
+      const response = await request(app).post(`/api/videos/${videoId}/segments/1/rerun?stages=encode`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.message).toContain('no longer available');
+    });
+
+    it('should refuse to redraw the title of a segment without a render', async () => {
+      const response = await request(app).post(`/api/videos/${videoId}/segments/1/rerun?stages=title`).send({ title: 'New title' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toContain('re-run the encode stage');
+    });
+
+    it('should return 404 for the waveform of a video that is not in the library', async () => {
+      const response = await request(app).get('/api/videos/f47ac10b-58cc-4372-a567-0e02b2c3d479/waveform');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Provider cache', () => {
+    const adminAuthorization = `Bearer ${process.env.ADMIN_TOKEN}`;
+
+    it('should require the admin token', async () => {
+      const missing = await request(app).get('/api/admin/cache');
+      const wrong = await request(app).delete('/api/admin/cache').set('Authorization', 'Bearer not-the-token');
+
+      expect(missing.status).toBe(401);
+      expect(wrong.status).toBe(401);
+    });
+
+    it('should report the size of each cache', async () => {
+      const response = await request(app).get('/api/admin/cache').set('Authorization', adminAuthorization);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.caches.map((cache: { name: string }) => cache.name)).toEqual(['transcription', 'summarization']);
+    });
+
+    it('should purge a cache', async () => {
+      const response = await request(app).delete('/api/admin/cache?cache=transcription').set('Authorization', adminAuthorization);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.purged).toEqual([expect.objectContaining({ name: 'transcription' })]);
+    });
+
+    it('should reject an unknown cache', async () => {
+      const response = await request(app).delete('/api/admin/cache?cache=thumbnails').set('Authorization', adminAuthorization);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/videos/split with manual segments', () => {
+    let uploadedPath: string | undefined;
+
+    beforeEach(() => {
+      uploadedPath = undefined;
+      jest.spyOn(videoProcessor, 'getVideoMetadata').mockImplementation(async (videoPath: string) => {
+        uploadedPath = videoPath;
+        return { duration: 60, width: 1920, height: 1080, format: 'mp4', size: 1024 };
+      });
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      if (uploadedPath) {
+        await fs.rm(uploadedPath, { force: true });
+      }
+    });
+
+    const split = (segments: string) => request(app)
+      .post('/api/videos/split')
+      .field('segments', segments)
+      .attach('video', Buffer.from('video bytes'), 'talk.mp4');
+
+    it('should cut the given ranges instead of planning segments', async () => {
+      const enqueue = jest.spyOn(jobQueue, 'enqueue').mockResolvedValue({ id: 'split-job', status: 'queued' } as Job);
+
+      const response = await split(JSON.stringify([{ start: 5, end: 20.5, label: 'Intro' }, { start: 30, end: 45 }]));
+
+      expect(response.status).toBe(202);
+      expect(enqueue).toHaveBeenCalledWith('split', expect.objectContaining({
+        segments: [
+          { startTime: 5, endTime: 20.5, duration: 15.5, label: 'Intro' },
+          { startTime: 30, endTime: 45, duration: 15 }
+        ]
+      }));
+    });
+
+    it('should reject segments that are not JSON', async () => {
+      const response = await split('[{start: 5');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain('segments must be a JSON array');
+    });
+
+    it('should reject a segment that ends before it starts', async () => {
+      const response = await split(JSON.stringify([{ start: 20, end: 10 }]));
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain('Segment end must be greater than segment start');
+    });
+
+    it('should reject a segment that ends after the video and remove the upload', async () => {
+      const response = await split(JSON.stringify([{ start: 50, end: 75 }]));
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.message).toContain('Segment 1 ends at 75s, after the end of the video (60.00s)');
+      expect(uploadedPath).toBeDefined();
+      await expect(fs.access(uploadedPath as string)).rejects.toThrow();
+    });
+  });
+
+  describe('GET /api/videos/download/:filename', () => {
+    it('should return 404 for a file that is not in the video library', async () => {
+      const response = await request(app).get('/api/videos/download/segment_1_unknown.mp4');
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should serve files of segments processed before the library existed', async () => {
+      const videoDir = path.join('processed', 'legacy-test-video');
+      await fs.mkdir(videoDir, { recursive: true });
+      await fs.writeFile(path.join(videoDir, 'segment_1_legacy.mp4'), 'video bytes');
+
+      try {
+        const response = await request(app).get('/api/videos/download/segment_1_legacy.mp4');
+
+        expect(response.status).toBe(200);
+        expect(response.body.toString()).toBe('video bytes');
+      } finally {
+        await fs.rm(videoDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('POST /api/google-drive/upload-segment', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+      jest.restoreAllMocks();
+    });
+
+    it('should upload segments processed before the library existed, with their sidecars', async () => {
+      process.env.GOOGLE_DRIVE_CLIENT_ID = 'client-id';
+      process.env.GOOGLE_DRIVE_CLIENT_SECRET = 'client-secret';
+      const videoDir = path.join('processed', 'legacy-drive-video');
+      await fs.mkdir(videoDir, { recursive: true });
+      await fs.writeFile(path.join(videoDir, 'segment_1_legacy.mp4'), 'video bytes');
+      await fs.writeFile(path.join(videoDir, 'segment_1_legacy_summary.txt'), 'A summary');
+      jest.spyOn(googleDriveService, 'getVideoFolder').mockResolvedValue('folder-1');
+      const uploadFile = jest.spyOn(googleDriveService, 'uploadFile').mockImplementation(async (_filePath, name) => ({
+        fileId: name, webViewLink: '', webContentLink: '', name, mimeType: '', size: '0'
+      }));
+      const recordUploadDestination = jest.spyOn(videoLibrary, 'recordUploadDestination');
+
+      try {
+        const response = await request(app)
+          .post('/api/google-drive/upload-segment')
+          .send({ segmentPath: 'segment_1_legacy.mp4', makePublic: false });
+
+        expect(response.status).toBe(200);
+        expect(uploadFile.mock.calls.map(call => call[1])).toEqual(['segment_1_legacy.mp4', 'segment_1_legacy_summary.txt']);
+        expect(recordUploadDestination).not.toHaveBeenCalled();
+      } finally {
+        await fs.rm(videoDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should return 404 for an unknown segment', async () => {
+      process.env.GOOGLE_DRIVE_CLIENT_ID = 'client-id';
+      process.env.GOOGLE_DRIVE_CLIENT_SECRET = 'client-secret';
+
+      const response = await request(app)
+        .post('/api/google-drive/upload-segment')
+        .send({ segmentPath: 'segment_9_missing.mp4' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle 404 routes', async () => {
       const response = await request(app).get('/api/nonexistent');
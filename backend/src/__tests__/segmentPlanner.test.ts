@@ -0,0 +1,286 @@
+import {
+  buildHighlightWindows,
+  groupIntoUtterances,
+  planSegmentsFromBoundaries,
+  planSegmentsFromSilences,
+  planSegments,
+  planSegmentsFromUtterances,
+  selectTopWindows
+} from '../utils/segmentPlanner';
+import { transcriptionService } from '../services/transcriptionService';
+import { summarizationService } from '../services/summarizationService';
+import * as videoProcessor from '../utils/videoProcessor';
+
+describe('Segment Planner', () => {
+  describe('planSegmentsFromBoundaries', () => {
+    it('should start and end every segment on a boundary', () => {
+      const cuts = [4, 9, 15, 31];
+      const segments = planSegmentsFromBoundaries(cuts, 40, 5, 5, 20);
+      const points = [0, ...cuts, 40];
+
+      expect(segments.length).toBeGreaterThan(0);
+      segments.forEach(segment => {
+        expect(points).toContain(segment.startTime);
+        expect(points).toContain(segment.endTime);
+      });
+    });
+
+    it('should respect min and max segment duration', () => {
+      const segments = planSegmentsFromBoundaries([2, 6, 11, 18, 30, 33, 47], 60, 10, 5, 15);
+
+      segments.forEach(segment => {
+        expect(segment.duration).toBeGreaterThanOrEqual(5);
+        expect(segment.duration).toBeLessThanOrEqual(15);
+      });
+    });
+
+    it('should not return overlapping segments', () => {
+      const segments = planSegmentsFromBoundaries([3, 7, 12, 20, 26, 35, 41, 50], 60, 10, 5, 20);
+
+      for (let i = 1; i < segments.length; i++) {
+        expect(segments[i].startTime).toBeGreaterThanOrEqual(segments[i - 1].endTime);
+      }
+    });
+
+    it('should limit results to the requested segment count', () => {
+      const cuts = Array.from({ length: 30 }, (_, i) => (i + 1) * 6);
+      const segments = planSegmentsFromBoundaries(cuts, 186, 3, 5, 10);
+
+      expect(segments.length).toBe(3);
+    });
+
+    it('should return empty array when no shots fit the constraints', () => {
+      const segments = planSegmentsFromBoundaries([], 120, 5, 5, 30);
+
+      expect(segments).toEqual([]);
+    });
+
+    it('should ignore boundaries outside the video duration', () => {
+      const segments = planSegmentsFromBoundaries([-1, 10, 200], 20, 5, 5, 15);
+
+      expect(segments).toEqual([
+        { startTime: 0, endTime: 10, duration: 10 },
+        { startTime: 10, endTime: 20, duration: 10 }
+      ]);
+    });
+  });
+
+  describe('groupIntoUtterances', () => {
+    it('should merge word-level segments into sentences', () => {
+      const utterances = groupIntoUtterances([
+        { start: 0, end: 0.3, text: 'Hello' },
+        { start: 0.35, end: 0.7, text: 'there.' },
+        { start: 0.9, end: 1.2, text: 'How' },
+        { start: 1.25, end: 1.4, text: 'are' },
+        { start: 1.45, end: 1.8, text: 'you?' }
+      ]);
+
+      expect(utterances).toEqual([
+        { start: 0, end: 0.7, text: 'Hello there.' },
+        { start: 0.9, end: 1.8, text: 'How are you?' }
+      ]);
+    });
+
+    it('should treat long pauses as sentence breaks', () => {
+      const utterances = groupIntoUtterances([
+        { start: 0, end: 1, text: 'no punctuation here' },
+        { start: 3, end: 4, text: 'or here' }
+      ]);
+
+      expect(utterances.length).toBe(2);
+    });
+
+    it('should return empty array when there are no segments', () => {
+      expect(groupIntoUtterances(undefined)).toEqual([]);
+    });
+  });
+
+  describe('planSegmentsFromUtterances', () => {
+    const utterances = [
+      { start: 0.5, end: 4, text: 'One.' },
+      { start: 4.5, end: 9, text: 'Two.' },
+      { start: 10, end: 14, text: 'Three.' },
+      { start: 15, end: 40, text: 'A very long monologue.' },
+      { start: 41, end: 47, text: 'Four.' }
+    ];
+
+    it('should start and end every segment on an utterance boundary', () => {
+      const segments = planSegmentsFromUtterances(utterances, 5, 5, 15);
+
+      segments.forEach(segment => {
+        expect(utterances.map(u => u.start)).toContain(segment.startTime);
+        expect(utterances.map(u => u.end)).toContain(segment.endTime);
+      });
+    });
+
+    it('should skip utterances longer than the maximum duration', () => {
+      const segments = planSegmentsFromUtterances(utterances, 5, 5, 15);
+
+      expect(segments).toEqual([
+        { startTime: 0.5, endTime: 14, duration: 13.5 },
+        { startTime: 41, endTime: 47, duration: 6 }
+      ]);
+    });
+  });
+
+  describe('buildHighlightWindows', () => {
+    it('should build one window per fitting start utterance with its text', () => {
+      const windows = buildHighlightWindows([
+        { start: 0, end: 3, text: 'One.' },
+        { start: 3.5, end: 7, text: 'Two.' },
+        { start: 8, end: 12, text: 'Three.' }
+      ], 5, 10);
+
+      expect(windows).toEqual([
+        { startTime: 0, endTime: 7, duration: 7, text: 'One. Two.' },
+        { startTime: 3.5, endTime: 12, duration: 8.5, text: 'Two. Three.' }
+      ]);
+    });
+  });
+
+  describe('selectTopWindows', () => {
+    it('should keep the best non-overlapping windows sorted by start time', () => {
+      const selected = selectTopWindows([
+        { startTime: 0, endTime: 10, duration: 10, score: 6 },
+        { startTime: 5, endTime: 15, duration: 10, score: 9 },
+        { startTime: 20, endTime: 30, duration: 10, score: 7 },
+        { startTime: 25, endTime: 35, duration: 10, score: 2 }
+      ], 5);
+
+      expect(selected.map(window => window.score)).toEqual([9, 7]);
+      expect(selected[0].startTime).toBeLessThan(selected[1].startTime);
+    });
+
+    it('should limit results to the requested segment count', () => {
+      const windows = Array.from({ length: 10 }, (_, i) => ({
+        startTime: i * 10,
+        endTime: i * 10 + 5,
+        duration: 5,
+        score: i
+      }));
+
+      expect(selectTopWindows(windows, 3).map(window => window.score)).toEqual([7, 8, 9]);
+    });
+  });
+
+  describe('planSegmentsFromSilences', () => {
+    const analysis = {
+      silences: [
+        { start: 9.5, end: 10.5 },
+        { start: 19.5, end: 20.5 },
+        { start: 29.5, end: 30.5 }
+      ],
+      loudness: [
+        ...Array.from({ length: 100 }, (_, i) => ({ time: i * 0.1, shortTerm: -30 })),
+        ...Array.from({ length: 100 }, (_, i) => ({ time: 10 + i * 0.1, shortTerm: -14 })),
+        ...Array.from({ length: 100 }, (_, i) => ({ time: 20 + i * 0.1, shortTerm: -Infinity })),
+        ...Array.from({ length: 100 }, (_, i) => ({ time: 30 + i * 0.1, shortTerm: -20 }))
+      ]
+    };
+
+    it('should place boundaries in the middle of pauses', () => {
+      const segments = planSegmentsFromSilences(analysis, 40, 5, 5, 10);
+      const points = [0, 10, 20, 30, 40];
+
+      segments.forEach(segment => {
+        expect(points).toContain(segment.startTime);
+        expect(points).toContain(segment.endTime);
+      });
+    });
+
+    it('should prefer windows with higher speech energy', () => {
+      const segments = planSegmentsFromSilences(analysis, 40, 2, 5, 10);
+
+      expect(segments).toEqual([
+        { startTime: 10, endTime: 20, duration: 10 },
+        { startTime: 30, endTime: 40, duration: 10 }
+      ]);
+    });
+
+    it('should rank windows the same whatever order the samples come in', () => {
+      const shuffled = { ...analysis, loudness: [...analysis.loudness].reverse() };
+
+      expect(planSegmentsFromSilences(shuffled, 40, 2, 5, 10)).toEqual(planSegmentsFromSilences(analysis, 40, 2, 5, 10));
+    });
+
+    it('should return empty array when no pauses fit the constraints', () => {
+      const segments = planSegmentsFromSilences({ silences: [], loudness: [] }, 120, 5, 5, 30);
+
+      expect(segments).toEqual([]);
+    });
+  });
+
+  describe('planSegments', () => {
+    const metadata = { duration: 120, width: 1920, height: 1080, format: 'mp4', size: 50000000 };
+    const options = { segmentCount: 3, minSegmentDuration: 10, maxSegmentDuration: 20, seed: 42 };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should fall back to random segments when the source cannot be transcribed', async () => {
+      jest.spyOn(transcriptionService, 'transcribe').mockRejectedValue(new Error('Maximum content size limit (26214400) exceeded'));
+
+      const segments = await planSegments('transcript', 'video.mp4', metadata, options);
+
+      expect(segments).toHaveLength(3);
+      segments.forEach(segment => {
+        expect(segment.endTime - segment.startTime).toBeGreaterThanOrEqual(10);
+        expect(segment.endTime - segment.startTime).toBeLessThanOrEqual(20);
+      });
+    });
+
+    it('should hand the source transcription, with words, over for the split to reuse', async () => {
+      const transcription = {
+        text: 'Hello there.',
+        duration: 120,
+        segments: [{ start: 0, end: 15, text: 'Hello there.' }],
+        words: [{ start: 0, end: 1, text: 'Hello' }, { start: 1, end: 15, text: 'there.' }]
+      };
+      const transcribe = jest.spyOn(transcriptionService, 'transcribe').mockResolvedValue(transcription);
+      const onTranscription = jest.fn();
+
+      await planSegments('transcript', 'video.mp4', metadata, { ...options, onTranscription });
+
+      expect(transcribe).toHaveBeenCalledWith('video.mp4', expect.objectContaining({ wordTimestamps: true }));
+      expect(onTranscription).toHaveBeenCalledWith(transcription);
+    });
+
+    it('should cut between the transcribed sentences when highlight scoring fails', async () => {
+      const sentences = Array.from({ length: 8 }, (_, i) => ({ start: i * 12, end: i * 12 + 12, text: `Sentence ${i}.` }));
+      jest.spyOn(transcriptionService, 'transcribe').mockResolvedValue({ text: '', duration: 120, segments: sentences });
+      jest.spyOn(summarizationService, 'isAvailable').mockReturnValue(true);
+      const score = jest.spyOn(summarizationService, 'scoreHighlightCandidates').mockRejectedValue(new Error('No scores generated'));
+
+      const segments = await planSegments('highlights', 'video.mp4', metadata, options);
+
+      expect(score).toHaveBeenCalled();
+      expect(segments.length).toBeGreaterThan(0);
+      segments.forEach(segment => {
+        expect(sentences.map(sentence => sentence.start)).toContain(segment.startTime);
+        expect(segment.score).toBeUndefined();
+      });
+    });
+
+    it('should fall back to random segments when the source has no audio track', async () => {
+      jest.spyOn(videoProcessor, 'analyzeAudio').mockRejectedValue(new Error('Failed to analyze audio: Output file #0 does not contain any stream'));
+
+      const segments = await planSegments('silence', 'video.mp4', metadata, options);
+
+      expect(segments).toHaveLength(3);
+      segments.forEach(segment => {
+        expect(segment.endTime - segment.startTime).toBeGreaterThanOrEqual(10);
+        expect(segment.endTime - segment.startTime).toBeLessThanOrEqual(20);
+      });
+    });
+
+    it('should not fall back when the job was cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      jest.spyOn(transcriptionService, 'transcribe').mockRejectedValue(new Error('Request aborted'));
+
+      await expect(planSegments('transcript', 'video.mp4', metadata, { ...options, signal: controller.signal }))
+        .rejects.toThrow('Request aborted');
+    });
+  });
+});
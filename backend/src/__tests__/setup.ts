@@ -1,9 +1,18 @@
 // Test setup file for backend tests
 import { jest } from '@jest/globals';
+import os from 'os';
+import path from 'path';
 
 // Increase timeout for integration tests
 jest.setTimeout(30000);
 
+// Keep the video library in memory instead of writing data/divideit.db
+process.env.DATABASE_PATH = ':memory:';
+// Keep cached provider results out of the working tree
+process.env.CACHE_DIR = path.join(os.tmpdir(), 'divideit-test-cache');
+// Mount the admin endpoints
+process.env.ADMIN_TOKEN = 'test-admin-token';
+
 // Mock logger to avoid console noise during tests
 jest.mock('../utils/logger', () => ({
   logger: {
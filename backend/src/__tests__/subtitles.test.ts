@@ -0,0 +1,87 @@
+import { buildSubtitleCues, formatSubtitleTimestamp, renderSubtitles } from '../utils/subtitles';
+
+const piece = (text: string, start: number, end: number) => ({ text, start, end });
+
+describe('Subtitles', () => {
+  describe('buildSubtitleCues', () => {
+    it('should merge words into one cue until the sentence ends', () => {
+      const cues = buildSubtitleCues([
+        piece('Hello', 0, 0.4),
+        piece('world.', 0.5, 1),
+        piece('Next', 1.2, 1.5),
+        piece('one', 1.5, 1.8)
+      ]);
+
+      expect(cues).toEqual([
+        { start: 0, end: 1, text: 'Hello world.' },
+        { start: 1.2, end: 1.8, text: 'Next one' }
+      ]);
+    });
+
+    it('should re-base times so the offset becomes zero', () => {
+      const cues = buildSubtitleCues([piece('Hello', 12, 12.4), piece('world.', 12.5, 13)], 10);
+
+      expect(cues).toEqual([{ start: 2, end: 3, text: 'Hello world.' }]);
+    });
+
+    it('should drop and clip pieces outside the segment', () => {
+      const cues = buildSubtitleCues([
+        piece('before.', 8, 9),
+        piece('straddles.', 9.5, 10.5),
+        piece('inside.', 12, 13),
+        piece('tail.', 14.5, 16),
+        piece('after.', 16, 17)
+      ], 10, 5);
+
+      expect(cues).toEqual([
+        { start: 0, end: 0.5, text: 'straddles.' },
+        { start: 2, end: 3, text: 'inside.' },
+        { start: 4.5, end: 5, text: 'tail.' }
+      ]);
+    });
+
+    it('should start a new cue after a long pause', () => {
+      const cues = buildSubtitleCues([piece('so', 0, 0.2), piece('anyway', 2, 2.4)]);
+
+      expect(cues.map(cue => cue.text)).toEqual(['so', 'anyway']);
+    });
+
+    it('should keep cues under seven seconds', () => {
+      const words = Array.from({ length: 20 }, (_, i) => piece('la', i * 0.5, i * 0.5 + 0.4));
+      const cues = buildSubtitleCues(words);
+
+      expect(cues.length).toBeGreaterThan(1);
+      cues.forEach(cue => expect(cue.end - cue.start).toBeLessThanOrEqual(7));
+    });
+  });
+
+  describe('formatSubtitleTimestamp', () => {
+    it('should use a comma for SRT and a dot for VTT', () => {
+      expect(formatSubtitleTimestamp(3723.5, 'srt')).toBe('01:02:03,500');
+      expect(formatSubtitleTimestamp(3723.5, 'vtt')).toBe('01:02:03.500');
+    });
+
+    it('should clamp negative times to zero', () => {
+      expect(formatSubtitleTimestamp(-1, 'srt')).toBe('00:00:00,000');
+    });
+  });
+
+  describe('renderSubtitles', () => {
+    const cues = [
+      { start: 0, end: 1.25, text: 'Hello world.' },
+      { start: 2, end: 3, text: 'Bye.' }
+    ];
+
+    it('should number SRT cues', () => {
+      expect(renderSubtitles(cues, 'srt')).toBe(
+        '1\n00:00:00,000 --> 00:00:01,250\nHello world.\n\n2\n00:00:02,000 --> 00:00:03,000\nBye.\n'
+      );
+    });
+
+    it('should start VTT files with the WEBVTT header', () => {
+      expect(renderSubtitles(cues, 'vtt')).toBe(
+        'WEBVTT\n\n00:00:00.000 --> 00:00:01.250\nHello world.\n\n00:00:02.000 --> 00:00:03.000\nBye.\n'
+      );
+    });
+  });
+});
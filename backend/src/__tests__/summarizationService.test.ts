@@ -0,0 +1,41 @@
+import axios from 'axios';
+import { contentCache } from '../services/contentCache';
+import { summarizationService } from '../services/summarizationService';
+
+const reply = (content: string) => ({ data: { choices: [{ message: { content } }] } });
+
+describe('SummarizationService', () => {
+  const env = { ...process.env };
+
+  beforeEach(async () => {
+    process.env.OPENAI_API_KEY = 'test-key';
+    await contentCache.purge('summarization');
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  describe('scoreHighlightCandidates', () => {
+    const candidates = [{ id: 0, text: 'You will not believe what happened next.' }];
+
+    it('should not cache a reply without scores', async () => {
+      const post = jest.spyOn(axios, 'post')
+        .mockResolvedValueOnce(reply('Sorry, I cannot rate these excerpts.'))
+        .mockResolvedValueOnce(reply('[{"id": 0, "score": 8, "rationale": "Strong hook"}]'));
+
+      await expect(summarizationService.scoreHighlightCandidates(candidates)).rejects.toThrow('No scores generated');
+      const scores = await summarizationService.scoreHighlightCandidates(candidates);
+
+      expect(post).toHaveBeenCalledTimes(2);
+      expect(scores).toEqual([{ id: 0, score: 8, rationale: 'Strong hook' }]);
+    });
+
+    it('should reject scores of another shape', async () => {
+      jest.spyOn(axios, 'post').mockResolvedValue(reply('[{"id": "first", "score": 8}]'));
+
+      await expect(summarizationService.scoreHighlightCandidates(candidates)).rejects.toThrow('Unexpected scores from OpenAI: 0.id');
+    });
+  });
+});
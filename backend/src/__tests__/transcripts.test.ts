@@ -0,0 +1,55 @@
+import { sliceTranscription } from '../utils/transcripts';
+
+const piece = (text: string, start: number, end: number) => ({ text, start, end });
+
+describe('Transcripts', () => {
+  describe('sliceTranscription', () => {
+    const source = {
+      text: 'Welcome back. Today we talk about pricing. Thanks for watching.',
+      language: 'en',
+      segments: [
+        piece(' Welcome back.', 0, 2),
+        piece(' Today we talk about pricing.', 2.5, 6),
+        piece(' Thanks for watching.', 8, 10)
+      ],
+      words: [
+        piece('Welcome', 0, 0.8), piece('back', 0.9, 2),
+        piece('Today', 2.5, 3), piece('we', 3.1, 3.4), piece('talk', 3.5, 4), piece('about', 4.1, 4.6), piece('pricing', 4.7, 6),
+        piece('Thanks', 8, 8.6), piece('for', 8.7, 9), piece('watching', 9.1, 10)
+      ],
+      duration: 10
+    };
+
+    it('should keep the text of provider segments inside the range', () => {
+      const slice = sliceTranscription(source, 2, 10);
+
+      expect(slice?.text).toBe('Today we talk about pricing. Thanks for watching.');
+      expect(slice?.language).toBe('en');
+      expect(slice?.duration).toBe(8);
+    });
+
+    it('should cut a straddling segment at the words and re-base times', () => {
+      const slice = sliceTranscription(source, 3.45, 8.8);
+
+      expect(slice?.text).toBe('talk about pricing Thanks');
+      expect(slice?.words).toEqual([
+        piece('talk', 0.05, 0.55),
+        piece('about', 0.65, 1.15),
+        piece('pricing', 1.25, 2.55),
+        piece('Thanks', 4.55, 5.15)
+      ]);
+      expect(slice?.segments).toEqual([piece(' Today we talk about pricing.', 0, 2.55)]);
+    });
+
+    it('should use the segments alone when the provider returned no words', () => {
+      const slice = sliceTranscription({ ...source, words: undefined }, 3, 10);
+
+      expect(slice?.text).toBe('Today we talk about pricing. Thanks for watching.');
+      expect(slice?.words).toBeUndefined();
+    });
+
+    it('should return undefined when the source has no timings', () => {
+      expect(sliceTranscription({ text: 'Untimed text', duration: 10 }, 0, 5)).toBeUndefined();
+    });
+  });
+});
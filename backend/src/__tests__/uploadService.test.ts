@@ -0,0 +1,113 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { UploadService } from '../services/uploadService';
+
+describe('UploadService', () => {
+  let uploadDir: string;
+
+  beforeEach(async () => {
+    uploadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'uploads-'));
+  });
+
+  afterEach(async () => {
+    delete process.env.MAX_UPLOAD_SIZE;
+    delete process.env.MAX_PENDING_UPLOAD_BYTES;
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  });
+
+  it('should assemble the chunks into the final file', async () => {
+    const service = new UploadService(uploadDir);
+    const upload = await service.create('clip.mp4', 10);
+
+    const first = await service.appendChunk(upload.id, 0, Readable.from([Buffer.from('hello')]));
+    expect(first).toMatchObject({ offset: 5, complete: false });
+
+    const last = await service.appendChunk(upload.id, 5, Readable.from([Buffer.from('world')]));
+    expect(last).toMatchObject({ offset: 10, complete: true });
+
+    const file = await service.claim(upload.id);
+    expect(file).toEqual({ path: path.join(uploadDir, `${upload.id}.mp4`), filename: 'clip.mp4', size: 10 });
+    expect(await fs.readFile(file.path, 'utf-8')).toBe('helloworld');
+    await expect(service.get(upload.id)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('should resume from the bytes received so far', async () => {
+    const service = new UploadService(uploadDir);
+    const upload = await service.create('clip.mov', 6);
+    await service.appendChunk(upload.id, 0, Readable.from([Buffer.from('abc')]));
+
+    // A new instance stands in for a restarted backend
+    const resumed = await new UploadService(uploadDir).get(upload.id);
+    expect(resumed.offset).toBe(3);
+  });
+
+  it('should reject a chunk at the wrong offset', async () => {
+    const service = new UploadService(uploadDir);
+    const upload = await service.create('clip.mp4', 6);
+    await service.appendChunk(upload.id, 0, Readable.from([Buffer.from('abc')]));
+
+    await expect(service.appendChunk(upload.id, 0, Readable.from([Buffer.from('abc')])))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect((await service.get(upload.id)).offset).toBe(3);
+  });
+
+  it('should reject a chunk past the declared size', async () => {
+    const service = new UploadService(uploadDir);
+    const upload = await service.create('clip.mp4', 4);
+
+    await expect(service.appendChunk(upload.id, 0, Readable.from([Buffer.from('too long')])))
+      .rejects.toMatchObject({ statusCode: 413 });
+  });
+
+  it('should refuse files over MAX_UPLOAD_SIZE', async () => {
+    process.env.MAX_UPLOAD_SIZE = '1024';
+    const service = new UploadService(uploadDir);
+
+    await expect(service.create('clip.mp4', 2048)).rejects.toMatchObject({ statusCode: 413 });
+  });
+
+  it('should refuse uploads once the pending ones reach MAX_PENDING_UPLOAD_BYTES', async () => {
+    process.env.MAX_PENDING_UPLOAD_BYTES = '15';
+    const service = new UploadService(uploadDir);
+    await service.create('first.mp4', 10);
+
+    await expect(service.create('second.mp4', 10)).rejects.toMatchObject({ statusCode: 507 });
+    await expect(service.create('third.mp4', 5)).resolves.toMatchObject({ size: 5 });
+  });
+
+  it('should delete uploads without activity for UPLOAD_TTL_HOURS', async () => {
+    const service = new UploadService(uploadDir);
+    const stale = await service.create('stale.mp4', 10);
+    const active = await service.create('active.mp4', 10);
+    await service.appendChunk(active.id, 0, Readable.from([Buffer.from('abc')]));
+    // The stale upload's last chunk was written two days ago
+    const twoDaysAgo = new Date(Date.now() - 48 * 60 * 60 * 1000);
+    await fs.writeFile(path.join(uploadDir, `${stale.id}.json`), JSON.stringify({ ...stale, createdAt: twoDaysAgo.toISOString() }));
+    await fs.utimes(path.join(uploadDir, `${stale.id}.part`), twoDaysAgo, twoDaysAgo);
+
+    expect(await service.sweepStale()).toBe(1);
+    await expect(service.get(stale.id)).rejects.toMatchObject({ statusCode: 404 });
+    expect(await fs.readdir(uploadDir)).not.toContain(`${stale.id}.part`);
+    expect((await service.get(active.id)).offset).toBe(3);
+  });
+
+  it('should refuse to claim an incomplete upload', async () => {
+    const service = new UploadService(uploadDir);
+    const upload = await service.create('clip.mp4', 4);
+
+    await expect(service.claim(upload.id)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should hand a completed upload to a single caller', async () => {
+    const service = new UploadService(uploadDir);
+    const upload = await service.create('clip.mp4', 4);
+    await service.appendChunk(upload.id, 0, Readable.from([Buffer.from('clip')]));
+
+    const [first, second] = await Promise.allSettled([service.claim(upload.id), service.claim(upload.id)]);
+
+    expect(first).toMatchObject({ status: 'fulfilled', value: { filename: 'clip.mp4', size: 4 } });
+    expect(second).toMatchObject({ status: 'rejected', reason: { statusCode: 409 } });
+  });
+});
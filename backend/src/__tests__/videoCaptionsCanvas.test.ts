@@ -0,0 +1,77 @@
+import { buildCaptionTimeline, groupWordsIntoCaptionLines } from '../utils/videoCaptionsCanvas';
+
+const word = (text: string, start: number, end: number) => ({ text, start, end });
+
+describe('Video Captions', () => {
+  describe('groupWordsIntoCaptionLines', () => {
+    it('should put at most four words on a line', () => {
+      const words = ['one', 'two', 'three', 'four', 'five', 'six'].map((text, i) => word(text, i * 0.3, i * 0.3 + 0.25));
+      const lines = groupWordsIntoCaptionLines(words);
+
+      expect(lines.map(line => line.words.length)).toEqual([4, 2]);
+    });
+
+    it('should break at the end of a sentence once a line has two words', () => {
+      const lines = groupWordsIntoCaptionLines([
+        word('Hi.', 0, 0.2),
+        word('Thanks', 0.3, 0.5),
+        word('everyone.', 0.5, 0.9),
+        word('Today', 1, 1.2),
+        word('we', 1.2, 1.3)
+      ]);
+
+      expect(lines.map(line => line.words.map(w => w.text).join(' '))).toEqual([
+        'Hi. Thanks everyone.',
+        'Today we'
+      ]);
+    });
+
+    it('should always break at a long pause', () => {
+      const lines = groupWordsIntoCaptionLines([
+        word('before', 0, 0.4),
+        word('after', 2, 2.4)
+      ]);
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toEqual({ start: 0, end: 0.4, words: [word('before', 0, 0.4)] });
+    });
+
+    it('should skip empty words', () => {
+      expect(groupWordsIntoCaptionLines([word(' ', 0, 0.1)])).toEqual([]);
+    });
+  });
+
+  describe('buildCaptionTimeline', () => {
+    const lines = groupWordsIntoCaptionLines([
+      word('Hello', 1, 1.4),
+      word('there', 1.5, 2)
+    ]);
+
+    it('should cover the whole video with contiguous frames', () => {
+      const frames = buildCaptionTimeline(lines, 5);
+
+      expect(frames[0].start).toBe(0);
+      expect(frames[frames.length - 1].end).toBe(5);
+      for (let i = 1; i < frames.length; i++) {
+        expect(frames[i].start).toBe(frames[i - 1].end);
+      }
+    });
+
+    it('should highlight each word from its start until the next word starts', () => {
+      const frames = buildCaptionTimeline(lines, 5);
+
+      expect(frames).toEqual([
+        { start: 0, end: 1, line: null, activeWord: 0 },
+        { start: 1, end: 1.5, line: 0, activeWord: 0 },
+        { start: 1.5, end: 2.5, line: 0, activeWord: 1 },
+        { start: 2.5, end: 5, line: null, activeWord: 0 }
+      ]);
+    });
+
+    it('should not extend past the video duration', () => {
+      const frames = buildCaptionTimeline(lines, 1.8);
+
+      expect(frames[frames.length - 1]).toEqual({ start: 1.5, end: 1.8, line: 0, activeWord: 1 });
+    });
+  });
+});
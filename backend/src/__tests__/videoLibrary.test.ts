@@ -0,0 +1,225 @@
+import Database from 'better-sqlite3';
+import { runMigrations } from '../db/database';
+import { MIGRATIONS } from '../db/migrations';
+import { NewSegment, VideoLibrary } from '../services/videoLibrary';
+
+const metadata = { duration: 60, width: 1920, height: 1080, format: 'mp4', size: 1024 };
+
+const segment = (segmentNumber: number): NewSegment => ({
+  segmentNumber,
+  startTime: (segmentNumber - 1) * 10,
+  endTime: segmentNumber * 10,
+  duration: 10,
+  renders: [
+    {
+      format: '9:16',
+      width: 1080,
+      height: 1920,
+      outputPath: `processed/video-1/segment_${segmentNumber}_abc.mp4`
+    },
+    {
+      format: '1:1',
+      width: 1080,
+      height: 1080,
+      outputPath: `processed/video-1/segment_${segmentNumber}_abc_1x1.mp4`
+    }
+  ]
+});
+
+describe('runMigrations', () => {
+  it('should apply each migration once', () => {
+    const db = new Database(':memory:');
+
+    expect(runMigrations(db)).toBe(MIGRATIONS.length);
+    expect(runMigrations(db)).toBe(0);
+
+    const versions = db.prepare('SELECT version FROM schema_migrations').all();
+    expect(versions).toHaveLength(MIGRATIONS.length);
+    db.close();
+  });
+
+  it('should roll back a migration that fails', () => {
+    const db = new Database(':memory:');
+    const broken = { version: 99, name: 'broken', up: 'CREATE TABLE half_done (id INTEGER); NOT SQL;' };
+
+    expect(() => runMigrations(db, [broken])).toThrow();
+    expect(db.prepare(`SELECT name FROM sqlite_master WHERE name = 'half_done'`).get()).toBeUndefined();
+    db.close();
+  });
+});
+
+describe('VideoLibrary', () => {
+  let library: VideoLibrary;
+
+  beforeEach(() => {
+    library = new VideoLibrary(':memory:');
+    library.saveVideo({ id: 'video-1', originalName: 'talk.mp4', sourcePath: 'uploads/talk.mp4', metadata, formats: ['9:16', '1:1'] });
+  });
+
+  afterEach(() => {
+    library.close();
+  });
+
+  it('should record a video as processing until its segments are saved', () => {
+    expect(library.getVideo('video-1')).toMatchObject({ status: 'processing', metadata, formats: ['9:16', '1:1'] });
+
+    library.saveSegments('video-1', [segment(1), segment(2)]);
+
+    expect(library.getVideo('video-1')?.status).toBe('ready');
+    const segments = library.getSegments('video-1');
+    expect(segments.map(s => s.segmentNumber)).toEqual([1, 2]);
+    expect(segments[0].renders[0]).toMatchObject({ format: '9:16', primary: true, filename: 'segment_1_abc.mp4' });
+  });
+
+  it('should find renders and text files by file name', () => {
+    library.saveSegments('video-1', [segment(1)]);
+    library.saveSummary('video-1', 1, { text: 'A summary', path: 'processed/video-1/segment_1_abc_summary.txt' });
+
+    expect(library.findFile('segment_1_abc_1x1.mp4')).toEqual({
+      videoId: 'video-1',
+      segmentNumber: 1,
+      kind: 'render',
+      path: 'processed/video-1/segment_1_abc_1x1.mp4'
+    });
+    expect(library.findFile('segment_1_abc_summary.txt')).toMatchObject({ kind: 'summary' });
+    expect(library.findFile('missing.mp4')).toBeUndefined();
+    expect(library.getSegment('video-1', 1)?.summary).toEqual({ text: 'A summary' });
+  });
+
+  it('should record transcripts with their caption files', () => {
+    library.saveSegments('video-1', [segment(1)]);
+    library.saveTranscript('video-1', 1, {
+      text: 'Hello',
+      language: 'en',
+      path: 'processed/video-1/segment_1_abc_transcription.txt',
+      timingsPath: 'processed/video-1/segment_1_abc_timings.json',
+      subtitlePaths: { srt: 'processed/video-1/segment_1_abc.srt', vtt: 'processed/video-1/segment_1_abc.vtt' }
+    });
+
+    const recorded = library.getSegment('video-1', 1);
+    expect(recorded?.transcript).toEqual({ text: 'Hello', language: 'en' });
+    expect(recorded?.files).toMatchObject({
+      srt: 'processed/video-1/segment_1_abc.srt',
+      vtt: 'processed/video-1/segment_1_abc.vtt',
+      timings: 'processed/video-1/segment_1_abc_timings.json'
+    });
+  });
+
+  it('should record upload destinations', () => {
+    library.saveSegments('video-1', [segment(1)]);
+    library.recordUploadDestination('video-1', 1, { filename: 'segment_1_abc.mp4', provider: 'google-drive', remoteId: 'drive-1' });
+
+    expect(library.getSegment('video-1', 1)?.destinations).toEqual([
+      expect.objectContaining({ filename: 'segment_1_abc.mp4', provider: 'google-drive', remoteId: 'drive-1' })
+    ]);
+  });
+
+  it('should forget the segments of a deleted video', () => {
+    library.saveSegments('video-1', [segment(1)]);
+
+    expect(library.deleteVideo('video-1')).toBe(true);
+    expect(library.getVideo('video-1')).toBeUndefined();
+    expect(library.findFile('segment_1_abc.mp4')).toBeUndefined();
+  });
+
+  it('should replace one segment and leave the others alone', () => {
+    library.saveSegments('video-1', [segment(1), segment(2)]);
+    library.saveTranscript('video-1', 1, { text: 'Old words', path: 'processed/video-1/segment_1_abc.txt' });
+    library.saveTranscript('video-1', 2, { text: 'Kept words', path: 'processed/video-1/segment_2_abc.txt' });
+
+    library.saveSegment('video-1', { ...segment(1), startTime: 2, endTime: 8, duration: 6 });
+
+    expect(library.getSegment('video-1', 1)).toMatchObject({ startTime: 2, endTime: 8 });
+    expect(library.getSegment('video-1', 1)?.transcript).toBeUndefined();
+    expect(library.getSegment('video-1', 2)?.transcript).toEqual({ text: 'Kept words' });
+    expect(library.search('old')).toEqual([]);
+  });
+
+  it('should add and delete single segments', () => {
+    library.saveSegments('video-1', [segment(1)]);
+
+    library.saveSegment('video-1', segment(2));
+    expect(library.deleteSegment('video-1', 1)).toBe(true);
+    expect(library.deleteSegment('video-1', 1)).toBe(false);
+
+    expect(library.getSegments('video-1').map(s => s.segmentNumber)).toEqual([2]);
+  });
+
+  it('should not give out the number of a deleted segment again', () => {
+    library.saveSegments('video-1', [segment(1), segment(2)]);
+    library.deleteSegment('video-1', 2);
+
+    expect(library.allocateSegmentNumber('video-1')).toBe(3);
+    expect(library.allocateSegmentNumber('video-1')).toBe(4);
+    expect(() => library.allocateSegmentNumber('video-2')).toThrow('not in the library');
+  });
+
+  it('should refuse segments for a video it does not know', () => {
+    expect(() => library.saveSegments('video-2', [segment(1)])).toThrow('not in the library');
+  });
+
+  describe('listVideos', () => {
+    beforeEach(() => {
+      library.saveSegments('video-1', [segment(1)]);
+      library.saveVideo({ id: 'video-2', originalName: 'Interview.mov', sourcePath: 'uploads/interview.mov', metadata: { ...metadata, duration: 300 } });
+      library.recordUploadDestination('video-1', 1, { filename: 'segment_1_abc.mp4', provider: 'google-drive', remoteId: 'drive-1' });
+    });
+
+    it('should sort and page videos', () => {
+      const page = library.listVideos({ sort: 'name', order: 'asc', pageSize: 1 });
+
+      expect(page.total).toBe(2);
+      expect(page.videos.map(video => video.id)).toEqual(['video-2']);
+      expect(library.listVideos({ sort: 'name', order: 'asc', pageSize: 1, page: 2 }).videos[0])
+        .toMatchObject({ id: 'video-1', segmentCount: 1, uploaded: true });
+    });
+
+    it('should filter by status, duration and upload state', () => {
+      expect(library.listVideos({ status: 'processing' }).videos.map(video => video.id)).toEqual(['video-2']);
+      expect(library.listVideos({ minDuration: 120 }).videos.map(video => video.id)).toEqual(['video-2']);
+      expect(library.listVideos({ uploaded: true }).videos.map(video => video.id)).toEqual(['video-1']);
+      expect(library.listVideos({ to: '2000-01-01T00:00:00.000Z' }).total).toBe(0);
+    });
+
+    it('should only keep videos with a segment matching the text query', () => {
+      library.saveTitle('video-1', 1, { title: 'Pricing secrets', description: '', titlePath: 't.txt', descriptionPath: 'd.txt' });
+
+      expect(library.listVideos({ q: 'pric' }).videos.map(video => video.id)).toEqual(['video-1']);
+      expect(library.listVideos({ q: '"*' }).total).toBe(0);
+    });
+  });
+
+  describe('search', () => {
+    beforeEach(() => {
+      library.saveSegments('video-1', [segment(1), segment(2)]);
+      library.saveTranscript('video-1', 1, { text: 'We talk about pricing and growth', path: 'processed/video-1/segment_1_abc_transcription.txt' });
+      library.saveTitle('video-1', 2, { title: 'Pricing that works', description: 'How we price', titlePath: 't.txt', descriptionPath: 'd.txt' });
+    });
+
+    it('should find segments by transcript and title, title matches first', () => {
+      const hits = library.search('pricing');
+
+      expect(hits.map(hit => hit.segmentNumber)).toEqual([2, 1]);
+      expect(hits[0]).toMatchObject({ videoId: 'video-1', originalName: 'talk.mp4', title: 'Pricing that works' });
+      expect(hits[1].snippet).toContain('<mark>pricing</mark>');
+    });
+
+    it('should re-index a segment when its transcript changes', () => {
+      library.saveTranscript('video-1', 1, { text: 'Nothing relevant here', path: 'processed/video-1/segment_1_abc_transcription.txt' });
+
+      expect(library.search('growth')).toEqual([]);
+      expect(library.search('relevant')).toHaveLength(1);
+    });
+
+    it('should treat query syntax as plain words', () => {
+      expect(library.search('pricing AND (growth')).toHaveLength(1);
+      expect(library.search('***')).toEqual([]);
+    });
+
+    it('should drop the segments of a deleted video from the index', () => {
+      library.deleteVideo('video-1');
+
+      expect(library.search('pricing')).toEqual([]);
+    });
+  });
+});
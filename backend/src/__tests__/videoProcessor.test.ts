@@ -1,4 +1,4 @@
-import { generateRandomSegments } from '../utils/videoProcessor';
+import { generateRandomSegments, getSegmentCompletion, getStagesToRun } from '../utils/videoProcessor';
 
 describe('Video Processor', () => {
   describe('generateRandomSegments', () => {
@@ -33,6 +33,21 @@ describe('Video Processor', () => {
       });
     });
 
+    it('should produce identical segments for the same seed', () => {
+      const first = generateRandomSegments(300, 5, 5, 60, 12345);
+      const second = generateRandomSegments(300, 5, 5, 60, 12345);
+
+      expect(first.length).toBeGreaterThan(0);
+      expect(second).toEqual(first);
+    });
+
+    it('should produce different segments for different seeds', () => {
+      const first = generateRandomSegments(300, 5, 5, 60, 1);
+      const second = generateRandomSegments(300, 5, 5, 60, 2);
+
+      expect(second).not.toEqual(first);
+    });
+
     it('should return empty array if duration is too short', () => {
       const duration = 2;
       const segments = generateRandomSegments(duration, 5, 5, 10);
@@ -49,4 +64,35 @@ describe('Video Processor', () => {
       }
     });
   });
+
+  describe('getSegmentCompletion', () => {
+    it('should weight stages within a segment', () => {
+      expect(getSegmentCompletion('encode', 0)).toBe(0);
+      expect(getSegmentCompletion('encode', 50)).toBe(0.25);
+      expect(getSegmentCompletion('transcribe', 0)).toBe(0.5);
+      expect(getSegmentCompletion('title', 0)).toBeCloseTo(0.9);
+      expect(getSegmentCompletion('title', 100)).toBeCloseTo(1);
+    });
+
+    it('should clamp the stage percentage', () => {
+      expect(getSegmentCompletion('encode', 150)).toBe(0.5);
+      expect(getSegmentCompletion('encode', -10)).toBe(0);
+    });
+  });
+
+  describe('getStagesToRun', () => {
+    it('should only redraw the title when the title changes', () => {
+      expect(getStagesToRun(['title'])).toEqual(['title']);
+    });
+
+    it('should re-run everything downstream of a stage', () => {
+      expect(getStagesToRun(['transcribe'])).toEqual(['transcribe', 'captions', 'summarize', 'title']);
+      expect(getStagesToRun(['captions'])).toEqual(['captions', 'title']);
+      expect(getStagesToRun(['encode'])).toEqual(['encode', 'transcribe', 'captions', 'summarize', 'title']);
+    });
+
+    it('should return stages in pipeline order without duplicates', () => {
+      expect(getStagesToRun(['summarize', 'title', 'summarize'])).toEqual(['summarize', 'title']);
+    });
+  });
 });
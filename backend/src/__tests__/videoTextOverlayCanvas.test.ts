@@ -0,0 +1,21 @@
+import { getTitleOverlayOptions } from '../utils/videoTextOverlayCanvas';
+
+describe('Video Text Overlay', () => {
+  describe('getTitleOverlayOptions', () => {
+    it('should draw a semi-opaque box over letterbox bars', () => {
+      expect(getTitleOverlayOptions('Hello')).toMatchObject({
+        text: 'Hello',
+        position: 'top',
+        backgroundColor: 'black',
+        backgroundColorOpacity: 0.8
+      });
+    });
+
+    it('should draw an opaque box over the blurred band of blur-fill', () => {
+      expect(getTitleOverlayOptions('Hello', 'blur-fill')).toMatchObject({
+        position: 'top',
+        backgroundColorOpacity: 1
+      });
+    });
+  });
+});
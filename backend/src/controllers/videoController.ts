@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { videoService, VideoSegment } from '../services/videoService';
 import { logger } from '../utils/logger';
+import { generateSeed } from '../utils/random';
 import path from 'path';
 import fs from 'fs/promises';
 import { v4 as uuidv4 } from 'uuid';
@@ -73,7 +74,10 @@ export const videoController = {
       const options = {
         numSegments: req.body.numSegments,
         minDuration: req.body.minDuration,
-        maxDuration: req.body.maxDuration
+        maxDuration: req.body.maxDuration,
+        seed: req.body.seed ?? generateSeed(),
+        framing: req.body.framing,
+        formats: req.body.formats
       };
 
       const segments = await videoService.splitVideo(
@@ -92,11 +96,13 @@ export const videoController = {
         success: true,
         data: {
           videoId: id,
+          seed: options.seed,
           segments: segments.map(s => ({
             id: s.id,
             startTime: s.startTime,
             endTime: s.endTime,
-            duration: s.duration
+            duration: s.duration,
+            formats: s.renders?.map(render => render.format)
           }))
         }
       });
@@ -152,6 +158,8 @@ export const videoController = {
 
   /**
    * Download a specific segment
+   *
+   * Serves the primary render unless `?format=` names another rendered aspect ratio.
    */
   async downloadSegment(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -175,9 +183,21 @@ export const videoController = {
         return;
       }
 
+      const format = req.query.format as string | undefined;
+      const filePath = format
+        ? segment.renders?.find(render => render.format === format)?.filePath
+        : segment.filePath;
+      if (!filePath) {
+        res.status(404).json({
+          success: false,
+          error: { message: `Segment was not rendered in format ${format}` }
+        });
+        return;
+      }
+
       // Check if file exists
       try {
-        await fs.access(segment.filePath);
+        await fs.access(filePath);
       } catch {
         res.status(404).json({
           success: false,
@@ -186,7 +206,7 @@ export const videoController = {
         return;
       }
 
-      res.download(segment.filePath, (err) => {
+      res.download(filePath, (err) => {
         if (err) {
           logger.error(`Error downloading segment ${segmentId}:`, err);
           if (!res.headersSent) {
@@ -0,0 +1,74 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { Migration, MIGRATIONS } from './migrations';
+
+export type DatabaseConnection = Database.Database;
+
+const DEFAULT_DATABASE_PATH = path.join('data', 'divideit.db');
+
+/**
+ * Gets the SQLite database file
+ *
+ * Read from `DATABASE_PATH`; defaults to `data/divideit.db`. `:memory:` keeps
+ * the database in memory (tests).
+ *
+ * @returns {string} Path of the database file
+ */
+export const getDatabasePath = (): string => process.env.DATABASE_PATH || DEFAULT_DATABASE_PATH;
+
+/**
+ * Applies the migrations the database has not seen yet
+ *
+ * @param {DatabaseConnection} db - Open database
+ * @param {Migration[]} [migrations=MIGRATIONS] - Migrations to apply, in any order
+ * @returns {number} Number of migrations applied
+ */
+export const runMigrations = (db: DatabaseConnection, migrations: Migration[] = MIGRATIONS): number => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    (db.prepare('SELECT version FROM schema_migrations').all() as Array<{ version: number }>).map(row => row.version)
+  );
+  const pending = migrations
+    .filter(migration => !applied.has(migration.version))
+    .sort((a, b) => a.version - b.version);
+
+  const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.up);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+    logger.info(`Applied database migration ${migration.version}: ${migration.name}`);
+  }
+
+  return pending.length;
+};
+
+/**
+ * Opens the SQLite database and brings its schema up to date
+ *
+ * Creates the file and its directory when missing.
+ *
+ * @param {string} [filename] - Database file (defaults to `getDatabasePath()`)
+ * @returns {DatabaseConnection} Open database with foreign keys enforced
+ */
+export const openDatabase = (filename: string = getDatabasePath()): DatabaseConnection => {
+  if (filename !== ':memory:') {
+    mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  runMigrations(db);
+  return db;
+};
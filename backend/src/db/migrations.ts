@@ -0,0 +1,204 @@
+/**
+ * Schema migration
+ *
+ * Migrations are applied in `version` order, each in its own transaction, and
+ * recorded in `schema_migrations`. Never edit a migration that has shipped;
+ * add a new one instead.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string; // SQL run once when the database is behind this version
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_video_library',
+    up: `
+      CREATE TABLE videos (
+        id TEXT PRIMARY KEY,
+        original_name TEXT NOT NULL,
+        source_path TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('processing', 'ready')),
+        job_id TEXT,
+        duration REAL NOT NULL,
+        width INTEGER NOT NULL,
+        height INTEGER NOT NULL,
+        container_format TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        strategy TEXT,
+        seed INTEGER,
+        framing TEXT,
+        formats TEXT NOT NULL DEFAULT '[]',
+        captions INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE segments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        video_id TEXT NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+        segment_number INTEGER NOT NULL,
+        start_time REAL NOT NULL,
+        end_time REAL NOT NULL,
+        duration REAL NOT NULL,
+        label TEXT,
+        score REAL,
+        rationale TEXT,
+        UNIQUE (video_id, segment_number)
+      );
+
+      CREATE TABLE renders (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        segment_id INTEGER NOT NULL REFERENCES segments(id) ON DELETE CASCADE,
+        format TEXT NOT NULL,
+        width INTEGER NOT NULL,
+        height INTEGER NOT NULL,
+        is_primary INTEGER NOT NULL DEFAULT 0,
+        filename TEXT NOT NULL UNIQUE,
+        path TEXT NOT NULL
+      );
+
+      CREATE TABLE transcripts (
+        segment_id INTEGER PRIMARY KEY REFERENCES segments(id) ON DELETE CASCADE,
+        text TEXT NOT NULL,
+        language TEXT,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE summaries (
+        segment_id INTEGER PRIMARY KEY REFERENCES segments(id) ON DELETE CASCADE,
+        text TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE titles (
+        segment_id INTEGER PRIMARY KEY REFERENCES segments(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      -- Text sidecars on disk (transcript, summary, title, captions), found by file name
+      CREATE TABLE segment_files (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        segment_id INTEGER NOT NULL REFERENCES segments(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL CHECK (kind IN ('transcript', 'summary', 'title', 'description', 'srt', 'vtt')),
+        filename TEXT NOT NULL UNIQUE,
+        path TEXT NOT NULL,
+        UNIQUE (segment_id, kind)
+      );
+
+      CREATE TABLE upload_destinations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        segment_id INTEGER NOT NULL REFERENCES segments(id) ON DELETE CASCADE,
+        filename TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        remote_id TEXT NOT NULL,
+        web_view_link TEXT,
+        shareable_link TEXT,
+        uploaded_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_videos_created_at ON videos(created_at);
+      CREATE INDEX idx_upload_destinations_segment ON upload_destinations(segment_id);
+    `
+  },
+  {
+    version: 2,
+    name: 'create_segment_search',
+    up: `
+      -- Full-text index over the transcript and generated title of each segment (rowid = segments.id)
+      CREATE VIRTUAL TABLE segment_search USING fts5(
+        transcript,
+        title,
+        description,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      INSERT INTO segment_search (rowid, transcript, title, description)
+      SELECT s.id, t.text, ti.title, ti.description
+      FROM segments s
+      LEFT JOIN transcripts t ON t.segment_id = s.id
+      LEFT JOIN titles ti ON ti.segment_id = s.id
+      WHERE t.segment_id IS NOT NULL OR ti.segment_id IS NOT NULL;
+
+      -- Re-index a segment whenever its transcript or title is written
+      CREATE TRIGGER segment_search_transcripts_insert AFTER INSERT ON transcripts BEGIN
+        DELETE FROM segment_search WHERE rowid = NEW.segment_id;
+        INSERT INTO segment_search (rowid, transcript, title, description)
+        SELECT s.id, t.text, ti.title, ti.description
+        FROM segments s
+        LEFT JOIN transcripts t ON t.segment_id = s.id
+        LEFT JOIN titles ti ON ti.segment_id = s.id
+        WHERE s.id = NEW.segment_id;
+      END;
+
+      CREATE TRIGGER segment_search_transcripts_update AFTER UPDATE ON transcripts BEGIN
+        DELETE FROM segment_search WHERE rowid = NEW.segment_id;
+        INSERT INTO segment_search (rowid, transcript, title, description)
+        SELECT s.id, t.text, ti.title, ti.description
+        FROM segments s
+        LEFT JOIN transcripts t ON t.segment_id = s.id
+        LEFT JOIN titles ti ON ti.segment_id = s.id
+        WHERE s.id = NEW.segment_id;
+      END;
+
+      CREATE TRIGGER segment_search_titles_insert AFTER INSERT ON titles BEGIN
+        DELETE FROM segment_search WHERE rowid = NEW.segment_id;
+        INSERT INTO segment_search (rowid, transcript, title, description)
+        SELECT s.id, t.text, ti.title, ti.description
+        FROM segments s
+        LEFT JOIN transcripts t ON t.segment_id = s.id
+        LEFT JOIN titles ti ON ti.segment_id = s.id
+        WHERE s.id = NEW.segment_id;
+      END;
+
+      CREATE TRIGGER segment_search_titles_update AFTER UPDATE ON titles BEGIN
+        DELETE FROM segment_search WHERE rowid = NEW.segment_id;
+        INSERT INTO segment_search (rowid, transcript, title, description)
+        SELECT s.id, t.text, ti.title, ti.description
+        FROM segments s
+        LEFT JOIN transcripts t ON t.segment_id = s.id
+        LEFT JOIN titles ti ON ti.segment_id = s.id
+        WHERE s.id = NEW.segment_id;
+      END;
+
+      CREATE TRIGGER segment_search_segments_delete AFTER DELETE ON segments BEGIN
+        DELETE FROM segment_search WHERE rowid = OLD.id;
+      END;
+    `
+  },
+  {
+    version: 3,
+    name: 'add_timings_segment_files',
+    // SQLite cannot change a CHECK constraint in place, so the table is rebuilt
+    up: `
+      CREATE TABLE segment_files_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        segment_id INTEGER NOT NULL REFERENCES segments(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL CHECK (kind IN ('transcript', 'timings', 'summary', 'title', 'description', 'srt', 'vtt')),
+        filename TEXT NOT NULL UNIQUE,
+        path TEXT NOT NULL,
+        UNIQUE (segment_id, kind)
+      );
+      INSERT INTO segment_files_new (id, segment_id, kind, filename, path)
+      SELECT id, segment_id, kind, filename, path FROM segment_files;
+      DROP TABLE segment_files;
+      ALTER TABLE segment_files_new RENAME TO segment_files;
+    `
+  },
+  {
+    version: 4,
+    name: 'add_last_segment_number',
+    // Highest segment number a video ever had, so numbers of deleted segments are not given out again
+    up: `
+      ALTER TABLE videos ADD COLUMN last_segment_number INTEGER NOT NULL DEFAULT 0;
+      UPDATE videos SET last_segment_number = COALESCE(
+        (SELECT MAX(segment_number) FROM segments WHERE segments.video_id = videos.id),
+        0
+      );
+    `
+  }
+];
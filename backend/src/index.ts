@@ -9,10 +9,20 @@ import morgan from 'morgan';
 import { errorHandler } from './middleware/errorHandler';
 import { rateLimiter } from './middleware/rateLimiter';
 import { metricsMiddleware } from './middleware/metrics';
+import { getAdminToken, requireAdminToken } from './middleware/adminAuth';
 import { videoRoutes } from './routes/videoRoutes';
 import { healthRoutes } from './routes/healthRoutes';
 import { metricsRoutes } from './routes/metricsRoutes';
 import { googleDriveRoutes } from './routes/googleDriveRoutes';
+import { jobRoutes } from './routes/jobRoutes';
+import { uploadRoutes } from './routes/uploadRoutes';
+import { adminRoutes } from './routes/adminRoutes';
+import { jobQueue } from './services/jobQueue';
+import { discardSplitJob, runSplitJob, SPLIT_JOB_TYPE } from './services/splitJob';
+import { runSegmentJob, SEGMENT_JOB_TYPE } from './services/segmentJob';
+import { RERUN_JOB_TYPE, runRerunJob } from './services/rerunJob';
+import { videoLibrary } from './services/videoLibrary';
+import { uploadService } from './services/uploadService';
 import { logger } from './utils/logger';
 import { ensureDirectoryExists } from './utils/fileUtils';
 
@@ -24,8 +34,14 @@ const initializeDirectories = async () => {
   await ensureDirectoryExists('uploads');
   await ensureDirectoryExists('processed');
   await ensureDirectoryExists('logs');
+  await ensureDirectoryExists('jobs');
 };
 
+// Background job handlers
+jobQueue.registerHandler(SPLIT_JOB_TYPE, runSplitJob, discardSplitJob);
+jobQueue.registerHandler(SEGMENT_JOB_TYPE, runSegmentJob);
+jobQueue.registerHandler(RERUN_JOB_TYPE, runRerunJob);
+
 // Middleware
 app.use(helmet({
   crossOriginResourcePolicy: { policy: "cross-origin" }
@@ -33,8 +49,9 @@ app.use(helmet({
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3050',
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  methods: ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Upload-Offset', 'Upload-Length'],
+  exposedHeaders: ['Location', 'Upload-Offset', 'Upload-Length']
 }));
 app.use(morgan('combined', { stream: { write: (message) => logger.info(message.trim()) } }));
 app.use(express.json());
@@ -51,6 +68,12 @@ app.use('/api/health', healthRoutes);
 app.use('/api/metrics', metricsRoutes);
 app.use('/api/videos', videoRoutes);
 app.use('/api/google-drive', googleDriveRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/uploads', uploadRoutes);
+// Admin endpoints only exist when a token is configured
+if (getAdminToken()) {
+  app.use('/api/admin', requireAdminToken, adminRoutes);
+}
 
 // Error handling
 app.use(errorHandler);
@@ -58,10 +81,20 @@ app.use(errorHandler);
 // Start server
 const startServer = async () => {
   await initializeDirectories();
+  // Open the video library and apply pending migrations before any job records into it
+  videoLibrary.open();
+  // Resume jobs that were queued or running when the server last stopped
+  await jobQueue.start();
+  // Delete abandoned resumable uploads, now and every hour
+  await uploadService.sweepStale();
+  uploadService.startSweeping();
   
   app.listen(PORT, () => {
     logger.info(`Server running on port ${PORT}`);
     logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
+    if (!getAdminToken()) {
+      logger.info('ADMIN_TOKEN is not set, admin endpoints are disabled');
+    }
   });
 };
 
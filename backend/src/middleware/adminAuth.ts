@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { createError } from './errorHandler';
+
+/**
+ * Gets the token admin endpoints require
+ *
+ * Read from `ADMIN_TOKEN`; the admin endpoints are not mounted when it is unset.
+ *
+ * @returns {string | undefined} Admin token
+ */
+export const getAdminToken = (): string | undefined => process.env.ADMIN_TOKEN || undefined;
+
+/**
+ * Admin authentication middleware
+ *
+ * Requires `Authorization: Bearer <ADMIN_TOKEN>`. Tokens are compared in
+ * constant time, on their SHA-256 so that their lengths do not leak either.
+ *
+ * @param {Request} req - Express request object
+ * @param {Response} _res - Express response object
+ * @param {NextFunction} next - Express next function
+ * @returns {void}
+ * @throws {401} If the token is missing or wrong, or no admin token is configured
+ *
+ * @example
+ * app.use('/api/admin', requireAdminToken, adminRoutes);
+ */
+export const requireAdminToken = (req: Request, _res: Response, next: NextFunction): void => {
+  const expected = getAdminToken();
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  const hash = (value: string) => crypto.createHash('sha256').update(value).digest();
+
+  if (!expected || scheme !== 'Bearer' || !token || !crypto.timingSafeEqual(hash(token), hash(expected))) {
+    return next(createError('Admin token required', 401));
+  }
+  next();
+};
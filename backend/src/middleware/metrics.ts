@@ -42,12 +42,20 @@ const videoFileSize = new client.Histogram({
   buckets: [1024 * 1024, 10 * 1024 * 1024, 50 * 1024 * 1024, 100 * 1024 * 1024, 500 * 1024 * 1024, 1024 * 1024 * 1024]
 });
 
+// Provider result cache metrics
+const cacheLookupsTotal = new client.Counter({
+  name: 'cache_lookups_total',
+  help: 'Total number of transcription and summarization cache lookups',
+  labelNames: ['cache', 'result']
+});
+
 // Register custom metrics
 register.registerMetric(httpRequestDuration);
 register.registerMetric(httpRequestsTotal);
 register.registerMetric(videoProcessingDuration);
 register.registerMetric(videoProcessingTotal);
 register.registerMetric(videoFileSize);
+register.registerMetric(cacheLookupsTotal);
 
 // Middleware to track HTTP requests
 export const metricsMiddleware = (req: Request, res: Response, next: NextFunction) => {
@@ -84,4 +92,8 @@ export const recordVideoFileSize = (size: number) => {
   videoFileSize.observe(size);
 };
 
+export const recordCacheLookup = (cache: string, hit: boolean) => {
+  cacheLookupsTotal.inc({ cache, result: hit ? 'hit' : 'miss' });
+};
+
 export { register };
@@ -4,7 +4,10 @@ import rateLimit from 'express-rate-limit';
  * General API rate limiter middleware
  * 
  * Limits API requests to prevent abuse and ensure fair usage.
- * Applies to all API endpoints except upload endpoints.
+ * Applies to all API endpoints except upload endpoints. Chunk requests of
+ * resumable uploads (`PATCH`/`HEAD /api/uploads/:id`) are not counted, a large
+ * file takes hundreds of them: they have their own, looser limit
+ * (`uploadChunkRateLimiter`); creating the upload counts against the upload limit.
  * 
  * @constant
  * @type {RateLimitRequestHandler}
@@ -21,6 +24,7 @@ export const rateLimiter = rateLimit({
   message: 'Too many requests from this IP, please try again later.',
   standardHeaders: true,
   legacyHeaders: false,
+  skip: (req) => (req.method === 'PATCH' || req.method === 'HEAD') && req.path.startsWith('/uploads/'),
 });
 
 /**
@@ -45,3 +49,27 @@ export const uploadRateLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
 });
+
+/**
+ * Upload chunk rate limiter middleware
+ * 
+ * Looser limit for the chunk and offset requests of resumable uploads, which
+ * the general limiter does not count. Enough for a 10GB file sent in 8MB chunks
+ * within the window, with retries.
+ * 
+ * @constant
+ * @type {RateLimitRequestHandler}
+ * 
+ * @property {number} windowMs - Time window in milliseconds (15 minutes)
+ * @property {number} max - Maximum chunk requests per window (3000 requests)
+ * 
+ * @example
+ * router.patch('/:id', uploadChunkRateLimiter, handler);
+ */
+export const uploadChunkRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 3000, // Limit each IP to 3000 chunk requests per windowMs
+  message: 'Too many upload requests from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
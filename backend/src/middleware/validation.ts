@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
+import { MAX_SEED } from '../utils/random';
+import { FRAMING_MODES, OUTPUT_FORMATS } from '../utils/framing';
 
 /**
  * Zod schema for validating video split request parameters
@@ -10,7 +12,10 @@ import { z } from 'zod';
 const splitVideoSchema = z.object({
   numSegments: z.number().int().min(1).max(20).optional(),
   minDuration: z.number().positive().optional(),
-  maxDuration: z.number().positive().optional()
+  maxDuration: z.number().positive().optional(),
+  seed: z.number().int().min(0).max(MAX_SEED).optional(),
+  framing: z.enum(FRAMING_MODES).optional(),
+  formats: z.array(z.enum(OUTPUT_FORMATS)).min(1).optional()
 });
 
 /**
@@ -0,0 +1,77 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { CACHE_NAMES, contentCache } from '../services/contentCache';
+import { createError } from '../middleware/errorHandler';
+
+const router = Router();
+
+const purgeSchema = z.object({
+  cache: z.enum(CACHE_NAMES, {
+    errorMap: () => ({ message: `cache must be one of ${CACHE_NAMES.join(', ')}` })
+  }).optional()
+});
+
+/**
+ * Get the size of the transcription and summarization caches
+ *
+ * Hit and miss counts are exported by `GET /api/metrics` (`cache_lookups_total`).
+ *
+ * @route GET /api/admin/cache
+ * @returns {Object} Number of entries and bytes on disk of each cache
+ *
+ * @example
+ * GET /api/admin/cache
+ * Response: {
+ *   success: true,
+ *   data: { caches: [{ name: 'transcription', entries: 12, bytes: 48213 }, { name: 'summarization', entries: 30, bytes: 9120 }] }
+ * }
+ */
+router.get('/cache', async (_req: Request, res: Response, next) => {
+  try {
+    res.json({
+      success: true,
+      data: { caches: await contentCache.getStats() }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Purge cached transcriptions and LLM outputs
+ *
+ * The next transcription or summary of the same content calls the provider
+ * again: purge to get fresh titles and descriptions for segments that were
+ * already processed, or to free disk space.
+ *
+ * @route DELETE /api/admin/cache
+ * @param {string} [cache] - 'transcription' or 'summarization' (query parameter); both when omitted
+ * @returns {Object} What was removed from each purged cache
+ * @throws {400} If the cache name is invalid
+ *
+ * @example
+ * DELETE /api/admin/cache?cache=summarization
+ * Response: {
+ *   success: true,
+ *   data: { purged: [{ name: 'summarization', entries: 30, bytes: 9120 }] }
+ * }
+ */
+router.delete('/cache', async (req: Request, res: Response, next) => {
+  try {
+    const validation = purgeSchema.safeParse(req.query);
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const purged = await contentCache.purge(validation.data.cache);
+
+    res.json({
+      success: true,
+      data: { purged }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as adminRoutes };
@@ -1,6 +1,9 @@
 import { Router, Request, Response } from 'express';
-import { googleDriveService } from '../services/googleDriveService';
+import { googleDriveService, ShareResult, UploadResult } from '../services/googleDriveService';
+import { findSegmentFile, getSidecarPaths } from '../services/segmentFiles';
+import { UploadDestinationRecord, videoLibrary } from '../services/videoLibrary';
 import { logger } from '../utils/logger';
+import { SUBTITLE_FORMATS, SubtitleFormat } from '../utils/subtitles';
 import { createError } from '../middleware/errorHandler';
 import path from 'path';
 import fs from 'fs/promises';
@@ -37,6 +40,32 @@ const initializeGoogleDrive = () => {
   return true;
 };
 
+/**
+ * A text file uploaded next to a segment, with its public link if it was shared
+ */
+interface SidecarUpload {
+  upload: UploadResult;
+  share: ShareResult | null;
+}
+
+interface CaptionUpload extends SidecarUpload {
+  format: SubtitleFormat;
+}
+
+/**
+ * Describe an uploaded file for the video library
+ */
+const toDestination = (
+  upload: UploadResult,
+  share: ShareResult | null
+): Omit<UploadDestinationRecord, 'uploadedAt'> => ({
+  filename: upload.name,
+  provider: 'google-drive',
+  remoteId: upload.fileId,
+  webViewLink: upload.webViewLink,
+  ...(share && { shareableLink: share.shareableLink })
+});
+
 /**
  * Get Google Drive OAuth2 authorization URL
  * 
@@ -349,16 +378,18 @@ router.post('/share', async (req: Request, res: Response) => {
 
 /**
  * Upload video segment and share it
- * Also uploads associated files (summary.txt, transcription.txt) if they exist
+ * Also uploads associated files (summary.txt, transcription.txt, .srt/.vtt captions) if they exist,
+ * and records every uploaded file as an upload destination of the segment in the video library
  * 
  * @route POST /api/google-drive/upload-segment
- * @param {string} segmentPath - Path to segment file (relative to processed directory)
- * @param {string} [videoId] - Video ID to find segment in processed directory
+ * @param {string} segmentPath - Segment file, looked up by file name in the video library (or in processed/ for segments split before it)
  * @param {string} [folderId] - Optional Google Drive folder ID
  * @param {boolean} [makePublic=true] - Whether to make file publicly accessible
  * @param {boolean} [includeSummary=true] - Whether to upload summary.txt file if it exists
  * @param {boolean} [includeTranscription=false] - Whether to upload transcription.txt file if it exists
+ * @param {boolean} [includeCaptions=true] - Whether to upload the .srt and .vtt caption files if they exist
  * @returns {Object} Upload and share result
+ * @throws {404} If the segment file is not found
  */
 router.post('/upload-segment', async (req: Request, res: Response) => {
   try {
@@ -368,12 +399,12 @@ router.post('/upload-segment', async (req: Request, res: Response) => {
 
     const schema = z.object({
       segmentPath: z.string().min(1),
-      videoId: z.string().optional(),
       folderId: z.string().optional(),
       folderName: z.string().min(1).optional(),
       makePublic: z.boolean().optional().default(true),
       includeSummary: z.boolean().optional().default(true),
-      includeTranscription: z.boolean().optional().default(false)
+      includeTranscription: z.boolean().optional().default(false),
+      includeCaptions: z.boolean().optional().default(true)
     });
 
     const validation = schema.safeParse(req.body);
@@ -381,62 +412,29 @@ router.post('/upload-segment', async (req: Request, res: Response) => {
       throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
     }
 
-    const { segmentPath, videoId, folderId, folderName, makePublic, includeSummary, includeTranscription } = validation.data;
+    const { segmentPath, folderId, folderName, makePublic, includeSummary, includeTranscription, includeCaptions } = validation.data;
 
-    // Resolve segment path
-    let fullPath: string;
-    let segmentDir: string;
-    
-    if (path.isAbsolute(segmentPath)) {
-      fullPath = segmentPath;
-      segmentDir = path.dirname(fullPath);
-    } else if (videoId) {
-      fullPath = path.join(process.cwd(), 'processed', videoId, segmentPath);
-      segmentDir = path.join(process.cwd(), 'processed', videoId);
-    } else {
-      // Search in processed directories
-      const processedDir = path.join(process.cwd(), 'processed');
-      try {
-        const dirs = await fs.readdir(processedDir);
-        let found = false;
-        for (const dir of dirs) {
-          const testPath = path.join(processedDir, dir, segmentPath);
-          try {
-            await fs.access(testPath);
-            fullPath = testPath;
-            segmentDir = path.join(processedDir, dir);
-            found = true;
-            break;
-          } catch {
-            // Continue searching
-          }
-        }
-        if (!found) {
-          throw createError(`Segment file not found: ${segmentPath}`, 404);
-        }
-      } catch {
+    // Look the segment up in the video library, or in processed/ for segments split before it existed;
+    // a backup without title resolves to the final video
+    const filename = path.basename(segmentPath).replace('_original_no_title.mp4', '.mp4');
+    const file = await findSegmentFile(filename, `Segment file not found: ${segmentPath}`, 'render');
+    const fullPath = file.path;
+
+    let sidecars = getSidecarPaths(fullPath);
+    if (file.recorded) {
+      const segment = videoLibrary.getSegment(file.videoId, file.segmentNumber);
+      if (!segment) {
         throw createError(`Segment file not found: ${segmentPath}`, 404);
       }
+      sidecars = segment.files;
     }
 
-    // Verify file exists
-    try {
-      await fs.access(fullPath);
-    } catch {
-      throw createError(`Segment file not found: ${fullPath}`, 404);
-    }
-
-    // Ensure we're uploading the final video (with title), not the original backup
-    if (fullPath.includes('_original_no_title.mp4')) {
-      const finalVideoPath = fullPath.replace('_original_no_title.mp4', '.mp4');
-      try {
-        await fs.access(finalVideoPath);
-        fullPath = finalVideoPath;
-        logger.info(`Using final video version (with title): ${path.basename(finalVideoPath)}`);
-      } catch {
-        throw createError('Only final video files (with title overlay) should be uploaded', 400);
+    // Upload destinations are only kept for segments the library records
+    const recordDestination = (upload: UploadResult, share: ShareResult | null) => {
+      if (file.recorded) {
+        videoLibrary.recordUploadDestination(file.videoId, file.segmentNumber, toDestination(upload, share));
       }
-    }
+    };
 
     let targetFolderId: string | undefined = folderId;
     if (!targetFolderId && folderName) {
@@ -447,10 +445,10 @@ router.post('/upload-segment', async (req: Request, res: Response) => {
         logger.warn(`Failed to get/create folder by name, falling back: ${error.message}`);
       }
     }
-    if (!targetFolderId && videoId) {
+    if (!targetFolderId) {
       try {
-        targetFolderId = await googleDriveService.getVideoFolder(videoId);
-        logger.info(`Using video folder in divideIt: ${videoId} (${targetFolderId})`);
+        targetFolderId = await googleDriveService.getVideoFolder(file.videoId);
+        logger.info(`Using video folder in divideIt: ${file.videoId} (${targetFolderId})`);
       } catch (error: any) {
         logger.warn(`Failed to get video folder, uploading to root: ${error.message}`);
       }
@@ -469,60 +467,54 @@ router.post('/upload-segment', async (req: Request, res: Response) => {
     uploadResults.push(videoUploadResult);
 
     // Share video file if makePublic is true
+    let videoShareResult: ShareResult | null = null;
     if (makePublic) {
-      const videoShareResult = await googleDriveService.shareFile(videoUploadResult.fileId, 'anyone', 'reader');
+      videoShareResult = await googleDriveService.shareFile(videoUploadResult.fileId, 'anyone', 'reader');
       shareResults.push(videoShareResult);
     }
+    recordDestination(videoUploadResult, videoShareResult);
+
+    // Upload the text sidecars of the segment
+    const uploadSidecar = async (filePath: string | undefined, label: string): Promise<SidecarUpload | null> => {
+      if (!filePath) {
+        logger.debug(`No ${label} file recorded for ${filename}`);
+        return null;
+      }
 
-    // Upload summary.txt file if it exists and includeSummary is true
-    if (includeSummary) {
-      const baseName = path.basename(fullPath, path.extname(fullPath));
-      const summaryPath = path.join(segmentDir, `${baseName}_summary.txt`);
-      
       try {
-        await fs.access(summaryPath);
-        const summaryUploadResult = await googleDriveService.uploadFile(
-          summaryPath,
-          path.basename(summaryPath),
-          targetFolderId,
-          makePublic
-        );
-        uploadResults.push(summaryUploadResult);
-        
-        if (makePublic) {
-          const summaryShareResult = await googleDriveService.shareFile(summaryUploadResult.fileId, 'anyone', 'reader');
-          shareResults.push(summaryShareResult);
-        }
-        
-        logger.info(`Summary file uploaded: ${summaryPath}`);
+        await fs.access(filePath);
       } catch {
-        logger.debug(`Summary file not found: ${summaryPath}`);
+        logger.debug(`${label} file not found: ${filePath}`);
+        return null;
       }
-    }
+
+      const upload = await googleDriveService.uploadFile(filePath, path.basename(filePath), targetFolderId, makePublic);
+      uploadResults.push(upload);
+
+      let share: ShareResult | null = null;
+      if (makePublic) {
+        share = await googleDriveService.shareFile(upload.fileId, 'anyone', 'reader');
+        shareResults.push(share);
+      }
+      recordDestination(upload, share);
+      logger.info(`${label} file uploaded: ${filePath}`);
+      return { upload, share };
+    };
+
+    // Upload summary.txt file if it exists and includeSummary is true
+    const summaryResult = includeSummary ? await uploadSidecar(sidecars.summary, 'Summary') : null;
 
     // Upload transcription.txt file if it exists and includeTranscription is true
-    if (includeTranscription) {
-      const baseName = path.basename(fullPath, path.extname(fullPath));
-      const transcriptionPath = path.join(segmentDir, `${baseName}.txt`);
-      
-      try {
-        await fs.access(transcriptionPath);
-        const transcriptionUploadResult = await googleDriveService.uploadFile(
-          transcriptionPath,
-          path.basename(transcriptionPath),
-          targetFolderId,
-          makePublic
-        );
-        uploadResults.push(transcriptionUploadResult);
-        
-        if (makePublic) {
-          const transcriptionShareResult = await googleDriveService.shareFile(transcriptionUploadResult.fileId, 'anyone', 'reader');
-          shareResults.push(transcriptionShareResult);
+    const transcriptionResult = includeTranscription ? await uploadSidecar(sidecars.transcript, 'Transcription') : null;
+
+    // Upload .srt/.vtt captions if they exist and includeCaptions is true
+    const captionResults: CaptionUpload[] = [];
+    if (includeCaptions) {
+      for (const format of SUBTITLE_FORMATS) {
+        const captionResult = await uploadSidecar(sidecars[format], 'Caption');
+        if (captionResult) {
+          captionResults.push({ format, ...captionResult });
         }
-        
-        logger.info(`Transcription file uploaded: ${transcriptionPath}`);
-      } catch {
-        logger.debug(`Transcription file not found: ${transcriptionPath}`);
       }
     }
 
@@ -533,23 +525,18 @@ router.post('/upload-segment', async (req: Request, res: Response) => {
       data: {
         video: {
           upload: videoUploadResult,
-          share: shareResults[0] || null
+          share: videoShareResult
         },
-        summary: includeSummary && uploadResults.length > 1 ? {
-          upload: uploadResults[1],
-          share: shareResults[1] || null
-        } : null,
-        transcription: includeTranscription && uploadResults.length > (includeSummary ? 2 : 1) ? {
-          upload: uploadResults[includeSummary ? 2 : 1],
-          share: shareResults[includeSummary ? 2 : 1] || null
-        } : null,
+        summary: summaryResult,
+        transcription: transcriptionResult,
+        captions: captionResults,
         allUploads: uploadResults,
         allShares: shareResults
       }
     });
   } catch (error: any) {
     logger.error(`Failed to upload segment to Google Drive: ${error.message}`);
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
       error: { message: error.message }
     });
@@ -627,6 +614,7 @@ router.get('/status', (req: Request, res: Response) => {
 
 /**
  * Upload all processed videos from /processed directory
+ * Each segment is uploaded with its summary and .srt/.vtt captions when present
  * 
  * @route POST /api/google-drive/upload-all-processed
  * @returns {Object} Upload results for all videos
@@ -690,6 +678,14 @@ router.post('/upload-all-processed', async (req: Request, res: Response) => {
             const baseName = path.basename(fullPath, path.extname(fullPath));
             const summaryPath = path.join(videoDir, `${baseName}_summary.txt`);
 
+            // Segments recorded in the video library keep track of where they were uploaded
+            const libraryFile = videoLibrary.findFile(filename);
+            const recordDestination = (upload: UploadResult, share: ShareResult) => {
+              if (libraryFile) {
+                videoLibrary.recordUploadDestination(libraryFile.videoId, libraryFile.segmentNumber, toDestination(upload, share));
+              }
+            };
+
             // Upload video
             const videoUploadResult = await googleDriveService.uploadFile(
               fullPath,
@@ -697,7 +693,7 @@ router.post('/upload-all-processed', async (req: Request, res: Response) => {
               targetFolderId,
               true // makePublic
             );
-            await googleDriveService.shareFile(videoUploadResult.fileId, 'anyone', 'reader');
+            recordDestination(videoUploadResult, await googleDriveService.shareFile(videoUploadResult.fileId, 'anyone', 'reader'));
 
             // Upload summary if exists
             let summaryUploadResult = null;
@@ -709,16 +705,36 @@ router.post('/upload-all-processed', async (req: Request, res: Response) => {
                 targetFolderId,
                 true
               );
-              await googleDriveService.shareFile(summaryUploadResult.fileId, 'anyone', 'reader');
+              recordDestination(summaryUploadResult, await googleDriveService.shareFile(summaryUploadResult.fileId, 'anyone', 'reader'));
             } catch {
               // Summary not found, skip
             }
 
+            // Upload .srt/.vtt captions if they exist
+            const captionLinks: Record<string, string | null> = {};
+            for (const format of SUBTITLE_FORMATS) {
+              const captionPath = path.join(videoDir, `${baseName}.${format}`);
+              try {
+                await fs.access(captionPath);
+                const captionUploadResult = await googleDriveService.uploadFile(
+                  captionPath,
+                  path.basename(captionPath),
+                  targetFolderId,
+                  true
+                );
+                recordDestination(captionUploadResult, await googleDriveService.shareFile(captionUploadResult.fileId, 'anyone', 'reader'));
+                captionLinks[format] = captionUploadResult.webViewLink || null;
+              } catch {
+                // Caption file not found, skip
+              }
+            }
+
             videoResult.segments.push({
               filename,
               success: true,
               videoLink: videoUploadResult.webViewLink,
-              summaryLink: summaryUploadResult?.webViewLink || null
+              summaryLink: summaryUploadResult?.webViewLink || null,
+              captionLinks
             });
             videoResult.uploaded++;
             totalUploaded++;
@@ -0,0 +1,202 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { Job, jobQueue } from '../services/jobQueue';
+import { createError } from '../middleware/errorHandler';
+
+const router = Router();
+
+const jobIdSchema = z.string().uuid('Invalid job ID');
+
+const HEARTBEAT_INTERVAL_MS = 15000; // Keeps proxies from closing an idle event stream
+
+/**
+ * Public view of a job: everything but its internal parameters (server paths)
+ */
+const toJobView = (job: Job) => ({
+  id: job.id,
+  type: job.type,
+  status: job.status,
+  ...(job.status === 'queued' && { queuePosition: jobQueue.getQueuePosition(job.id) }),
+  progress: job.status === 'processing' ? job.progress : undefined,
+  attempts: job.attempts,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  startedAt: job.startedAt,
+  finishedAt: job.finishedAt,
+  result: job.result,
+  error: job.error
+});
+
+/**
+ * Look up the job named by the `:id` route parameter
+ *
+ * @throws {400} If the job ID is not a UUID
+ * @throws {404} If no job has this ID
+ */
+const findJob = (id: string): Job => {
+  const validation = jobIdSchema.safeParse(id);
+  if (!validation.success) {
+    throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+  }
+
+  const job = jobQueue.getJob(validation.data);
+  if (!job) {
+    throw createError('Job not found', 404);
+  }
+  return job;
+};
+
+/**
+ * Get the status of a background job
+ *
+ * Returns the job state without its internal parameters. `progress` is set
+ * while processing, `result` once the job is completed (for split jobs it holds
+ * what `POST /api/videos/split` used to respond with), `error` once it failed.
+ *
+ * @route GET /api/jobs/:id
+ * @param {string} id - Job ID returned when the job was queued
+ * @returns {Object} Job status, timestamps and result or error
+ * @throws {400} If the job ID is not a UUID
+ * @throws {404} If no job has this ID
+ *
+ * @example
+ * GET /api/jobs/f47ac10b-58cc-4372-a567-0e02b2c3d479
+ * Response: {
+ *   success: true,
+ *   data: {
+ *     id: 'f47ac10b-...',
+ *     type: 'split',
+ *     status: 'completed',
+ *     createdAt: '2024-01-15T10:30:00.000Z',
+ *     result: { videoId: '...', segments: [...], totalSegments: 3, ... }
+ *   }
+ * }
+ */
+router.get('/:id', (req: Request, res: Response, next) => {
+  try {
+    const job = findJob(req.params.id);
+
+    res.json({
+      success: true,
+      data: toJobView(job)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Stream the progress of a job with Server-Sent Events
+ *
+ * Sends a `status` event with the current job right away, then:
+ * - `progress` events while processing: `{ stage, segment, totalSegments, percent, overallPercent }`.
+ *   Split jobs go through 'plan', then per segment 'encode', 'transcribe', 'captions'
+ *   (only with captions on), 'summarize' and 'title'. `percent` is the progress of the
+ *   stage for that segment, `overallPercent` of the whole job
+ * - `status` events with the full job when it starts, completes, fails or is cancelled
+ *
+ * The stream ends after the job completes, fails or is cancelled. A comment line is sent every
+ * 15 seconds so proxies keep the connection open.
+ *
+ * @route GET /api/jobs/:id/events
+ * @param {string} id - Job ID returned when the job was queued
+ * @returns {text/event-stream} Job events
+ * @throws {400} If the job ID is not a UUID
+ * @throws {404} If no job has this ID
+ *
+ * @example
+ * const events = new EventSource('/api/jobs/f47ac10b-.../events');
+ * events.addEventListener('progress', (e) => console.log(JSON.parse(e.data)));
+ * // { stage: 'encode', segment: 2, totalSegments: 5, percent: 40, overallPercent: 28 }
+ */
+router.get('/:id/events', (req: Request, res: Response, next) => {
+  let job: Job;
+  try {
+    job = findJob(req.params.id);
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no' // Disable nginx response buffering
+  });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  const isFinished = (status: Job['status']) =>
+    status === 'completed' || status === 'failed' || status === 'cancelled';
+
+  send('status', toJobView(job));
+  if (job.progress && job.status === 'processing') {
+    send('progress', job.progress);
+  }
+  if (isFinished(job.status)) {
+    res.end();
+    return;
+  }
+
+  const onProgress = (updated: Job) => {
+    if (updated.id === job.id) {
+      send('progress', updated.progress);
+    }
+  };
+  const onStatus = (updated: Job) => {
+    if (updated.id === job.id) {
+      send('status', toJobView(updated));
+      if (isFinished(updated.status)) {
+        cleanup();
+        res.end();
+      }
+    }
+  };
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    jobQueue.off('progress', onProgress);
+    jobQueue.off('status', onStatus);
+  };
+
+  jobQueue.on('progress', onProgress);
+  jobQueue.on('status', onStatus);
+  req.on('close', cleanup);
+});
+
+/**
+ * Cancel a queued or running job
+ *
+ * A queued job is removed from the queue. A running split job has its FFmpeg
+ * processes killed and its pending transcription/summarization calls aborted.
+ * Either way the upload and the partial output directory are deleted, as when a
+ * split fails. Responds once the job has stopped; if it finished in the meantime
+ * its status is 'completed' or 'failed' instead of 'cancelled'.
+ *
+ * @route DELETE /api/jobs/:id
+ * @param {string} id - Job ID returned when the job was queued
+ * @returns {Object} The job after cancellation
+ * @throws {400} If the job ID is not a UUID
+ * @throws {404} If no job has this ID
+ * @throws {409} If the job already completed, failed or was cancelled
+ *
+ * @example
+ * DELETE /api/jobs/f47ac10b-58cc-4372-a567-0e02b2c3d479
+ * Response: { success: true, data: { id: 'f47ac10b-...', type: 'split', status: 'cancelled', ... } }
+ */
+router.delete('/:id', async (req: Request, res: Response, next) => {
+  try {
+    const job = await jobQueue.cancel(findJob(req.params.id).id);
+
+    res.json({
+      success: true,
+      data: toJobView(job)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as jobRoutes };
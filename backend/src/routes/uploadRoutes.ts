@@ -0,0 +1,152 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { uploadChunkRateLimiter, uploadRateLimiter } from '../middleware/rateLimiter';
+import { createError } from '../middleware/errorHandler';
+import { isAllowedVideoFile } from '../utils/fileUtils';
+import { getMaxUploadSize, UploadInfo, uploadService } from '../services/uploadService';
+
+const router = Router();
+
+const CHUNK_CONTENT_TYPE = 'application/offset+octet-stream';
+
+const createUploadSchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  size: z.number().int().positive(),
+  mimeType: z.string().optional()
+});
+
+const uploadOffsetSchema = z.string({ required_error: 'Upload-Offset is required' })
+  .regex(/^\d+$/, 'Upload-Offset must be a non-negative integer')
+  .transform(Number);
+
+/**
+ * Set the resumable upload headers, named after the tus protocol
+ */
+const setUploadHeaders = (res: Response, upload: UploadInfo) => {
+  res.set({
+    'Upload-Offset': String(upload.offset),
+    'Upload-Length': String(upload.size),
+    'Cache-Control': 'no-store'
+  });
+};
+
+/**
+ * Start a resumable upload
+ *
+ * Creates an empty upload for a file of the given size. Send the file with
+ * `PATCH /api/uploads/:id` in chunks, then pass the upload ID to
+ * `POST /api/videos/split` as `uploadId`.
+ *
+ * @route POST /api/uploads
+ * @param {string} filename - Original file name (MP4, MOV or AVI)
+ * @param {number} size - File size in bytes, up to `MAX_UPLOAD_SIZE` (default 10GB)
+ * @param {string} [mimeType] - MIME type of the file
+ * @returns {Object} 201 response with the upload (Location header points at it)
+ * @throws {400} If the body is invalid or the file type is not allowed
+ * @throws {413} If the size exceeds the upload limit
+ * @throws {429} If rate limit exceeded
+ * @throws {507} If the uploads in progress already take the space allowed (`MAX_PENDING_UPLOAD_BYTES`)
+ *
+ * @example
+ * POST /api/uploads
+ * Body: { filename: 'talk.mp4', size: 2147483648, mimeType: 'video/mp4' }
+ * Response (201): {
+ *   success: true,
+ *   data: { id: 'f47ac10b-...', filename: 'talk.mp4', size: 2147483648, offset: 0, complete: false, maxSize: 10737418240, ... }
+ * }
+ */
+router.post('/', uploadRateLimiter, async (req: Request, res: Response, next) => {
+  try {
+    const validation = createUploadSchema.safeParse(req.body);
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const { filename, size, mimeType } = validation.data;
+    if (!isAllowedVideoFile(filename, mimeType)) {
+      throw createError('Invalid file type. Only MP4, MOV, and AVI files are allowed.', 400);
+    }
+
+    const upload = await uploadService.create(filename, size);
+    setUploadHeaders(res, upload);
+    res.status(201).location(`/api/uploads/${upload.id}`).json({
+      success: true,
+      data: { ...upload, maxSize: getMaxUploadSize() }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get the offset to resume an upload from
+ *
+ * Responds with no body; `Upload-Offset` holds the bytes received so far and
+ * `Upload-Length` the total size.
+ *
+ * @route HEAD /api/uploads/:id
+ * @param {string} id - Upload ID
+ * @throws {400} If the upload ID is not a UUID
+ * @throws {404} If no upload has this ID
+ *
+ * @example
+ * HEAD /api/uploads/f47ac10b-58cc-4372-a567-0e02b2c3d479
+ * Response headers: Upload-Offset: 83886080, Upload-Length: 2147483648
+ */
+router.head('/:id', uploadChunkRateLimiter, async (req: Request, res: Response, next) => {
+  try {
+    const upload = await uploadService.get(req.params.id);
+
+    setUploadHeaders(res, upload);
+    res.status(200).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Upload a chunk
+ *
+ * The body holds the raw chunk bytes (`Content-Type: application/offset+octet-stream`)
+ * and `Upload-Offset` the position of the chunk, which must equal the bytes received
+ * so far. When the last byte arrives the file is assembled in `uploads/` and
+ * `complete` is true.
+ *
+ * @route PATCH /api/uploads/:id
+ * @param {string} id - Upload ID
+ * @returns {Object} The upload with its new offset (also in the Upload-Offset header)
+ * @throws {400} If the upload ID or Upload-Offset header is invalid
+ * @throws {404} If no upload has this ID
+ * @throws {409} If the offset does not match (ask `HEAD` for the right one) or the upload is complete
+ * @throws {413} If the chunk goes past the declared size
+ * @throws {415} If the content type is not application/offset+octet-stream
+ *
+ * @example
+ * PATCH /api/uploads/f47ac10b-58cc-4372-a567-0e02b2c3d479
+ * Headers: Upload-Offset: 0, Content-Type: application/offset+octet-stream
+ * Body: <8MB of the file>
+ * Response: { success: true, data: { id: 'f47ac10b-...', offset: 8388608, size: 2147483648, complete: false, ... } }
+ */
+router.patch('/:id', uploadChunkRateLimiter, async (req: Request, res: Response, next) => {
+  try {
+    if (!req.is(CHUNK_CONTENT_TYPE)) {
+      throw createError(`Chunks must be sent as ${CHUNK_CONTENT_TYPE}`, 415);
+    }
+
+    const offset = uploadOffsetSchema.safeParse(req.get('Upload-Offset'));
+    if (!offset.success) {
+      throw createError(`Validation error: ${offset.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const upload = await uploadService.appendChunk(req.params.id, offset.data, req);
+    setUploadHeaders(res, upload);
+    res.json({
+      success: true,
+      data: upload
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as uploadRoutes };
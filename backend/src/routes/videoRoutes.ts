@@ -4,15 +4,36 @@ import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { uploadRateLimiter } from '../middleware/rateLimiter';
 import {
+  extractFilmstrip,
+  extractThumbnail,
+  extractWaveform,
+  getStagesToRun,
   getVideoMetadata,
-  generateRandomSegments,
-  splitVideo
+  SPLIT_STAGES
 } from '../utils/videoProcessor';
+import { PlannedSegment, SEGMENTATION_STRATEGIES } from '../utils/segmentPlanner';
+import { generateSeed, MAX_SEED } from '../utils/random';
+import { DEFAULT_OUTPUT_FORMAT, FRAMING_MODES, OUTPUT_FORMATS } from '../utils/framing';
+import { SUBTITLE_CONTENT_TYPES, SUBTITLE_FORMATS } from '../utils/subtitles';
+import { isAllowedVideoFile } from '../utils/fileUtils';
 import { logger } from '../utils/logger';
 import { createError } from '../middleware/errorHandler';
 import { transcriptionService } from '../services/transcriptionService';
 import { summarizationService } from '../services/summarizationService';
-import { addTextOverlayToVideo } from '../utils/videoTextOverlayCanvas';
+import { jobQueue } from '../services/jobQueue';
+import { SPLIT_JOB_TYPE, SplitJobParams } from '../services/splitJob';
+import { removeSegmentFiles, SEGMENT_JOB_TYPE, SegmentJobParams } from '../services/segmentJob';
+import { checkRerunInputs, RERUN_JOB_TYPE, RerunJobParams } from '../services/rerunJob';
+import { uploadService } from '../services/uploadService';
+import { findSegmentFile, findUnrecordedSegmentFile } from '../services/segmentFiles';
+import {
+  SegmentRecord,
+  VIDEO_SORT_FIELDS,
+  VIDEO_STATUSES,
+  VideoRecord,
+  videoLibrary
+} from '../services/videoLibrary';
+import { addTextOverlayToVideo, getTitleOverlayOptions } from '../utils/videoTextOverlayCanvas';
 import fs from 'fs/promises';
 import { z } from 'zod';
 
@@ -30,12 +51,7 @@ const storage = multer.diskStorage({
 });
 
 const fileFilter = (_req: Express.Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  const allowedMimes = ['video/mp4', 'video/quicktime', 'video/x-msvideo'];
-  const allowedExts = ['.mp4', '.mov', '.avi'];
-  
-  const ext = path.extname(file.originalname).toLowerCase();
-  
-  if (allowedMimes.includes(file.mimetype) || allowedExts.includes(ext)) {
+  if (isAllowedVideoFile(file.originalname, file.mimetype)) {
     cb(null, true);
   } else {
     cb(new Error('Invalid file type. Only MP4, MOV, and AVI files are allowed.'));
@@ -46,7 +62,7 @@ const upload = multer({
   storage,
   fileFilter,
   limits: {
-    fileSize: 1024 * 1024 * 1024 // 1GB limit
+    fileSize: 1024 * 1024 * 1024 // 1GB limit, larger files go through the resumable /api/uploads
   }
 });
 
@@ -54,7 +70,205 @@ const upload = multer({
 const splitVideoSchema = z.object({
   segmentCount: z.number().int().min(1).max(20).optional().default(5),
   minSegmentDuration: z.number().min(1).max(300).optional().default(5),
-  maxSegmentDuration: z.number().min(1).max(300).optional().default(60)
+  maxSegmentDuration: z.number().min(1).max(300).optional().default(60),
+  strategy: z.enum(SEGMENTATION_STRATEGIES).optional().default('random'),
+  silenceThreshold: z.number().min(-90).max(0).optional().default(-30),
+  minPauseDuration: z.number().min(0.1).max(10).optional().default(0.5),
+  seed: z.number().int().min(0).max(MAX_SEED).optional(),
+  framing: z.enum(FRAMING_MODES).optional().default('letterbox'),
+  formats: z.array(z.enum(OUTPUT_FORMATS)).min(1).optional().default([DEFAULT_OUTPUT_FORMAT]),
+  captions: z.boolean().optional().default(false),
+  segments: z.array(
+    z.object({
+      start: z.number().min(0),
+      end: z.number().positive(),
+      label: z.string().trim().max(100).optional()
+    }).refine(segment => segment.end > segment.start, {
+      message: 'Segment end must be greater than segment start'
+    })
+  ).min(1).max(20).optional()
+});
+
+const videoIdSchema = z.string().regex(/^[\w-]+$/, 'Invalid video ID');
+
+const captionsRequestSchema = z.object({
+  videoId: videoIdSchema,
+  n: z.number().int().min(1),
+  format: z.enum(SUBTITLE_FORMATS).optional().default('srt')
+});
+
+const segmentParamsSchema = z.object({
+  videoId: videoIdSchema,
+  n: z.number().int().min(1)
+});
+
+const updateSegmentSchema = z.object({
+  start: z.number().min(0),
+  end: z.number().positive(),
+  label: z.string().trim().max(100).optional()
+}).refine(segment => segment.end > segment.start, {
+  message: 'Segment end must be greater than segment start'
+});
+
+const rerunSchema = z.object({
+  stages: z.string({ required_error: `stages is required, e.g. stages=${SPLIT_STAGES.join(',')}` })
+    .transform(value => value.split(',').map(stage => stage.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(SPLIT_STAGES, {
+      errorMap: () => ({ message: `stages must be a list of ${SPLIT_STAGES.join(', ')}` })
+    })).min(1, 'stages must name at least one stage')),
+  title: z.string().trim().min(1).max(100).optional()
+});
+
+// ISO 8601 date ('2026-10-01') or timestamp, normalized to the format stored in the library
+const isoDateSchema = z.string()
+  .refine(value => !isNaN(Date.parse(value)), { message: 'Dates must be ISO 8601, e.g. 2026-10-01' })
+  .transform(value => new Date(value).toISOString());
+
+const listVideosSchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).optional().default(20),
+  sort: z.enum(VIDEO_SORT_FIELDS).optional().default('createdAt'),
+  order: z.enum(['asc', 'desc']).optional().default('desc'),
+  status: z.enum(VIDEO_STATUSES).optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  minDuration: z.coerce.number().min(0).optional(),
+  maxDuration: z.coerce.number().min(0).optional(),
+  uploaded: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  q: z.string().trim().min(1).max(200).optional()
+});
+
+const searchSchema = z.object({
+  q: z.string({ required_error: 'q is required' }).trim().min(1, 'q is required').max(200),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20)
+});
+
+/**
+ * Build a schema that checks manual segments fit inside the probed video duration
+ */
+const manualSegmentsWithinDuration = (duration: number) =>
+  z.array(z.object({ start: z.number(), end: z.number() }).passthrough()).superRefine((segments, ctx) => {
+    segments.forEach((segment, index) => {
+      if (segment.end > duration) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'end'],
+          message: `Segment ${index + 1} ends at ${segment.end}s, after the end of the video (${duration.toFixed(2)}s)`
+        });
+      }
+    });
+  });
+
+/**
+ * Read the manual segment list from the request body
+ *
+ * Accepts either an already parsed array (JSON body) or a JSON string (multipart form field).
+ */
+const parseSegmentsField = (value: unknown): unknown => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw createError('Validation error: segments must be a JSON array of {start, end, label?}', 400);
+  }
+};
+
+/**
+ * Read the list of output formats from the request body
+ *
+ * Accepts an array (JSON body or repeated form field), a JSON array string or a
+ * comma-separated string such as "9:16,1:1". Duplicates are dropped, order is kept.
+ */
+const parseFormatsField = (value: unknown): unknown => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  let formats = value;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    try {
+      formats = trimmed.startsWith('[') ? JSON.parse(trimmed) : trimmed.split(',').map(format => format.trim());
+    } catch {
+      throw createError('Validation error: formats must be a list of aspect ratios such as ["9:16", "1:1"]', 400);
+    }
+  }
+  return Array.isArray(formats) ? Array.from(new Set(formats)) : formats;
+};
+
+/**
+ * Find a video in the library whose segments can be edited
+ *
+ * @param {string} videoId - Video ID
+ * @returns {VideoRecord} The video
+ * @throws {404} If the video is not in the library
+ * @throws {409} If the video is still being split
+ */
+const findEditableVideo = (videoId: string): VideoRecord => {
+  const video = videoLibrary.getVideo(videoId);
+  if (!video) {
+    throw createError(`Video ${videoId} not found`, 404);
+  }
+  if (video.status !== 'ready') {
+    throw createError(`Video ${videoId} is still being split`, 409);
+  }
+  return video;
+};
+
+/**
+ * Shape a library segment for API responses
+ *
+ * Same fields as the segments of a split job result, plus the text generated for
+ * the segment; files are given as download URLs rather than server paths.
+ */
+const toSegmentResponse = (segment: SegmentRecord) => ({
+  segmentNumber: segment.segmentNumber,
+  startTime: segment.startTime,
+  endTime: segment.endTime,
+  duration: segment.duration,
+  downloadUrl: `/api/videos/download/${segment.renders[0]?.filename}`,
+  formats: segment.renders.map(render => ({
+    format: render.format,
+    width: render.width,
+    height: render.height,
+    downloadUrl: `/api/videos/download/${render.filename}`
+  })),
+  ...(segment.score !== undefined && { score: segment.score, rationale: segment.rationale }),
+  ...(segment.label && { label: segment.label }),
+  transcript: segment.transcript ?? null,
+  summary: segment.summary?.text ?? null,
+  title: segment.title ?? null,
+  captions: SUBTITLE_FORMATS
+    .filter(format => segment.files[format])
+    .map(format => ({
+      format,
+      url: `/api/videos/${segment.videoId}/segments/${segment.segmentNumber}/captions?format=${format}`
+    })),
+  destinations: segment.destinations
+});
+
+/**
+ * Shape a library video for API responses
+ *
+ * Everything but the server path of the uploaded source.
+ */
+const toVideoResponse = (video: VideoRecord) => ({
+  id: video.id,
+  originalName: video.originalName,
+  status: video.status,
+  jobId: video.jobId,
+  metadata: video.metadata,
+  strategy: video.strategy,
+  seed: video.seed,
+  framing: video.framing,
+  formats: video.formats,
+  captions: video.captions,
+  createdAt: video.createdAt,
+  updatedAt: video.updatedAt
 });
 
 /**
@@ -113,28 +327,44 @@ router.post('/upload', uploadRateLimiter, upload.single('video'), async (req: Re
 });
 
 /**
- * Upload and split video into random segments
+ * Upload and split video into segments
+ * 
+ * Uploads a video file and queues a job that splits it into segments.
+ * Responds with 202 as soon as the job is queued; poll `GET /api/jobs/:id`
+ * for its status and, once completed, the segments.
  * 
- * Uploads a video file and immediately splits it into random segments.
- * This is a single-step operation combining upload and processing.
+ * Files over 1GB (up to `MAX_UPLOAD_SIZE`) are sent beforehand with the
+ * resumable upload endpoints (`/api/uploads`); pass the upload ID as `uploadId`
+ * instead of the file.
  * 
  * Processing flow:
  * 1. Upload and validate video file
  * 2. Extract video metadata using FFprobe
- * 3. Generate random non-overlapping segments
- * 4. Extract segments using FFmpeg
- * 5. Return segment information with download URLs
+ * 3. Queue the split job and return its ID
+ * 4. Worker: plan non-overlapping segments with the selected strategy
+ * 5. Worker: extract segments using FFmpeg; the job result holds segment info with download URLs
  * 
  * @route POST /api/videos/split
- * @param {File} video - Video file (multipart/form-data, required)
+ * @param {File} [video] - Video file (multipart/form-data), required unless uploadId is set
+ * @param {string} [uploadId] - ID of a completed resumable upload to split instead of an attached file
  * @param {number} [segmentCount=3] - Number of segments (1-20, optional)
  * @param {number} [minSegmentDuration=5] - Minimum segment duration in seconds (1-300, optional)
  * @param {number} [maxSegmentDuration=60] - Maximum segment duration in seconds (1-300, optional)
- * @returns {Object} Split response with original video info and segments
+ * @param {string} [strategy=random] - Segmentation strategy: 'random', 'scenes' (cut on shot changes), 'transcript' (cut between sentences), 'highlights' (LLM-ranked best moments) or 'silence' (cut in pauses, prefer loud speech)
+ * @param {number} [silenceThreshold=-30] - Noise level in dB treated as silence (-90 to 0, 'silence' strategy)
+ * @param {number} [minPauseDuration=0.5] - Minimum pause length in seconds (0.1-10, 'silence' strategy)
+ * @param {boolean} [captions=false] - Burn karaoke-style captions (2-4 words per line, current word highlighted) into the lower part of every render, using word-level timestamps from the transcription provider
+ * @param {number} [seed] - PRNG seed (0-4294967295) for random choices; pass the seed from an earlier response to replay that split exactly
+ * @param {string} [framing=letterbox] - How the picture fills the 9:16 frame: 'letterbox' (whole picture, black bars), 'blur-fill' (whole picture over a blurred copy of itself), 'crop-center' (fill and crop the sides) or 'crop-track' (fill and pan the crop to follow the main subject)
+ * @param {string[]} [formats=['9:16']] - Output aspect ratios ('9:16', '1:1', '4:5', '16:9'), as an array, JSON string or comma-separated list. Every segment is rendered once per format; the first one is the primary render
+ * @param {Array} [segments] - Explicit time ranges [{start, end, label?}] in seconds (1-20 items, JSON string in form data). When set, the strategy and count/duration settings are ignored
+ * @returns {Object} 202 response with the job ID, video ID, seed and status URL (also in the Location header)
  * @throws {400} If file invalid, parameters invalid, or video too short
- * @throws {413} If file exceeds 1GB limit
+ * @throws {404} If uploadId does not match an upload
+ * @throws {409} If the upload is not complete
+ * @throws {413} If the attached file exceeds the 1GB limit
  * @throws {429} If rate limit exceeded
- * @throws {500} If processing fails
+ * @throws {500} If the video cannot be probed or the job cannot be queued
  * 
  * @example
  * POST /api/videos/split
@@ -142,39 +372,61 @@ router.post('/upload', uploadRateLimiter, upload.single('video'), async (req: Re
  *   video: File,
  *   segmentCount: '3',
  *   minSegmentDuration: '5',
- *   maxSegmentDuration: '60'
+ *   maxSegmentDuration: '60',
+ *   strategy: 'scenes'
  * }
- * Response: {
+ * Response (202): {
  *   success: true,
  *   data: {
- *     originalVideo: { filename: '...', duration: 120, ... },
- *     segments: [{ segmentNumber: 1, startTime: 10, ... }, ...],
- *     totalSegments: 3
+ *     jobId: 'f47ac10b-...',
+ *     videoId: 'a1b2c3d4-...',
+ *     seed: 1234567890,
+ *     status: 'queued',
+ *     statusUrl: '/api/jobs/f47ac10b-...'
  *   }
  * }
  */
 router.post('/split', uploadRateLimiter, upload.single('video'), async (req: Request, res: Response, next) => {
   let videoPath: string | undefined;
-  let outputDir: string | undefined;
 
   try {
     console.log('🎬 ===== VIDEO SPLIT REQUEST STARTED =====');
     console.log('📤 Received video split request');
     
-    if (!req.file) {
+    let originalName: string;
+    let fileSize: number;
+    if (req.file) {
+      videoPath = req.file.path;
+      originalName = req.file.originalname;
+      fileSize = req.file.size;
+    } else if (req.body.uploadId) {
+      // File sent earlier in chunks through /api/uploads
+      const upload = await uploadService.claim(String(req.body.uploadId));
+      videoPath = upload.path;
+      originalName = upload.filename;
+      fileSize = upload.size;
+    } else {
       throw createError('No video file provided', 400);
     }
 
-    videoPath = req.file.path;
-    console.log(`📁 Video file: ${req.file.originalname}`);
+    console.log(`📁 Video file: ${originalName}`);
     console.log(`📂 Saved to: ${videoPath}`);
-    console.log(`📊 File size: ${(req.file.size / (1024 * 1024)).toFixed(2)} MB`);
+    console.log(`📊 File size: ${(fileSize / (1024 * 1024)).toFixed(2)} MB`);
 
     // Validate request body
+    const requestedSegments = parseSegmentsField(req.body.segments);
     const validation = splitVideoSchema.safeParse({
       segmentCount: req.body.segmentCount ? parseInt(req.body.segmentCount) : undefined,
       minSegmentDuration: req.body.minSegmentDuration ? parseFloat(req.body.minSegmentDuration) : undefined,
-      maxSegmentDuration: req.body.maxSegmentDuration ? parseFloat(req.body.maxSegmentDuration) : undefined
+      maxSegmentDuration: req.body.maxSegmentDuration ? parseFloat(req.body.maxSegmentDuration) : undefined,
+      strategy: req.body.strategy || undefined,
+      silenceThreshold: req.body.silenceThreshold ? parseFloat(req.body.silenceThreshold) : undefined,
+      minPauseDuration: req.body.minPauseDuration ? parseFloat(req.body.minPauseDuration) : undefined,
+      seed: req.body.seed !== undefined && req.body.seed !== '' ? Number(req.body.seed) : undefined,
+      framing: req.body.framing || undefined,
+      formats: parseFormatsField(req.body.formats),
+      captions: req.body.captions !== undefined ? req.body.captions === true || req.body.captions === 'true' : undefined,
+      segments: requestedSegments
     });
 
     if (!validation.success) {
@@ -182,11 +434,28 @@ router.post('/split', uploadRateLimiter, upload.single('video'), async (req: Req
       throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
     }
 
-    const { segmentCount, minSegmentDuration, maxSegmentDuration } = validation.data;
+    const {
+      segmentCount,
+      minSegmentDuration,
+      maxSegmentDuration,
+      strategy,
+      silenceThreshold,
+      minPauseDuration,
+      framing,
+      formats,
+      captions,
+      segments: manualSegments
+    } = validation.data;
+    const seed = validation.data.seed ?? generateSeed();
     console.log(`⚙️  Split settings:`);
+    console.log(`   - Strategy: ${manualSegments ? 'manual' : strategy}`);
     console.log(`   - Segment count: ${segmentCount}`);
     console.log(`   - Min duration: ${minSegmentDuration}s`);
     console.log(`   - Max duration: ${maxSegmentDuration}s`);
+    console.log(`   - Seed: ${seed}`);
+    console.log(`   - Framing: ${framing}`);
+    console.log(`   - Formats: ${formats.join(', ')}`);
+    console.log(`   - Captions: ${captions ? 'on' : 'off'}`);
 
     // Get video metadata
     console.log('🔍 Extracting video metadata...');
@@ -197,89 +466,71 @@ router.post('/split', uploadRateLimiter, upload.single('video'), async (req: Req
     console.log(`   - Format: ${metadata.format}`);
     console.log(`   - Size: ${(metadata.size / (1024 * 1024)).toFixed(2)} MB`);
 
-    if (metadata.duration < minSegmentDuration) {
-      await fs.unlink(videoPath).catch(() => {});
-      throw createError(`Video duration (${metadata.duration}s) is less than minimum segment duration (${minSegmentDuration}s)`, 400);
-    }
+    let segments: PlannedSegment[] | undefined;
 
-    // Generate random segments
-    console.log('🎲 Generating random segments...');
-    const segments = generateRandomSegments(
-      metadata.duration,
-      segmentCount,
-      minSegmentDuration,
-      maxSegmentDuration
-    );
+    if (manualSegments) {
+      // Use the caller's ranges as-is, once they are known to fit inside the video
+      const rangeValidation = manualSegmentsWithinDuration(metadata.duration).safeParse(manualSegments);
+      if (!rangeValidation.success) {
+        await fs.unlink(videoPath).catch(() => {});
+        throw createError(`Validation error: ${rangeValidation.error.errors.map(e => e.message).join(', ')}`, 400);
+      }
 
-    if (segments.length === 0) {
+      segments = manualSegments.map(segment => ({
+        startTime: segment.start,
+        endTime: segment.end,
+        duration: Math.round((segment.end - segment.start) * 100) / 100,
+        ...(segment.label && { label: segment.label })
+      }));
+    } else if (metadata.duration < minSegmentDuration) {
       await fs.unlink(videoPath).catch(() => {});
-      throw createError('Unable to generate valid segments for this video', 400);
+      throw createError(`Video duration (${metadata.duration}s) is less than minimum segment duration (${minSegmentDuration}s)`, 400);
     }
 
-    console.log(`✅ Generated ${segments.length} segments:`);
-    segments.forEach((seg, idx) => {
-      console.log(`   Segment ${idx + 1}: ${seg.startTime.toFixed(2)}s - ${seg.endTime.toFixed(2)}s (${seg.duration.toFixed(2)}s)`);
+    // Planning and rendering run in the job worker; the client polls the job for the result
+    const videoId = path.basename(videoPath, path.extname(videoPath));
+    const job = await jobQueue.enqueue<SplitJobParams>(SPLIT_JOB_TYPE, {
+      videoId,
+      videoPath,
+      originalName,
+      metadata,
+      strategy,
+      planOptions: {
+        segmentCount,
+        minSegmentDuration,
+        maxSegmentDuration,
+        silenceThreshold,
+        minPauseDuration
+      },
+      seed,
+      framing,
+      formats,
+      captions,
+      segments
     });
 
-    // Create output directory
-    const fileId = path.basename(videoPath, path.extname(videoPath));
-    outputDir = path.join('processed', fileId);
-    await fs.mkdir(outputDir, { recursive: true });
-    console.log(`📁 Output directory created: ${outputDir}`);
-
-    // Split video
-    console.log(`✂️  Starting video split process...`);
-    logger.info(`Splitting video into ${segments.length} segments`);
-    const outputSegments = await splitVideo(videoPath, outputDir, segments);
-    console.log(`✅ Video split completed successfully!`);
-    console.log(`📦 Created ${outputSegments.length} segment files`);
-
-    // Prepare response
-    const responseSegments: Array<{
-      segmentNumber: number;
-      startTime: number;
-      endTime: number;
-      duration: number;
-      downloadUrl: string;
-    }> = outputSegments.map((segment, index) => ({
-      segmentNumber: index + 1,
-      startTime: segment.startTime,
-      endTime: segment.endTime,
-      duration: segment.duration,
-      downloadUrl: `/api/videos/download/${path.basename(segment.outputPath)}`
-    }));
-
-    console.log('📤 Sending response to client...');
-    console.log(`✅ ===== VIDEO SPLIT COMPLETED SUCCESSFULLY =====`);
-    console.log(`   Total segments: ${responseSegments.length}`);
-    console.log(`   Original video: ${req.file.originalname}`);
-    console.log(`   Video duration: ${metadata.duration.toFixed(2)}s`);
+    const statusUrl = `/api/jobs/${job.id}`;
+    console.log(`📥 Split job queued: ${job.id} (video ${videoId})`);
     console.log('===========================================\n');
 
-    res.json({
+    res.status(202).location(statusUrl).json({
       success: true,
       data: {
-        videoId: fileId, // Add videoId to response
-        originalVideo: {
-          filename: req.file.originalname,
-          duration: metadata.duration,
-          metadata
-        },
-        segments: responseSegments,
-        totalSegments: segments.length
+        jobId: job.id,
+        videoId,
+        seed, // Send back with the same settings to reproduce this split
+        status: job.status,
+        statusUrl
       }
     });
   } catch (error) {
-    console.error('❌ ===== VIDEO SPLIT FAILED =====');
+    console.error('❌ ===== VIDEO SPLIT REQUEST FAILED =====');
     console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     console.error('===================================\n');
     // Cleanup on error
     if (videoPath) {
       await fs.unlink(videoPath).catch(() => {});
     }
-    if (outputDir) {
-      await fs.rm(outputDir, { recursive: true, force: true }).catch(() => {});
-    }
     next(error);
   }
 });
@@ -287,13 +538,13 @@ router.post('/split', uploadRateLimiter, upload.single('video'), async (req: Req
 /**
  * Download a processed video segment
  * 
- * Serves a processed video segment file for download.
- * Files are stored in the processed directory organized by video ID.
+ * Serves a processed video segment file (or one of its text sidecars) for download.
+ * The file is looked up by name in the video library.
  * 
  * @route GET /api/videos/download/:filename
  * @param {string} filename - Segment filename (e.g., 'segment_1_uuid.mp4')
  * @returns {File} Video segment file (video/mp4)
- * @throws {404} If segment file not found
+ * @throws {404} If the file is not in the library or is gone from disk
  * 
  * @example
  * GET /api/videos/download/segment_1_a1b2c3d4.mp4
@@ -302,46 +553,489 @@ router.post('/split', uploadRateLimiter, upload.single('video'), async (req: Req
 router.get('/download/:filename', async (req: Request, res: Response, next) => {
   try {
     const filename = req.params.filename;
-    const videoId = req.query.videoId as string | undefined;
+    const { path: filePath } = await findSegmentFile(filename, 'File not found');
 
-    let filePath: string;
-    if (videoId) {
-      filePath = path.join(process.cwd(), 'processed', videoId, filename);
-    } else {
-      // Fallback: search in processed directories
-      const processedDir = path.join(process.cwd(), 'processed');
-      const dirs = await fs.readdir(processedDir).catch(() => []);
-      let found = false;
-      filePath = path.join(processedDir, filename.split('_')[1] || '', filename);
-      for (const dir of dirs) {
-        const testPath = path.join(processedDir, dir, filename);
-        try {
-          await fs.access(testPath);
-          filePath = testPath;
-          found = true;
-          break;
-        } catch {
-          // continue
+    res.download(path.resolve(filePath), (err) => {
+      if (err) {
+        logger.error(`Error downloading file ${filename}: ${err.message}`);
+        if (!res.headersSent) {
+          next(createError('Failed to download file', 500));
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Download the subtitle sidecar of a segment
+ * 
+ * Serves the `.srt` or `.vtt` file written next to the segment's primary render.
+ * Timestamps start at the beginning of the segment, not of the original video.
+ * 
+ * @route GET /api/videos/:videoId/segments/:n/captions
+ * @param {string} videoId - Video ID returned by the split endpoint
+ * @param {number} n - Segment number (1-based, as in `segmentNumber`)
+ * @param {string} [format=srt] - Subtitle format: 'srt' or 'vtt' (query parameter)
+ * @returns {File} Subtitle file (application/x-subrip or text/vtt)
+ * @throws {400} If parameters are invalid
+ * @throws {404} If the segment or its subtitles do not exist
+ * 
+ * @example
+ * GET /api/videos/abc123/segments/2/captions?format=vtt
+ */
+router.get('/:videoId/segments/:n/captions', async (req: Request, res: Response, next) => {
+  try {
+    const validation = captionsRequestSchema.safeParse({
+      videoId: req.params.videoId,
+      n: parseInt(req.params.n),
+      format: req.query.format || undefined
+    });
+
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const { videoId, n, format } = validation.data;
+    const subtitlePath = videoLibrary.getSegment(videoId, n)?.files[format];
+
+    if (!subtitlePath) {
+      throw createError(`No ${format.toUpperCase()} captions found for segment ${n} of video ${videoId}`, 404);
+    }
+
+    const subtitleFile = path.basename(subtitlePath);
+    res.type(SUBTITLE_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `inline; filename="${subtitleFile}"`);
+    res.sendFile(path.resolve(subtitlePath), (err) => {
+      if (err) {
+        logger.error(`Error sending captions ${subtitleFile}: ${err.message}`);
+        if (!res.headersSent) {
+          next(createError('Failed to send captions', 500));
         }
       }
-      if (!found) {
-        throw createError('File not found', 404);
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Add a segment to a video
+ *
+ * Queues a job that renders the new range from the uploaded source through the
+ * split pipeline (every format, transcript, captions, summary and title, with
+ * the video's split settings). The segment is numbered when the job runs, after
+ * the highest number the video ever had: numbers of deleted segments are not
+ * given out again. The job result holds the new segment and its number.
+ *
+ * @route POST /api/videos/:videoId/segments
+ * @param {string} videoId - Video ID returned by the split endpoint
+ * @param {number} start - Start time in seconds (JSON body)
+ * @param {number} end - End time in seconds, at most the video duration (JSON body)
+ * @param {string} [label] - Segment label
+ * @returns {Object} 202 with the job to poll on /api/jobs/:id; its result is the new segment
+ * @throws {400} If parameters are invalid or the range runs past the end of the video
+ * @throws {404} If the video does not exist
+ * @throws {409} If the video is still being split
+ *
+ * @example
+ * POST /api/videos/abc123/segments
+ * Body: { start: 95, end: 120 }
+ * Response (202): {
+ *   success: true,
+ *   data: { jobId: 'f47ac10b-...', videoId: 'abc123', status: 'queued', statusUrl: '/api/jobs/f47ac10b-...' }
+ * }
+ */
+router.post('/:videoId/segments', async (req: Request, res: Response, next) => {
+  try {
+    const params = videoIdSchema.safeParse(req.params.videoId);
+    if (!params.success) {
+      throw createError(`Validation error: ${params.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+    const validation = updateSegmentSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const videoId = params.data;
+    const { start, end, label } = validation.data;
+    const video = findEditableVideo(videoId);
+
+    if (end > video.metadata.duration) {
+      throw createError(`Validation error: Segment ends at ${end}s, after the end of the video (${video.metadata.duration.toFixed(2)}s)`, 400);
+    }
+
+    const job = await jobQueue.enqueue<SegmentJobParams>(SEGMENT_JOB_TYPE, {
+      videoId,
+      startTime: start,
+      endTime: end,
+      label
+    });
+
+    const statusUrl = `/api/jobs/${job.id}`;
+    console.log(`📥 Segment job queued: ${job.id} (new segment of video ${videoId}, ${start}s - ${end}s)`);
+
+    res.status(202).location(statusUrl).json({
+      success: true,
+      data: {
+        jobId: job.id,
+        videoId,
+        status: job.status,
+        statusUrl
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Change the in/out points of a segment
+ *
+ * Queues a job that renders the segment again from the uploaded source through
+ * the split pipeline (every format, transcript, captions, summary and title,
+ * with the video's split settings) and then replaces the old segment and its
+ * files. The other segments are left untouched. To add a segment, use
+ * `POST /api/videos/:videoId/segments`.
+ *
+ * @route PUT /api/videos/:videoId/segments/:n
+ * @param {string} videoId - Video ID returned by the split endpoint
+ * @param {number} n - Segment number (1-based)
+ * @param {number} start - New start time in seconds (JSON body)
+ * @param {number} end - New end time in seconds, at most the video duration (JSON body)
+ * @param {string} [label] - Segment label; defaults to the current one
+ * @returns {Object} 202 with the job to poll on /api/jobs/:id; its result is the new segment
+ * @throws {400} If parameters are invalid or the range runs past the end of the video
+ * @throws {404} If the video or segment does not exist
+ * @throws {409} If the video is still being split
+ *
+ * @example
+ * PUT /api/videos/abc123/segments/2
+ * Body: { start: 12.5, end: 41 }
+ * Response (202): {
+ *   success: true,
+ *   data: { jobId: 'f47ac10b-...', videoId: 'abc123', segmentNumber: 2, status: 'queued', statusUrl: '/api/jobs/f47ac10b-...' }
+ * }
+ */
+router.put('/:videoId/segments/:n', async (req: Request, res: Response, next) => {
+  try {
+    const params = segmentParamsSchema.safeParse({ videoId: req.params.videoId, n: parseInt(req.params.n) });
+    if (!params.success) {
+      throw createError(`Validation error: ${params.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+    const validation = updateSegmentSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const { videoId, n } = params.data;
+    const { start, end, label } = validation.data;
+    const video = findEditableVideo(videoId);
+
+    if (end > video.metadata.duration) {
+      throw createError(`Validation error: Segment ends at ${end}s, after the end of the video (${video.metadata.duration.toFixed(2)}s)`, 400);
+    }
+
+    const current = videoLibrary.getSegment(videoId, n);
+    if (!current) {
+      throw createError(`Segment ${n} of video ${videoId} not found`, 404);
+    }
+
+    const job = await jobQueue.enqueue<SegmentJobParams>(SEGMENT_JOB_TYPE, {
+      videoId,
+      segmentNumber: n,
+      startTime: start,
+      endTime: end,
+      label: label ?? current.label
+    });
+
+    const statusUrl = `/api/jobs/${job.id}`;
+    console.log(`📥 Segment job queued: ${job.id} (segment ${n} of video ${videoId}, ${start}s - ${end}s)`);
+
+    res.status(202).location(statusUrl).json({
+      success: true,
+      data: {
+        jobId: job.id,
+        videoId,
+        segmentNumber: n,
+        status: job.status,
+        statusUrl
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Delete a segment and its files
+ *
+ * The other segments keep their numbers.
+ *
+ * @route DELETE /api/videos/:videoId/segments/:n
+ * @param {string} videoId - Video ID returned by the split endpoint
+ * @param {number} n - Segment number (1-based)
+ * @returns {Object} The remaining segments, shaped as in GET /api/videos/:videoId
+ * @throws {400} If parameters are invalid
+ * @throws {404} If the video or segment does not exist
+ * @throws {409} If the video is still being split
+ *
+ * @example
+ * DELETE /api/videos/abc123/segments/2
+ * Response: { success: true, data: { videoId: 'abc123', segments: [{ segmentNumber: 1, ... }, { segmentNumber: 3, ... }] } }
+ */
+router.delete('/:videoId/segments/:n', async (req: Request, res: Response, next) => {
+  try {
+    const validation = segmentParamsSchema.safeParse({ videoId: req.params.videoId, n: parseInt(req.params.n) });
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const { videoId, n } = validation.data;
+    findEditableVideo(videoId);
+    const segment = videoLibrary.getSegment(videoId, n);
+    if (!segment) {
+      throw createError(`Segment ${n} of video ${videoId} not found`, 404);
+    }
+
+    videoLibrary.deleteSegment(videoId, n);
+    await removeSegmentFiles(segment);
+    logger.info(`Deleted segment ${n} of video ${videoId}`);
+
+    res.json({
+      success: true,
+      data: {
+        videoId,
+        segments: videoLibrary.getSegments(videoId).map(toSegmentResponse)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Run some stages of a segment again
+ *
+ * Stages: encode, transcribe, captions, summarize, title. Every stage that
+ * uses the output of a requested stage runs again too: re-encoding redoes
+ * everything, re-transcribing redoes captions, summary and title, and the
+ * title alone only redraws the overlay (from the `_original_no_title.mp4`
+ * backup). Pass a title to use it instead of generating one. The segment keeps
+ * its range and file names; only the files of the stages that run change.
+ *
+ * @route POST /api/videos/:videoId/segments/:n/rerun
+ * @param {string} videoId - Video ID returned by the split endpoint
+ * @param {number} n - Segment number (1-based)
+ * @param {string} stages - Comma-separated stages to run (query parameter)
+ * @param {string} [title] - Title to draw instead of generating one (JSON body); implies the title stage
+ * @returns {Object} 202 with the job and the stages it will run; its result lists the stages that ran and were skipped
+ * @throws {400} If parameters are invalid
+ * @throws {404} If the video or segment does not exist, or the source is needed and gone
+ * @throws {409} If the video is still being split, or a stage needs the output of a stage that is not re-run and never ran
+ *
+ * @example
+ * POST /api/videos/abc123/segments/2/rerun?stages=title
+ * Body: { title: 'Pricing that works' }
+ * Response (202): {
+ *   success: true,
+ *   data: { jobId: 'f47ac10b-...', videoId: 'abc123', segmentNumber: 2, stages: ['title'], status: 'queued', statusUrl: '/api/jobs/f47ac10b-...' }
+ * }
+ */
+router.post('/:videoId/segments/:n/rerun', async (req: Request, res: Response, next) => {
+  try {
+    const params = segmentParamsSchema.safeParse({ videoId: req.params.videoId, n: parseInt(req.params.n) });
+    if (!params.success) {
+      throw createError(`Validation error: ${params.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+    const validation = rerunSchema.safeParse({ stages: req.query.stages, title: req.body?.title });
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const { videoId, n } = params.data;
+    const { title } = validation.data;
+    const video = findEditableVideo(videoId);
+    const segment = videoLibrary.getSegment(videoId, n);
+    if (!segment) {
+      throw createError(`Segment ${n} of video ${videoId} not found`, 404);
+    }
+
+    const requestedStages = title ? [...validation.data.stages, 'title' as const] : validation.data.stages;
+    const stages = getStagesToRun(requestedStages);
+    await checkRerunInputs(video, segment, stages);
+
+    const job = await jobQueue.enqueue<RerunJobParams>(RERUN_JOB_TYPE, { videoId, segmentNumber: n, stages, requestedStages, title });
+
+    const statusUrl = `/api/jobs/${job.id}`;
+    console.log(`📥 Re-run job queued: ${job.id} (segment ${n} of video ${videoId}: ${stages.join(', ')})`);
+
+    res.status(202).location(statusUrl).json({
+      success: true,
+      data: {
+        jobId: job.id,
+        videoId,
+        segmentNumber: n,
+        stages,
+        status: job.status,
+        statusUrl
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get the audio waveform of a video's source
+ *
+ * Computed from the uploaded source on first request and cached in
+ * `waveform.json` in the video's output directory.
+ *
+ * @route GET /api/videos/:videoId/waveform
+ * @param {string} videoId - Video ID returned by the split endpoint
+ * @returns {Object} The source duration and 1000 evenly spaced peak levels (0-1)
+ * @throws {400} If the video ID is invalid
+ * @throws {404} If the video is not in the library or its source is gone
+ *
+ * @example
+ * GET /api/videos/abc123/waveform
+ * Response: { success: true, data: { duration: 120, peaks: [0.02, 0.41, ...] } }
+ */
+router.get('/:videoId/waveform', async (req: Request, res: Response, next) => {
+  try {
+    const validation = videoIdSchema.safeParse(req.params.videoId);
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const video = videoLibrary.getVideo(validation.data);
+    if (!video) {
+      throw createError(`Video ${validation.data} not found`, 404);
+    }
+
+    const waveformPath = path.join('processed', video.id, 'waveform.json');
+    let peaks: number[];
+    try {
+      peaks = JSON.parse(await fs.readFile(waveformPath, 'utf-8'));
+    } catch {
+      try {
+        await fs.access(video.sourcePath);
+      } catch {
+        throw createError(`The source of video ${video.id} is no longer available`, 404);
       }
+      peaks = await extractWaveform(video.sourcePath, video.metadata.duration);
+      await fs.mkdir(path.dirname(waveformPath), { recursive: true });
+      await fs.writeFile(waveformPath, JSON.stringify(peaks), 'utf-8');
     }
 
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    res.json({ success: true, data: { duration: video.metadata.duration, peaks } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a strip of frames from a video's source
+ *
+ * Twelve evenly spaced frames side by side, extracted from the uploaded source
+ * on first request and cached in `filmstrip.jpg` in the video's output directory.
+ *
+ * @route GET /api/videos/:videoId/filmstrip
+ * @param {string} videoId - Video ID returned by the split endpoint
+ * @returns {File} JPEG image, 90px high
+ * @throws {400} If the video ID is invalid
+ * @throws {404} If the video is not in the library or its source is gone
+ *
+ * @example
+ * <img src="/api/videos/abc123/filmstrip" alt="">
+ */
+router.get('/:videoId/filmstrip', async (req: Request, res: Response, next) => {
+  try {
+    const validation = videoIdSchema.safeParse(req.params.videoId);
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const video = videoLibrary.getVideo(validation.data);
+    if (!video) {
+      throw createError(`Video ${validation.data} not found`, 404);
+    }
+
+    const filmstripPath = path.join('processed', video.id, 'filmstrip.jpg');
     try {
-      await fs.access(filePath);
-      res.download(filePath, (err) => {
-        if (err) {
-          logger.error(`Error downloading file ${filename}: ${err.message}`);
-          if (!res.headersSent) {
-            next(createError('Failed to download file', 500));
-          }
+      await fs.access(filmstripPath);
+    } catch {
+      try {
+        await fs.access(video.sourcePath);
+      } catch {
+        throw createError(`The source of video ${video.id} is no longer available`, 404);
+      }
+      await fs.mkdir(path.dirname(filmstripPath), { recursive: true });
+      await extractFilmstrip(video.sourcePath, filmstripPath, video.metadata.duration);
+    }
+
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    res.sendFile(path.resolve(filmstripPath), (err) => {
+      if (err) {
+        logger.error(`Error sending filmstrip of video ${video.id}: ${err.message}`);
+        if (!res.headersSent) {
+          next(createError('Failed to send filmstrip', 500));
         }
-      });
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a thumbnail of a video in the library
+ *
+ * A frame of the first segment's primary render, written to `thumbnail.jpg` in
+ * the video's output directory on first request and served from there afterwards.
+ *
+ * @route GET /api/videos/:videoId/thumbnail
+ * @param {string} videoId - Video ID returned by the split endpoint
+ * @returns {File} JPEG image, 320px wide
+ * @throws {400} If the video ID is invalid
+ * @throws {404} If the video is not in the library or has no segments yet
+ *
+ * @example
+ * <img src="/api/videos/abc123/thumbnail" alt="">
+ */
+router.get('/:videoId/thumbnail', async (req: Request, res: Response, next) => {
+  try {
+    const validation = videoIdSchema.safeParse(req.params.videoId);
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const videoId = validation.data;
+    const [segment] = videoLibrary.getSegments(videoId);
+    const render = segment?.renders[0];
+    if (!render) {
+      throw createError(`No thumbnail for video ${videoId}`, 404);
+    }
+
+    const thumbnailPath = path.join(path.dirname(render.path), 'thumbnail.jpg');
+    try {
+      await fs.access(thumbnailPath);
     } catch {
-      throw createError('File not found', 404);
+      await extractThumbnail(render.path, thumbnailPath, Math.min(1, segment.duration / 2));
     }
+
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    res.sendFile(path.resolve(thumbnailPath), (err) => {
+      if (err) {
+        logger.error(`Error sending thumbnail of video ${videoId}: ${err.message}`);
+        if (!res.headersSent) {
+          next(createError('Failed to send thumbnail', 500));
+        }
+      }
+    });
   } catch (error) {
     next(error);
   }
@@ -351,28 +1045,30 @@ router.get('/download/:filename', async (req: Request, res: Response, next) => {
  * Get segment summary (written content) text
  *
  * @route GET /api/videos/segment-summary
- * @param {string} videoId - Video ID (processed folder name)
  * @param {string} filename - Segment filename (e.g. segment_1_uuid.mp4)
  * @returns {Object} { summary: string }
  */
 router.get('/segment-summary', async (req: Request, res: Response, next) => {
   try {
-    const videoId = req.query.videoId as string;
     const filename = req.query.filename as string;
 
-    if (!videoId || !filename) {
-      throw createError('videoId and filename are required', 400);
+    if (!filename) {
+      throw createError('filename is required', 400);
     }
 
-    const baseName = path.basename(filename, path.extname(filename));
-    const summaryPath = path.join(process.cwd(), 'processed', videoId, `${baseName}_summary.txt`);
-
-    try {
-      const summary = await fs.readFile(summaryPath, 'utf-8');
-      res.json({ success: true, data: { summary } });
-    } catch {
-      res.json({ success: true, data: { summary: '' } });
+    const file = videoLibrary.findFile(filename);
+    if (file) {
+      const segment = videoLibrary.getSegment(file.videoId, file.segmentNumber);
+      res.json({ success: true, data: { summary: segment?.summary?.text ?? '' } });
+      return;
     }
+
+    // A segment processed before the library existed: read its summary file
+    const unrecorded = await findUnrecordedSegmentFile(filename);
+    const summary = unrecorded
+      ? await fs.readFile(unrecorded.path.replace(/\.mp4$/, '_summary.txt'), 'utf-8').catch(() => '')
+      : '';
+    res.json({ success: true, data: { summary } });
   } catch (error) {
     next(error);
   }
@@ -497,49 +1193,7 @@ router.post('/transcribe', uploadRateLimiter, upload.single('video'), async (req
 router.post('/transcribe-segment/:filename', async (req: Request, res: Response, next) => {
   try {
     const filename = req.params.filename;
-    const videoId = req.body.videoId || req.query.videoId;
-    
-    let filePath: string | undefined;
-    
-    if (videoId) {
-      // Use provided video ID
-      filePath = path.join('processed', videoId as string, filename);
-    } else {
-      // Try to find the file by searching in processed directories
-      // This is a fallback for when videoId is not provided
-      const processedDir = path.join(process.cwd(), 'processed');
-      try {
-        const dirs = await fs.readdir(processedDir);
-        
-        for (const dir of dirs) {
-          const testPath = path.join(processedDir, dir, filename);
-          try {
-            await fs.access(testPath);
-            filePath = testPath;
-            break;
-          } catch {
-            // Continue searching
-          }
-        }
-      } catch {
-        // processed directory doesn't exist
-      }
-      
-      if (!filePath) {
-        throw createError('Segment file not found. Please provide videoId parameter.', 404);
-      }
-    }
-
-    // Check if file exists
-    if (!filePath) {
-      throw createError('Segment file not found', 404);
-    }
-    
-    try {
-      await fs.access(filePath);
-    } catch {
-      throw createError('Segment file not found', 404);
-    }
+    const { path: filePath } = await findSegmentFile(filename, 'Segment file not found', 'render');
 
     logger.info(`Transcribing segment: ${filename}`);
 
@@ -581,7 +1235,9 @@ router.post('/transcribe-segment/:filename', async (req: Request, res: Response,
 /**
  * Get available transcription providers
  * 
- * Returns list of transcription providers that are configured and available.
+ * Returns list of transcription providers that are configured and available:
+ * 'openai', 'assemblyai' and 'deepgram' when their API key is set, 'local' when
+ * a whisper.cpp or faster-whisper binary is (`LOCAL_WHISPER_PATH`).
  * 
  * @route GET /api/videos/transcription-providers
  * @returns {Object} List of available providers
@@ -621,7 +1277,6 @@ const summarizeSchema = z.object({
  * 
  * @route POST /api/videos/summarize/:filename
  * @param {string} filename - Transcription filename (e.g., 'segment_1_uuid.txt')
- * @param {string} [videoId] - Video ID (optional, will search if not provided)
  * @param {number} [maxLength=100] - Maximum length of summary in words (10-500)
  * @param {string} [language] - Language for summary (ISO 639-1 code)
  * @param {string} [style=concise] - Summary style: 'concise', 'detailed', or 'bullet-points'
@@ -630,7 +1285,7 @@ const summarizeSchema = z.object({
  * @throws {500} If summarization fails
  * 
  * @example
- * POST /api/videos/summarize/segment_1_uuid.txt?videoId=abc123&maxLength=150&style=bullet-points
+ * POST /api/videos/summarize/segment_1_uuid.txt?maxLength=150&style=bullet-points
  * Response: {
  *   success: true,
  *   data: {
@@ -643,52 +1298,13 @@ const summarizeSchema = z.object({
 router.post('/summarize/:filename', async (req: Request, res: Response, next) => {
   try {
     const filename = req.params.filename;
-    const videoId = req.body.videoId || req.query.videoId;
     
     if (!filename.endsWith('.txt')) {
       throw createError('Filename must be a .txt file', 400);
     }
     
-    let txtFilePath: string | undefined;
-    
-    if (videoId) {
-      // Use provided video ID
-      txtFilePath = path.join('processed', videoId as string, filename);
-    } else {
-      // Try to find the file by searching in processed directories
-      const processedDir = path.join(process.cwd(), 'processed');
-      try {
-        const dirs = await fs.readdir(processedDir);
-        
-        for (const dir of dirs) {
-          const testPath = path.join(processedDir, dir, filename);
-          try {
-            await fs.access(testPath);
-            txtFilePath = testPath;
-            break;
-          } catch {
-            // Continue searching
-          }
-        }
-      } catch {
-        // processed directory doesn't exist
-      }
-      
-      if (!txtFilePath) {
-        throw createError('Transcription file not found. Please provide videoId parameter.', 404);
-      }
-    }
-
-    // Check if file exists
-    if (!txtFilePath) {
-      throw createError('Transcription file not found', 404);
-    }
-    
-    try {
-      await fs.access(txtFilePath);
-    } catch {
-      throw createError('Transcription file not found', 404);
-    }
+    const file = await findSegmentFile(filename, 'Transcription file not found', 'transcript');
+    const txtFilePath = file.path;
 
     // Validate optional parameters
     const validation = summarizeSchema.safeParse({
@@ -713,6 +1329,9 @@ router.post('/summarize/:filename', async (req: Request, res: Response, next) =>
 
     // Read the summary to return it
     const summary = await fs.readFile(summaryPath, 'utf-8');
+    if (file.recorded) {
+      videoLibrary.saveSummary(file.videoId, file.segmentNumber, { text: summary, path: summaryPath });
+    }
 
     logger.info(`Summary created for ${filename}`);
 
@@ -739,7 +1358,6 @@ router.post('/summarize/:filename', async (req: Request, res: Response, next) =>
  * 
  * @route POST /api/videos/social-media/:filename
  * @param {string} filename - Transcription filename (e.g., 'segment_1_uuid.txt')
- * @param {string} [videoId] - Video ID (optional, will search if not provided)
  * @param {number} [maxLength=150] - Maximum length of description in words (50-300)
  * @param {string} [language] - Language for content (ISO 639-1 code)
  * @returns {Object} Social media content with description and title
@@ -747,7 +1365,7 @@ router.post('/summarize/:filename', async (req: Request, res: Response, next) =>
  * @throws {500} If generation fails
  * 
  * @example
- * POST /api/videos/social-media/segment_1_uuid.txt?videoId=abc123&maxLength=150
+ * POST /api/videos/social-media/segment_1_uuid.txt?maxLength=150
  * Response: {
  *   success: true,
  *   data: {
@@ -762,52 +1380,13 @@ router.post('/summarize/:filename', async (req: Request, res: Response, next) =>
 router.post('/social-media/:filename', async (req: Request, res: Response, next) => {
   try {
     const filename = req.params.filename;
-    const videoId = req.body.videoId || req.query.videoId;
     
     if (!filename.endsWith('.txt')) {
       throw createError('Filename must be a .txt file', 400);
     }
     
-    let txtFilePath: string | undefined;
-    
-    if (videoId) {
-      // Use provided video ID
-      txtFilePath = path.join('processed', videoId as string, filename);
-    } else {
-      // Try to find the file by searching in processed directories
-      const processedDir = path.join(process.cwd(), 'processed');
-      try {
-        const dirs = await fs.readdir(processedDir);
-        
-        for (const dir of dirs) {
-          const testPath = path.join(processedDir, dir, filename);
-          try {
-            await fs.access(testPath);
-            txtFilePath = testPath;
-            break;
-          } catch {
-            // Continue searching
-          }
-        }
-      } catch {
-        // processed directory doesn't exist
-      }
-      
-      if (!txtFilePath) {
-        throw createError('Transcription file not found. Please provide videoId parameter.', 404);
-      }
-    }
-
-    // Check if file exists
-    if (!txtFilePath) {
-      throw createError('Transcription file not found', 404);
-    }
-    
-    try {
-      await fs.access(txtFilePath);
-    } catch {
-      throw createError('Transcription file not found', 404);
-    }
+    const file = await findSegmentFile(filename, 'Transcription file not found', 'transcript');
+    const txtFilePath = file.path;
 
     // Validate optional parameters
     const maxLength = req.body.maxLength || req.query.maxLength 
@@ -826,6 +1405,14 @@ router.post('/social-media/:filename', async (req: Request, res: Response, next)
       language
     });
 
+    if (file.recorded) {
+      videoLibrary.saveTitle(file.videoId, file.segmentNumber, {
+        title: result.content.title,
+        description: result.content.description,
+        titlePath: result.titlePath,
+        descriptionPath: result.descriptionPath
+      });
+    }
     logger.info(`Social media content created for ${filename}`);
 
     res.json({
@@ -849,18 +1436,17 @@ router.post('/social-media/:filename', async (req: Request, res: Response, next)
  * Add title overlay to a video segment
  * 
  * Adds the title text as an overlay in the top black bar area of the video.
- * Reads the title from the corresponding _social_title.txt file.
+ * Uses the title generated for the segment (see the social-media endpoint).
  * 
  * @route POST /api/videos/add-title/:filename
  * @param {string} filename - Video filename (e.g., 'segment_1_uuid.mp4')
- * @param {string} [videoId] - Video ID (optional, will search if not provided)
- * @param {string} [titleText] - Custom title text (optional, will use _social_title.txt if not provided)
+ * @param {string} [titleText] - Custom title text (optional, will use the segment's generated title if not provided)
  * @returns {Object} Result with path to video with title overlay
- * @throws {404} If video or title file not found
+ * @throws {404} If the video is not in the library or has no title
  * @throws {500} If overlay fails
  * 
  * @example
- * POST /api/videos/add-title/segment_1_uuid.mp4?videoId=abc123
+ * POST /api/videos/add-title/segment_1_uuid.mp4
  * Response: {
  *   success: true,
  *   data: {
@@ -873,74 +1459,28 @@ router.post('/social-media/:filename', async (req: Request, res: Response, next)
 router.post('/add-title/:filename', async (req: Request, res: Response, next) => {
   try {
     const filename = req.params.filename;
-    const videoId = req.body.videoId || req.query.videoId;
     const customTitle = req.body.titleText || req.query.titleText;
     
     if (!filename.endsWith('.mp4')) {
       throw createError('Filename must be a .mp4 file', 400);
     }
     
-    let videoPath: string | undefined;
-    
-    if (videoId) {
-      // Use provided video ID
-      videoPath = path.join('processed', videoId as string, filename);
-    } else {
-      // Try to find the file by searching in processed directories
-      const processedDir = path.join(process.cwd(), 'processed');
-      try {
-        const dirs = await fs.readdir(processedDir);
-        
-        for (const dir of dirs) {
-          const testPath = path.join(processedDir, dir, filename);
-          try {
-            await fs.access(testPath);
-            videoPath = testPath;
-            break;
-          } catch {
-            // Continue searching
-          }
-        }
-      } catch {
-        // processed directory doesn't exist
-      }
-      
-      if (!videoPath) {
-        throw createError('Video file not found. Please provide videoId parameter.', 404);
-      }
-    }
-
-    // Check if video file exists
-    if (!videoPath) {
-      throw createError('Video file not found', 404);
-    }
-    
-    try {
-      await fs.access(videoPath);
-    } catch {
-      throw createError('Video file not found', 404);
-    }
+    const file = await findSegmentFile(filename, 'Video file not found', 'render');
+    const videoPath = file.path;
 
     let titleText: string;
-    let titleFilePath: string | undefined;
 
     if (customTitle) {
       // Use custom title text
       titleText = customTitle;
     } else {
-      // Try to find title file
-      const basePath = videoPath.replace(/\.mp4$/, '');
-      titleFilePath = `${basePath}_social_title.txt`;
-      
-      try {
-        await fs.access(titleFilePath);
-        titleText = await fs.readFile(titleFilePath, 'utf-8').then(text => text.trim());
-        
-        if (!titleText) {
-          throw createError('Title file is empty', 400);
-        }
-      } catch {
-        throw createError(`Title file not found. Expected: ${path.basename(titleFilePath)}. You can provide custom title via titleText parameter.`, 404);
+      // Use the title generated for the segment
+      titleText = file.recorded
+        ? videoLibrary.getSegment(file.videoId, file.segmentNumber)?.title?.title.trim() ?? ''
+        : (await fs.readFile(videoPath.replace(/\.mp4$/, '_social_title.txt'), 'utf-8').catch(() => '')).trim();
+
+      if (!titleText) {
+        throw createError('No title has been generated for this segment. You can provide custom title via titleText parameter.', 404);
       }
     }
 
@@ -971,19 +1511,10 @@ router.post('/add-title/:filename', async (req: Request, res: Response, next) =>
     // Create temporary output path
     const tempOutputPath = videoPath.replace(/\.mp4$/, '_with_title_temp.mp4');
 
-    // Add title overlay - positioned in top black bar, centered horizontally
+    // Add title overlay - positioned in top black bar, centered horizontally, styled for the video's framing
     // Use sourceVideoPath (original backup if exists) to avoid duplicate overlays
-    await addTextOverlayToVideo(sourceVideoPath, tempOutputPath, {
-      text: titleText,
-      position: 'top',
-      fontSize: 56, // Larger for better visibility
-      fontColor: 'white',
-      backgroundColor: 'black',
-      backgroundColorOpacity: 0.8, // More opaque background for better readability
-      padding: 25, // More padding for better visibility
-      fontWeight: 'bold', // Bold font for better visibility
-      x: 0.5 // Center horizontally
-    });
+    const framing = file.recorded ? videoLibrary.getVideo(file.videoId)?.framing : undefined;
+    await addTextOverlayToVideo(sourceVideoPath, tempOutputPath, getTitleOverlayOptions(titleText, framing));
 
     // Replace original video with version that has title
     await fs.rename(tempOutputPath, videoPath);
@@ -1004,4 +1535,153 @@ router.post('/add-title/:filename', async (req: Request, res: Response, next) =>
   }
 });
 
+/**
+ * List the videos in the library
+ *
+ * @route GET /api/videos
+ * @param {number} [page=1] - Page number (1-based)
+ * @param {number} [pageSize=20] - Videos per page (1-100)
+ * @param {string} [sort=createdAt] - 'createdAt', 'duration' or 'name'
+ * @param {string} [order=desc] - 'asc' or 'desc'
+ * @param {string} [status] - 'processing' or 'ready'
+ * @param {string} [from] - Only videos created at or after this ISO 8601 date/time
+ * @param {string} [to] - Only videos created before this ISO 8601 date/time
+ * @param {number} [minDuration] - Minimum source duration in seconds
+ * @param {number} [maxDuration] - Maximum source duration in seconds
+ * @param {string} [uploaded] - 'true' for videos with a file uploaded to Google Drive, 'false' for the others
+ * @param {string} [q] - Only videos with a segment whose transcript or title matches
+ * @returns {Object} Page of videos with their segment count and upload state
+ * @throws {400} If a query parameter is invalid
+ *
+ * @example
+ * GET /api/videos?sort=duration&order=asc&uploaded=false
+ * Response: {
+ *   success: true,
+ *   data: {
+ *     videos: [{ id: 'uuid', originalName: 'talk.mp4', status: 'ready', segmentCount: 5, uploaded: false, ... }],
+ *     page: 1,
+ *     pageSize: 20,
+ *     total: 1,
+ *     totalPages: 1
+ *   }
+ * }
+ */
+router.get('/', async (req: Request, res: Response, next) => {
+  try {
+    const validation = listVideosSchema.safeParse(req.query);
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const query = validation.data;
+    const { videos, total } = videoLibrary.listVideos(query);
+
+    res.json({
+      success: true,
+      data: {
+        videos: videos.map(video => ({
+          ...toVideoResponse(video),
+          segmentCount: video.segmentCount,
+          uploaded: video.uploaded
+        })),
+        page: query.page,
+        pageSize: query.pageSize,
+        total,
+        totalPages: Math.ceil(total / query.pageSize)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Search the transcripts and generated titles of every segment in the library
+ *
+ * Every word must appear, matched as a word prefix; title matches rank first.
+ *
+ * @route GET /api/videos/search
+ * @param {string} q - Words to look for
+ * @param {number} [limit=20] - Maximum number of results (1-50)
+ * @returns {Object} Matching segments with an excerpt, best match first
+ * @throws {400} If q is missing or too long
+ *
+ * @example
+ * GET /api/videos/search?q=pricing
+ * Response: {
+ *   success: true,
+ *   data: {
+ *     results: [{
+ *       videoId: 'uuid',
+ *       originalName: 'talk.mp4',
+ *       segmentNumber: 3,
+ *       title: 'Why our pricing works',
+ *       snippet: '…and that is how we set the <mark>pricing</mark> for…'
+ *     }]
+ *   }
+ * }
+ */
+router.get('/search', async (req: Request, res: Response, next) => {
+  try {
+    const validation = searchSchema.safeParse(req.query);
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const { q, limit } = validation.data;
+    res.json({ success: true, data: { results: videoLibrary.search(q, limit) } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a video from the library with all of its segments
+ *
+ * Registered last so that it does not shadow the other GET routes.
+ *
+ * @route GET /api/videos/:videoId
+ * @param {string} videoId - Video ID returned by the split endpoint
+ * @returns {Object} Video metadata and split settings, and every segment with its renders,
+ * transcript, summary, title, captions and upload destinations
+ * @throws {400} If the video ID is invalid
+ * @throws {404} If the video is not in the library
+ *
+ * @example
+ * GET /api/videos/abc123
+ * Response: {
+ *   success: true,
+ *   data: {
+ *     id: 'abc123',
+ *     originalName: 'talk.mp4',
+ *     status: 'ready',
+ *     metadata: { duration: 120, ... },
+ *     segments: [{ segmentNumber: 1, downloadUrl: '/api/videos/download/segment_1_uuid.mp4', transcript: { text: '...' }, ... }]
+ *   }
+ * }
+ */
+router.get('/:videoId', async (req: Request, res: Response, next) => {
+  try {
+    const validation = videoIdSchema.safeParse(req.params.videoId);
+    if (!validation.success) {
+      throw createError(`Validation error: ${validation.error.errors.map(e => e.message).join(', ')}`, 400);
+    }
+
+    const video = videoLibrary.getVideo(validation.data);
+    if (!video) {
+      throw createError(`Video ${validation.data} not found`, 404);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...toVideoResponse(video),
+        segments: videoLibrary.getSegments(video.id).map(toSegmentResponse)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export { router as videoRoutes };
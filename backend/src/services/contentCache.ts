@@ -0,0 +1,143 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+import { logger } from '../utils/logger';
+import { recordCacheLookup } from '../middleware/metrics';
+
+export const CACHE_NAMES = ['transcription', 'summarization'] as const;
+
+export type CacheName = typeof CACHE_NAMES[number];
+
+export interface CacheStats {
+  name: CacheName;
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Gets the directory provider results are cached in
+ *
+ * Read from `CACHE_DIR`; defaults to `cache` in the working directory.
+ *
+ * @returns {string} Cache directory
+ */
+export const getCacheDir = (): string => process.env.CACHE_DIR || 'cache';
+
+/**
+ * SHA-256 of a string, hex encoded
+ *
+ * @param {string} text - Text to hash
+ * @returns {string} Hash
+ */
+export const hashText = (text: string): string => crypto.createHash('sha256').update(text).digest('hex');
+
+/**
+ * SHA-256 of a file's contents, hex encoded, read as a stream
+ *
+ * @param {string} filePath - File to hash
+ * @returns {Promise<string>} Hash
+ */
+export const hashFile = async (filePath: string): Promise<string> => {
+  const hash = crypto.createHash('sha256');
+  await pipeline(createReadStream(filePath), hash);
+  return hash.digest('hex');
+};
+
+/**
+ * Content-addressed cache of transcription and LLM results
+ *
+ * Each entry is `<cache>/<key>.json` in the cache directory, where the key is
+ * the hash of whatever decides the result: the audio's content hash with the
+ * provider and options for transcriptions, the full request (transcript,
+ * prompt, model and options) for summaries and titles. Re-uploading the same
+ * file or re-running a segment therefore reuses the earlier result instead of
+ * calling the provider. Entries never expire; purge a cache, or refresh one
+ * entry, to get fresh results. Lookups are counted as hits and misses in the Prometheus metrics.
+ */
+export class ContentCache {
+  constructor(private cacheDir: string = getCacheDir()) {}
+
+  /**
+   * Return the cached result for a key, or compute and cache it
+   *
+   * A corrupt entry counts as a miss and is overwritten. A result that is
+   * `undefined` or failing to write the entry is not cached, and errors of
+   * `compute` are passed on without caching anything.
+   *
+   * @param {CacheName} name - Cache to look in
+   * @param {unknown} keyParts - JSON-serializable value identifying the result; hashed into the key
+   * @param {() => Promise<T>} compute - Produces the result on a miss
+   * @param {Object} [options] - Lookup options
+   * @param {boolean} [options.refresh=false] - Compute even if an entry exists, and replace it (not counted as a lookup)
+   * @returns {Promise<T>} Cached or computed result
+   */
+  async getOrCompute<T>(
+    name: CacheName,
+    keyParts: unknown,
+    compute: () => Promise<T>,
+    options: { refresh?: boolean } = {}
+  ): Promise<T> {
+    const entryPath = path.join(this.cacheDir, name, `${hashText(JSON.stringify(keyParts))}.json`);
+
+    if (!options.refresh) {
+      try {
+        const cached = JSON.parse(await fs.readFile(entryPath, 'utf-8')) as { value: T };
+        recordCacheLookup(name, true);
+        logger.debug(`Cache hit (${name}): ${path.basename(entryPath)}`);
+        return cached.value;
+      } catch {
+        recordCacheLookup(name, false);
+      }
+    }
+
+    const value = await compute();
+    if (value !== undefined) {
+      try {
+        await fs.mkdir(path.dirname(entryPath), { recursive: true });
+        await fs.writeFile(`${entryPath}.tmp`, JSON.stringify({ value, createdAt: new Date().toISOString() }), 'utf-8');
+        await fs.rename(`${entryPath}.tmp`, entryPath);
+      } catch (error) {
+        logger.warn(`Failed to write cache entry ${entryPath}: ${error}`);
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Count the entries of each cache and their size on disk
+   *
+   * @returns {Promise<CacheStats[]>} One entry per cache, in `CACHE_NAMES` order
+   */
+  async getStats(): Promise<CacheStats[]> {
+    return Promise.all(CACHE_NAMES.map(async name => {
+      const files = await this.listEntries(name);
+      const sizes = await Promise.all(files.map(file => fs.stat(file).then(stat => stat.size, () => 0)));
+      return { name, entries: files.length, bytes: sizes.reduce((total, size) => total + size, 0) };
+    }));
+  }
+
+  /**
+   * Delete every entry of one cache, or of all of them
+   *
+   * @param {CacheName} [name] - Cache to empty; all caches when omitted
+   * @returns {Promise<CacheStats[]>} What was removed from each purged cache
+   */
+  async purge(name?: CacheName): Promise<CacheStats[]> {
+    const stats = (await this.getStats()).filter(entry => !name || entry.name === name);
+    for (const entry of stats) {
+      await fs.rm(path.join(this.cacheDir, entry.name), { recursive: true, force: true });
+    }
+    logger.info(`Cache purged: ${stats.map(entry => `${entry.name} (${entry.entries} entries)`).join(', ')}`);
+    return stats;
+  }
+
+  private async listEntries(name: CacheName): Promise<string[]> {
+    const dir = path.join(this.cacheDir, name);
+    const files = await fs.readdir(dir).catch(() => [] as string[]);
+    return files.filter(file => file.endsWith('.json')).map(file => path.join(dir, file));
+  }
+}
+
+export const contentCache = new ContentCache();
@@ -0,0 +1,342 @@
+import { EventEmitter } from 'events';
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { AppError, createError } from '../middleware/errorHandler';
+
+export const JOB_STATUSES = ['queued', 'processing', 'completed', 'failed', 'cancelled'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export interface JobProgress {
+  stage: string; // Pipeline step, e.g. 'encode' or 'transcribe'
+  percent: number; // Progress of the stage (0-100)
+  overallPercent: number; // Progress of the whole job (0-100)
+  segment?: number; // 1-based segment the stage is working on
+  totalSegments?: number;
+}
+
+export interface Job<TParams = unknown, TResult = unknown> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  params: TParams;
+  progress?: JobProgress; // Latest progress report while processing
+  result?: TResult;
+  error?: {
+    message: string;
+    statusCode?: number; // HTTP status the synchronous route would have answered with
+  };
+  attempts: number; // Times a worker picked the job up, restarts included
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobContext {
+  reportProgress: (progress: JobProgress) => void;
+  signal: AbortSignal; // Aborted when the job is cancelled; the handler should clean up and throw
+}
+
+export type JobHandler<TParams = unknown, TResult = unknown> = (
+  job: Job<TParams, TResult>,
+  context: JobContext
+) => Promise<TResult>;
+
+/**
+ * Removes what a job left behind when it is cancelled before its handler started
+ */
+export type JobCleanup<TParams = unknown> = (job: Job<TParams>) => Promise<void>;
+
+const MAX_ATTEMPTS = 3; // A job that keeps crashing the backend is failed instead of retried forever
+
+/**
+ * Persistent FIFO job queue
+ *
+ * Jobs are kept in memory and written to one JSON file per job in the store
+ * directory, so queued work and finished results survive a backend restart.
+ * A single worker loop runs jobs one at a time through the handler registered
+ * for their type. Queued and running jobs can be cancelled.
+ *
+ * Emits `status` with the job whenever its status changes and `progress` when
+ * its handler reports progress. Progress is kept in memory and only written to
+ * disk with the next status change.
+ */
+export class JobQueue extends EventEmitter {
+  private jobs = new Map<string, Job>();
+  private handlers = new Map<string, JobHandler>();
+  private cleanups = new Map<string, JobCleanup>();
+  private pending: string[] = [];
+  private running = false;
+  private current?: { id: string; controller: AbortController; finished: Promise<void> };
+
+  constructor(private storeDir: string = path.join(process.cwd(), 'jobs')) {
+    super();
+    // Every open progress stream adds a listener
+    this.setMaxListeners(0);
+  }
+
+  /**
+   * Register the function that runs jobs of a type
+   *
+   * `cleanup` runs when a job of this type is cancelled before its handler started; a
+   * running job cleans up itself when its signal is aborted.
+   */
+  registerHandler<TParams, TResult>(
+    type: string,
+    handler: JobHandler<TParams, TResult>,
+    cleanup?: JobCleanup<TParams>
+  ): void {
+    // Jobs of a type only ever hold that type's params, so the handler can be stored untyped
+    this.handlers.set(type, handler as JobHandler);
+    if (cleanup) {
+      this.cleanups.set(type, cleanup as JobCleanup);
+    }
+  }
+
+  /**
+   * Load persisted jobs and resume unfinished ones
+   *
+   * Jobs that were queued, or processing when the backend stopped, are queued
+   * again in creation order. Handlers must therefore be safe to re-run from the start.
+   */
+  async start(): Promise<void> {
+    await fs.mkdir(this.storeDir, { recursive: true });
+    const files = (await fs.readdir(this.storeDir)).filter(file => file.endsWith('.json'));
+    const resumed: Job[] = [];
+
+    for (const file of files) {
+      try {
+        const job: Job = JSON.parse(await fs.readFile(path.join(this.storeDir, file), 'utf-8'));
+        if (this.jobs.has(job.id)) {
+          continue;
+        }
+        this.jobs.set(job.id, job);
+        if (job.status === 'queued' || job.status === 'processing') {
+          resumed.push(job);
+        }
+      } catch (error) {
+        logger.warn(`Skipping unreadable job file ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    resumed.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const job of resumed) {
+      if (job.status === 'processing' && job.attempts >= MAX_ATTEMPTS) {
+        await this.finish(job, 'failed', undefined, { message: `Job interrupted ${job.attempts} times, giving up` });
+        continue;
+      }
+      job.status = 'queued';
+      await this.persist(job);
+      this.pending.push(job.id);
+    }
+
+    logger.info(`Job queue started: ${this.jobs.size} jobs loaded, ${this.pending.length} resumed`);
+    void this.drain();
+  }
+
+  /**
+   * Add a job and start the worker if it is idle
+   *
+   * @returns {Promise<Job>} The queued job
+   * @throws {Error} If no handler is registered for the type
+   */
+  async enqueue<TParams>(type: string, params: TParams): Promise<Job<TParams>> {
+    if (!this.handlers.has(type)) {
+      throw new Error(`No handler registered for job type '${type}'`);
+    }
+
+    const now = new Date().toISOString();
+    const job: Job<TParams> = {
+      id: uuidv4(),
+      type,
+      status: 'queued',
+      params,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.jobs.set(job.id, job);
+    await this.persist(job);
+    this.pending.push(job.id);
+    logger.info(`Job ${job.id} (${type}) queued, ${this.pending.length} waiting`);
+
+    void this.drain();
+    return job;
+  }
+
+  /**
+   * Look up a job by ID
+   */
+  getJob(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Number of jobs queued ahead of the given one (0 when it is next or not queued)
+   */
+  getQueuePosition(id: string): number {
+    return Math.max(0, this.pending.indexOf(id));
+  }
+
+  /**
+   * Cancel a queued or running job
+   *
+   * A queued job is taken off the queue and its type's cleanup runs. A running
+   * job has its signal aborted; this resolves once its handler has stopped, so
+   * its partial output is gone by then. A handler that finishes anyway keeps its
+   * completed or failed status.
+   *
+   * @returns {Promise<Job>} The job after cancellation
+   * @throws {AppError} 404 if no job has this ID, 409 if it already finished
+   */
+  async cancel(id: string): Promise<Job> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw createError('Job not found', 404);
+    }
+
+    if (job.status === 'queued') {
+      this.pending = this.pending.filter(pendingId => pendingId !== id);
+      await this.discard(job);
+      return job;
+    }
+
+    if (this.current?.id === id) {
+      logger.info(`Cancelling job ${id}...`);
+      this.current.controller.abort();
+      await this.current.finished;
+      return job;
+    }
+
+    throw createError(`Job is already ${job.status}`, 409);
+  }
+
+  /**
+   * Cancel a job whose handler never ran: clean up after it and mark it cancelled
+   */
+  private async discard(job: Job): Promise<void> {
+    try {
+      await this.cleanups.get(job.type)?.(job);
+    } catch (error) {
+      logger.warn(`Cleanup of cancelled job ${job.id} failed: ${error instanceof Error ? error.message : error}`);
+    }
+    await this.finish(job, 'cancelled');
+    logger.info(`Job ${job.id} cancelled before it started`);
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      let id: string | undefined;
+      while ((id = this.pending.shift()) !== undefined) {
+        const job = this.jobs.get(id);
+        if (job) {
+          const controller = new AbortController();
+          const finished = this.run(job, controller.signal);
+          this.current = { id, controller, finished };
+          await finished;
+          this.current = undefined;
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async run(job: Job, signal: AbortSignal): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await this.finish(job, 'failed', undefined, { message: `No handler registered for job type '${job.type}'` });
+      return;
+    }
+
+    job.status = 'processing';
+    job.attempts += 1;
+    job.progress = undefined;
+    job.startedAt = new Date().toISOString();
+    job.updatedAt = job.startedAt;
+    await this.persist(job);
+    this.emit('status', job);
+    logger.info(`Job ${job.id} (${job.type}) started, attempt ${job.attempts}`);
+
+    // Cancelled while being started, before the handler could see the signal
+    if (signal.aborted) {
+      await this.discard(job);
+      return;
+    }
+
+    const reportProgress = (progress: JobProgress) => {
+      const previous = job.progress;
+      job.progress = {
+        ...progress,
+        percent: Math.round(progress.percent),
+        overallPercent: Math.round(progress.overallPercent)
+      };
+      // FFmpeg reports several times per second; only forward visible changes
+      if (
+        previous &&
+        previous.stage === job.progress.stage &&
+        previous.segment === job.progress.segment &&
+        previous.percent === job.progress.percent &&
+        previous.overallPercent === job.progress.overallPercent
+      ) {
+        return;
+      }
+      job.updatedAt = new Date().toISOString();
+      this.emit('progress', job);
+    };
+
+    try {
+      const result = await handler(job, { reportProgress, signal });
+      await this.finish(job, 'completed', result);
+      logger.info(`Job ${job.id} completed`);
+    } catch (error) {
+      if (signal.aborted) {
+        await this.finish(job, 'cancelled');
+        logger.info(`Job ${job.id} cancelled`);
+        return;
+      }
+      const appError = error as AppError;
+      await this.finish(job, 'failed', undefined, {
+        message: appError?.message || 'Unknown error',
+        ...(appError?.statusCode && { statusCode: appError.statusCode })
+      });
+      logger.error(`Job ${job.id} failed: ${appError?.message}`);
+    }
+  }
+
+  private async finish(job: Job, status: JobStatus, result?: unknown, error?: Job['error']): Promise<void> {
+    job.status = status;
+    job.result = result;
+    job.error = error;
+    job.finishedAt = new Date().toISOString();
+    job.updatedAt = job.finishedAt;
+    await this.persist(job);
+    this.emit('status', job);
+  }
+
+  /**
+   * Write the job file atomically so a crash never leaves half a JSON document
+   */
+  private async persist(job: Job): Promise<void> {
+    try {
+      await fs.mkdir(this.storeDir, { recursive: true });
+      const filePath = path.join(this.storeDir, `${job.id}.json`);
+      await fs.writeFile(`${filePath}.tmp`, JSON.stringify(job, null, 2), 'utf-8');
+      await fs.rename(`${filePath}.tmp`, filePath);
+    } catch (error) {
+      // The in-memory state stays authoritative; only restart recovery is affected
+      logger.error(`Failed to persist job ${job.id}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
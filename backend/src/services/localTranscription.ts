@@ -0,0 +1,277 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { spawn } from 'child_process';
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import type { TranscriptionOptions, TranscriptionResult } from './transcriptionService';
+
+export const LOCAL_WHISPER_ENGINES = ['whisper.cpp', 'faster-whisper'] as const;
+
+export type LocalWhisperEngine = typeof LOCAL_WHISPER_ENGINES[number];
+
+export interface LocalWhisperConfig {
+  engine: LocalWhisperEngine;
+  binaryPath: string; // whisper.cpp's `whisper-cli`, or a faster-whisper CLI such as `whisper-ctranslate2`
+  model: string; // ggml model file for whisper.cpp; model name or directory for faster-whisper
+  threads: number;
+}
+
+type TimedText = NonNullable<TranscriptionResult['words']>[number];
+
+const whisperCppOffsetsSchema = z.object({ from: z.number(), to: z.number() });
+
+/**
+ * whisper.cpp's full JSON output (`-ojf`), the parts that are read; times in milliseconds
+ */
+const whisperCppOutputSchema = z.object({
+  result: z.object({ language: z.string().optional() }).optional(),
+  transcription: z.array(z.object({
+    text: z.string(),
+    offsets: whisperCppOffsetsSchema,
+    tokens: z.array(z.object({ text: z.string(), offsets: whisperCppOffsetsSchema })).optional()
+  }))
+});
+
+/**
+ * JSON output of faster-whisper CLIs, the same as OpenAI's `whisper` command; times in seconds
+ */
+const fasterWhisperOutputSchema = z.object({
+  text: z.string().optional(),
+  language: z.string().optional(),
+  segments: z.array(z.object({
+    start: z.number(),
+    end: z.number(),
+    text: z.string(),
+    words: z.array(z.object({ start: z.number(), end: z.number(), word: z.string() })).optional() // Only with word timestamps
+  }))
+});
+
+/**
+ * Checks an engine's parsed JSON against the schema of the shape its parser reads
+ *
+ * @throws {Error} If the output does not have that shape
+ */
+const narrowOutput = <S extends z.ZodTypeAny>(schema: S, output: unknown, engine: LocalWhisperEngine): z.infer<S> => {
+  const validation = schema.safeParse(output);
+  if (!validation.success) {
+    throw new Error(`Unexpected ${engine} output: ${validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+  }
+  return validation.data;
+};
+
+const DEFAULT_FASTER_WHISPER_MODEL = 'small';
+const STDERR_TAIL_LENGTH = 2000; // Characters of the engine's output kept for the error message
+
+/**
+ * Reads the local Whisper setup from the environment
+ *
+ * `LOCAL_WHISPER_PATH` (the binary) enables the provider. `LOCAL_WHISPER_ENGINE`
+ * picks the CLI flavour ('whisper.cpp' by default, or 'faster-whisper'),
+ * `LOCAL_WHISPER_MODEL` the model (required for whisper.cpp, 'small' by default
+ * for faster-whisper) and `LOCAL_WHISPER_THREADS` the CPU threads (half
+ * the CPU count by default, which leaves cores to FFmpeg and the API).
+ *
+ * @returns {LocalWhisperConfig | undefined} The setup, or undefined if the provider is not configured
+ */
+export const getLocalWhisperConfig = (): LocalWhisperConfig | undefined => {
+  const binaryPath = process.env.LOCAL_WHISPER_PATH;
+  if (!binaryPath) {
+    return undefined;
+  }
+
+  const configuredEngine = process.env.LOCAL_WHISPER_ENGINE as LocalWhisperEngine | undefined;
+  const engine = configuredEngine && LOCAL_WHISPER_ENGINES.includes(configuredEngine) ? configuredEngine : 'whisper.cpp';
+  const model = process.env.LOCAL_WHISPER_MODEL || (engine === 'faster-whisper' ? DEFAULT_FASTER_WHISPER_MODEL : '');
+  if (!model) {
+    logger.warn('LOCAL_WHISPER_MODEL is not set; whisper.cpp needs the path to a ggml model file');
+    return undefined;
+  }
+
+  const configuredThreads = parseInt(process.env.LOCAL_WHISPER_THREADS || '', 10);
+  return {
+    engine,
+    binaryPath,
+    model,
+    threads: configuredThreads > 0 ? configuredThreads : Math.max(1, Math.floor(os.cpus().length / 2))
+  };
+};
+
+/**
+ * Converts whisper.cpp's full JSON output (`-ojf`) into a transcription result
+ *
+ * Segment times are given in milliseconds. Words are rebuilt from the tokens:
+ * a token starting with a space starts a new word, others continue the current
+ * one; special tokens (`[_BEG_]`, `[_TT_150]`...) are skipped.
+ *
+ * @param {unknown} output - Parsed JSON file written by whisper.cpp
+ * @returns {Omit<TranscriptionResult, 'duration'>} Text, language, segments and words
+ * @throws {Error} If the output is not whisper.cpp's full JSON
+ */
+export const parseWhisperCppOutput = (output: unknown): Omit<TranscriptionResult, 'duration'> => {
+  const { result, transcription: pieces } = narrowOutput(whisperCppOutputSchema, output, 'whisper.cpp');
+  const words: TimedText[] = [];
+
+  for (const piece of pieces) {
+    let current: TimedText | null = null;
+    for (const token of piece.tokens ?? []) {
+      const text = token.text;
+      if (!text || text.startsWith('[_')) {
+        continue;
+      }
+      const start = token.offsets.from / 1000;
+      const end = token.offsets.to / 1000;
+      if (!current || text.startsWith(' ')) {
+        current = { start, end, text: text.trim() };
+        words.push(current);
+      } else {
+        current.end = end;
+        current.text += text;
+      }
+    }
+  }
+
+  return {
+    text: pieces.map(piece => piece.text).join('').trim(),
+    language: result?.language,
+    segments: pieces.map(piece => ({
+      start: piece.offsets.from / 1000,
+      end: piece.offsets.to / 1000,
+      text: piece.text
+    })),
+    words: words.filter(word => word.text)
+  };
+};
+
+/**
+ * Converts the JSON output of a faster-whisper CLI into a transcription result
+ *
+ * faster-whisper CLIs write the same JSON as OpenAI's `whisper` command:
+ * segments in seconds, with their words when word timestamps were requested.
+ *
+ * @param {unknown} output - Parsed JSON file written by the CLI
+ * @returns {Omit<TranscriptionResult, 'duration'>} Text, language, segments and words
+ * @throws {Error} If the output is not the whisper JSON format
+ */
+export const parseFasterWhisperOutput = (output: unknown): Omit<TranscriptionResult, 'duration'> => {
+  const { text, language, segments } = narrowOutput(fasterWhisperOutputSchema, output, 'faster-whisper');
+  const words: TimedText[] = segments.flatMap(segment => (segment.words ?? []).map(word => ({
+    start: word.start,
+    end: word.end,
+    text: word.word.trim()
+  })));
+
+  return {
+    text: (text ?? segments.map(segment => segment.text).join('')).trim(),
+    language,
+    segments: segments.map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text
+    })),
+    words: words.length > 0 ? words : undefined
+  };
+};
+
+/**
+ * Runs a command and waits for it to exit
+ *
+ * Only the end of its stderr is kept, for the error message. The process is
+ * killed when the signal is aborted.
+ */
+const runCommand = (binaryPath: string, args: string[], signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(binaryPath, args, { stdio: ['ignore', 'ignore', 'pipe'], signal, killSignal: 'SIGKILL' });
+    let stderr = '';
+
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_LENGTH);
+    });
+    child.on('error', (error) => reject(new Error(`Failed to run ${binaryPath}: ${error.message}`)));
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${path.basename(binaryPath)} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+
+/**
+ * Transcribes a 16kHz WAV file with a locally installed Whisper, on the CPU
+ *
+ * Nothing leaves the machine. The engine writes its JSON output to a temporary
+ * directory, which is removed afterwards.
+ *
+ * @param {string} audioPath - 16kHz mono WAV (as extracted by the transcription service)
+ * @param {LocalWhisperConfig} config - Engine, binary, model and threads
+ * @param {TranscriptionOptions} [options] - Language, prompt, temperature and word timestamps are passed on; the signal kills the engine
+ * @returns {Promise<Omit<TranscriptionResult, 'duration'>>} Text, language, segments and words
+ * @throws {Error} If the engine cannot be started, fails, or writes no output
+ */
+export const transcribeLocally = async (
+  audioPath: string,
+  config: LocalWhisperConfig,
+  options: TranscriptionOptions = {}
+): Promise<Omit<TranscriptionResult, 'duration'>> => {
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+
+  try {
+    let args: string[];
+    let outputPath: string;
+    if (config.engine === 'whisper.cpp') {
+      const outputBase = path.join(outputDir, 'transcript');
+      outputPath = `${outputBase}.json`;
+      args = [
+        '-m', config.model,
+        '-f', audioPath,
+        '-t', config.threads.toString(),
+        '-l', options.language || 'auto',
+        '-ojf', // Full JSON, with token timings to build words from
+        '-of', outputBase,
+        '-np'
+      ];
+      if (options.prompt) {
+        args.push('--prompt', options.prompt);
+      }
+      if (options.temperature !== undefined) {
+        args.push('-tp', options.temperature.toString());
+      }
+    } else {
+      outputPath = path.join(outputDir, `${path.basename(audioPath, path.extname(audioPath))}.json`);
+      args = [
+        audioPath,
+        '--model', config.model,
+        '--device', 'cpu',
+        '--compute_type', 'int8',
+        '--threads', config.threads.toString(),
+        '--output_format', 'json',
+        '--output_dir', outputDir,
+        '--word_timestamps', options.wordTimestamps ? 'True' : 'False',
+        '--verbose', 'False'
+      ];
+      if (options.language) {
+        args.push('--language', options.language);
+      }
+      if (options.prompt) {
+        args.push('--initial_prompt', options.prompt);
+      }
+      if (options.temperature !== undefined) {
+        args.push('--temperature', options.temperature.toString());
+      }
+    }
+
+    logger.debug(`Running ${config.binaryPath} ${args.join(' ')}`);
+    await runCommand(config.binaryPath, args, options.signal);
+
+    let output: unknown;
+    try {
+      output = JSON.parse(await fs.readFile(outputPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`${config.engine} wrote no readable output: ${error instanceof Error ? error.message : error}`);
+    }
+    return config.engine === 'whisper.cpp' ? parseWhisperCppOutput(output) : parseFasterWhisperOutput(output);
+  } finally {
+    await fs.rm(outputDir, { recursive: true, force: true }).catch(() => {});
+  }
+};
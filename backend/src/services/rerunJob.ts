@@ -0,0 +1,201 @@
+import path from 'path';
+import fs from 'fs/promises';
+import {
+  captionSegment,
+  encodeSegment,
+  getSourceTranscriptPath,
+  getTranscriptPath,
+  SegmentRender,
+  SegmentStageOptions,
+  SplitStage,
+  summarizeSegment,
+  titleSegment,
+  transcribeSegment
+} from '../utils/videoProcessor';
+import { DEFAULT_OUTPUT_FORMAT } from '../utils/framing';
+import { logger } from '../utils/logger';
+import { createError } from '../middleware/errorHandler';
+import { Job, JobContext } from './jobQueue';
+import { TranscriptionResult } from './transcriptionService';
+import { SegmentRecord, VideoRecord, videoLibrary } from './videoLibrary';
+
+export const RERUN_JOB_TYPE = 'rerun';
+
+export interface RerunJobParams {
+  videoId: string;
+  segmentNumber: number;
+  stages: SplitStage[]; // Already expanded with their dependents (`getStagesToRun`), in pipeline order
+  requestedStages?: SplitStage[]; // As asked for, before adding dependents: these skip cached provider outputs
+  title?: string; // Title to draw instead of generating one
+}
+
+export interface RerunJobResult {
+  videoId: string;
+  segmentNumber: number;
+  stages: SplitStage[]; // Stages that ran
+  skipped: SplitStage[]; // Stages with nothing to do, e.g. captions when the video was split without them
+}
+
+/**
+ * Checks that what the requested stages read, and do not produce themselves, is on disk
+ *
+ * @param {VideoRecord} video - Video the segment belongs to
+ * @param {SegmentRecord} segment - Segment to re-run stages of
+ * @param {SplitStage[]} stages - Stages that will run, dependents included
+ * @throws {AppError} 404 if the source is needed and gone, 409 if a stage needs the output of a stage that never ran
+ */
+export const checkRerunInputs = async (
+  video: VideoRecord,
+  segment: SegmentRecord,
+  stages: SplitStage[]
+): Promise<void> => {
+  const exists = (filePath?: string) => filePath ? fs.access(filePath).then(() => true, () => false) : Promise.resolve(false);
+
+  if (stages.includes('encode')) {
+    if (!(await exists(video.sourcePath))) {
+      throw createError(`The source of video ${video.id} is no longer available`, 404);
+    }
+  } else if (!(await exists(segment.renders[0]?.path))) {
+    throw createError(`Segment ${segment.segmentNumber} has no render; re-run the encode stage`, 409);
+  }
+
+  if (!stages.includes('transcribe')) {
+    const needsTranscript = stages.some(stage => stage === 'summarize' || stage === 'title');
+    if (needsTranscript && !(await exists(segment.files.transcript))) {
+      throw createError(`Segment ${segment.segmentNumber} has no transcript; re-run the transcribe stage`, 409);
+    }
+    if (stages.includes('captions') && video.captions && !(await exists(segment.files.timings))) {
+      throw createError(`Segment ${segment.segmentNumber} has no word timings; re-run the transcribe stage`, 409);
+    }
+  }
+};
+
+/**
+ * Runs a queued stage re-run: runs some stages of an existing segment again,
+ * in place
+ *
+ * The segment keeps its range, renders and file names; each stage rewrites its
+ * own files and its library record. Unlike a split, a failing stage fails the
+ * job (files of the stages that already ran are kept). Stages that were asked
+ * for ask the model again instead of reusing cached outputs; stages that only
+ * run as dependents (e.g. the title redrawn after new captions) keep them.
+ *
+ * @param {Job<RerunJobParams>} job - Job created by `POST /api/videos/:videoId/segments/:n/rerun`
+ * @param {JobContext} context - Receives one progress report per stage; its signal cancels the re-run
+ * @returns {Promise<RerunJobResult>} The stages that ran and those skipped
+ * @throws {AppError} 404 if the video or segment is gone, 409 if a stage is missing its input, or any stage error
+ */
+export const runRerunJob = async (job: Job<RerunJobParams>, context: JobContext): Promise<RerunJobResult> => {
+  const { videoId, segmentNumber, stages, requestedStages = [], title } = job.params;
+
+  const video = videoLibrary.getVideo(videoId);
+  const segment = videoLibrary.getSegment(videoId, segmentNumber);
+  if (!video || !segment) {
+    throw createError(`Segment ${segmentNumber} of video ${videoId} not found`, 404);
+  }
+  await checkRerunInputs(video, segment, stages);
+
+  const outputPath = segment.renders[0].path;
+  const txtPath = segment.files.transcript ?? getTranscriptPath(outputPath);
+  let renders: SegmentRender[] = segment.renders.map(render => ({
+    format: render.format,
+    width: render.width,
+    height: render.height,
+    outputPath: render.path
+  }));
+  let words: TranscriptionResult['words'];
+  const skipped: SplitStage[] = [];
+
+  console.log(`🔁 Re-running ${stages.join(', ')} for segment ${segmentNumber} of video ${videoId}`);
+  logger.info(`Job ${job.id}: re-running ${stages.join(', ')} for segment ${segmentNumber} of video ${videoId}`);
+
+  for (const [index, stage] of stages.entries()) {
+    context.signal.throwIfAborted();
+    const options: SegmentStageOptions = {
+      segmentNumber,
+      onProgress: (percent) => context.reportProgress({
+        stage,
+        percent,
+        overallPercent: ((index + Math.min(100, percent) / 100) / stages.length) * 100,
+        segment: segmentNumber,
+        totalSegments: 1
+      }),
+      signal: context.signal,
+      fresh: requestedStages.includes(stage)
+    };
+    options.onProgress?.(0);
+
+    switch (stage) {
+      case 'encode':
+        renders = await encodeSegment(video.sourcePath, segment, outputPath, {
+          ...options,
+          framing: video.framing ?? 'letterbox',
+          formats: renders.length > 0 ? renders.map(render => render.format) : [DEFAULT_OUTPUT_FORMAT],
+          source: video.metadata
+        });
+        break;
+      case 'transcribe': {
+        // Cut from the source transcription when the split stored one, without transcribing the source now
+        const transcription = await fs.readFile(getSourceTranscriptPath(path.dirname(outputPath)), 'utf-8')
+          .then(json => JSON.parse(json) as TranscriptionResult, () => undefined);
+        const result = await transcribeSegment(outputPath, segment.duration, {
+          ...options,
+          wordTimestamps: video.captions,
+          source: transcription && { transcription, startTime: segment.startTime }
+        });
+        videoLibrary.saveTranscript(videoId, segmentNumber, result.transcript);
+        words = result.transcription.words;
+        break;
+      }
+      case 'captions':
+        if (!video.captions) {
+          skipped.push(stage);
+          break;
+        }
+        if (!words && segment.files.timings) {
+          words = (JSON.parse(await fs.readFile(segment.files.timings, 'utf-8')) as TranscriptionResult).words;
+        }
+        if (!words || words.length === 0) {
+          logger.warn(`No word timestamps for segment ${segmentNumber}, skipping captions`);
+          skipped.push(stage);
+          break;
+        }
+        await captionSegment(renders, words, options);
+        break;
+      case 'summarize': {
+        const summary = await summarizeSegment(txtPath, options);
+        if (summary) {
+          videoLibrary.saveSummary(videoId, segmentNumber, summary);
+        } else {
+          skipped.push(stage);
+        }
+        break;
+      }
+      case 'title': {
+        // Without a provider, redraw the current title so the renders keep one
+        const titleOptions = { ...options, framing: video.framing ?? 'letterbox' };
+        const segmentTitle = await titleSegment(txtPath, renders, { ...titleOptions, title })
+          ?? (segment.title && await titleSegment(txtPath, renders, { ...titleOptions, title: segment.title.title }));
+        if (segmentTitle) {
+          videoLibrary.saveTitle(videoId, segmentNumber, segmentTitle);
+        } else {
+          skipped.push(stage);
+        }
+        break;
+      }
+    }
+  }
+
+  // The thumbnail is taken from a render, which may have changed
+  if (stages.some(stage => stage === 'encode' || stage === 'captions' || stage === 'title')) {
+    await fs.rm(path.join(path.dirname(outputPath), 'thumbnail.jpg'), { force: true });
+  }
+
+  console.log(`✅ Segment ${segmentNumber} of video ${videoId}: ${stages.filter(stage => !skipped.includes(stage)).join(', ') || 'nothing'} re-run`);
+  return {
+    videoId,
+    segmentNumber,
+    stages: stages.filter(stage => !skipped.includes(stage)),
+    skipped
+  };
+};
@@ -0,0 +1,98 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createError } from '../middleware/errorHandler';
+import { LibraryFile, SegmentFileKind, videoLibrary } from './videoLibrary';
+
+/**
+ * Suffixes of a segment's text sidecars, most specific first
+ */
+const SEGMENT_FILE_SUFFIXES: Array<[string, SegmentFileKind]> = [
+  ['_timings.json', 'timings'],
+  ['_summary.txt', 'summary'],
+  ['_social_title.txt', 'title'],
+  ['_social_description.txt', 'description'],
+  ['.srt', 'srt'],
+  ['.vtt', 'vtt'],
+  ['.txt', 'transcript']
+];
+
+/**
+ * Find a file of a segment processed before the video library existed, in `processed/`
+ *
+ * The video ID is the directory the file is in; the segment number and the kind
+ * of file are read from the file name (`segment_N_uuid[suffix]`).
+ *
+ * @param {string} filename - File name, e.g. 'segment_1_uuid.mp4'
+ * @returns {Promise<LibraryFile | undefined>} The file, or undefined if no video directory has it
+ */
+export const findUnrecordedSegmentFile = async (filename: string): Promise<LibraryFile | undefined> => {
+  const match = /^segment_(\d+)_/.exec(filename);
+  if (!match || path.basename(filename) !== filename) {
+    return undefined;
+  }
+  const kind = filename.endsWith('.mp4')
+    ? 'render'
+    : SEGMENT_FILE_SUFFIXES.find(([suffix]) => filename.endsWith(suffix))?.[1];
+  if (!kind) {
+    return undefined;
+  }
+
+  const videoIds = await fs.readdir('processed').catch(() => [] as string[]);
+  for (const videoId of videoIds) {
+    const filePath = path.join('processed', videoId, filename);
+    if (await fs.access(filePath).then(() => true, () => false)) {
+      return { videoId, segmentNumber: parseInt(match[1], 10), kind, path: filePath };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Find a file of a processed segment (a render or a text sidecar) in the video library
+ *
+ * Segments processed before the library existed are not recorded in it: their
+ * files are looked up in `processed/` instead (`recorded` is then false, and
+ * nothing about them can be saved to the library).
+ *
+ * @param {string} filename - File name, e.g. 'segment_1_uuid.mp4'
+ * @param {string} notFoundMessage - Error message when there is no such file
+ * @param {string} [kind] - Kind of file expected ('render', 'transcript', ...); other kinds count as not found
+ * @returns {Promise<LibraryFile & { recorded: boolean }>} The file, the segment it belongs to and whether the library has it
+ * @throws {404} If there is no such file, or the library's file is gone from disk
+ */
+export const findSegmentFile = async (
+  filename: string,
+  notFoundMessage: string,
+  kind?: LibraryFile['kind']
+): Promise<LibraryFile & { recorded: boolean }> => {
+  const recordedFile = videoLibrary.findFile(filename);
+  const file = recordedFile ?? await findUnrecordedSegmentFile(filename);
+  if (!file || (kind && file.kind !== kind)) {
+    throw createError(notFoundMessage, 404);
+  }
+  if (!recordedFile) {
+    return { ...file, recorded: false };
+  }
+
+  try {
+    await fs.access(file.path);
+  } catch {
+    throw createError(notFoundMessage, 404);
+  }
+  return { ...file, recorded: true };
+};
+
+/**
+ * Paths the text sidecars of a render would have, for segments the library does not record
+ *
+ * The files are not checked: callers skip the ones missing on disk.
+ *
+ * @param {string} renderPath - Path of the segment's render
+ * @returns {Partial<Record<SegmentFileKind, string>>} Sidecar path by kind
+ *
+ * @example
+ * getSidecarPaths('processed/abc/segment_1_uuid.mp4').summary;
+ * // Returns: 'processed/abc/segment_1_uuid_summary.txt'
+ */
+export const getSidecarPaths = (renderPath: string): Partial<Record<SegmentFileKind, string>> =>
+  Object.fromEntries(SEGMENT_FILE_SUFFIXES.map(([suffix, kind]) => [kind, renderPath.replace(/\.mp4$/, suffix)]));
@@ -0,0 +1,137 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { splitVideo } from '../utils/videoProcessor';
+import { logger } from '../utils/logger';
+import { createError } from '../middleware/errorHandler';
+import { Job, JobContext } from './jobQueue';
+import { SegmentRecord, videoLibrary } from './videoLibrary';
+import { SplitJobResult } from './splitJob';
+
+export const SEGMENT_JOB_TYPE = 'segment';
+
+export interface SegmentJobParams {
+  videoId: string;
+  segmentNumber?: number; // Segment to replace; a new segment is numbered when the job runs
+  startTime: number;
+  endTime: number; // Already checked against the source duration
+  label?: string;
+}
+
+export interface SegmentJobResult {
+  videoId: string;
+  segment: SplitJobResult['segments'][number];
+}
+
+/**
+ * Deletes the renders and text sidecars of a library segment
+ *
+ * Every file of a segment is named after its primary render
+ * (`segment_N_uuid.mp4`, `segment_N_uuid.txt`, `segment_N_uuid_1x1.mp4`...).
+ * The video's cached thumbnail is deleted too, it may show the segment.
+ *
+ * @param {SegmentRecord} segment - Segment whose files should go
+ * @returns {Promise<void>}
+ */
+export const removeSegmentFiles = async (segment: SegmentRecord): Promise<void> => {
+  const primary = segment.renders[0];
+  if (!primary) {
+    return;
+  }
+
+  const outputDir = path.dirname(primary.path);
+  const baseName = path.basename(primary.path, '.mp4');
+  const files = await fs.readdir(outputDir).catch(() => [] as string[]);
+  await Promise.all(files
+    .filter(file => file.startsWith(baseName) || file === 'thumbnail.jpg')
+    .map(file => fs.unlink(path.join(outputDir, file)).catch(() => {})));
+};
+
+/**
+ * Runs a queued segment edit: renders one segment of a video in the library
+ * again with new in/out points, or adds one
+ *
+ * Goes through the same `splitVideo` pipeline as the split, with the video's
+ * framing, formats and captions settings, so the new segment is transcribed,
+ * summarized and titled like the others. Once it is done, the segment replaces
+ * the one with the same number in the library and the old files are deleted.
+ * On failure or cancellation the old segment is left as it was and the files
+ * rendered so far are removed.
+ *
+ * A new segment gets its number here rather than when the job is queued: jobs
+ * run one at a time, so two additions cannot take the same number, and the
+ * library never gives out the number of a deleted segment again.
+ *
+ * @param {Job<SegmentJobParams>} job - Job created by `PUT /api/videos/:videoId/segments/:n` or `POST /api/videos/:videoId/segments`
+ * @param {JobContext} context - Receives the `splitVideo` stages; its signal cancels the render
+ * @returns {Promise<SegmentJobResult>} The new segment, shaped like a segment of a split result
+ * @throws {AppError} 404 if the video or its source is gone, or any pipeline error (including cancellation)
+ */
+export const runSegmentJob = async (job: Job<SegmentJobParams>, context: JobContext): Promise<SegmentJobResult> => {
+  const { videoId, startTime, endTime, label } = job.params;
+
+  const video = videoLibrary.getVideo(videoId);
+  if (!video) {
+    throw createError(`Video ${videoId} not found`, 404);
+  }
+  try {
+    await fs.access(video.sourcePath);
+  } catch {
+    throw createError(`The source of video ${videoId} is no longer available`, 404);
+  }
+
+  const segmentNumber = job.params.segmentNumber ?? videoLibrary.allocateSegmentNumber(videoId);
+  const outputDir = path.join('processed', videoId);
+  await fs.mkdir(outputDir, { recursive: true });
+  const existingFiles = new Set(await fs.readdir(outputDir));
+  const previous = videoLibrary.getSegment(videoId, segmentNumber);
+  const duration = Math.round((endTime - startTime) * 100) / 100;
+
+  try {
+    console.log(`✂️  Re-rendering segment ${segmentNumber} of video ${videoId}: ${startTime.toFixed(2)}s - ${endTime.toFixed(2)}s`);
+    logger.info(`Job ${job.id}: rendering segment ${segmentNumber} of video ${videoId}`);
+    const [output] = await splitVideo(video.sourcePath, outputDir, [{ startTime, endTime, duration }], {
+      framing: video.framing,
+      formats: video.formats.length > 0 ? video.formats : undefined,
+      captions: video.captions,
+      segmentNumbers: [segmentNumber],
+      onProgress: context.reportProgress,
+      signal: context.signal
+    });
+
+    videoLibrary.saveSegment(videoId, { ...output, segmentNumber, label });
+    if (previous) {
+      await removeSegmentFiles(previous);
+    }
+    console.log(`✅ Segment ${segmentNumber} of video ${videoId} ${previous ? 'replaced' : 'added'}`);
+
+    return {
+      videoId,
+      segment: {
+        segmentNumber,
+        startTime: output.startTime,
+        endTime: output.endTime,
+        duration: output.duration,
+        downloadUrl: `/api/videos/download/${path.basename(output.outputPath)}`,
+        formats: output.renders.map(render => ({
+          format: render.format,
+          width: render.width,
+          height: render.height,
+          downloadUrl: `/api/videos/download/${path.basename(render.outputPath)}`
+        })),
+        ...(label && { label })
+      }
+    };
+  } catch (error) {
+    if (context.signal.aborted) {
+      console.log(`🛑 Segment job ${job.id} cancelled, removing partial output`);
+    } else {
+      console.error(`❌ Segment job ${job.id} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    // Keep the previous render, only drop what this attempt wrote
+    const files = await fs.readdir(outputDir).catch(() => [] as string[]);
+    await Promise.all(files
+      .filter(file => file.startsWith(`segment_${segmentNumber}_`) && !existingFiles.has(file))
+      .map(file => fs.unlink(path.join(outputDir, file)).catch(() => {})));
+    throw error;
+  }
+};
@@ -0,0 +1,201 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { splitVideo, VideoMetadata } from '../utils/videoProcessor';
+import { TranscriptionResult } from './transcriptionService';
+import {
+  PlannedSegment,
+  SegmentationStrategy,
+  SegmentPlanOptions,
+  planSegments
+} from '../utils/segmentPlanner';
+import { FramingMode, OutputFormat } from '../utils/framing';
+import { logger } from '../utils/logger';
+import { createError } from '../middleware/errorHandler';
+import { Job, JobContext } from './jobQueue';
+import { videoLibrary } from './videoLibrary';
+
+export const SPLIT_JOB_TYPE = 'split';
+
+export interface SplitJobParams {
+  videoId: string;
+  videoPath: string; // Uploaded source in uploads/
+  originalName: string;
+  metadata: VideoMetadata;
+  strategy: SegmentationStrategy;
+  planOptions: Omit<SegmentPlanOptions, 'seed' | 'signal' | 'onTranscription'>;
+  seed: number; // Resolved before queuing so a resumed job replays the same split
+  framing: FramingMode;
+  formats: OutputFormat[];
+  captions: boolean;
+  segments?: PlannedSegment[]; // Manual ranges, already checked against the duration; skip planning
+}
+
+export interface SplitJobResult {
+  videoId: string;
+  seed: number;
+  originalVideo: {
+    filename: string;
+    duration: number;
+    metadata: VideoMetadata;
+  };
+  segments: Array<{
+    segmentNumber: number;
+    startTime: number;
+    endTime: number;
+    duration: number;
+    downloadUrl: string;
+    formats: Array<{ format: string; width: number; height: number; downloadUrl: string }>;
+    score?: number;
+    rationale?: string;
+    label?: string;
+  }>;
+  totalSegments: number;
+}
+
+/**
+ * Deletes the upload, the output directory and the library record of a split job
+ *
+ * Runs when a split fails or is cancelled, queued or running.
+ *
+ * @param {Job<SplitJobParams>} job - Split job to clean up after
+ * @returns {Promise<void>}
+ */
+export const discardSplitJob = async (job: Job<SplitJobParams>): Promise<void> => {
+  await fs.unlink(job.params.videoPath).catch(() => {});
+  await fs.rm(path.join('processed', job.params.videoId), { recursive: true, force: true }).catch(() => {});
+  videoLibrary.deleteVideo(job.params.videoId);
+};
+
+/**
+ * Runs a queued split: plans the segments, then renders, transcribes, summarizes
+ * and titles them with `splitVideo`
+ *
+ * The video is recorded in the library when the job starts and its segments,
+ * with their renders and text, once they are all done.
+ *
+ * Safe to re-run after a restart: any partial output of an earlier attempt is
+ * removed first. On failure or cancellation the upload and the output directory
+ * are deleted (`discardSplitJob`), the same cleanup the synchronous route used to do.
+ * Cancelling kills the running FFmpeg processes and aborts pending provider calls.
+ *
+ * @param {Job<SplitJobParams>} job - Job created by `POST /api/videos/split`
+ * @param {JobContext} context - Receives progress: a 'plan' stage, then the `splitVideo` stages per segment; its signal cancels the split
+ * @returns {Promise<SplitJobResult>} The data the split route used to respond with
+ * @throws {AppError} 400 if no valid segments can be planned, or any pipeline error (including cancellation)
+ */
+export const runSplitJob = async (job: Job<SplitJobParams>, context: JobContext): Promise<SplitJobResult> => {
+  const { videoId, videoPath, originalName, metadata, strategy, planOptions, seed, framing, formats, captions } = job.params;
+  const outputDir = path.join('processed', videoId);
+
+  try {
+    videoLibrary.saveVideo({
+      id: videoId,
+      originalName,
+      sourcePath: videoPath,
+      metadata,
+      jobId: job.id,
+      strategy: job.params.segments ? 'manual' : strategy,
+      seed,
+      framing,
+      formats,
+      captions
+    });
+
+    let segments: PlannedSegment[];
+    // Set by transcript-based strategies, so the split does not transcribe the source again
+    let sourceTranscription: TranscriptionResult | undefined;
+
+    if (job.params.segments) {
+      console.log(`📝 Using ${job.params.segments.length} manually specified segments`);
+      segments = job.params.segments;
+    } else {
+      // Plan segments with the selected strategy
+      console.log(`🎲 Planning segments (${strategy})...`);
+      context.reportProgress({ stage: 'plan', percent: 0, overallPercent: 0 });
+      segments = await planSegments(strategy, videoPath, metadata, {
+        ...planOptions,
+        seed,
+        signal: context.signal,
+        onTranscription: (transcription) => {
+          sourceTranscription = transcription;
+        }
+      });
+    }
+
+    if (segments.length === 0) {
+      throw createError('Unable to generate valid segments for this video', 400);
+    }
+
+    console.log(`✅ Generated ${segments.length} segments:`);
+    segments.forEach((seg, idx) => {
+      console.log(`   Segment ${idx + 1}: ${seg.startTime.toFixed(2)}s - ${seg.endTime.toFixed(2)}s (${seg.duration.toFixed(2)}s)`);
+    });
+
+    // Start from an empty output directory, an interrupted attempt may have left files behind
+    await fs.rm(outputDir, { recursive: true, force: true });
+    await fs.mkdir(outputDir, { recursive: true });
+    console.log(`📁 Output directory created: ${outputDir}`);
+
+    // Split video
+    console.log(`✂️  Starting video split process...`);
+    logger.info(`Job ${job.id}: splitting video into ${segments.length} segments`);
+    const outputSegments = await splitVideo(videoPath, outputDir, segments, {
+      framing,
+      formats,
+      captions,
+      sourceTranscription,
+      onProgress: context.reportProgress,
+      signal: context.signal
+    });
+    console.log(`✅ Video split completed successfully!`);
+    console.log(`📦 Created ${outputSegments.length} segment files`);
+
+    videoLibrary.saveSegments(videoId, outputSegments.map((segment, index) => ({
+      ...segment,
+      segmentNumber: index + 1,
+      label: segments[index].label,
+      score: segments[index].score,
+      rationale: segments[index].rationale
+    })));
+
+    return {
+      videoId,
+      seed, // Send back with the same settings to reproduce this split
+      originalVideo: {
+        filename: originalName,
+        duration: metadata.duration,
+        metadata
+      },
+      segments: outputSegments.map((segment, index) => ({
+        segmentNumber: index + 1,
+        startTime: segment.startTime,
+        endTime: segment.endTime,
+        duration: segment.duration,
+        downloadUrl: `/api/videos/download/${path.basename(segment.outputPath)}`,
+        // One entry per requested format, primary first
+        formats: segment.renders.map(render => ({
+          format: render.format,
+          width: render.width,
+          height: render.height,
+          downloadUrl: `/api/videos/download/${path.basename(render.outputPath)}`
+        })),
+        // Highlight score and rationale, only present for the 'highlights' strategy
+        ...(segments[index].score !== undefined && {
+          score: segments[index].score,
+          rationale: segments[index].rationale
+        }),
+        ...(segments[index].label && { label: segments[index].label })
+      })),
+      totalSegments: segments.length
+    };
+  } catch (error) {
+    if (context.signal.aborted) {
+      console.log(`🛑 Split job ${job.id} cancelled, removing partial output`);
+    } else {
+      console.error(`❌ Split job ${job.id} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    // Cleanup on error
+    await discardSplitJob(job);
+    throw error;
+  }
+};
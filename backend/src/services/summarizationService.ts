@@ -1,11 +1,15 @@
 import axios from 'axios';
+import { z } from 'zod';
 import { logger } from '../utils/logger';
 import fs from 'fs/promises';
+import { contentCache } from './contentCache';
 
 export interface SummarizationOptions {
   maxLength?: number; // Maximum length of summary in words
   language?: string; // Language for summary (ISO 639-1 code)
   style?: 'concise' | 'detailed' | 'bullet-points' | 'social-media'; // Summary style
+  signal?: AbortSignal; // Aborts the pending API calls
+  fresh?: boolean; // Ask the model again instead of reusing a cached reply; the new reply replaces it
 }
 
 export interface SocialMediaContent {
@@ -13,6 +17,50 @@ export interface SocialMediaContent {
   title: string; // Short title (5-7 words)
 }
 
+export interface HighlightCandidate {
+  id: number;
+  text: string; // Transcript text of the candidate window
+}
+
+export interface HighlightScore {
+  id: number;
+  score: number; // 0-10, higher = stronger standalone clip
+  rationale: string; // One-line explanation of the score
+}
+
+const highlightScoresSchema = z.array(z.object({
+  id: z.number(),
+  score: z.number(),
+  rationale: z.string()
+}));
+
+/**
+ * Reads the JSON array of scores out of a highlight scoring reply
+ *
+ * @throws {Error} If the reply holds no JSON array of scores
+ */
+const parseHighlightScores = (reply: string): z.infer<typeof highlightScoresSchema> => {
+  const jsonStart = reply.indexOf('[');
+  const jsonEnd = reply.lastIndexOf(']');
+
+  if (jsonStart === -1 || jsonEnd <= jsonStart) {
+    throw new Error('No scores generated from OpenAI');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(reply.slice(jsonStart, jsonEnd + 1));
+  } catch {
+    throw new Error('Scores generated by OpenAI are not valid JSON');
+  }
+
+  const validation = highlightScoresSchema.safeParse(parsed);
+  if (!validation.success) {
+    throw new Error(`Unexpected scores from OpenAI: ${validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+  }
+  return validation.data;
+};
+
 /**
  * Summarization Service
  * 
@@ -28,6 +76,41 @@ export class SummarizationService {
     return process.env.OPENAI_API_KEY;
   }
 
+  /**
+   * Send a chat completion request to OpenAI and return the reply
+   *
+   * Replies are cached with the whole request as key (model, prompts including
+   * the transcript, and options), so an identical request is only sent once,
+   * unless `fresh` is set. An empty reply is not cached, nor one `validate`
+   * throws for: a reply the caller cannot use would otherwise fail every retry.
+   */
+  private async createChatCompletion(
+    request: Record<string, unknown>,
+    apiKey: string,
+    options: Pick<SummarizationOptions, 'signal' | 'fresh'> & { validate?: (reply: string) => void } = {}
+  ): Promise<string | undefined> {
+    const { signal, fresh, validate } = options;
+    return contentCache.getOrCompute('summarization', request, async () => {
+      const response = await axios.post(
+        'https://api.openai.com/v1/chat/completions',
+        request,
+        {
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          signal,
+        }
+      );
+
+      const reply: string | undefined = response.data.choices[0]?.message?.content?.trim() || undefined;
+      if (reply) {
+        validate?.(reply);
+      }
+      return reply;
+    }, { refresh: fresh });
+  }
+
   /**
    * Summarize text using OpenAI GPT
    */
@@ -76,32 +159,21 @@ Video transcription:\n\n${text}`;
     }
 
     try {
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a helpful assistant that creates clear and accurate summaries. Always respond in English only, regardless of the input language.`
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          max_tokens: Math.min(maxLength * 2, 500), // Rough estimate: 2 tokens per word
-          temperature: 0.3 // Lower temperature for more consistent summaries
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
+      const summary = await this.createChatCompletion({
+        model: 'gpt-3.5-turbo',
+        messages: [
+          {
+            role: 'system',
+            content: `You are a helpful assistant that creates clear and accurate summaries. Always respond in English only, regardless of the input language.`
           },
-        }
-      );
-
-      const summary = response.data.choices[0]?.message?.content?.trim();
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        max_tokens: Math.min(maxLength * 2, 500), // Rough estimate: 2 tokens per word
+        temperature: 0.3 // Lower temperature for more consistent summaries
+      }, apiKey, options);
       
       if (!summary) {
         throw new Error('No summary generated from OpenAI');
@@ -170,18 +242,16 @@ Video transcription:\n\n${text}`;
 
     try {
       // Generate description for social media
-      const descriptionResponse = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a social media content creator expert. Create engaging descriptions for TikTok and Instagram Reels that hook viewers, include relevant hashtag suggestions, and are optimized for engagement. Always respond in English only, regardless of the input language.`
-            },
-            {
-              role: 'user',
-              content: `Create an engaging description for a TikTok or Instagram Reel based on this video transcription. The description should be:
+      const description = await this.createChatCompletion({
+        model: 'gpt-3.5-turbo',
+        messages: [
+          {
+            role: 'system',
+            content: `You are a social media content creator expert. Create engaging descriptions for TikTok and Instagram Reels that hook viewers, include relevant hashtag suggestions, and are optimized for engagement. Always respond in English only, regardless of the input language.`
+          },
+          {
+            role: 'user',
+            content: `Create an engaging description for a TikTok or Instagram Reel based on this video transcription. The description should be:
 - Engaging and hook the viewer in the first sentence
 - Include 3-5 relevant hashtag suggestions at the end
 - Be optimized for social media (catchy, clear, and action-oriented)
@@ -189,52 +259,32 @@ Video transcription:\n\n${text}`;
 - Written in English only
 
 Video transcription:\n\n${text}`
-            }
-          ],
-          max_tokens: Math.min(maxLength * 2, 300),
-          temperature: 0.7 // Slightly higher for more creative descriptions
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      const description = descriptionResponse.data.choices[0]?.message?.content?.trim();
+          }
+        ],
+        max_tokens: Math.min(maxLength * 2, 300),
+        temperature: 0.7 // Slightly higher for more creative descriptions
+      }, apiKey, options);
       
       if (!description) {
         throw new Error('No description generated from OpenAI');
       }
 
       // Generate short title (5-7 words)
-      const titleResponse = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a social media expert. Create catchy, short titles (exactly 5-7 words) for TikTok and Instagram Reels. Titles should be attention-grabbing and summarize the video content. Always respond in English only, regardless of the input language. Respond ONLY with the title, no additional text.`
-            },
-            {
-              role: 'user',
-              content: `Based on this video transcription, create a catchy title of exactly 5-7 words in English for a TikTok/Instagram Reel. The title should be attention-grabbing and summarize the main point. Respond ONLY with the title in English, nothing else.\n\nVideo transcription:\n\n${text}`
-            }
-          ],
-          max_tokens: 30,
-          temperature: 0.6
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
+      let title = await this.createChatCompletion({
+        model: 'gpt-3.5-turbo',
+        messages: [
+          {
+            role: 'system',
+            content: `You are a social media expert. Create catchy, short titles (exactly 5-7 words) for TikTok and Instagram Reels. Titles should be attention-grabbing and summarize the video content. Always respond in English only, regardless of the input language. Respond ONLY with the title, no additional text.`
           },
-        }
-      );
-
-      let title = titleResponse.data.choices[0]?.message?.content?.trim();
+          {
+            role: 'user',
+            content: `Based on this video transcription, create a catchy title of exactly 5-7 words in English for a TikTok/Instagram Reel. The title should be attention-grabbing and summarize the main point. Respond ONLY with the title in English, nothing else.\n\nVideo transcription:\n\n${text}`
+          }
+        ],
+        max_tokens: 30,
+        temperature: 0.6
+      }, apiKey, options);
       
       // Clean up title - remove quotes if present, ensure it's 5-7 words
       if (title) {
@@ -291,6 +341,77 @@ Video transcription:\n\n${text}`
     };
   }
 
+  /**
+   * Score candidate clip windows for use as short-form highlights
+   *
+   * Sends all candidates in a single request and asks the model to rate each one
+   * from 0 to 10 for hook strength (does the opening grab attention?) and for
+   * being self-contained (does it make sense without the rest of the video?).
+   * Candidates the model does not return are scored 0.
+   * The request is aborted when `signal` is.
+   */
+  async scoreHighlightCandidates(
+    candidates: HighlightCandidate[],
+    signal?: AbortSignal
+  ): Promise<HighlightScore[]> {
+    const apiKey = this.getApiKey();
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not set. Highlight scoring requires OpenAI API key.');
+    }
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const candidateList = candidates
+      .map(candidate => `[${candidate.id}] ${candidate.text}`)
+      .join('\n\n');
+
+    try {
+      const content: string = (await this.createChatCompletion({
+        model: 'gpt-3.5-turbo',
+        messages: [
+          {
+            role: 'system',
+            content: `You are a short-form video editor selecting clips for TikTok, Instagram Reels and YouTube Shorts. You rate transcript excerpts for how well they would work as standalone clips. Always respond in English only, regardless of the input language. Respond ONLY with JSON, no additional text.`
+          },
+          {
+            role: 'user',
+            content: `Rate each of the following transcript excerpts from 0 to 10 as a standalone short-form clip. Consider:
+- Hook strength: does the first sentence make the viewer want to keep watching?
+- Self-contained meaning: does it make sense without the rest of the video?
+
+Respond with a JSON array containing one object per excerpt: [{"id": <number>, "score": <0-10>, "rationale": "<one line explaining the score>"}]
+
+Excerpts:\n\n${candidateList}`
+          }
+        ],
+        max_tokens: Math.min(candidates.length * 60, 2000),
+        temperature: 0.2 // Low temperature for consistent scoring
+      }, apiKey, { signal, validate: parseHighlightScores })) || '';
+
+      const scoresById = new Map<number, HighlightScore>();
+      for (const entry of parseHighlightScores(content)) {
+        scoresById.set(entry.id, {
+          id: entry.id,
+          score: Math.max(0, Math.min(10, entry.score)),
+          rationale: entry.rationale.trim()
+        });
+      }
+
+      logger.debug(`Scored ${scoresById.size}/${candidates.length} highlight candidates`);
+
+      return candidates.map(candidate => scoresById.get(candidate.id) || {
+        id: candidate.id,
+        score: 0,
+        rationale: 'Not rated'
+      });
+    } catch (error: any) {
+      logger.error(`Highlight scoring error: ${error.message}`);
+      throw new Error(`Failed to score highlight candidates: ${error.response?.data?.error?.message || error.message}`);
+    }
+  }
+
   /**
    * Check if summarization is available (API key configured)
    */
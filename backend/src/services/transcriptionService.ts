@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import fs from 'fs/promises';
 import fsSync from 'fs';
 import path from 'path';
@@ -5,6 +6,13 @@ import { logger } from '../utils/logger';
 import ffmpeg from 'fluent-ffmpeg';
 import FormData from 'form-data';
 import axios from 'axios';
+import { killOnAbort } from '../utils/abort';
+import { contentCache, hashFile } from './contentCache';
+import { getLocalWhisperConfig, LocalWhisperConfig, transcribeLocally } from './localTranscription';
+
+export const TRANSCRIPTION_PROVIDERS = ['openai', 'assemblyai', 'deepgram', 'local'] as const;
+
+export type TranscriptionProvider = typeof TRANSCRIPTION_PROVIDERS[number];
 
 export interface TranscriptionResult {
   text: string;
@@ -14,6 +22,11 @@ export interface TranscriptionResult {
     end: number;
     text: string;
   }>;
+  words?: Array<{ // Word-level timing, when the provider returns it
+    start: number;
+    end: number;
+    text: string;
+  }>;
   duration: number;
 }
 
@@ -22,6 +35,8 @@ export interface TranscriptionOptions {
   prompt?: string; // Context prompt to improve accuracy
   responseFormat?: 'json' | 'text' | 'srt' | 'verbose_json' | 'vtt';
   temperature?: number; // 0-1, lower = more deterministic
+  wordTimestamps?: boolean; // Request word-level timing (OpenAI switches to 'verbose_json')
+  signal?: AbortSignal; // Aborts pending API calls and kills audio extraction
 }
 
 /**
@@ -31,12 +46,17 @@ export interface TranscriptionOptions {
  * - OpenAI Whisper API (default, recommended)
  * - AssemblyAI (alternative)
  * - Deepgram (alternative)
+ * - Local whisper.cpp or faster-whisper binary (offline, audio never leaves the machine)
+ *
+ * The first configured provider in that order is used, unless
+ * `TRANSCRIPTION_PROVIDER` names one.
  */
 export class TranscriptionService {
-  private provider: 'openai' | 'assemblyai' | 'deepgram' = 'openai';
+  private provider: TranscriptionProvider = 'openai';
   private openaiApiKey?: string;
   private assemblyaiApiKey?: string;
   private deepgramApiKey?: string;
+  private localWhisper?: LocalWhisperConfig;
 
   constructor() {
     // Load API keys lazily - reload from environment each time to ensure fresh values
@@ -51,6 +71,18 @@ export class TranscriptionService {
     this.openaiApiKey = process.env.OPENAI_API_KEY;
     this.assemblyaiApiKey = process.env.ASSEMBLYAI_API_KEY;
     this.deepgramApiKey = process.env.DEEPGRAM_API_KEY;
+    this.localWhisper = getLocalWhisperConfig();
+
+    // An explicit choice is kept even when unconfigured: content meant to stay
+    // local must not silently go to a cloud provider
+    const preferred = process.env.TRANSCRIPTION_PROVIDER as TranscriptionProvider | undefined;
+    if (preferred && TRANSCRIPTION_PROVIDERS.includes(preferred)) {
+      this.provider = preferred;
+      return;
+    }
+    if (preferred) {
+      logger.warn(`Unknown TRANSCRIPTION_PROVIDER '${preferred}', expected one of ${TRANSCRIPTION_PROVIDERS.join(', ')}`);
+    }
 
     // Default to OpenAI if available, otherwise use first available
     if (this.openaiApiKey) {
@@ -59,9 +91,11 @@ export class TranscriptionService {
       this.provider = 'assemblyai';
     } else if (this.deepgramApiKey) {
       this.provider = 'deepgram';
+    } else if (this.localWhisper) {
+      this.provider = 'local';
     } else {
       this.provider = 'openai'; // Default, but will fail if no API key
-      logger.warn('No transcription API keys found. Set OPENAI_API_KEY, ASSEMBLYAI_API_KEY, or DEEPGRAM_API_KEY');
+      logger.warn('No transcription provider configured. Set OPENAI_API_KEY, ASSEMBLYAI_API_KEY, DEEPGRAM_API_KEY, or LOCAL_WHISPER_PATH');
     }
   }
 
@@ -72,7 +106,8 @@ export class TranscriptionService {
    */
   private async extractAudio(
     videoPath: string,
-    outputPath?: string
+    outputPath?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     const audioPath = outputPath || videoPath.replace(/\.[^/.]+$/, '.wav');
     const tempDir = path.dirname(audioPath);
@@ -80,7 +115,7 @@ export class TranscriptionService {
     await fs.mkdir(tempDir, { recursive: true });
 
     return new Promise((resolve, reject) => {
-      ffmpeg(videoPath)
+      const command = ffmpeg(videoPath)
         .outputOptions([
           '-vn', // No video
           '-acodec pcm_s16le', // PCM 16-bit little-endian
@@ -95,8 +130,9 @@ export class TranscriptionService {
         .on('error', (err) => {
           logger.error(`Error extracting audio: ${err.message}`);
           reject(new Error(`Failed to extract audio: ${err.message}`));
-        })
-        .run();
+        });
+      killOnAbort(command, signal);
+      command.run();
     });
   }
 
@@ -121,8 +157,14 @@ export class TranscriptionService {
     if (options.prompt) {
       formData.append('prompt', options.prompt);
     }
-    if (options.responseFormat) {
-      formData.append('response_format', options.responseFormat);
+    // Word timestamps are only returned with the verbose JSON format
+    const responseFormat = options.wordTimestamps ? 'verbose_json' : options.responseFormat;
+    if (responseFormat) {
+      formData.append('response_format', responseFormat);
+    }
+    if (options.wordTimestamps) {
+      formData.append('timestamp_granularities[]', 'word');
+      formData.append('timestamp_granularities[]', 'segment');
     }
     if (options.temperature !== undefined) {
       formData.append('temperature', options.temperature.toString());
@@ -139,6 +181,7 @@ export class TranscriptionService {
           },
           maxContentLength: Infinity,
           maxBodyLength: Infinity,
+          signal: options.signal,
         }
       );
 
@@ -148,6 +191,18 @@ export class TranscriptionService {
       return {
         text: response.data.text || '',
         language: response.data.language,
+        // Only present when responseFormat is 'verbose_json'
+        segments: response.data.segments?.map((segment: any) => ({
+          start: segment.start,
+          end: segment.end,
+          text: segment.text,
+        })),
+        // Only present when word timestamps were requested
+        words: response.data.words?.map((word: any) => ({
+          start: word.start,
+          end: word.end,
+          text: word.word,
+        })),
         duration: metadata.duration,
       };
     } catch (error: any) {
@@ -177,6 +232,7 @@ export class TranscriptionService {
           'authorization': this.assemblyaiApiKey,
           'content-type': 'application/octet-stream',
         },
+        signal: options.signal,
       }
     );
 
@@ -194,6 +250,7 @@ export class TranscriptionService {
           'authorization': this.assemblyaiApiKey,
           'content-type': 'application/json',
         },
+        signal: options.signal,
       }
     );
 
@@ -208,6 +265,7 @@ export class TranscriptionService {
           headers: {
             'authorization': this.assemblyaiApiKey,
           },
+          signal: options.signal,
         }
       );
 
@@ -221,6 +279,7 @@ export class TranscriptionService {
 
       // Wait 3 seconds before checking again
       await new Promise(resolve => setTimeout(resolve, 3000));
+      options.signal?.throwIfAborted();
     }
 
     const metadata = await this.getAudioDuration(audioPath);
@@ -233,6 +292,11 @@ export class TranscriptionService {
         end: word.end / 1000,
         text: word.text,
       })),
+      words: transcript.words?.map((word: any) => ({
+        start: word.start / 1000,
+        end: word.end / 1000,
+        text: word.text,
+      })),
       duration: metadata.duration,
     };
   }
@@ -260,6 +324,7 @@ export class TranscriptionService {
             'Authorization': `Token ${this.deepgramApiKey}`,
             'Content-Type': 'audio/wav',
           },
+          signal: options.signal,
         }
       );
 
@@ -274,6 +339,11 @@ export class TranscriptionService {
           end: word.end,
           text: word.word,
         })),
+        words: result.channels[0].alternatives[0].words?.map((word: any) => ({
+          start: word.start,
+          end: word.end,
+          text: word.punctuated_word || word.word,
+        })),
         duration: metadata.duration,
       };
     } catch (error: any) {
@@ -282,6 +352,28 @@ export class TranscriptionService {
     }
   }
 
+  /**
+   * Transcribe audio using a locally installed whisper.cpp or faster-whisper
+   */
+  private async transcribeWithLocal(
+    audioPath: string,
+    options: TranscriptionOptions = {}
+  ): Promise<TranscriptionResult> {
+    if (!this.localWhisper) {
+      throw new Error('LOCAL_WHISPER_PATH is not set');
+    }
+
+    try {
+      const result = await transcribeLocally(audioPath, this.localWhisper, options);
+      const metadata = await this.getAudioDuration(audioPath);
+
+      return { ...result, duration: metadata.duration };
+    } catch (error: any) {
+      logger.error(`Local transcription error: ${error.message}`);
+      throw new Error(`Transcription failed: ${error.message}`);
+    }
+  }
+
   /**
    * Get audio duration
    */
@@ -304,6 +396,8 @@ export class TranscriptionService {
    * 
    * Automatically extracts audio from video files if needed.
    * Supports multiple providers based on available API keys.
+   * Results are cached by the audio's content hash, the provider and the
+   * options, so the same audio is only sent to the provider once.
    */
   async transcribe(
     filePath: string,
@@ -319,35 +413,42 @@ export class TranscriptionService {
       const isVideo = await this.isVideoFile(filePath);
 
       if (isVideo) {
-        // Extract audio from video
+        // Extract audio from video, under a name concurrent transcriptions of the same directory cannot share
         logger.info(`Extracting audio from video: ${filePath}`);
         audioPath = path.join(
           path.dirname(filePath),
-          `audio_${Date.now()}.wav`
+          `audio_${crypto.randomUUID()}.wav`
         );
-        audioPath = await this.extractAudio(filePath, audioPath);
+        audioPath = await this.extractAudio(filePath, audioPath, options.signal);
         isTempAudio = true;
       }
 
-      logger.info(`Transcribing using ${this.provider}...`);
-
-      // Transcribe based on provider
-      let result: TranscriptionResult;
-      switch (this.provider) {
-        case 'openai':
-          result = await this.transcribeWithOpenAI(audioPath, options);
-          break;
-        case 'assemblyai':
-          result = await this.transcribeWithAssemblyAI(audioPath, options);
-          break;
-        case 'deepgram':
-          result = await this.transcribeWithDeepgram(audioPath, options);
-          break;
-        default:
-          throw new Error(`Unknown transcription provider: ${this.provider}`);
-      }
+      const provider = this.provider;
+      const cacheKey = {
+        audio: await hashFile(audioPath),
+        provider,
+        // Local results depend on the engine and model too
+        ...(provider === 'local' && { engine: this.localWhisper?.engine, model: this.localWhisper?.model }),
+        options: { ...options, signal: undefined }
+      };
 
-      return result;
+      return await contentCache.getOrCompute('transcription', cacheKey, async () => {
+        logger.info(`Transcribing using ${provider}...`);
+
+        // Transcribe based on provider
+        switch (provider) {
+          case 'openai':
+            return this.transcribeWithOpenAI(audioPath, options);
+          case 'assemblyai':
+            return this.transcribeWithAssemblyAI(audioPath, options);
+          case 'deepgram':
+            return this.transcribeWithDeepgram(audioPath, options);
+          case 'local':
+            return this.transcribeWithLocal(audioPath, options);
+          default:
+            throw new Error(`Unknown transcription provider: ${provider}`);
+        }
+      });
     } finally {
       // Clean up temporary audio file if created
       if (isTempAudio && audioPath !== filePath) {
@@ -389,6 +490,7 @@ export class TranscriptionService {
     if (this.openaiApiKey) providers.push('openai');
     if (this.assemblyaiApiKey) providers.push('assemblyai');
     if (this.deepgramApiKey) providers.push('deepgram');
+    if (this.localWhisper) providers.push('local');
     return providers;
   }
 
@@ -0,0 +1,314 @@
+import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+import { logger } from '../utils/logger';
+import { createError } from '../middleware/errorHandler';
+import { getFileExtension } from '../utils/fileUtils';
+
+const DEFAULT_MAX_UPLOAD_SIZE = 10 * 1024 * 1024 * 1024; // 10GB
+const DEFAULT_MAX_PENDING_UPLOAD_BYTES = 50 * 1024 * 1024 * 1024; // 50GB
+const DEFAULT_UPLOAD_TTL_HOURS = 24;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+export interface UploadInfo {
+  id: string;
+  filename: string; // Original file name, kept for the split result
+  size: number; // Declared total size in bytes
+  offset: number; // Bytes received so far
+  complete: boolean;
+  createdAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Gets the largest file accepted by resumable uploads
+ *
+ * Read from `MAX_UPLOAD_SIZE` (bytes); defaults to 10GB.
+ *
+ * @returns {number} Maximum upload size in bytes
+ */
+export const getMaxUploadSize = (): number => {
+  const configured = parseInt(process.env.MAX_UPLOAD_SIZE || '', 10);
+  return configured > 0 ? configured : DEFAULT_MAX_UPLOAD_SIZE;
+};
+
+/**
+ * Gets the total size of the uploads the service may hold at once
+ *
+ * Read from `MAX_PENDING_UPLOAD_BYTES` (bytes); defaults to 50GB. Declared sizes
+ * count, so the disk space an upload will need is reserved when it is created.
+ *
+ * @returns {number} Maximum pending upload bytes
+ */
+export const getMaxPendingUploadBytes = (): number => {
+  const configured = parseInt(process.env.MAX_PENDING_UPLOAD_BYTES || '', 10);
+  return configured > 0 ? configured : DEFAULT_MAX_PENDING_UPLOAD_BYTES;
+};
+
+/**
+ * Gets how long an upload may go without activity before it is deleted
+ *
+ * Read from `UPLOAD_TTL_HOURS`; defaults to 24 hours.
+ *
+ * @returns {number} Time to live in milliseconds
+ */
+export const getUploadTtl = (): number => {
+  const configured = parseFloat(process.env.UPLOAD_TTL_HOURS || '');
+  return (configured > 0 ? configured : DEFAULT_UPLOAD_TTL_HOURS) * 60 * 60 * 1000;
+};
+
+/**
+ * Resumable upload service
+ *
+ * Receives a file in chunks written at explicit offsets, so a client whose
+ * connection drops can ask for the current offset and continue from there.
+ * Each upload is `<id>.json` (its metadata) and `<id>.part` (the bytes so far)
+ * in the upload directory. The offset is the size of the part file, so an
+ * upload can be resumed after a backend restart too. Once all bytes have
+ * arrived the part file becomes `<id><ext>`, ready to be split.
+ *
+ * Uploads that are abandoned, or completed and never claimed, are deleted once
+ * they have seen no activity for `UPLOAD_TTL_HOURS`, and the declared sizes of
+ * all uploads held are capped by `MAX_PENDING_UPLOAD_BYTES`.
+ */
+export class UploadService {
+  private writing = new Set<string>(); // Uploads with a chunk being written
+  private claiming = new Set<string>(); // Uploads being taken for processing
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(private uploadDir: string = 'uploads') {}
+
+  /**
+   * Start an upload
+   *
+   * @param {string} filename - Original file name (its extension is kept)
+   * @param {number} size - Total size in bytes
+   * @returns {Promise<UploadInfo>} The new, empty upload
+   * @throws {AppError} 413 if the size exceeds `MAX_UPLOAD_SIZE`
+   * @throws {AppError} 507 if the uploads held would exceed `MAX_PENDING_UPLOAD_BYTES`
+   */
+  async create(filename: string, size: number): Promise<UploadInfo> {
+    const maxSize = getMaxUploadSize();
+    if (size > maxSize) {
+      throw createError(`File size exceeds the ${(maxSize / (1024 * 1024)).toFixed(0)}MB upload limit`, 413);
+    }
+
+    // Stale uploads should not count against the cap
+    await this.sweepStale();
+    const pending = (await this.listUploads()).reduce((total, upload) => total + upload.size, 0);
+    if (pending + size > getMaxPendingUploadBytes()) {
+      throw createError('Too many uploads in progress, please try again later', 507);
+    }
+
+    const upload: UploadInfo = {
+      id: uuidv4(),
+      filename,
+      size,
+      offset: 0,
+      complete: false,
+      createdAt: new Date().toISOString()
+    };
+
+    await fs.mkdir(this.uploadDir, { recursive: true });
+    await fs.writeFile(this.partPath(upload.id), '');
+    await this.saveMetadata(upload);
+    logger.info(`Upload ${upload.id} created: ${filename} (${size} bytes)`);
+    return upload;
+  }
+
+  /**
+   * Look up an upload and its current offset
+   *
+   * @throws {AppError} 400 if the ID is not a UUID, 404 if there is no such upload
+   */
+  async get(id: string): Promise<UploadInfo> {
+    if (!isUuid(id)) {
+      throw createError('Invalid upload ID', 400);
+    }
+
+    let upload: UploadInfo;
+    try {
+      upload = JSON.parse(await fs.readFile(this.metadataPath(id), 'utf-8'));
+    } catch {
+      throw createError('Upload not found', 404);
+    }
+
+    // The part file is the source of truth, it may have grown since the metadata was written
+    upload.offset = upload.complete ? upload.size : (await fs.stat(this.partPath(id))).size;
+    return upload;
+  }
+
+  /**
+   * Append a chunk at the given offset
+   *
+   * The offset must equal the bytes received so far. Bytes of a chunk that is
+   * interrupted midway are kept, and the client resumes from the new offset.
+   *
+   * @param {string} id - Upload ID
+   * @param {number} offset - Position of the chunk in the file
+   * @param {Readable} chunk - Chunk bytes (the request body)
+   * @returns {Promise<UploadInfo>} The upload with its new offset
+   * @throws {AppError} 409 if the offset does not match, the upload is complete or another chunk is being written
+   * @throws {AppError} 413 if the chunk goes past the declared size
+   */
+  async appendChunk(id: string, offset: number, chunk: Readable): Promise<UploadInfo> {
+    if (this.writing.has(id)) {
+      throw createError('Another chunk of this upload is being written', 409);
+    }
+
+    this.writing.add(id);
+    try {
+      const upload = await this.get(id);
+      if (upload.complete) {
+        throw createError('Upload is already complete', 409);
+      }
+      if (offset !== upload.offset) {
+        throw createError(`Upload offset mismatch: expected ${upload.offset}, got ${offset}`, 409);
+      }
+
+      let received = 0;
+      await pipeline(
+        chunk,
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const data of source) {
+            received += data.length;
+            if (offset + received > upload.size) {
+              throw createError('Chunk goes past the declared upload size', 413);
+            }
+            yield data;
+          }
+        },
+        createWriteStream(this.partPath(id), { flags: 'a' })
+      );
+    } finally {
+      this.writing.delete(id);
+    }
+
+    const updated = await this.get(id);
+    if (updated.offset === updated.size) {
+      return this.complete(updated);
+    }
+    return updated;
+  }
+
+  /**
+   * Take a completed upload for processing
+   *
+   * The upload is removed from the service; the file at `path` now belongs to the caller.
+   *
+   * @returns {Promise<{ path: string; filename: string; size: number }>} The assembled file
+   * @throws {AppError} 400/404 as `get`, 409 if the upload is not complete yet or is being claimed
+   */
+  async claim(id: string): Promise<{ path: string; filename: string; size: number }> {
+    if (this.claiming.has(id)) {
+      throw createError('Upload is already being processed', 409);
+    }
+
+    this.claiming.add(id);
+    try {
+      const upload = await this.get(id);
+      if (!upload.complete) {
+        throw createError(`Upload is not complete: ${upload.offset} of ${upload.size} bytes received`, 409);
+      }
+
+      await fs.unlink(this.metadataPath(id)).catch(() => {});
+      return { path: this.filePath(upload), filename: upload.filename, size: upload.size };
+    } finally {
+      this.claiming.delete(id);
+    }
+  }
+
+  /**
+   * Delete uploads that have seen no activity for `UPLOAD_TTL_HOURS`
+   *
+   * Activity is the last chunk written, or completion for an upload that was
+   * never claimed. Uploads with a chunk being written are kept.
+   *
+   * @param {number} [now=Date.now()] - Current time in milliseconds
+   * @returns {Promise<number>} Number of uploads deleted
+   */
+  async sweepStale(now: number = Date.now()): Promise<number> {
+    const ttl = getUploadTtl();
+    let removed = 0;
+
+    for (const upload of await this.listUploads()) {
+      if (this.writing.has(upload.id)) {
+        continue;
+      }
+
+      const dataPath = upload.complete ? this.filePath(upload) : this.partPath(upload.id);
+      const modified = await fs.stat(dataPath).then(stat => stat.mtimeMs, () => 0);
+      const lastActivity = Math.max(Date.parse(upload.completedAt ?? upload.createdAt) || 0, modified);
+      if (now - lastActivity < ttl) {
+        continue;
+      }
+
+      await fs.unlink(this.metadataPath(upload.id)).catch(() => {});
+      await fs.unlink(dataPath).catch(() => {});
+      logger.info(`Upload ${upload.id} deleted after ${(ttl / (60 * 60 * 1000)).toFixed(0)}h without activity (${upload.complete ? 'never claimed' : `${upload.offset} of ${upload.size} bytes`})`);
+      removed++;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Sweep stale uploads every hour until `stopSweeping` is called
+   *
+   * The timer does not keep the process alive.
+   */
+  startSweeping(): void {
+    this.stopSweeping();
+    this.sweepTimer = setInterval(() => {
+      this.sweepStale().catch(error => logger.warn(`Failed to sweep stale uploads: ${error}`));
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  stopSweeping(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  /**
+   * Every upload held (not claimed yet), with its current offset
+   */
+  private async listUploads(): Promise<UploadInfo[]> {
+    const files = await fs.readdir(this.uploadDir).catch(() => [] as string[]);
+    const ids = files.filter(file => file.endsWith('.json')).map(file => path.basename(file, '.json')).filter(id => isUuid(id));
+    const uploads = await Promise.all(ids.map(id => this.get(id).catch(() => undefined)));
+    return uploads.filter((upload): upload is UploadInfo => upload !== undefined);
+  }
+
+  private async complete(upload: UploadInfo): Promise<UploadInfo> {
+    await fs.rename(this.partPath(upload.id), this.filePath(upload));
+    upload.complete = true;
+    upload.completedAt = new Date().toISOString();
+    await this.saveMetadata(upload);
+    logger.info(`Upload ${upload.id} complete: ${upload.size} bytes`);
+    return upload;
+  }
+
+  private async saveMetadata(upload: UploadInfo): Promise<void> {
+    await fs.writeFile(this.metadataPath(upload.id), JSON.stringify(upload, null, 2), 'utf-8');
+  }
+
+  private metadataPath(id: string): string {
+    return path.join(this.uploadDir, `${id}.json`);
+  }
+
+  private partPath(id: string): string {
+    return path.join(this.uploadDir, `${id}.part`);
+  }
+
+  private filePath(upload: UploadInfo): string {
+    return path.join(this.uploadDir, `${upload.id}${getFileExtension(upload.filename)}`);
+  }
+}
+
+export const uploadService = new UploadService();
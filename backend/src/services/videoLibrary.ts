@@ -0,0 +1,759 @@
+import path from 'path';
+import { DatabaseConnection, openDatabase } from '../db/database';
+import {
+  SegmentRender,
+  SegmentSummary,
+  SegmentTitle,
+  SegmentTranscript,
+  VideoMetadata
+} from '../utils/videoProcessor';
+import { SUBTITLE_FORMATS } from '../utils/subtitles';
+import { DEFAULT_OUTPUT_FORMAT, FramingMode, isFramingMode, isOutputFormat, OutputFormat } from '../utils/framing';
+import { logger } from '../utils/logger';
+
+export const VIDEO_STATUSES = ['processing', 'ready'] as const;
+export type VideoStatus = typeof VIDEO_STATUSES[number];
+
+export const VIDEO_SORT_FIELDS = ['createdAt', 'duration', 'name'] as const;
+export type VideoSortField = typeof VIDEO_SORT_FIELDS[number];
+
+export type SegmentFileKind = 'transcript' | 'timings' | 'summary' | 'title' | 'description' | 'srt' | 'vtt';
+
+export interface VideoRecord {
+  id: string;
+  originalName: string;
+  sourcePath: string; // Uploaded source in uploads/
+  status: VideoStatus;
+  jobId?: string; // Split job that produced the segments
+  metadata: VideoMetadata;
+  strategy?: string;
+  seed?: number;
+  framing?: FramingMode;
+  formats: OutputFormat[];
+  captions: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RenderRecord {
+  format: OutputFormat;
+  width: number;
+  height: number;
+  primary: boolean;
+  filename: string;
+  path: string;
+}
+
+export interface UploadDestinationRecord {
+  filename: string; // Local file that was uploaded
+  provider: string; // e.g. 'google-drive'
+  remoteId: string;
+  webViewLink?: string;
+  shareableLink?: string;
+  uploadedAt: string;
+}
+
+export interface SegmentRecord {
+  videoId: string;
+  segmentNumber: number; // 1-based
+  startTime: number;
+  endTime: number;
+  duration: number;
+  label?: string;
+  score?: number;
+  rationale?: string;
+  renders: RenderRecord[]; // Primary first
+  transcript?: { text: string; language?: string };
+  summary?: { text: string };
+  title?: { title: string; description: string };
+  files: Partial<Record<SegmentFileKind, string>>; // Paths of the text sidecars on disk
+  destinations: UploadDestinationRecord[];
+}
+
+export interface NewVideo {
+  id: string;
+  originalName: string;
+  sourcePath: string;
+  metadata: VideoMetadata;
+  jobId?: string;
+  strategy?: string;
+  seed?: number;
+  framing?: FramingMode;
+  formats?: OutputFormat[];
+  captions?: boolean;
+}
+
+export interface NewSegment {
+  segmentNumber: number;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  label?: string;
+  score?: number;
+  rationale?: string;
+  renders: SegmentRender[]; // Primary first
+  transcript?: SegmentTranscript;
+  summary?: SegmentSummary;
+  title?: SegmentTitle;
+}
+
+export interface VideoListQuery {
+  page?: number; // 1-based, defaults to 1
+  pageSize?: number; // Defaults to 20
+  sort?: VideoSortField; // Defaults to 'createdAt'
+  order?: 'asc' | 'desc'; // Defaults to 'desc'
+  status?: VideoStatus;
+  from?: string; // ISO timestamp, created at or after
+  to?: string; // ISO timestamp, created before
+  minDuration?: number; // Seconds
+  maxDuration?: number;
+  uploaded?: boolean; // Whether any file of the video was uploaded somewhere
+  q?: string; // Full-text query over transcripts and titles
+}
+
+export interface VideoSummary extends VideoRecord {
+  segmentCount: number;
+  uploaded: boolean;
+}
+
+export interface VideoList {
+  videos: VideoSummary[];
+  total: number; // Videos matching the filters, across all pages
+}
+
+export interface SearchHit {
+  videoId: string;
+  originalName: string;
+  segmentNumber: number;
+  title?: string;
+  snippet: string; // Matching excerpt, matched terms wrapped in <mark></mark>
+}
+
+export interface LibraryFile {
+  videoId: string;
+  segmentNumber: number;
+  kind: 'render' | SegmentFileKind;
+  path: string;
+}
+
+interface VideoRow {
+  id: string;
+  original_name: string;
+  source_path: string;
+  status: VideoStatus;
+  job_id: string | null;
+  duration: number;
+  width: number;
+  height: number;
+  container_format: string;
+  size: number;
+  strategy: string | null;
+  seed: number | null;
+  framing: string | null;
+  formats: string;
+  captions: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SegmentRow {
+  id: number;
+  video_id: string;
+  segment_number: number;
+  start_time: number;
+  end_time: number;
+  duration: number;
+  label: string | null;
+  score: number | null;
+  rationale: string | null;
+  transcript_text: string | null;
+  transcript_language: string | null;
+  summary_text: string | null;
+  title: string | null;
+  description: string | null;
+}
+
+const SORT_COLUMNS: Record<VideoSortField, string> = {
+  createdAt: 'v.created_at',
+  duration: 'v.duration',
+  name: 'v.original_name COLLATE NOCASE'
+};
+
+const UPLOADED_SELECT = `
+  EXISTS (
+    SELECT 1 FROM upload_destinations d JOIN segments s ON s.id = d.segment_id WHERE s.video_id = v.id
+  )
+`;
+
+/**
+ * Turn free text into an FTS5 query: every word must match, as a prefix
+ *
+ * Quoting each word keeps FTS5 operators and punctuation in user input from
+ * being parsed as query syntax.
+ *
+ * @returns {string | undefined} The MATCH expression, or undefined if the text has no words
+ */
+const toMatchQuery = (text: string): string | undefined =>
+  text.match(/[\p{L}\p{N}]+/gu)?.map(word => `"${word}"*`).join(' ');
+
+const SEGMENT_SELECT = `
+  SELECT s.*,
+    t.text AS transcript_text, t.language AS transcript_language,
+    su.text AS summary_text,
+    ti.title AS title, ti.description AS description
+  FROM segments s
+  LEFT JOIN transcripts t ON t.segment_id = s.id
+  LEFT JOIN summaries su ON su.segment_id = s.id
+  LEFT JOIN titles ti ON ti.segment_id = s.id
+`;
+
+const toVideoRecord = (row: VideoRow): VideoRecord => ({
+  id: row.id,
+  originalName: row.original_name,
+  sourcePath: row.source_path,
+  status: row.status,
+  ...(row.job_id !== null && { jobId: row.job_id }),
+  metadata: {
+    duration: row.duration,
+    width: row.width,
+    height: row.height,
+    format: row.container_format,
+    size: row.size
+  },
+  ...(row.strategy !== null && { strategy: row.strategy }),
+  ...(row.seed !== null && { seed: row.seed }),
+  // Narrowed here, the columns are plain text
+  ...(isFramingMode(row.framing) && { framing: row.framing }),
+  formats: (JSON.parse(row.formats) as unknown[]).filter(isOutputFormat),
+  captions: row.captions === 1,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+/**
+ * Video library
+ *
+ * Records every split video in SQLite: the source, its segments, their renders,
+ * transcripts, summaries, titles and where they were uploaded. Routes look files
+ * up here by ID or file name instead of walking `processed/`. The files stay on
+ * disk; the library only stores their paths and the text produced for them.
+ *
+ * The database (`DATABASE_PATH`, default `data/divideit.db`) is opened and
+ * migrated on first use.
+ */
+export class VideoLibrary {
+  private connection?: DatabaseConnection;
+
+  constructor(private filename?: string) {}
+
+  /**
+   * Open the database now and apply pending migrations
+   *
+   * Called at startup so a broken database fails fast instead of on the first request.
+   */
+  open(): void {
+    void this.db;
+  }
+
+  close(): void {
+    this.connection?.close();
+    this.connection = undefined;
+  }
+
+  /**
+   * Record a video whose split is starting
+   *
+   * Replaces any earlier record with the same ID, including its segments: a job
+   * resumed after a restart renders everything again.
+   *
+   * @param {NewVideo} video - Source video and split settings
+   * @returns {VideoRecord} The recorded video, with status 'processing'
+   */
+  saveVideo(video: NewVideo): VideoRecord {
+    const now = new Date().toISOString();
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM videos WHERE id = ?').run(video.id);
+      this.db.prepare(`
+        INSERT INTO videos (
+          id, original_name, source_path, status, job_id, duration, width, height, container_format, size,
+          strategy, seed, framing, formats, captions, created_at, updated_at
+        ) VALUES (?, ?, ?, 'processing', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        video.id,
+        video.originalName,
+        video.sourcePath,
+        video.jobId ?? null,
+        video.metadata.duration,
+        video.metadata.width,
+        video.metadata.height,
+        video.metadata.format,
+        video.metadata.size,
+        video.strategy ?? null,
+        video.seed ?? null,
+        video.framing ?? null,
+        JSON.stringify(video.formats ?? []),
+        video.captions ? 1 : 0,
+        now,
+        now
+      );
+    })();
+
+    return this.getVideo(video.id) as VideoRecord;
+  }
+
+  /**
+   * Record the segments of a video and mark it ready
+   *
+   * Replaces the segments recorded before, if any.
+   *
+   * @param {string} videoId - Video the segments belong to
+   * @param {NewSegment[]} segments - Segments with their renders and text
+   * @throws {Error} If the video is not in the library
+   */
+  saveSegments(videoId: string, segments: NewSegment[]): void {
+    this.db.transaction(() => {
+      this.markReady(videoId);
+      this.db.prepare('DELETE FROM segments WHERE video_id = ?').run(videoId);
+      for (const segment of segments) {
+        this.insertSegment(videoId, segment);
+      }
+    })();
+  }
+
+  /**
+   * Record one segment of a video, replacing the segment with the same number if there is one
+   *
+   * Used when a single segment is re-rendered with new in/out points. The old
+   * segment's transcript, summary, title and upload destinations go with it.
+   *
+   * @param {string} videoId - Video the segment belongs to
+   * @param {NewSegment} segment - Segment with its renders and text
+   * @throws {Error} If the video is not in the library
+   */
+  saveSegment(videoId: string, segment: NewSegment): void {
+    this.db.transaction(() => {
+      this.markReady(videoId);
+      this.db.prepare('DELETE FROM segments WHERE video_id = ? AND segment_number = ?')
+        .run(videoId, segment.segmentNumber);
+      this.insertSegment(videoId, segment);
+    })();
+  }
+
+  /**
+   * Reserve the number of a segment about to be added to a video
+   *
+   * Numbers only go up: a number is never given out twice, even after its
+   * segment was deleted or the segment failed to render, so nothing left from
+   * an earlier segment (files, links, cached responses) can be mistaken for the new one.
+   *
+   * @returns {number} The reserved segment number
+   * @throws {Error} If the video is not in the library
+   */
+  allocateSegmentNumber(videoId: string): number {
+    const row = this.db.prepare('UPDATE videos SET last_segment_number = last_segment_number + 1 WHERE id = ? RETURNING last_segment_number')
+      .get(videoId) as { last_segment_number: number } | undefined;
+    if (!row) {
+      throw new Error(`Video ${videoId} is not in the library`);
+    }
+    return row.last_segment_number;
+  }
+
+  /**
+   * Remove one segment of a video (its files are left alone)
+   *
+   * The other segments keep their numbers.
+   *
+   * @returns {boolean} True if the segment was in the library
+   */
+  deleteSegment(videoId: string, segmentNumber: number): boolean {
+    return this.db.prepare('DELETE FROM segments WHERE video_id = ? AND segment_number = ?')
+      .run(videoId, segmentNumber).changes > 0;
+  }
+
+  /**
+   * Get a video by ID
+   *
+   * @returns {VideoRecord | undefined} The video, or undefined if it is not in the library
+   */
+  getVideo(id: string): VideoRecord | undefined {
+    const row = this.db.prepare('SELECT * FROM videos WHERE id = ?').get(id) as VideoRow | undefined;
+    return row && toVideoRecord(row);
+  }
+
+  /**
+   * List videos, one page at a time
+   *
+   * @param {VideoListQuery} [query] - Page, sort order and filters (newest first by default)
+   * @returns {VideoList} The page of videos and how many match in total
+   *
+   * @example
+   * const { videos, total } = videoLibrary.listVideos({ page: 2, uploaded: false });
+   */
+  listVideos(query: VideoListQuery = {}): VideoList {
+    const { page = 1, pageSize = 20, sort = 'createdAt', order = 'desc' } = query;
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (query.status) {
+      conditions.push('v.status = ?');
+      params.push(query.status);
+    }
+    if (query.from) {
+      conditions.push('v.created_at >= ?');
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push('v.created_at < ?');
+      params.push(query.to);
+    }
+    if (query.minDuration !== undefined) {
+      conditions.push('v.duration >= ?');
+      params.push(query.minDuration);
+    }
+    if (query.maxDuration !== undefined) {
+      conditions.push('v.duration <= ?');
+      params.push(query.maxDuration);
+    }
+    if (query.uploaded !== undefined) {
+      conditions.push(query.uploaded ? UPLOADED_SELECT : `NOT ${UPLOADED_SELECT}`);
+    }
+    if (query.q !== undefined) {
+      const match = toMatchQuery(query.q);
+      if (!match) {
+        return { videos: [], total: 0 };
+      }
+      conditions.push(`v.id IN (
+        SELECT s.video_id FROM segment_search JOIN segments s ON s.id = segment_search.rowid WHERE segment_search MATCH ?
+      )`);
+      params.push(match);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM videos v ${where}`)
+      .get(...params) as { total: number };
+    const rows = this.db.prepare(`
+      SELECT v.*,
+        (SELECT COUNT(*) FROM segments s WHERE s.video_id = v.id) AS segment_count,
+        ${UPLOADED_SELECT} AS uploaded
+      FROM videos v
+      ${where}
+      ORDER BY ${SORT_COLUMNS[sort]} ${order === 'asc' ? 'ASC' : 'DESC'}, v.id
+      LIMIT ? OFFSET ?
+    `).all(...params, pageSize, (page - 1) * pageSize) as Array<
+      VideoRow & { segment_count: number; uploaded: number }
+    >;
+
+    return {
+      videos: rows.map(row => ({
+        ...toVideoRecord(row),
+        segmentCount: row.segment_count,
+        uploaded: row.uploaded === 1
+      })),
+      total
+    };
+  }
+
+  /**
+   * Search the transcripts and generated titles of every segment
+   *
+   * Every word of the query must appear (as a word prefix); hits in titles rank
+   * above hits in transcripts.
+   *
+   * @param {string} text - Words to look for
+   * @param {number} [limit=20] - Maximum number of hits
+   * @returns {SearchHit[]} Matching segments, best match first
+   */
+  search(text: string, limit = 20): SearchHit[] {
+    const match = toMatchQuery(text);
+    if (!match) {
+      return [];
+    }
+
+    const rows = this.db.prepare(`
+      SELECT s.video_id, v.original_name, s.segment_number, ti.title,
+        snippet(segment_search, -1, '<mark>', '</mark>', '…', 16) AS snippet
+      FROM segment_search
+      JOIN segments s ON s.id = segment_search.rowid
+      JOIN videos v ON v.id = s.video_id
+      LEFT JOIN titles ti ON ti.segment_id = s.id
+      WHERE segment_search MATCH ?
+      ORDER BY bm25(segment_search, 1.0, 4.0, 2.0)
+      LIMIT ?
+    `).all(match, limit) as Array<{
+      video_id: string;
+      original_name: string;
+      segment_number: number;
+      title: string | null;
+      snippet: string;
+    }>;
+
+    return rows.map(row => ({
+      videoId: row.video_id,
+      originalName: row.original_name,
+      segmentNumber: row.segment_number,
+      ...(row.title !== null && { title: row.title }),
+      snippet: row.snippet
+    }));
+  }
+
+  /**
+   * Remove a video and everything recorded for it (the files are left alone)
+   *
+   * @returns {boolean} True if the video was in the library
+   */
+  deleteVideo(id: string): boolean {
+    return this.db.prepare('DELETE FROM videos WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * Get the segments of a video, in segment order
+   */
+  getSegments(videoId: string): SegmentRecord[] {
+    const rows = this.db.prepare(`${SEGMENT_SELECT} WHERE s.video_id = ? ORDER BY s.segment_number`)
+      .all(videoId) as SegmentRow[];
+    return rows.map(row => this.toSegmentRecord(row));
+  }
+
+  /**
+   * Get one segment of a video
+   *
+   * @param {string} videoId - Video ID
+   * @param {number} segmentNumber - 1-based segment number
+   * @returns {SegmentRecord | undefined} The segment, or undefined if there is no such segment
+   */
+  getSegment(videoId: string, segmentNumber: number): SegmentRecord | undefined {
+    const row = this.db.prepare(`${SEGMENT_SELECT} WHERE s.video_id = ? AND s.segment_number = ?`)
+      .get(videoId, segmentNumber) as SegmentRow | undefined;
+    return row && this.toSegmentRecord(row);
+  }
+
+  /**
+   * Find a render or text sidecar by file name
+   *
+   * @param {string} filename - File name, e.g. 'segment_1_<uuid>.mp4' or 'segment_1_<uuid>_summary.txt'
+   * @returns {LibraryFile | undefined} Where the file is and which segment it belongs to
+   *
+   * @example
+   * const file = videoLibrary.findFile('segment_1_a1b2c3d4.mp4');
+   * // file: { videoId: '...', segmentNumber: 1, kind: 'render', path: 'processed/.../segment_1_a1b2c3d4.mp4' }
+   */
+  findFile(filename: string): LibraryFile | undefined {
+    const row = this.db.prepare(`
+      SELECT s.video_id AS videoId, s.segment_number AS segmentNumber, f.kind, f.path
+      FROM (
+        SELECT segment_id, 'render' AS kind, filename, path FROM renders
+        UNION ALL
+        SELECT segment_id, kind, filename, path FROM segment_files
+      ) f
+      JOIN segments s ON s.id = f.segment_id
+      WHERE f.filename = ?
+    `).get(filename) as LibraryFile | undefined;
+    return row;
+  }
+
+  /**
+   * Record a new transcript for a segment, replacing the previous one
+   */
+  saveTranscript(videoId: string, segmentNumber: number, transcript: SegmentTranscript): void {
+    this.db.transaction(() => this.writeTranscript(this.requireSegmentId(videoId, segmentNumber), transcript))();
+  }
+
+  /**
+   * Record a new summary for a segment, replacing the previous one
+   */
+  saveSummary(videoId: string, segmentNumber: number, summary: SegmentSummary): void {
+    this.db.transaction(() => this.writeSummary(this.requireSegmentId(videoId, segmentNumber), summary))();
+  }
+
+  /**
+   * Record a new title and description for a segment, replacing the previous ones
+   */
+  saveTitle(videoId: string, segmentNumber: number, title: SegmentTitle): void {
+    this.db.transaction(() => this.writeTitle(this.requireSegmentId(videoId, segmentNumber), title))();
+  }
+
+  /**
+   * Record that a file of a segment was uploaded somewhere
+   *
+   * @param {string} videoId - Video ID
+   * @param {number} segmentNumber - 1-based segment number
+   * @param {Omit<UploadDestinationRecord, 'uploadedAt'>} destination - Uploaded file and where it went
+   */
+  recordUploadDestination(
+    videoId: string,
+    segmentNumber: number,
+    destination: Omit<UploadDestinationRecord, 'uploadedAt'>
+  ): void {
+    this.db.prepare(`
+      INSERT INTO upload_destinations (segment_id, filename, provider, remote_id, web_view_link, shareable_link, uploaded_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      this.requireSegmentId(videoId, segmentNumber),
+      destination.filename,
+      destination.provider,
+      destination.remoteId,
+      destination.webViewLink ?? null,
+      destination.shareableLink ?? null,
+      new Date().toISOString()
+    );
+  }
+
+  private get db(): DatabaseConnection {
+    if (!this.connection) {
+      this.connection = openDatabase(this.filename);
+      logger.info('Video library database opened');
+    }
+    return this.connection;
+  }
+
+  private markReady(videoId: string): void {
+    const updated = this.db.prepare(`UPDATE videos SET status = 'ready', updated_at = ? WHERE id = ?`)
+      .run(new Date().toISOString(), videoId);
+    if (updated.changes === 0) {
+      throw new Error(`Video ${videoId} is not in the library`);
+    }
+  }
+
+  private insertSegment(videoId: string, segment: NewSegment): void {
+    const segmentId = Number(this.db.prepare(`
+      INSERT INTO segments (video_id, segment_number, start_time, end_time, duration, label, score, rationale)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      videoId,
+      segment.segmentNumber,
+      segment.startTime,
+      segment.endTime,
+      segment.duration,
+      segment.label ?? null,
+      segment.score ?? null,
+      segment.rationale ?? null
+    ).lastInsertRowid);
+    this.db.prepare('UPDATE videos SET last_segment_number = MAX(last_segment_number, ?) WHERE id = ?')
+      .run(segment.segmentNumber, videoId);
+
+    const insertRender = this.db.prepare(`
+      INSERT INTO renders (segment_id, format, width, height, is_primary, filename, path)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    segment.renders.forEach((render, index) => {
+      insertRender.run(segmentId, render.format, render.width, render.height, index === 0 ? 1 : 0,
+        path.basename(render.outputPath), render.outputPath);
+    });
+    if (segment.transcript) {
+      this.writeTranscript(segmentId, segment.transcript);
+    }
+    if (segment.summary) {
+      this.writeSummary(segmentId, segment.summary);
+    }
+    if (segment.title) {
+      this.writeTitle(segmentId, segment.title);
+    }
+  }
+
+  private requireSegmentId(videoId: string, segmentNumber: number): number {
+    const row = this.db.prepare('SELECT id FROM segments WHERE video_id = ? AND segment_number = ?')
+      .get(videoId, segmentNumber) as { id: number } | undefined;
+    if (!row) {
+      throw new Error(`Segment ${segmentNumber} of video ${videoId} is not in the library`);
+    }
+    return row.id;
+  }
+
+  private writeTranscript(segmentId: number, transcript: SegmentTranscript): void {
+    this.db.prepare(`
+      INSERT INTO transcripts (segment_id, text, language, created_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (segment_id) DO UPDATE SET text = excluded.text, language = excluded.language, created_at = excluded.created_at
+    `).run(segmentId, transcript.text, transcript.language ?? null, new Date().toISOString());
+
+    this.writeFile(segmentId, 'transcript', transcript.path);
+    if (transcript.timingsPath) {
+      this.writeFile(segmentId, 'timings', transcript.timingsPath);
+    }
+    for (const format of SUBTITLE_FORMATS) {
+      const subtitlePath = transcript.subtitlePaths?.[format];
+      if (subtitlePath) {
+        this.writeFile(segmentId, format, subtitlePath);
+      }
+    }
+  }
+
+  private writeSummary(segmentId: number, summary: SegmentSummary): void {
+    this.db.prepare(`
+      INSERT INTO summaries (segment_id, text, created_at) VALUES (?, ?, ?)
+      ON CONFLICT (segment_id) DO UPDATE SET text = excluded.text, created_at = excluded.created_at
+    `).run(segmentId, summary.text, new Date().toISOString());
+
+    this.writeFile(segmentId, 'summary', summary.path);
+  }
+
+  private writeTitle(segmentId: number, title: SegmentTitle): void {
+    this.db.prepare(`
+      INSERT INTO titles (segment_id, title, description, created_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (segment_id) DO UPDATE SET title = excluded.title, description = excluded.description, created_at = excluded.created_at
+    `).run(segmentId, title.title, title.description, new Date().toISOString());
+
+    this.writeFile(segmentId, 'title', title.titlePath);
+    this.writeFile(segmentId, 'description', title.descriptionPath);
+  }
+
+  private writeFile(segmentId: number, kind: SegmentFileKind, filePath: string): void {
+    this.db.prepare(`
+      INSERT INTO segment_files (segment_id, kind, filename, path) VALUES (?, ?, ?, ?)
+      ON CONFLICT (segment_id, kind) DO UPDATE SET filename = excluded.filename, path = excluded.path
+    `).run(segmentId, kind, path.basename(filePath), filePath);
+  }
+
+  private toSegmentRecord(row: SegmentRow): SegmentRecord {
+    const renders = this.db.prepare(`
+      SELECT format, width, height, is_primary, filename, path FROM renders WHERE segment_id = ? ORDER BY is_primary DESC, id
+    `).all(row.id) as Array<Omit<RenderRecord, 'primary' | 'format'> & { format: string; is_primary: number }>;
+    const files = this.db.prepare('SELECT kind, path FROM segment_files WHERE segment_id = ?')
+      .all(row.id) as Array<{ kind: SegmentFileKind; path: string }>;
+    const destinations = this.db.prepare(`
+      SELECT filename, provider, remote_id, web_view_link, shareable_link, uploaded_at
+      FROM upload_destinations WHERE segment_id = ? ORDER BY id
+    `).all(row.id) as Array<{
+      filename: string;
+      provider: string;
+      remote_id: string;
+      web_view_link: string | null;
+      shareable_link: string | null;
+      uploaded_at: string;
+    }>;
+
+    return {
+      videoId: row.video_id,
+      segmentNumber: row.segment_number,
+      startTime: row.start_time,
+      endTime: row.end_time,
+      duration: row.duration,
+      ...(row.label !== null && { label: row.label }),
+      ...(row.score !== null && { score: row.score }),
+      ...(row.rationale !== null && { rationale: row.rationale }),
+      renders: renders.map(({ is_primary, format, ...render }) => ({
+        ...render,
+        format: isOutputFormat(format) ? format : DEFAULT_OUTPUT_FORMAT, // Only ever written from an OutputFormat
+        primary: is_primary === 1
+      })),
+      ...(row.transcript_text !== null && {
+        transcript: {
+          text: row.transcript_text,
+          ...(row.transcript_language !== null && { language: row.transcript_language })
+        }
+      }),
+      ...(row.summary_text !== null && { summary: { text: row.summary_text } }),
+      ...(row.title !== null && { title: { title: row.title, description: row.description ?? '' } }),
+      files: Object.fromEntries(files.map(file => [file.kind, file.path])),
+      destinations: destinations.map(destination => ({
+        filename: destination.filename,
+        provider: destination.provider,
+        remoteId: destination.remote_id,
+        ...(destination.web_view_link !== null && { webViewLink: destination.web_view_link }),
+        ...(destination.shareable_link !== null && { shareableLink: destination.shareable_link }),
+        uploadedAt: destination.uploaded_at
+      }))
+    };
+  }
+}
+
+export const videoLibrary = new VideoLibrary();
@@ -6,6 +6,17 @@ import { logger } from '../utils/logger';
 import { transcriptionService } from './transcriptionService';
 import { summarizationService } from './summarizationService';
 import { addTitleToVideo } from '../utils/videoTextOverlayCanvas';
+import { createSeededRandom, generateSeed } from '../utils/random';
+import {
+  buildFramingFilters,
+  createSubjectSampler,
+  DEFAULT_OUTPUT_FORMAT,
+  formatFileSuffix,
+  FramingMode,
+  OUTPUT_DIMENSIONS,
+  OutputFormat,
+  SubjectSampler
+} from '../utils/framing';
 
 export interface VideoMetadata {
   duration: number;
@@ -20,7 +31,8 @@ export interface VideoSegment {
   startTime: number;
   endTime: number;
   duration: number;
-  filePath: string;
+  filePath: string; // Primary render (first requested format)
+  renders?: Array<{ format: OutputFormat; filePath: string }>; // One entry per requested format
 }
 
 export class VideoService {
@@ -70,13 +82,18 @@ export class VideoService {
 
   /**
    * Generate random time segments for video splitting
+   *
+   * All random choices come from a PRNG seeded with `seed`, so the same seed
+   * and arguments always produce the same segments.
    */
   private generateRandomSegments(
     duration: number,
     numSegments: number = 3,
     minDuration: number = 5,
-    maxDuration: number = 60
+    maxDuration: number = 60,
+    seed: number = generateSeed()
   ): Array<{ start: number; end: number }> {
+    const random = createSeededRandom(seed);
     const segments: Array<{ start: number; end: number }> = [];
     const usedTimes = new Set<number>();
     
@@ -92,7 +109,7 @@ export class VideoService {
       // Find a random start time that doesn't overlap significantly
       do {
         const maxStart = duration - actualMinDuration;
-        start = Math.random() * maxStart;
+        start = random() * maxStart;
         attempts++;
       } while (usedTimes.has(Math.floor(start)) && attempts < maxAttempts);
 
@@ -100,7 +117,7 @@ export class VideoService {
 
       // Random duration between min and max
       const segmentDuration = actualMinDuration + 
-        Math.random() * (actualMaxDuration - actualMinDuration);
+        random() * (actualMaxDuration - actualMinDuration);
       const end = Math.min(start + segmentDuration, duration);
 
       segments.push({ start, end });
@@ -122,20 +139,27 @@ export class VideoService {
       numSegments?: number;
       minDuration?: number;
       maxDuration?: number;
+      seed?: number; // Replays an earlier split when set
+      framing?: FramingMode; // How the picture is fitted into the frame (default 'letterbox')
+      formats?: OutputFormat[]; // Aspect ratios to render, primary first (default ['9:16'])
     } = {}
   ): Promise<VideoSegment[]> {
     const metadata = await this.getVideoMetadata(inputPath);
     const {
       numSegments = 3,
       minDuration = 5,
-      maxDuration = 60
+      maxDuration = 60,
+      seed,
+      framing = 'letterbox',
+      formats = [DEFAULT_OUTPUT_FORMAT]
     } = options;
 
     const segments = this.generateRandomSegments(
       metadata.duration,
       numSegments,
       minDuration,
-      maxDuration
+      maxDuration,
+      seed
     );
 
     const videoSegments: VideoSegment[] = [];
@@ -148,7 +172,17 @@ export class VideoService {
       const segmentId = uuidv4();
       const outputPath = path.join(videoDir, `segment-${i + 1}-${segmentId}.mp4`);
 
-      await this.extractSegment(inputPath, segment.start, segment.end, outputPath);
+      // The first format is the primary render; text files are named after it
+      const renders: Array<{ format: OutputFormat; filePath: string }> = [];
+      // Subject motion is analyzed once for all formats
+      const sampleSubject = createSubjectSampler(inputPath, segment.start, segment.end - segment.start, metadata);
+      for (const [formatIndex, format] of formats.entries()) {
+        const renderPath = formatIndex === 0
+          ? outputPath
+          : path.join(videoDir, `segment-${i + 1}-${segmentId}${formatFileSuffix(format)}.mp4`);
+        await this.extractSegment(inputPath, segment.start, segment.end, renderPath, framing, metadata, format, sampleSubject);
+        renders.push({ format, filePath: renderPath });
+      }
 
       // Transcribe the segment and save to .txt file
       try {
@@ -181,28 +215,30 @@ export class VideoService {
               });
               logger.info(`Social media content saved for segment ${i + 1}: ${socialContent.descriptionPath} and ${socialContent.titlePath}`);
               
-              // Add title overlay to video in the top black bar area
-              try {
-                logger.info(`Adding title overlay to video segment ${i + 1}...`);
-                
-                // Create backup of original video before adding title (to prevent duplicate overlays)
-                const originalBackupPath = outputPath.replace(/\.mp4$/, '_original_no_title.mp4');
+              // Add title overlay to every rendered format in the top bar area
+              for (const render of renders) {
                 try {
-                  await fs.copyFile(outputPath, originalBackupPath);
-                  logger.info(`Created backup of original video: ${path.basename(originalBackupPath)}`);
-                } catch (backupError) {
-                  logger.warn(`Failed to create backup: ${backupError}`);
+                  logger.info(`Adding title overlay to video segment ${i + 1} (${render.format})...`);
+                  
+                  // Create backup of original video before adding title (to prevent duplicate overlays)
+                  const originalBackupPath = render.filePath.replace(/\.mp4$/, '_original_no_title.mp4');
+                  try {
+                    await fs.copyFile(render.filePath, originalBackupPath);
+                    logger.info(`Created backup of original video: ${path.basename(originalBackupPath)}`);
+                  } catch (backupError) {
+                    logger.warn(`Failed to create backup: ${backupError}`);
+                  }
+                  
+                  const videoWithTitlePath = await addTitleToVideo(render.filePath, socialContent.titlePath, undefined, undefined, framing);
+                  
+                  // Replace original video with version that has title
+                  await fs.rename(videoWithTitlePath, render.filePath);
+                  
+                  logger.info(`Title overlay added to segment ${i + 1}: ${render.filePath}`);
+                } catch (overlayError) {
+                  // Log error but don't fail the entire process
+                  logger.warn(`Failed to add title overlay to segment ${i + 1} (${render.format}): ${overlayError instanceof Error ? overlayError.message : 'Unknown error'}`);
                 }
-                
-                const videoWithTitlePath = await addTitleToVideo(outputPath, socialContent.titlePath);
-                
-                // Replace original video with version that has title
-                await fs.rename(videoWithTitlePath, outputPath);
-                
-                logger.info(`Title overlay added to segment ${i + 1}: ${outputPath}`);
-              } catch (overlayError) {
-                // Log error but don't fail the entire process
-                logger.warn(`Failed to add title overlay to segment ${i + 1}: ${overlayError instanceof Error ? overlayError.message : 'Unknown error'}`);
               }
             } catch (socialError) {
               // Log error but don't fail the entire process
@@ -223,7 +259,8 @@ export class VideoService {
         startTime: segment.start,
         endTime: segment.end,
         duration: segment.end - segment.start,
-        filePath: outputPath
+        filePath: outputPath,
+        renders
       });
     }
 
@@ -232,34 +269,31 @@ export class VideoService {
   }
 
   /**
-   * Extract a single segment from video and convert to 9:16 format
+   * Extract a single segment from video and convert to the requested format
    * 
-   * Converts video to vertical 9:16 aspect ratio (1080x1920) suitable for
+   * Defaults to vertical 9:16 aspect ratio (1080x1920) suitable for
    * TikTok, Instagram Reels, and YouTube Shorts.
-   * Maintains the entire video image visible by scaling and adding black bars (letterbox/pillarbox).
+   * By default the entire image stays visible by scaling and adding black bars
+   * (letterbox/pillarbox); the crop framings fill the frame instead.
    */
   private async extractSegment(
     inputPath: string,
     startTime: number,
     endTime: number,
-    outputPath: string
+    outputPath: string,
+    framing: FramingMode = 'letterbox',
+    source?: VideoMetadata,
+    format: OutputFormat = DEFAULT_OUTPUT_FORMAT,
+    sampleSubject?: SubjectSampler
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      // Target resolution for 9:16 format (1080x1920 - Full HD vertical)
-      const targetWidth = 1080;
-      const targetHeight = 1920;
+    const { width, height } = OUTPUT_DIMENSIONS[format];
+    const framingFilters = await buildFramingFilters(framing, inputPath, startTime, endTime - startTime, source, format, undefined, sampleSubject);
 
+    return new Promise((resolve, reject) => {
       ffmpeg(inputPath)
         .setStartTime(startTime)
         .setDuration(endTime - startTime)
-        .videoFilters([
-          // Scale video to fit within 9:16 area while maintaining aspect ratio
-          // This ensures no part of the video is cropped
-          `scale=${targetWidth}:${targetHeight}:force_original_aspect_ratio=decrease`,
-          // Add black bars (padding) to fill remaining space and center the video
-          // This maintains the entire image visible within the 9:16 frame
-          `pad=${targetWidth}:${targetHeight}:(ow-iw)/2:(oh-ih)/2:black`
-        ])
+        .videoFilters(framingFilters)
         .outputOptions([
           '-c:v libx264',
           '-preset fast',
@@ -271,7 +305,7 @@ export class VideoService {
         ])
         .output(outputPath)
         .on('end', () => {
-          logger.debug(`Segment extracted and converted to 9:16 (${targetWidth}x${targetHeight}) with full image preserved: ${outputPath}`);
+          logger.debug(`Segment extracted and converted to ${format} (${width}x${height}, ${framing}): ${outputPath}`);
           resolve();
         })
         .on('error', (err) => {
@@ -0,0 +1,35 @@
+import { FfmpegCommand } from 'fluent-ffmpeg';
+
+/**
+ * Kills an FFmpeg command when the signal is aborted
+ *
+ * Call before `run()`. A command started after the signal was aborted is killed
+ * as soon as it spawns. Killing makes the command emit 'error', so the promise
+ * wrapping it rejects through its usual error handler.
+ *
+ * @param {FfmpegCommand} command - Command about to be run
+ * @param {AbortSignal} [signal] - Signal of the job the command belongs to; nothing happens without one
+ *
+ * @example
+ * const command = ffmpeg(inputPath).output(outputPath).on('end', resolve).on('error', reject);
+ * killOnAbort(command, signal);
+ * command.run();
+ */
+export const killOnAbort = (command: FfmpegCommand, signal?: AbortSignal): void => {
+  if (!signal) {
+    return;
+  }
+
+  const kill = () => command.kill('SIGKILL');
+  const release = () => signal.removeEventListener('abort', kill);
+
+  signal.addEventListener('abort', kill, { once: true });
+  command.on('start', () => {
+    // Aborted before FFmpeg spawned: kill() had no process to signal yet
+    if (signal.aborted) {
+      kill();
+    }
+  });
+  command.on('end', release);
+  command.on('error', release);
+};
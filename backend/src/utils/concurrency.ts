@@ -0,0 +1,84 @@
+import os from 'os';
+
+const DEFAULT_FFMPEG_THREADS = 4;
+
+/**
+ * Gets the number of threads each FFmpeg encode may use
+ *
+ * Read from `FFMPEG_THREADS`; defaults to 4 (capped at the CPU count).
+ *
+ * @returns {number} Threads per FFmpeg process (at least 1)
+ */
+export const getFfmpegThreads = (): number => {
+  const configured = parseInt(process.env.FFMPEG_THREADS || '', 10);
+  if (configured > 0) {
+    return configured;
+  }
+  return Math.min(DEFAULT_FFMPEG_THREADS, os.cpus().length);
+};
+
+/**
+ * Gets how many segments may be processed at the same time
+ *
+ * Read from `SEGMENT_CONCURRENCY`; defaults to the CPU count divided by the
+ * threads each FFmpeg encode uses, so parallel encodes fill the machine
+ * without oversubscribing it.
+ *
+ * @returns {number} Maximum number of segments in flight (at least 1)
+ *
+ * @example
+ * // 16 cores, FFMPEG_THREADS=4
+ * getSegmentConcurrency(); // Returns: 4
+ */
+export const getSegmentConcurrency = (): number => {
+  const configured = parseInt(process.env.SEGMENT_CONCURRENCY || '', 10);
+  if (configured > 0) {
+    return configured;
+  }
+  return Math.max(1, Math.floor(os.cpus().length / getFfmpegThreads()));
+};
+
+/**
+ * Maps items through an async function with at most `limit` calls in flight
+ *
+ * Results keep the order of the input regardless of completion order. After the
+ * first failure no new items are started; calls already running are allowed to
+ * finish, then the first error is thrown.
+ *
+ * @param {T[]} items - Items to process
+ * @param {number} limit - Maximum number of concurrent calls
+ * @param {(item: T, index: number) => Promise<R>} fn - Async function applied to each item
+ * @returns {Promise<R[]>} Results in input order
+ * @throws {Error} The first error thrown by `fn`
+ *
+ * @example
+ * const sizes = await mapWithConcurrency(paths, 2, (filePath) => getFileSize(filePath));
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failure: { error: unknown } | null = null;
+
+  const worker = async () => {
+    while (!failure && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure = failure || { error };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+  return results;
+};
@@ -81,3 +81,24 @@ export const getFileSize = async (filePath: string): Promise<number> => {
   const stats = await fs.stat(filePath);
   return stats.size;
 };
+
+export const ALLOWED_VIDEO_EXTENSIONS = ['.mp4', '.mov', '.avi'];
+export const ALLOWED_VIDEO_MIME_TYPES = ['video/mp4', 'video/quicktime', 'video/x-msvideo'];
+
+/**
+ * Checks whether a file is a video type the app accepts (MP4, MOV or AVI)
+ * 
+ * A file passes when either its MIME type or its extension is allowed.
+ * 
+ * @param {string} filename - Original file name
+ * @param {string} [mimeType] - MIME type reported by the client
+ * @returns {boolean} True if the file may be uploaded
+ * 
+ * @example
+ * isAllowedVideoFile('clip.MOV'); // Returns true
+ * isAllowedVideoFile('notes.txt', 'text/plain'); // Returns false
+ */
+export const isAllowedVideoFile = (filename: string, mimeType?: string): boolean => {
+  return (mimeType !== undefined && ALLOWED_VIDEO_MIME_TYPES.includes(mimeType)) ||
+    ALLOWED_VIDEO_EXTENSIONS.includes(getFileExtension(filename));
+};
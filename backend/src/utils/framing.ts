@@ -0,0 +1,466 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { PassThrough } from 'stream';
+import { logger } from './logger';
+import { killOnAbort } from './abort';
+
+/**
+ * Ways of fitting the source picture into the output frame
+ *
+ * - letterbox: scale the whole picture down and pad with black bars (original behavior)
+ * - blur-fill: like letterbox, but the bars show a blurred, zoomed copy of the picture
+ * - crop-center: fill the frame and crop the overflow evenly on both sides
+ * - crop-track: fill the frame and pan the crop window to follow the main subject
+ */
+export const FRAMING_MODES = ['letterbox', 'blur-fill', 'crop-center', 'crop-track'] as const;
+
+export type FramingMode = typeof FRAMING_MODES[number];
+
+/**
+ * Whether a value read back from storage is a framing mode
+ */
+export const isFramingMode = (value: unknown): value is FramingMode => FRAMING_MODES.some(mode => mode === value);
+
+/**
+ * Output aspect ratios a segment can be rendered in
+ *
+ * - 9:16: TikTok, Reels, Shorts (default)
+ * - 1:1: square placements
+ * - 4:5: Instagram feed
+ * - 16:9: YouTube
+ */
+export const OUTPUT_FORMATS = ['9:16', '1:1', '4:5', '16:9'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * Whether a value read back from storage is an output format
+ */
+export const isOutputFormat = (value: unknown): value is OutputFormat => OUTPUT_FORMATS.some(format => format === value);
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = '9:16';
+
+const ANALYSIS_WIDTH = 160; // Width of the grayscale frames used for saliency analysis
+const ANALYSIS_FPS = 2; // Frames sampled per second of segment
+const MOTION_WEIGHT = 3; // Motion counts more than static detail when locating the subject
+const SMOOTHING_RADIUS = 2; // Samples on each side of the moving average
+const MAX_PAN_PER_SECOND = 0.15; // Fraction of the source width the crop may travel per second
+const MAX_KEYFRAMES = 48; // Upper bound on points in the generated crop expression
+const BLUR_SCALE = 4; // The blur-fill background is blurred at 1/4 resolution, then scaled back up
+const BLUR_RADIUS = 10; // Box blur radius in pixels at the reduced resolution
+const TITLE_MAX_CENTER = 0.14; // Lowest title center, as a fraction of the frame height (tuned on 9:16)
+const TITLE_MARGIN = 0.03; // Gap above the title box when there is no bar to hold it, as a fraction of the height
+
+export interface SourceDimensions {
+  width: number;
+  height: number;
+}
+
+// Full HD target resolution for each output format
+export const OUTPUT_DIMENSIONS: Record<OutputFormat, SourceDimensions> = {
+  '9:16': { width: 1080, height: 1920 },
+  '1:1': { width: 1080, height: 1080 },
+  '4:5': { width: 1080, height: 1350 },
+  '16:9': { width: 1920, height: 1080 }
+};
+
+/**
+ * File name suffix for renders in a non-primary format
+ *
+ * @example
+ * formatFileSuffix('4:5'); // Returns: '_4x5'
+ */
+export const formatFileSuffix = (format: OutputFormat): string => `_${format.replace(':', 'x')}`;
+
+/**
+ * Top edge of the title box in a frame of the given size
+ *
+ * The title is centered (5px lower, as tuned on 9:16) in the top bar a letterboxed
+ * 16:9 picture leaves in that frame, but no lower than 14% of the height. Frames with no bar to hold
+ * the box (16:9) get it just below the top edge, over the picture.
+ *
+ * @param {SourceDimensions} frame - Size of the rendered segment
+ * @param {number} boxHeight - Height of the title box in pixels
+ * @returns {number} Y offset of the box in pixels
+ *
+ * @example
+ * getTitleTop({ width: 1080, height: 1080 }, 120);
+ * // Returns: 63 (centered in the 236px bar)
+ */
+export const getTitleTop = (frame: SourceDimensions, boxHeight: number): number => {
+  const topBar = Math.max(0, (frame.height - (frame.width * 9) / 16) / 2);
+  const center = Math.min(topBar / 2, frame.height * TITLE_MAX_CENTER);
+  return Math.round(Math.max(frame.height * TITLE_MARGIN, center - boxHeight / 2 + 5));
+};
+
+export interface CropKeyframe {
+  time: number; // Seconds from segment start
+  center: number; // Horizontal crop center as a fraction of the source width (0-1)
+}
+
+/**
+ * Sums the saliency of every column of a grayscale frame
+ *
+ * Saliency is local detail (horizontal gradient) plus weighted motion (difference
+ * with the previous frame), so moving or textured regions score higher than flat
+ * background.
+ *
+ * @param {Buffer} frame - Grayscale pixels, row-major
+ * @param {Buffer | undefined} previous - Previous frame, or undefined for the first one
+ * @param {number} width - Frame width in pixels
+ * @param {number} height - Frame height in pixels
+ * @returns {number[]} One energy value per column
+ */
+export const columnEnergy = (
+  frame: Buffer,
+  previous: Buffer | undefined,
+  width: number,
+  height: number
+): number[] => {
+  const energy = new Array<number>(width).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      const index = row + x;
+      const detail = x > 0 ? Math.abs(frame[index] - frame[index - 1]) : 0;
+      const motion = previous ? Math.abs(frame[index] - previous[index]) : 0;
+      energy[x] += detail + MOTION_WEIGHT * motion;
+    }
+  }
+
+  return energy;
+};
+
+/**
+ * Finds the crop window that contains the most saliency
+ *
+ * @param {number[]} energy - Per-column energy from `columnEnergy`
+ * @param {number} windowFraction - Crop width as a fraction of the frame width (0-1)
+ * @returns {number | null} Window center as a fraction of the frame width, or null for a featureless frame
+ *
+ * @example
+ * findSubjectCenter([0, 0, 0, 9, 9, 0], 1 / 3);
+ * // Returns: 0.667
+ */
+export const findSubjectCenter = (energy: number[], windowFraction: number): number | null => {
+  const width = energy.length;
+  const windowSize = Math.max(1, Math.min(width, Math.round(width * windowFraction)));
+
+  let sum = energy.slice(0, windowSize).reduce((total, value) => total + value, 0);
+  let bestSum = sum;
+  let bestStart = 0;
+
+  for (let start = 1; start + windowSize <= width; start++) {
+    sum += energy[start + windowSize - 1] - energy[start - 1];
+    if (sum > bestSum) {
+      bestSum = sum;
+      bestStart = start;
+    }
+  }
+
+  if (bestSum <= 0) {
+    return null;
+  }
+
+  return Math.round(((bestStart + windowSize / 2) / width) * 1000) / 1000;
+};
+
+/**
+ * Turns raw per-sample subject positions into a smooth crop path
+ *
+ * Gaps (featureless frames) hold the last known position, a moving average removes
+ * jitter, the pan speed is capped so the crop never whips across the frame, and
+ * centers are clamped so the window stays inside the picture.
+ *
+ * @param {Array<number | null>} centers - Subject center per sample (fraction of width)
+ * @param {number} windowFraction - Crop width as a fraction of the source width
+ * @param {number} [sampleRate=2] - Samples per second
+ * @returns {CropKeyframe[]} One keyframe per sample
+ */
+export const smoothCropPath = (
+  centers: Array<number | null>,
+  windowFraction: number,
+  sampleRate: number = ANALYSIS_FPS
+): CropKeyframe[] => {
+  const minCenter = windowFraction / 2;
+  const maxCenter = 1 - windowFraction / 2;
+  const clamp = (value: number) => Math.max(minCenter, Math.min(maxCenter, value));
+
+  const firstKnown = centers.find((center): center is number => center !== null) ?? 0.5;
+  let last = firstKnown;
+  const filled = centers.map(center => {
+    last = center ?? last;
+    return last;
+  });
+
+  const averaged = filled.map((_, index) => {
+    const from = Math.max(0, index - SMOOTHING_RADIUS);
+    const to = Math.min(filled.length, index + SMOOTHING_RADIUS + 1);
+    const neighbours = filled.slice(from, to);
+    return neighbours.reduce((total, value) => total + value, 0) / neighbours.length;
+  });
+
+  const maxStep = MAX_PAN_PER_SECOND / sampleRate;
+  const path: CropKeyframe[] = [];
+  averaged.forEach((target, index) => {
+    const previous = index > 0 ? path[index - 1].center : clamp(target);
+    const step = Math.max(-maxStep, Math.min(maxStep, target - previous));
+    path.push({
+      time: Math.round((index / sampleRate) * 100) / 100,
+      center: Math.round(clamp(previous + step) * 1000) / 1000
+    });
+  });
+
+  return path;
+};
+
+/**
+ * Builds an FFmpeg expression for the crop x offset that follows a crop path
+ *
+ * The expression interpolates linearly between keyframes using the frame time `t`.
+ * Long paths are thinned to at most MAX_KEYFRAMES points to keep the expression short.
+ *
+ * @param {CropKeyframe[]} keyframes - Smoothed crop path
+ * @param {number} scaledWidth - Width of the picture being cropped, in pixels
+ * @param {number} cropWidth - Width of the crop window, in pixels
+ * @returns {string} Expression for the crop filter's `x` parameter
+ */
+export const buildCropXExpression = (
+  keyframes: CropKeyframe[],
+  scaledWidth: number,
+  cropWidth: number
+): string => {
+  const maxX = Math.max(0, scaledWidth - cropWidth);
+  const toX = (center: number) => Math.round(Math.max(0, Math.min(maxX, center * scaledWidth - cropWidth / 2)));
+
+  if (keyframes.length === 0) {
+    return String(Math.round(maxX / 2));
+  }
+
+  const stride = Math.ceil(keyframes.length / MAX_KEYFRAMES);
+  const points = keyframes.filter((_, index) => index % stride === 0);
+  if (points[points.length - 1] !== keyframes[keyframes.length - 1]) {
+    points.push(keyframes[keyframes.length - 1]);
+  }
+
+  let expression = String(toX(points[points.length - 1].center));
+  for (let i = points.length - 2; i >= 0; i--) {
+    const from = points[i];
+    const to = points[i + 1];
+    const x0 = toX(from.center);
+    const x1 = toX(to.center);
+    const span = Math.round((to.time - from.time) * 100) / 100;
+    const segment = x0 === x1 || span <= 0
+      ? String(x0)
+      : `${x0}+${x1 - x0}*(t-${from.time})/${span}`;
+    expression = `if(lt(t,${to.time}),${segment},${expression})`;
+  }
+
+  return expression;
+};
+
+/**
+ * Samples the segment and scores the columns of each sampled frame
+ *
+ * Decodes the segment at ANALYSIS_FPS as small grayscale frames piped from FFmpeg,
+ * so the analysis runs on the CPU without writing frames to disk. The scores do
+ * not depend on the output format: every format's crop path is planned from them.
+ *
+ * @param {string} inputPath - Path to the source video
+ * @param {number} startTime - Segment start in seconds
+ * @param {number} duration - Segment duration in seconds
+ * @param {SourceDimensions} source - Source picture size
+ * @param {AbortSignal} [signal] - Kills FFmpeg when aborted
+ * @returns {Promise<number[][]>} Per-column energy of each sampled frame, from `columnEnergy`
+ */
+export const sampleSubjectEnergy = async (
+  inputPath: string,
+  startTime: number,
+  duration: number,
+  source: SourceDimensions,
+  signal?: AbortSignal
+): Promise<number[][]> => {
+  const width = ANALYSIS_WIDTH;
+  const height = Math.max(2, Math.round((width * source.height) / source.width / 2) * 2);
+  const frameSize = width * height;
+
+  const raw = await new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const stream = new PassThrough();
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+
+    const command = ffmpeg(inputPath)
+      .setStartTime(startTime)
+      .setDuration(duration)
+      .videoFilters([
+        `fps=${ANALYSIS_FPS}`,
+        `scale=${width}:${height}`,
+        'format=gray'
+      ])
+      .outputOptions(['-an'])
+      .format('rawvideo')
+      .on('error', (err) => {
+        reject(new Error(`Failed to analyze subject motion: ${err.message}`));
+      });
+    killOnAbort(command, signal);
+    command.pipe(stream, { end: true });
+  });
+
+  const energies: number[][] = [];
+  let previous: Buffer | undefined;
+  for (let offset = 0; offset + frameSize <= raw.length; offset += frameSize) {
+    const frame = raw.subarray(offset, offset + frameSize);
+    energies.push(columnEnergy(frame, previous, width, height));
+    previous = frame;
+  }
+
+  logger.debug(`Subject analysis sampled ${energies.length} frames for ${duration}s segment`);
+  return energies;
+};
+
+/**
+ * Plans the crop path of one output format from the sampled frames
+ *
+ * @param {number[][]} energies - Per-frame column energies from `sampleSubjectEnergy`
+ * @param {number} windowFraction - Crop width as a fraction of the source width
+ * @returns {CropKeyframe[]} Smoothed crop path
+ */
+export const planCropPath = (energies: number[][], windowFraction: number): CropKeyframe[] =>
+  smoothCropPath(energies.map(energy => findSubjectCenter(energy, windowFraction)), windowFraction);
+
+/**
+ * Gets a segment's sampled frames, sampling on the first call only
+ */
+export type SubjectSampler = () => Promise<number[][]>;
+
+/**
+ * Creates the sampler the output formats of one segment share, so the source
+ * is decoded for subject tracking once whatever the number of formats
+ *
+ * Sampling starts on the first call: formats that need no tracking never
+ * trigger it. A failure is returned to every caller.
+ *
+ * @param {string} inputPath - Path to the source video
+ * @param {number} startTime - Segment start in seconds
+ * @param {number} duration - Segment duration in seconds
+ * @param {SourceDimensions} source - Source picture size
+ * @param {AbortSignal} [signal] - Kills FFmpeg when aborted
+ * @returns {SubjectSampler} Sampler for `buildFramingFilters`
+ */
+export const createSubjectSampler = (
+  inputPath: string,
+  startTime: number,
+  duration: number,
+  source: SourceDimensions,
+  signal?: AbortSignal
+): SubjectSampler => {
+  let energies: Promise<number[][]> | undefined;
+  return () => {
+    energies ??= sampleSubjectEnergy(inputPath, startTime, duration, source, signal);
+    return energies;
+  };
+};
+
+/**
+ * Builds the FFmpeg video filters that fit a segment into the output frame
+ *
+ * 'crop-track' runs a saliency analysis pass first and falls back to 'crop-center'
+ * when the source is not wider than the output frame or the analysis fails. Pass
+ * the segment's sampler when rendering several formats, to analyze it once.
+ *
+ * @param {FramingMode} framing - How to fit the picture
+ * @param {string} inputPath - Path to the source video
+ * @param {number} startTime - Segment start in seconds
+ * @param {number} duration - Segment duration in seconds
+ * @param {SourceDimensions} [source] - Source picture size (required for 'crop-track')
+ * @param {OutputFormat} [format='9:16'] - Output aspect ratio
+ * @param {AbortSignal} [signal] - Kills the 'crop-track' analysis when aborted
+ * @param {SubjectSampler} [sampleSubject] - The segment's shared sampler; a new one when omitted
+ * @returns {Promise<string[]>} Filters for `ffmpeg().videoFilters()`
+ *
+ * @example
+ * const filters = await buildFramingFilters('crop-center', './video.mp4', 10, 15);
+ * // Returns: ['scale=1080:1920:force_original_aspect_ratio=increase', 'crop=1080:1920']
+ */
+export const buildFramingFilters = async (
+  framing: FramingMode,
+  inputPath: string,
+  startTime: number,
+  duration: number,
+  source?: SourceDimensions,
+  format: OutputFormat = DEFAULT_OUTPUT_FORMAT,
+  signal?: AbortSignal,
+  sampleSubject?: SubjectSampler
+): Promise<string[]> => {
+  const { width: targetWidth, height: targetHeight } = OUTPUT_DIMENSIONS[format];
+
+  if (framing === 'letterbox') {
+    return [
+      // Scale video to fit within the output frame while maintaining aspect ratio
+      // This ensures no part of the video is cropped
+      `scale=${targetWidth}:${targetHeight}:force_original_aspect_ratio=decrease`,
+      // Add black bars (padding) to fill remaining space and center the video
+      // This maintains the entire image visible within the output frame
+      `pad=${targetWidth}:${targetHeight}:(ow-iw)/2:(oh-ih)/2:black`
+    ];
+  }
+
+  if (framing === 'blur-fill') {
+    const blurWidth = Math.round(targetWidth / BLUR_SCALE / 2) * 2;
+    const blurHeight = Math.round(targetHeight / BLUR_SCALE / 2) * 2;
+    // Same foreground geometry as letterbox, so the bands above and below the picture
+    // sit where the title overlay expects them. The background is slightly darkened
+    // to keep the title box and the foreground edges readable.
+    const background = [
+      `scale=${blurWidth}:${blurHeight}:force_original_aspect_ratio=increase`,
+      `crop=${blurWidth}:${blurHeight}`,
+      `boxblur=${BLUR_RADIUS}:2`,
+      'eq=brightness=-0.08',
+      `scale=${targetWidth}:${targetHeight}`,
+      'setsar=1'
+    ].join(',');
+    const foreground = [
+      `scale=${targetWidth}:${targetHeight}:force_original_aspect_ratio=decrease`,
+      'setsar=1'
+    ].join(',');
+
+    // Labelled chains joined with ';' still form a graph with one input and one output,
+    // so it can be passed as a regular video filter
+    return [[
+      'split=2[background][foreground]',
+      `[background]${background}[blurred]`,
+      `[foreground]${foreground}[scaled]`,
+      '[blurred][scaled]overlay=(W-w)/2:(H-h)/2'
+    ].join(';')];
+  }
+
+  const cropCenter = [
+    // Scale so the picture covers the whole frame, then crop the overflow evenly
+    `scale=${targetWidth}:${targetHeight}:force_original_aspect_ratio=increase`,
+    `crop=${targetWidth}:${targetHeight}`
+  ];
+
+  if (framing === 'crop-center' || !source || source.width * targetHeight <= targetWidth * source.height) {
+    return cropCenter;
+  }
+
+  // Source is wider than the output frame: scale to full height and pan horizontally
+  const scaledWidth = Math.round((source.width * targetHeight) / source.height / 2) * 2;
+  const windowFraction = targetWidth / scaledWidth;
+
+  try {
+    const sample = sampleSubject ?? createSubjectSampler(inputPath, startTime, duration, source, signal);
+    const cropPath = planCropPath(await sample(), windowFraction);
+    return [
+      `scale=${scaledWidth}:${targetHeight}`,
+      `crop=${targetWidth}:${targetHeight}:'${buildCropXExpression(cropPath, scaledWidth, targetWidth)}':0`
+    ];
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    logger.warn(`Subject tracking failed, falling back to center crop: ${error instanceof Error ? error.message : error}`);
+    return cropCenter;
+  }
+};
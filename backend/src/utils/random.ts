@@ -0,0 +1,44 @@
+/**
+ * Seeded random number generation
+ *
+ * Segment planning draws all of its random choices from these helpers instead of
+ * Math.random(), so a split can be replayed exactly by passing the same seed.
+ */
+
+/**
+ * Largest accepted seed (seeds are unsigned 32-bit integers)
+ */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Pick a fresh seed for a run that did not request one
+ *
+ * @returns {number} Integer between 0 and MAX_SEED
+ */
+export const generateSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ *
+ * The returned function is a drop-in replacement for Math.random(): every call
+ * returns the next float in [0, 1). Two generators created with the same seed
+ * return the same sequence.
+ *
+ * @param {number} seed - Unsigned 32-bit integer seed
+ * @returns {() => number} Generator function
+ *
+ * @example
+ * const random = createSeededRandom(42);
+ * random(); // Always the same first value for seed 42
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
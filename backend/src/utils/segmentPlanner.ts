@@ -0,0 +1,644 @@
+import { logger } from './logger';
+import { transcriptionService, TranscriptionResult } from '../services/transcriptionService';
+import { HighlightScore, summarizationService } from '../services/summarizationService';
+import {
+  AudioAnalysis,
+  VideoMetadata,
+  analyzeAudio,
+  detectSceneChanges,
+  generateRandomSegments
+} from './videoProcessor';
+
+/**
+ * Available segmentation strategies for the split endpoint
+ */
+export const SEGMENTATION_STRATEGIES = ['random', 'scenes', 'transcript', 'highlights', 'silence'] as const;
+
+export type SegmentationStrategy = typeof SEGMENTATION_STRATEGIES[number];
+
+export interface PlannedSegment {
+  startTime: number;
+  endTime: number;
+  duration: number;
+  score?: number; // Highlight score (0-10), only set by the 'highlights' strategy
+  rationale?: string; // One-line reason for the score, only set by the 'highlights' strategy
+  label?: string; // Caller-supplied name, only set for manually specified segments
+}
+
+export interface SegmentPlanOptions {
+  segmentCount: number;
+  minSegmentDuration: number;
+  maxSegmentDuration: number;
+  silenceThreshold?: number; // dB below which audio counts as silence ('silence' strategy)
+  minPauseDuration?: number; // Minimum pause length in seconds ('silence' strategy)
+  seed?: number; // PRNG seed for random choices ('random' strategy and fallbacks)
+  signal?: AbortSignal; // Kills analysis passes and aborts provider calls when the job is cancelled
+  onTranscription?: (transcription: TranscriptionResult) => void; // Receives the source transcription of transcript-based strategies, for the split to reuse
+}
+
+/**
+ * Common interface for segment planning strategies
+ *
+ * A planner decides which time ranges of the source become segments.
+ * Rendering, transcription and titling are handled afterwards by `splitVideo`.
+ */
+export interface SegmentPlanner {
+  plan(inputPath: string, metadata: VideoMetadata, options: SegmentPlanOptions): Promise<PlannedSegment[]>;
+}
+
+export interface Utterance {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Scene change score above which a frame is treated as a cut */
+const SCENE_THRESHOLD = 0.3;
+
+/** Gap between transcript segments (seconds) treated as a sentence break even without punctuation */
+const UTTERANCE_PAUSE = 0.8;
+
+/** Loudness floor (LUFS) used for silent or unmeasured audio when ranking windows */
+const LOUDNESS_FLOOR = -70;
+
+/** Maximum number of candidate windows sent to the LLM for highlight scoring */
+const MAX_HIGHLIGHT_CANDIDATES = 30;
+
+/** Matches text ending a sentence, allowing trailing quotes or brackets */
+const SENTENCE_END = /[.!?\u2026]["'\u201d)\]]*$/;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Picks `count` candidates spread evenly across the list rather than the first N
+ */
+const spreadPick = <T>(candidates: T[], count: number): T[] => {
+  if (candidates.length <= count) {
+    return candidates;
+  }
+
+  const picked: T[] = [];
+  for (let k = 0; k < count; k++) {
+    picked.push(candidates[Math.floor((k * candidates.length) / count)]);
+  }
+  return picked;
+};
+
+/**
+ * Builds segments that start and end on the given boundaries
+ *
+ * Walks forward through the boundaries and, from each start point, takes the
+ * longest run of shots that still fits within the duration constraints.
+ * Stretches with no boundary inside `maxSegmentDuration` are skipped. When more
+ * candidates are found than requested, picks are spread evenly across the video.
+ *
+ * @param {number[]} boundaries - Cut timestamps in seconds (unsorted values are accepted)
+ * @param {number} duration - Total video duration in seconds
+ * @param {number} segmentCount - Maximum number of segments to return
+ * @param {number} minSegmentDuration - Minimum duration for each segment in seconds
+ * @param {number} maxSegmentDuration - Maximum duration for each segment in seconds
+ * @returns {PlannedSegment[]} Non-overlapping segments sorted by start time
+ *
+ * @example
+ * planSegmentsFromBoundaries([4, 9, 15, 31], 40, 2, 5, 20);
+ * // Returns: [{startTime: 0, endTime: 15, duration: 15}, {startTime: 15, endTime: 31, duration: 16}]
+ */
+export const planSegmentsFromBoundaries = (
+  boundaries: number[],
+  duration: number,
+  segmentCount: number,
+  minSegmentDuration: number,
+  maxSegmentDuration: number
+): PlannedSegment[] => {
+  const points = Array.from(new Set([
+    0,
+    ...boundaries.filter(time => time > 0 && time < duration).map(round),
+    round(duration)
+  ])).sort((a, b) => a - b);
+
+  const candidates: PlannedSegment[] = [];
+  let i = 0;
+
+  while (i < points.length - 1) {
+    let endIndex = -1;
+    for (let j = i + 1; j < points.length && points[j] - points[i] <= maxSegmentDuration; j++) {
+      if (points[j] - points[i] >= minSegmentDuration) {
+        endIndex = j;
+      }
+    }
+
+    if (endIndex === -1) {
+      i++;
+      continue;
+    }
+
+    candidates.push({
+      startTime: points[i],
+      endTime: points[endIndex],
+      duration: round(points[endIndex] - points[i])
+    });
+    i = endIndex;
+  }
+
+  return spreadPick(candidates, segmentCount);
+};
+
+/**
+ * Groups timestamped transcript segments into sentence-level utterances
+ *
+ * Providers return either phrase-level segments (Whisper) or word-level
+ * segments (AssemblyAI, Deepgram). Consecutive segments are merged until the
+ * text ends a sentence or the speaker pauses for longer than `UTTERANCE_PAUSE`.
+ *
+ * @param {TranscriptionResult['segments']} segments - Timestamped transcript segments
+ * @returns {Utterance[]} Utterances sorted by start time
+ *
+ * @example
+ * groupIntoUtterances([
+ *   { start: 0, end: 0.4, text: 'Hello' },
+ *   { start: 0.5, end: 0.9, text: 'world.' }
+ * ]);
+ * // Returns: [{ start: 0, end: 0.9, text: 'Hello world.' }]
+ */
+export const groupIntoUtterances = (segments: TranscriptionResult['segments'] = []): Utterance[] => {
+  const sorted = segments
+    .filter(segment => segment.text.trim().length > 0 && segment.end > segment.start)
+    .sort((a, b) => a.start - b.start);
+
+  const utterances: Utterance[] = [];
+  let current: Utterance | null = null;
+
+  for (let i = 0; i < sorted.length; i++) {
+    const segment = sorted[i];
+    const text = segment.text.trim();
+
+    current = current
+      ? { start: current.start, end: Math.max(current.end, segment.end), text: `${current.text} ${text}` }
+      : { start: segment.start, end: segment.end, text };
+
+    const next = sorted[i + 1];
+    const pausesAfter = !next || next.start - segment.end >= UTTERANCE_PAUSE;
+
+    if (SENTENCE_END.test(text) || pausesAfter) {
+      utterances.push(current);
+      current = null;
+    }
+  }
+
+  return utterances;
+};
+
+/**
+ * Builds segments made of whole utterances
+ *
+ * From each utterance, takes the longest run of consecutive utterances that
+ * still fits within the duration constraints, so a segment always starts where
+ * someone starts speaking and ends where they finish. Utterances longer than
+ * `maxSegmentDuration` can never be included.
+ *
+ * @param {Utterance[]} utterances - Sentence-level utterances sorted by start time
+ * @param {number} segmentCount - Maximum number of segments to return
+ * @param {number} minSegmentDuration - Minimum duration for each segment in seconds
+ * @param {number} maxSegmentDuration - Maximum duration for each segment in seconds
+ * @returns {PlannedSegment[]} Non-overlapping segments sorted by start time
+ */
+export const planSegmentsFromUtterances = (
+  utterances: Utterance[],
+  segmentCount: number,
+  minSegmentDuration: number,
+  maxSegmentDuration: number
+): PlannedSegment[] => {
+  const candidates: PlannedSegment[] = [];
+  let i = 0;
+
+  while (i < utterances.length) {
+    let endIndex = -1;
+    for (let j = i; j < utterances.length && utterances[j].end - utterances[i].start <= maxSegmentDuration; j++) {
+      if (utterances[j].end - utterances[i].start >= minSegmentDuration) {
+        endIndex = j;
+      }
+    }
+
+    if (endIndex === -1) {
+      i++;
+      continue;
+    }
+
+    const startTime = round(utterances[i].start);
+    const endTime = round(utterances[endIndex].end);
+    candidates.push({ startTime, endTime, duration: round(endTime - startTime) });
+    i = endIndex + 1;
+  }
+
+  return spreadPick(candidates, segmentCount);
+};
+
+/**
+ * Builds overlapping candidate windows for highlight scoring
+ *
+ * Starting at every utterance, takes the longest run of whole utterances that
+ * fits within the duration constraints. Unlike `planSegmentsFromUtterances`,
+ * windows may overlap; overlap is resolved after scoring by `selectTopWindows`.
+ *
+ * @param {Utterance[]} utterances - Sentence-level utterances sorted by start time
+ * @param {number} minSegmentDuration - Minimum duration for each window in seconds
+ * @param {number} maxSegmentDuration - Maximum duration for each window in seconds
+ * @returns {Array<PlannedSegment & { text: string }>} Candidate windows with their transcript text
+ */
+export const buildHighlightWindows = (
+  utterances: Utterance[],
+  minSegmentDuration: number,
+  maxSegmentDuration: number
+): Array<PlannedSegment & { text: string }> => {
+  const windows: Array<PlannedSegment & { text: string }> = [];
+
+  for (let i = 0; i < utterances.length; i++) {
+    let endIndex = -1;
+    for (let j = i; j < utterances.length && utterances[j].end - utterances[i].start <= maxSegmentDuration; j++) {
+      if (utterances[j].end - utterances[i].start >= minSegmentDuration) {
+        endIndex = j;
+      }
+    }
+
+    if (endIndex !== -1) {
+      const startTime = round(utterances[i].start);
+      const endTime = round(utterances[endIndex].end);
+      windows.push({
+        startTime,
+        endTime,
+        duration: round(endTime - startTime),
+        text: utterances.slice(i, endIndex + 1).map(utterance => utterance.text).join(' ')
+      });
+    }
+  }
+
+  return windows;
+};
+
+/**
+ * Greedily keeps the best-ranked windows that don't overlap an already kept one
+ */
+const selectBestNonOverlapping = <T extends PlannedSegment>(
+  windows: T[],
+  count: number,
+  rank: (window: T) => number
+): T[] => {
+  const ranked = [...windows].sort((a, b) => rank(b) - rank(a) || a.startTime - b.startTime);
+  const selected: T[] = [];
+
+  for (const window of ranked) {
+    if (selected.length >= count) {
+      break;
+    }
+    const overlaps = selected.some(other => window.startTime < other.endTime && other.startTime < window.endTime);
+    if (!overlaps) {
+      selected.push(window);
+    }
+  }
+
+  return selected.sort((a, b) => a.startTime - b.startTime);
+};
+
+/**
+ * Selects the highest-scoring non-overlapping windows
+ *
+ * @param {PlannedSegment[]} windows - Scored candidate windows (may overlap)
+ * @param {number} segmentCount - Maximum number of windows to return
+ * @returns {PlannedSegment[]} Top windows sorted by start time
+ *
+ * @example
+ * selectTopWindows([
+ *   { startTime: 0, endTime: 10, duration: 10, score: 4 },
+ *   { startTime: 5, endTime: 15, duration: 10, score: 9 }
+ * ], 1);
+ * // Returns: [{ startTime: 5, endTime: 15, duration: 10, score: 9 }]
+ */
+export const selectTopWindows = (windows: PlannedSegment[], segmentCount: number): PlannedSegment[] => {
+  return selectBestNonOverlapping(windows, segmentCount, window => window.score ?? 0);
+};
+
+/**
+ * Builds segments whose boundaries fall inside pauses, preferring loud windows
+ *
+ * Every pause contributes a cut point at its midpoint. All windows between two
+ * cut points that fit the duration constraints are ranked by their mean
+ * short-term loudness, and the loudest non-overlapping windows are kept, so
+ * segments favor stretches of energetic speech over quiet passages.
+ *
+ * @param {AudioAnalysis} analysis - Detected silences and loudness samples
+ * @param {number} duration - Total video duration in seconds
+ * @param {number} segmentCount - Maximum number of segments to return
+ * @param {number} minSegmentDuration - Minimum duration for each segment in seconds
+ * @param {number} maxSegmentDuration - Maximum duration for each segment in seconds
+ * @returns {PlannedSegment[]} Non-overlapping segments sorted by start time
+ */
+export const planSegmentsFromSilences = (
+  analysis: AudioAnalysis,
+  duration: number,
+  segmentCount: number,
+  minSegmentDuration: number,
+  maxSegmentDuration: number
+): PlannedSegment[] => {
+  const points = Array.from(new Set([
+    0,
+    ...analysis.silences
+      .map(silence => (silence.start + silence.end) / 2)
+      .filter(time => time > 0 && time < duration)
+      .map(round),
+    round(duration)
+  ])).sort((a, b) => a - b);
+
+  // Prefix sums of the loudness, and the samples each cut point bounds, so the
+  // mean of any window between two cut points takes constant time
+  const samples = [...analysis.loudness].sort((a, b) => a.time - b.time);
+  const prefixSums = [0];
+  for (const sample of samples) {
+    prefixSums.push(prefixSums[prefixSums.length - 1] + Math.max(sample.shortTerm, LOUDNESS_FLOOR));
+  }
+  const firstAtOrAfter: number[] = []; // Index of the first sample at or after each point
+  const firstAfter: number[] = []; // Index of the first sample after each point
+  let atOrAfter = 0;
+  let after = 0;
+  for (const point of points) {
+    while (atOrAfter < samples.length && samples[atOrAfter].time < point) {
+      atOrAfter++;
+    }
+    while (after < samples.length && samples[after].time <= point) {
+      after++;
+    }
+    firstAtOrAfter.push(atOrAfter);
+    firstAfter.push(after);
+  }
+
+  const meanLoudness = (startIndex: number, endIndex: number): number => {
+    const from = firstAtOrAfter[startIndex];
+    const to = firstAfter[endIndex];
+    if (to <= from) {
+      return LOUDNESS_FLOOR;
+    }
+    return (prefixSums[to] - prefixSums[from]) / (to - from);
+  };
+
+  const windows: Array<PlannedSegment & { energy: number }> = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    for (let j = i + 1; j < points.length && points[j] - points[i] <= maxSegmentDuration; j++) {
+      if (points[j] - points[i] >= minSegmentDuration) {
+        windows.push({
+          startTime: points[i],
+          endTime: points[j],
+          duration: round(points[j] - points[i]),
+          energy: meanLoudness(i, j)
+        });
+      }
+    }
+  }
+
+  return selectBestNonOverlapping(windows, segmentCount, window => window.energy)
+    .map(({ startTime, endTime, duration: segmentDuration }) => ({ startTime, endTime, duration: segmentDuration }));
+};
+
+/**
+ * Random planner: picks random start times and durations (original behavior)
+ */
+const randomSegmentPlanner: SegmentPlanner = {
+  async plan(_inputPath, metadata, options) {
+    return generateRandomSegments(
+      metadata.duration,
+      options.segmentCount,
+      options.minSegmentDuration,
+      options.maxSegmentDuration,
+      options.seed
+    );
+  }
+};
+
+/**
+ * Scene planner: aligns segment boundaries with detected shot changes
+ *
+ * Falls back to random segments when no run of shots fits the duration
+ * constraints (e.g. a single long take).
+ */
+const sceneSegmentPlanner: SegmentPlanner = {
+  async plan(inputPath, metadata, options) {
+    const cuts = await detectSceneChanges(inputPath, SCENE_THRESHOLD, options.signal);
+    const segments = planSegmentsFromBoundaries(
+      cuts,
+      metadata.duration,
+      options.segmentCount,
+      options.minSegmentDuration,
+      options.maxSegmentDuration
+    );
+
+    if (segments.length === 0) {
+      logger.warn(`No scene-aligned segments fit ${options.minSegmentDuration}-${options.maxSegmentDuration}s (${cuts.length} cuts found), falling back to random segments`);
+      return randomSegmentPlanner.plan(inputPath, metadata, options);
+    }
+
+    return segments;
+  }
+};
+
+/**
+ * Transcribes the whole source for a transcript-based planner
+ *
+ * A provider error (e.g. OpenAI's 25 MB upload limit on a long source) is only
+ * logged: the planner then falls back to random segments instead of failing the split.
+ * Word timestamps are requested, as by `transcribeSource`, so the split can reuse
+ * the result (`onTranscription`) instead of transcribing the source again.
+ *
+ * @returns {Promise<TranscriptionResult | undefined>} The transcription, or undefined if it failed
+ * @throws {Error} Only when the signal is aborted
+ */
+const transcribeForPlanning = async (
+  inputPath: string,
+  options: SegmentPlanOptions
+): Promise<TranscriptionResult | undefined> => {
+  try {
+    const transcription = await transcriptionService.transcribe(inputPath, {
+      responseFormat: 'verbose_json',
+      wordTimestamps: true,
+      signal: options.signal
+    });
+    options.onTranscription?.(transcription);
+    return transcription;
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw error;
+    }
+    logger.warn(`Failed to transcribe ${inputPath} for planning, falling back to random segments: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  }
+};
+
+/**
+ * Cuts between the sentences of a transcription, or falls back to random
+ * segments when no run of sentences fits the duration constraints
+ */
+const planBetweenUtterances = async (
+  utterances: Utterance[],
+  inputPath: string,
+  metadata: VideoMetadata,
+  options: SegmentPlanOptions
+): Promise<PlannedSegment[]> => {
+  const segments = planSegmentsFromUtterances(
+    utterances,
+    options.segmentCount,
+    options.minSegmentDuration,
+    options.maxSegmentDuration
+  );
+
+  if (segments.length === 0) {
+    logger.warn(`No sentence-aligned segments fit ${options.minSegmentDuration}-${options.maxSegmentDuration}s (${utterances.length} utterances found), falling back to random segments`);
+    return randomSegmentPlanner.plan(inputPath, metadata, options);
+  }
+
+  return segments;
+};
+
+/**
+ * Transcript planner: transcribes the whole source once and cuts between sentences
+ *
+ * Falls back to random segments when transcription fails, the provider returns
+ * no timestamps or no run of sentences fits the duration constraints.
+ */
+const transcriptSegmentPlanner: SegmentPlanner = {
+  async plan(inputPath, metadata, options) {
+    const transcription = await transcribeForPlanning(inputPath, options);
+    if (!transcription) {
+      return randomSegmentPlanner.plan(inputPath, metadata, options);
+    }
+    return planBetweenUtterances(groupIntoUtterances(transcription.segments), inputPath, metadata, options);
+  }
+};
+
+/**
+ * Highlights planner: asks the LLM to rank transcript windows and keeps the best
+ *
+ * Falls back to the transcript planner when summarization is not configured,
+ * to cutting between the sentences already transcribed when scoring fails, and
+ * to random segments when transcription fails or no window fits the duration
+ * constraints.
+ */
+const highlightSegmentPlanner: SegmentPlanner = {
+  async plan(inputPath, metadata, options) {
+    if (!summarizationService.isAvailable()) {
+      logger.warn('Highlight scoring requires OPENAI_API_KEY, falling back to transcript segments');
+      return transcriptSegmentPlanner.plan(inputPath, metadata, options);
+    }
+
+    const transcription = await transcribeForPlanning(inputPath, options);
+    if (!transcription) {
+      return randomSegmentPlanner.plan(inputPath, metadata, options);
+    }
+    const utterances = groupIntoUtterances(transcription.segments);
+    const windows = spreadPick(
+      buildHighlightWindows(
+        utterances,
+        options.minSegmentDuration,
+        options.maxSegmentDuration
+      ),
+      MAX_HIGHLIGHT_CANDIDATES
+    );
+
+    if (windows.length === 0) {
+      logger.warn(`No highlight windows fit ${options.minSegmentDuration}-${options.maxSegmentDuration}s, falling back to random segments`);
+      return randomSegmentPlanner.plan(inputPath, metadata, options);
+    }
+
+    let scores: HighlightScore[];
+    try {
+      scores = await summarizationService.scoreHighlightCandidates(
+        windows.map((window, id) => ({ id, text: window.text })),
+        options.signal
+      );
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      logger.warn(`Failed to score highlight candidates, falling back to transcript segments: ${error instanceof Error ? error.message : error}`);
+      return planBetweenUtterances(utterances, inputPath, metadata, options);
+    }
+
+    return selectTopWindows(
+      windows.map((window, id) => ({
+        startTime: window.startTime,
+        endTime: window.endTime,
+        duration: window.duration,
+        score: scores[id].score,
+        rationale: scores[id].rationale
+      })),
+      options.segmentCount
+    );
+  }
+};
+
+/**
+ * Silence planner: cuts inside pauses and prefers windows with high speech energy
+ *
+ * Falls back to random segments when the audio cannot be analyzed (e.g. a
+ * source without an audio track) or no run between pauses fits the duration
+ * constraints (e.g. music with no pauses).
+ */
+const silenceSegmentPlanner: SegmentPlanner = {
+  async plan(inputPath, metadata, options) {
+    let analysis: AudioAnalysis;
+    try {
+      analysis = await analyzeAudio(inputPath, options.silenceThreshold, options.minPauseDuration, options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      logger.warn(`Failed to analyze audio, falling back to random segments: ${error instanceof Error ? error.message : error}`);
+      return randomSegmentPlanner.plan(inputPath, metadata, options);
+    }
+
+    const segments = planSegmentsFromSilences(
+      analysis,
+      metadata.duration,
+      options.segmentCount,
+      options.minSegmentDuration,
+      options.maxSegmentDuration
+    );
+
+    if (segments.length === 0) {
+      logger.warn(`No pause-aligned segments fit ${options.minSegmentDuration}-${options.maxSegmentDuration}s (${analysis.silences.length} pauses found), falling back to random segments`);
+      return randomSegmentPlanner.plan(inputPath, metadata, options);
+    }
+
+    return segments;
+  }
+};
+
+const planners: Record<SegmentationStrategy, SegmentPlanner> = {
+  random: randomSegmentPlanner,
+  scenes: sceneSegmentPlanner,
+  transcript: transcriptSegmentPlanner,
+  highlights: highlightSegmentPlanner,
+  silence: silenceSegmentPlanner
+};
+
+/**
+ * Plans the segments to cut from a video using the given strategy
+ *
+ * @param {SegmentationStrategy} strategy - Segmentation strategy name
+ * @param {string} inputPath - Path to the source video
+ * @param {VideoMetadata} metadata - Probed metadata of the source video
+ * @param {SegmentPlanOptions} options - Segment count and duration constraints
+ * @returns {Promise<PlannedSegment[]>} Promise resolving to segments sorted by start time
+ *
+ * @example
+ * const segments = await planSegments('scenes', videoPath, metadata, {
+ *   segmentCount: 5,
+ *   minSegmentDuration: 5,
+ *   maxSegmentDuration: 60
+ * });
+ */
+export const planSegments = async (
+  strategy: SegmentationStrategy,
+  inputPath: string,
+  metadata: VideoMetadata,
+  options: SegmentPlanOptions
+): Promise<PlannedSegment[]> => {
+  logger.info(`Planning segments with '${strategy}' strategy`);
+  return planners[strategy].plan(inputPath, metadata, options);
+};
@@ -0,0 +1,149 @@
+import fs from 'fs/promises';
+import { logger } from './logger';
+
+export const SUBTITLE_FORMATS = ['srt', 'vtt'] as const;
+
+export type SubtitleFormat = typeof SUBTITLE_FORMATS[number];
+
+export const SUBTITLE_CONTENT_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt'
+};
+
+export interface SubtitleCue {
+  start: number; // Seconds from the start of the segment
+  end: number;
+  text: string;
+}
+
+const MAX_CUE_CHARS = 84; // Two lines of ~42 characters
+const MAX_CUE_DURATION = 7; // Seconds
+const MAX_CUE_GAP = 1; // A longer silence always starts a new cue
+const SENTENCE_END = /[.!?…]["')\]]*$/;
+
+/**
+ * Builds subtitle cues from timed transcript pieces
+ *
+ * Accepts either word-level timing (AssemblyAI, Deepgram, Whisper words) or
+ * sentence-level segments (Whisper `verbose_json`) and merges consecutive pieces
+ * into readable cues: at most two lines of text and 7 seconds, closed at sentence
+ * ends and long pauses. Times are re-based so that `offset` becomes zero and clipped
+ * to `[0, duration]`, which turns source-relative timings into segment-relative ones.
+ *
+ * @param {Array<{start: number, end: number, text: string}>} pieces - Timed words or segments, in order
+ * @param {number} [offset=0] - Time (seconds) that becomes 00:00:00 in the output
+ * @param {number} [duration] - Length of the segment; cues past it are dropped or clipped
+ * @returns {SubtitleCue[]} Cues in playback order
+ *
+ * @example
+ * buildSubtitleCues([{start: 12, end: 12.4, text: 'Hello'}, {start: 12.5, end: 13, text: 'world.'}], 10);
+ * // Returns: [{start: 2, end: 3, text: 'Hello world.'}]
+ */
+export const buildSubtitleCues = (
+  pieces: Array<{ start: number; end: number; text: string }>,
+  offset: number = 0,
+  duration: number = Infinity
+): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let current: SubtitleCue | null = null;
+
+  for (const piece of pieces) {
+    const text = piece.text.trim();
+    const start = Math.max(0, piece.start - offset);
+    const end = Math.min(duration, piece.end - offset);
+    if (!text || end <= 0 || start >= duration) {
+      continue;
+    }
+
+    if (current) {
+      const merged: string = `${current.text} ${text}`;
+      if (
+        merged.length > MAX_CUE_CHARS ||
+        end - current.start > MAX_CUE_DURATION ||
+        start - current.end > MAX_CUE_GAP ||
+        SENTENCE_END.test(current.text)
+      ) {
+        cues.push(current);
+        current = null;
+      } else {
+        current = { start: current.start, end, text: merged };
+        continue;
+      }
+    }
+
+    current = { start, end, text };
+  }
+
+  if (current) {
+    cues.push(current);
+  }
+
+  return cues.map(cue => ({
+    start: Math.round(cue.start * 1000) / 1000,
+    end: Math.round(cue.end * 1000) / 1000,
+    text: cue.text
+  }));
+};
+
+/**
+ * Formats seconds as a subtitle timestamp
+ *
+ * @param {number} seconds - Time in seconds
+ * @param {SubtitleFormat} format - 'srt' uses a comma before milliseconds, 'vtt' a dot
+ * @returns {string} Timestamp such as `00:01:02,500`
+ */
+export const formatSubtitleTimestamp = (seconds: number, format: SubtitleFormat): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${format === 'srt' ? ',' : '.'}${pad(ms, 3)}`;
+};
+
+/**
+ * Serializes cues as an SRT or WebVTT document
+ *
+ * @param {SubtitleCue[]} cues - Cues from `buildSubtitleCues`
+ * @param {SubtitleFormat} format - Output format
+ * @returns {string} File contents
+ */
+export const renderSubtitles = (cues: SubtitleCue[], format: SubtitleFormat): string => {
+  const blocks = cues.map((cue, index) => {
+    const timing = `${formatSubtitleTimestamp(cue.start, format)} --> ${formatSubtitleTimestamp(cue.end, format)}`;
+    return format === 'srt'
+      ? `${index + 1}\n${timing}\n${cue.text}`
+      : `${timing}\n${cue.text}`;
+  });
+
+  const body = blocks.join('\n\n');
+  if (format === 'vtt') {
+    return `WEBVTT\n\n${body}\n`;
+  }
+  return body ? `${body}\n` : '';
+};
+
+/**
+ * Writes `.srt` and `.vtt` sidecars next to a segment video
+ *
+ * @param {string} videoPath - Segment video path; sidecars share its base name
+ * @param {SubtitleCue[]} cues - Segment-relative cues
+ * @returns {Promise<Record<SubtitleFormat, string>>} Paths of the written files
+ */
+export const writeSubtitleFiles = async (
+  videoPath: string,
+  cues: SubtitleCue[]
+): Promise<Record<SubtitleFormat, string>> => {
+  const basePath = videoPath.replace(/\.mp4$/, '');
+  const paths = {} as Record<SubtitleFormat, string>;
+
+  for (const format of SUBTITLE_FORMATS) {
+    paths[format] = `${basePath}.${format}`;
+    await fs.writeFile(paths[format], renderSubtitles(cues, format), 'utf-8');
+  }
+
+  logger.info(`Subtitle sidecars saved: ${paths.srt} and ${paths.vtt}`);
+  return paths;
+};
@@ -0,0 +1,70 @@
+import { TranscriptionResult } from '../services/transcriptionService';
+
+type TimedPiece = NonNullable<TranscriptionResult['words']>[number];
+
+/**
+ * Cuts the part of a source transcription that one segment covers
+ *
+ * A timed word or segment belongs to the range its midpoint falls in, so a word
+ * spoken across a cut is kept whole on one side. Provider segments inside the
+ * range keep their text (and punctuation); one that straddles a cut is replaced
+ * by its words inside the range, or kept whole by its midpoint when the provider
+ * returned no words. Times are re-based like `buildSubtitleCues` does: the start
+ * of the range becomes zero and everything is clipped to the segment duration,
+ * so the result reads as if the segment had been transcribed on its own.
+ *
+ * @param {TranscriptionResult} source - Transcription of the whole source, with source-relative times
+ * @param {number} startTime - Start of the segment in the source (seconds)
+ * @param {number} endTime - End of the segment in the source (seconds)
+ * @returns {TranscriptionResult | undefined} The segment's transcription, or undefined if the source has no timings to cut by
+ *
+ * @example
+ * sliceTranscription({ text: 'Hi. Bye.', segments: [{start: 0, end: 1, text: 'Hi.'}, {start: 5, end: 6, text: 'Bye.'}], duration: 6 }, 4, 8);
+ * // Returns: { text: 'Bye.', segments: [{start: 1, end: 2, text: 'Bye.'}], duration: 4 }
+ */
+export const sliceTranscription = (
+  source: TranscriptionResult,
+  startTime: number,
+  endTime: number
+): TranscriptionResult | undefined => {
+  if (!source.words?.length && !source.segments?.length) {
+    return undefined;
+  }
+
+  const duration = endTime - startTime;
+  const midpointIn = (piece: TimedPiece, start: number, end: number) => {
+    const midpoint = (piece.start + piece.end) / 2;
+    return midpoint >= start && midpoint < end;
+  };
+  const inRange = (piece: TimedPiece) => midpointIn(piece, startTime, endTime);
+  const rebase = (piece: TimedPiece): TimedPiece => ({
+    start: Math.round(Math.max(0, piece.start - startTime) * 1000) / 1000,
+    end: Math.round(Math.min(duration, piece.end - startTime) * 1000) / 1000,
+    text: piece.text
+  });
+
+  const words = source.words?.filter(inRange);
+  const texts = source.segments?.length
+    ? source.segments.flatMap(segment => {
+      if (segment.start >= startTime && segment.end <= endTime) {
+        return [segment.text];
+      }
+      if (segment.end <= startTime || segment.start >= endTime) {
+        return [];
+      }
+      // Straddles a cut
+      if (words) {
+        return words.filter(word => midpointIn(word, segment.start, segment.end)).map(word => word.text);
+      }
+      return inRange(segment) ? [segment.text] : [];
+    })
+    : (words ?? []).map(word => word.text);
+
+  return {
+    text: texts.map(text => text.trim()).filter(Boolean).join(' '),
+    language: source.language,
+    segments: source.segments?.filter(inRange).map(rebase),
+    words: words?.map(rebase),
+    duration: Math.round(duration * 1000) / 1000
+  };
+};
@@ -0,0 +1,318 @@
+import ffmpeg from 'fluent-ffmpeg';
+import path from 'path';
+import fs from 'fs/promises';
+import { createCanvas } from 'canvas';
+import { logger } from './logger';
+import { killOnAbort } from './abort';
+
+export interface CaptionWord {
+  start: number; // Seconds from the start of the video
+  end: number;
+  text: string;
+}
+
+export interface CaptionLine {
+  start: number;
+  end: number;
+  words: CaptionWord[];
+}
+
+export interface CaptionFrame {
+  start: number;
+  end: number;
+  line: number | null; // Index into the caption lines, null while no caption is shown
+  activeWord: number; // Index of the highlighted word within the line
+}
+
+export interface CaptionOptions {
+  minWords?: number; // Fewest words per line unless a pause forces a break (default 2)
+  maxWords?: number; // Most words per line (default 4)
+  maxPause?: number; // A silence longer than this (seconds) always starts a new line (default 0.6)
+  fontFamily?: string;
+  fontColor?: string; // Color of words that are not being spoken
+  highlightColor?: string; // Color of the word being spoken
+  y?: number; // Vertical center of the captions as a ratio of the height (default 0.75, lower safe area)
+}
+
+const SENTENCE_END = /[.!?…]["')\]]*$/;
+const LINE_HOLD = 0.5; // Seconds a line stays on screen after its last word, if nothing follows
+
+/**
+ * Groups word timings into short caption lines
+ *
+ * Lines hold between `minWords` and `maxWords` words. A line is closed early at the
+ * end of a sentence (once it has `minWords`) and always at a pause longer than
+ * `maxPause`, so captions never hang on screen across silences.
+ *
+ * @param {CaptionWord[]} words - Word-level timing from the transcription provider
+ * @param {CaptionOptions} [options] - Line length and pause settings
+ * @returns {CaptionLine[]} Caption lines in playback order
+ *
+ * @example
+ * groupWordsIntoCaptionLines([{start: 0, end: 0.3, text: 'Hello'}, {start: 0.3, end: 0.6, text: 'world.'}]);
+ * // Returns: [{start: 0, end: 0.6, words: [...]}]
+ */
+export const groupWordsIntoCaptionLines = (
+  words: CaptionWord[],
+  options: CaptionOptions = {}
+): CaptionLine[] => {
+  const { minWords = 2, maxWords = 4, maxPause = 0.6 } = options;
+  const lines: CaptionLine[] = [];
+  let current: CaptionWord[] = [];
+
+  const closeLine = () => {
+    if (current.length > 0) {
+      lines.push({ start: current[0].start, end: current[current.length - 1].end, words: current });
+      current = [];
+    }
+  };
+
+  for (const word of words) {
+    const text = word.text.trim();
+    if (!text) {
+      continue;
+    }
+
+    const previous = current[current.length - 1];
+    if (previous && word.start - previous.end > maxPause) {
+      closeLine();
+    }
+
+    current.push({ start: word.start, end: word.end, text });
+
+    if (current.length >= maxWords || (current.length >= minWords && SENTENCE_END.test(text))) {
+      closeLine();
+    }
+  }
+  closeLine();
+
+  return lines;
+};
+
+/**
+ * Lays caption lines out on the video timeline
+ *
+ * Produces back-to-back frames from 0 to `duration`. While a line is shown, the
+ * highlighted word advances at each word's start time. A line stays up for
+ * LINE_HOLD seconds after its last word unless the next line starts sooner, and
+ * gaps with no caption are filled with empty frames.
+ *
+ * @param {CaptionLine[]} lines - Lines from `groupWordsIntoCaptionLines`
+ * @param {number} duration - Video duration in seconds
+ * @returns {CaptionFrame[]} Contiguous frames covering the whole video
+ */
+export const buildCaptionTimeline = (lines: CaptionLine[], duration: number): CaptionFrame[] => {
+  const frames: CaptionFrame[] = [];
+  let cursor = 0;
+
+  const push = (end: number, line: number | null, activeWord: number) => {
+    const clampedEnd = Math.min(end, duration);
+    if (clampedEnd - cursor >= 0.01) {
+      frames.push({
+        start: Math.round(cursor * 1000) / 1000,
+        end: Math.round(clampedEnd * 1000) / 1000,
+        line,
+        activeWord
+      });
+      cursor = clampedEnd;
+    }
+  };
+
+  lines.forEach((line, lineIndex) => {
+    const nextStart = lineIndex + 1 < lines.length ? lines[lineIndex + 1].start : Infinity;
+    const lineEnd = Math.min(line.end + LINE_HOLD, nextStart);
+
+    push(line.start, null, 0);
+    line.words.forEach((_, wordIndex) => {
+      const wordEnd = wordIndex + 1 < line.words.length ? line.words[wordIndex + 1].start : lineEnd;
+      push(wordEnd, lineIndex, wordIndex);
+    });
+  });
+  push(duration, null, 0);
+
+  return frames;
+};
+
+/**
+ * Render one caption line as a transparent full-width strip
+ *
+ * Every strip has the same size so the strips can be played back as a single
+ * image sequence and overlaid in one pass.
+ */
+async function generateCaptionImage(
+  line: CaptionLine | null,
+  activeWord: number,
+  outputPath: string,
+  videoWidth: number,
+  stripHeight: number,
+  fontSize: number,
+  options: CaptionOptions
+): Promise<void> {
+  const {
+    fontFamily = 'Arial',
+    fontColor = '#FFFFFF',
+    highlightColor = '#FFD400'
+  } = options;
+
+  const canvas = createCanvas(videoWidth, stripHeight);
+  const ctx = canvas.getContext('2d');
+
+  if (line) {
+    // Shrink the font if the line is wider than 90% of the video
+    let size = fontSize;
+    ctx.font = `bold ${size}px ${fontFamily}`;
+    const spaceWidth = () => ctx.measureText(' ').width;
+    const lineWidth = () => line.words.reduce((total, word) => total + ctx.measureText(word.text).width, 0)
+      + spaceWidth() * (line.words.length - 1);
+    const maxWidth = videoWidth * 0.9;
+    if (lineWidth() > maxWidth) {
+      size = Math.floor((size * maxWidth) / lineWidth());
+      ctx.font = `bold ${size}px ${fontFamily}`;
+    }
+
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = Math.max(2, Math.round(size * 0.12));
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.9)';
+
+    // Outline first, then fill, so the text reads on any background
+    let x = (videoWidth - lineWidth()) / 2;
+    const y = stripHeight / 2;
+    line.words.forEach((word, index) => {
+      ctx.strokeText(word.text, x, y);
+      ctx.fillStyle = index === activeWord ? highlightColor : fontColor;
+      ctx.fillText(word.text, x, y);
+      x += ctx.measureText(word.text).width + spaceWidth();
+    });
+  }
+
+  const buffer = canvas.toBuffer('image/png');
+  await fs.writeFile(outputPath, buffer);
+}
+
+/**
+ * Burn karaoke-style captions into a video
+ *
+ * Groups the words into 2-4 word lines, renders one transparent PNG per
+ * highlighted-word state with Canvas and plays them back as an image sequence
+ * (FFmpeg concat demuxer) overlaid on the lower safe area. No libass required.
+ *
+ * @param {string} videoPath - Video to caption
+ * @param {CaptionWord[]} words - Word timings relative to the start of the video
+ * @param {string} [outputPath] - Where to write the result (default `<video>_captioned.mp4`)
+ * @param {CaptionOptions} [options] - Line length, colors and position
+ * @param {AbortSignal} [signal] - Kills FFmpeg when aborted
+ * @returns {Promise<string>} Path to the captioned video
+ * @throws {Error} If there are no words or FFmpeg fails or is killed
+ */
+export async function addCaptionsToVideo(
+  videoPath: string,
+  words: CaptionWord[],
+  outputPath?: string,
+  options: CaptionOptions = {},
+  signal?: AbortSignal
+): Promise<string> {
+  const lines = groupWordsIntoCaptionLines(words, options);
+  if (lines.length === 0) {
+    throw new Error('No words to caption');
+  }
+
+  // Get video dimensions and duration
+  const videoMetadata = await new Promise<{ width: number; height: number; duration: number }>((resolve, reject) => {
+    ffmpeg.ffprobe(videoPath, (err, metadata) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      const videoStream = metadata.streams.find(s => s.codec_type === 'video');
+      if (!videoStream) {
+        reject(new Error('No video stream found'));
+        return;
+      }
+      resolve({
+        width: videoStream.width || 1080,
+        height: videoStream.height || 1920,
+        duration: metadata.format.duration || lines[lines.length - 1].end
+      });
+    });
+  });
+
+  const finalOutputPath = outputPath || videoPath.replace(/\.mp4$/, '_captioned.mp4');
+  const tempDir = videoPath.replace(/\.mp4$/, '_captions_tmp');
+  await fs.mkdir(tempDir, { recursive: true });
+
+  try {
+    // Sized on the short side so square and landscape outputs get the same caption size
+    const fontSize = Math.round(Math.min(videoMetadata.width, videoMetadata.height) * 0.065);
+    const stripHeight = Math.round(fontSize * 1.8);
+    const centerY = videoMetadata.height * (options.y ?? 0.75);
+    const overlayY = Math.max(0, Math.min(videoMetadata.height - stripHeight, Math.round(centerY - stripHeight / 2)));
+
+    // Render each distinct state once, then list them with their durations
+    const timeline = buildCaptionTimeline(lines, videoMetadata.duration);
+    const images = new Map<string, string>();
+    const entries: string[] = ['ffconcat version 1.0'];
+    for (const frame of timeline) {
+      const key = frame.line === null ? 'blank' : `line_${frame.line}_word_${frame.activeWord}`;
+      let imagePath = images.get(key);
+      if (!imagePath) {
+        imagePath = path.resolve(tempDir, `${key}.png`);
+        await generateCaptionImage(
+          frame.line === null ? null : lines[frame.line],
+          frame.activeWord,
+          imagePath,
+          videoMetadata.width,
+          stripHeight,
+          fontSize,
+          options
+        );
+        images.set(key, imagePath);
+      }
+      entries.push(`file '${imagePath}'`, `duration ${(frame.end - frame.start).toFixed(3)}`);
+    }
+    // The concat demuxer ignores the duration of the last entry unless the file is repeated
+    entries.push(entries[entries.length - 2]);
+
+    const listPath = path.join(tempDir, 'captions.txt');
+    await fs.writeFile(listPath, entries.join('\n'), 'utf-8');
+    logger.debug(`Rendered ${images.size} caption images for ${lines.length} lines`);
+
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg(path.resolve(videoPath))
+        .input(path.resolve(listPath))
+        .inputOptions(['-f concat', '-safe 0'])
+        .complexFilter([
+          `[0:v][1:v]overlay=0:${overlayY}:eof_action=pass[out]`
+        ])
+        .outputOptions([
+          '-map [out]',
+          '-map 0:a?',
+          '-c:v libx264',
+          '-preset fast',
+          '-crf 23',
+          '-c:a copy',
+          '-movflags +faststart',
+          '-pix_fmt yuv420p'
+        ])
+        .output(path.resolve(finalOutputPath))
+        .on('start', (commandLine) => {
+          logger.info(`Adding captions to video: ${commandLine}`);
+        })
+        .on('end', () => {
+          logger.info(`Captions completed: ${finalOutputPath}`);
+          resolve();
+        })
+        .on('error', (err) => {
+          logger.error(`Error adding captions: ${err.message}`);
+          reject(new Error(`Failed to add captions: ${err.message}`));
+        });
+      killOnAbort(command, signal);
+      command.run();
+    });
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+
+  return finalOutputPath;
+}
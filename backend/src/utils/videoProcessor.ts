@@ -3,9 +3,24 @@ import path from 'path';
 import fs from 'fs/promises';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from './logger';
-import { transcriptionService } from '../services/transcriptionService';
+import { TranscriptionResult, transcriptionService } from '../services/transcriptionService';
 import { summarizationService } from '../services/summarizationService';
 import { addTitleToVideo } from './videoTextOverlayCanvas';
+import { addCaptionsToVideo } from './videoCaptionsCanvas';
+import { buildSubtitleCues, SubtitleFormat, writeSubtitleFiles } from './subtitles';
+import { sliceTranscription } from './transcripts';
+import { createSeededRandom, generateSeed } from './random';
+import { getFfmpegThreads, getSegmentConcurrency, mapWithConcurrency } from './concurrency';
+import { killOnAbort } from './abort';
+import {
+  buildFramingFilters,
+  createSubjectSampler,
+  DEFAULT_OUTPUT_FORMAT,
+  formatFileSuffix,
+  FramingMode,
+  OUTPUT_DIMENSIONS,
+  OutputFormat
+} from './framing';
 
 export interface VideoMetadata {
   duration: number;
@@ -15,13 +30,127 @@ export interface VideoMetadata {
   size: number;
 }
 
+export interface SegmentRender {
+  format: OutputFormat;
+  width: number;
+  height: number;
+  outputPath: string;
+}
+
+export interface SegmentTranscript {
+  text: string;
+  language?: string;
+  path: string; // .txt next to the primary render
+  subtitlePaths?: Record<SubtitleFormat, string>; // .srt/.vtt sidecars, when the provider returned timings
+  timingsPath?: string; // _timings.json with the provider's timed segments and words, when it returned any
+}
+
+export interface SegmentSummary {
+  text: string;
+  path: string; // _summary.txt
+}
+
+export interface SegmentTitle {
+  title: string;
+  description: string;
+  titlePath: string; // _social_title.txt
+  descriptionPath: string; // _social_description.txt
+}
+
 export interface VideoSegment {
   startTime: number;
   endTime: number;
   duration: number;
-  outputPath: string;
+  outputPath: string; // Primary render (first requested format)
+  renders: SegmentRender[]; // One entry per requested format, primary first
+  // Text produced for the segment; missing when that step failed or was skipped
+  transcript?: SegmentTranscript;
+  summary?: SegmentSummary;
+  title?: SegmentTitle;
+}
+
+export const SPLIT_STAGES = ['encode', 'transcribe', 'captions', 'summarize', 'title'] as const;
+
+export type SplitStage = typeof SPLIT_STAGES[number];
+
+export interface SplitProgress {
+  stage: SplitStage;
+  segment: number; // 1-based segment number
+  totalSegments: number;
+  percent: number; // Progress of the stage for this segment (0-100)
+  overallPercent: number; // Progress of the whole split (0-100)
 }
 
+/**
+ * Stages each stage uses the output of
+ *
+ * Transcription listens to the primary render; captions are burned into the
+ * renders from the transcript's word timings; the social title is generated
+ * from the transcript and drawn over the (captioned) renders.
+ */
+export const STAGE_DEPENDENCIES: Record<SplitStage, readonly SplitStage[]> = {
+  encode: [],
+  transcribe: ['encode'],
+  captions: ['encode', 'transcribe'],
+  summarize: ['transcribe'],
+  title: ['transcribe', 'captions']
+};
+
+/**
+ * Expands a set of stages with every stage that depends on them, directly or not
+ *
+ * Re-running a stage makes the output of the stages downstream of it stale, so
+ * they have to run again too.
+ *
+ * @param {SplitStage[]} stages - Stages that have to run
+ * @returns {SplitStage[]} Those stages and their dependents, in pipeline order
+ *
+ * @example
+ * getStagesToRun(['transcribe']); // Returns: ['transcribe', 'captions', 'summarize', 'title']
+ * getStagesToRun(['title']); // Returns: ['title']
+ */
+export const getStagesToRun = (stages: SplitStage[]): SplitStage[] => {
+  const selected = new Set(stages);
+  // SPLIT_STAGES is in dependency order, so one pass picks up indirect dependents
+  for (const stage of SPLIT_STAGES) {
+    if (STAGE_DEPENDENCIES[stage].some(dependency => selected.has(dependency))) {
+      selected.add(stage);
+    }
+  }
+  return SPLIT_STAGES.filter(stage => selected.has(stage));
+};
+
+// Share of a segment's processing time spent in each stage, used for the overall percentage
+const STAGE_WEIGHTS: Record<SplitStage, number> = {
+  encode: 0.5,
+  transcribe: 0.2,
+  captions: 0.1,
+  summarize: 0.1,
+  title: 0.1
+};
+
+/**
+ * Computes how far one segment is through its processing
+ *
+ * Stages are weighted by STAGE_WEIGHTS. Stages that are skipped (e.g. captions
+ * when disabled) are simply jumped over.
+ *
+ * @param {SplitStage} stage - Stage the segment is in
+ * @param {number} percent - Progress of that stage (0-100)
+ * @returns {number} Completed fraction of the segment (0-1)
+ *
+ * @example
+ * getSegmentCompletion('transcribe', 50); // Returns: 0.6
+ */
+export const getSegmentCompletion = (stage: SplitStage, percent: number): number => {
+  const stageStart = SPLIT_STAGES
+    .slice(0, SPLIT_STAGES.indexOf(stage))
+    .reduce((total, previous) => total + STAGE_WEIGHTS[previous], 0);
+  const clamped = Math.min(100, Math.max(0, percent));
+
+  return stageStart + STAGE_WEIGHTS[stage] * (clamped / 100);
+};
+
 /**
  * Gets video metadata using FFprobe
  * 
@@ -61,6 +190,288 @@ export const getVideoMetadata = (videoPath: string): Promise<VideoMetadata> => {
   });
 };
 
+/**
+ * Extracts one frame of a video as a JPEG thumbnail
+ *
+ * @param {string} videoPath - Path to the video file
+ * @param {string} outputPath - Where to write the JPEG
+ * @param {number} [time=1] - Position of the frame in seconds
+ * @param {number} [width=320] - Thumbnail width; the height keeps the aspect ratio
+ * @returns {Promise<void>} Resolves once the thumbnail is written
+ * @throws {Error} If FFmpeg fails to read the frame
+ *
+ * @example
+ * await extractThumbnail('processed/abc/segment_1_uuid.mp4', 'processed/abc/thumbnail.jpg', 0.5);
+ */
+export const extractThumbnail = (
+  videoPath: string,
+  outputPath: string,
+  time: number = 1,
+  width: number = 320
+): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    ffmpeg(videoPath)
+      .seekInput(time)
+      .frames(1)
+      .videoFilters(`scale=${width}:-2`)
+      .outputOptions(['-an', '-q:v 4'])
+      .output(outputPath)
+      .on('end', () => {
+        logger.info(`Thumbnail written: ${outputPath}`);
+        resolve();
+      })
+      .on('error', (err) => {
+        logger.error(`Error extracting thumbnail: ${err.message}`);
+        reject(new Error(`Failed to extract thumbnail: ${err.message}`));
+      })
+      .run();
+  });
+};
+
+/**
+ * Extracts evenly spaced frames of a video, side by side in one JPEG
+ *
+ * Used as the picture strip behind the timeline editor.
+ *
+ * @param {string} videoPath - Path to the video file
+ * @param {string} outputPath - Where to write the JPEG
+ * @param {number} duration - Video duration in seconds, to space the frames
+ * @param {number} [frames=12] - Number of frames in the strip
+ * @param {number} [height=90] - Frame height; the width keeps the aspect ratio
+ * @returns {Promise<void>} Resolves once the strip is written
+ * @throws {Error} If FFmpeg fails to read the video
+ *
+ * @example
+ * await extractFilmstrip('uploads/abc.mp4', 'processed/abc/filmstrip.jpg', 120);
+ */
+export const extractFilmstrip = (
+  videoPath: string,
+  outputPath: string,
+  duration: number,
+  frames: number = 12,
+  height: number = 90
+): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    ffmpeg(videoPath)
+      // One frame every duration/frames seconds, tiled into a single row
+      .videoFilters([`fps=${(frames / duration).toFixed(6)}`, `scale=-2:${height}`, `tile=${frames}x1`])
+      .frames(1)
+      .outputOptions(['-an', '-q:v 5'])
+      .output(outputPath)
+      .on('end', () => {
+        logger.info(`Filmstrip written: ${outputPath}`);
+        resolve();
+      })
+      .on('error', (err) => {
+        logger.error(`Error extracting filmstrip: ${err.message}`);
+        reject(new Error(`Failed to extract filmstrip: ${err.message}`));
+      })
+      .run();
+  });
+};
+
+/**
+ * Computes the waveform of a video's audio track as a list of peaks
+ *
+ * Decodes the audio to mono 16-bit PCM at a low sample rate and keeps the
+ * loudest sample of each of `peaks` equal slices. The PCM is streamed, so long
+ * videos are never held in memory.
+ *
+ * @param {string} videoPath - Path to the video file
+ * @param {number} duration - Video duration in seconds, to size the slices
+ * @param {number} [peaks=1000] - Number of peaks to return
+ * @returns {Promise<number[]>} Peak levels between 0 and 1, in time order
+ * @throws {Error} If FFmpeg fails to decode the audio (e.g. the video has no audio track)
+ *
+ * @example
+ * const waveform = await extractWaveform('uploads/abc.mp4', 120, 500);
+ * // Returns: [0.02, 0.41, 0.38, ...]
+ */
+export const extractWaveform = (
+  videoPath: string,
+  duration: number,
+  peaks: number = 1000
+): Promise<number[]> => {
+  const sampleRate = 4000;
+  const samplesPerPeak = Math.max(1, Math.ceil((duration * sampleRate) / peaks));
+
+  return new Promise((resolve, reject) => {
+    const levels: number[] = [];
+    let peak = 0;
+    let count = 0;
+    let leftover: Buffer | undefined;
+
+    const command = ffmpeg(videoPath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(sampleRate)
+      .format('s16le')
+      .on('end', () => {
+        if (count > 0) {
+          levels.push(peak);
+        }
+        logger.info(`Waveform of ${videoPath}: ${levels.length} peaks`);
+        resolve(levels.slice(0, peaks).map(level => Math.round((level / 32768) * 1000) / 1000));
+      })
+      .on('error', (err) => {
+        logger.error(`Error extracting waveform: ${err.message}`);
+        reject(new Error(`Failed to extract waveform: ${err.message}`));
+      });
+
+    command.pipe().on('data', (chunk: Buffer) => {
+      // Samples are two bytes; a chunk may end halfway through one
+      const data = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      leftover = usable < data.length ? data.subarray(usable) : undefined;
+
+      for (let offset = 0; offset < usable; offset += 2) {
+        peak = Math.max(peak, Math.abs(data.readInt16LE(offset)));
+        if (++count === samplesPerPeak) {
+          levels.push(peak);
+          peak = 0;
+          count = 0;
+        }
+      }
+    });
+  });
+};
+
+/**
+ * Detects shot boundaries (scene changes) using FFmpeg's scene filter
+ *
+ * Runs a decode-only pass over the video with `select='gt(scene,threshold)'`
+ * and `showinfo`, collecting the presentation timestamp of every frame whose
+ * scene-change score exceeds the threshold. Audio is skipped and nothing is
+ * written to disk.
+ *
+ * @param {string} videoPath - Path to the video file
+ * @param {number} [threshold=0.3] - Scene change score (0-1) above which a frame counts as a cut
+ * @param {AbortSignal} [signal] - Kills FFmpeg when aborted
+ * @returns {Promise<number[]>} Promise resolving to cut timestamps in seconds, sorted ascending
+ * @throws {Error} If FFmpeg fails to analyze the video
+ *
+ * @example
+ * const cuts = await detectSceneChanges('./uploads/video.mp4', 0.3);
+ * // Returns: [4.12, 9.87, 15.2, ...]
+ */
+export const detectSceneChanges = (
+  videoPath: string,
+  threshold: number = 0.3,
+  signal?: AbortSignal
+): Promise<number[]> => {
+  return new Promise((resolve, reject) => {
+    const cuts: number[] = [];
+
+    const command = ffmpeg(videoPath)
+      .videoFilters([`select='gt(scene,${threshold})'`, 'showinfo'])
+      .outputOptions(['-an'])
+      .format('null')
+      .output('-')
+      .on('start', (commandLine) => {
+        logger.info(`Detecting scene changes: ${commandLine}`);
+      })
+      .on('stderr', (line: string) => {
+        // showinfo logs one line per selected frame, e.g. "[Parsed_showinfo_1 @ ...] n:0 pts:... pts_time:4.12 ..."
+        const match = line.match(/Parsed_showinfo.*pts_time:\s*([\d.]+)/);
+        if (match) {
+          cuts.push(parseFloat(match[1]));
+        }
+      })
+      .on('end', () => {
+        logger.info(`Detected ${cuts.length} scene changes in ${videoPath}`);
+        resolve(cuts.sort((a, b) => a - b));
+      })
+      .on('error', (err) => {
+        logger.error(`Error detecting scene changes: ${err.message}`);
+        reject(new Error(`Failed to detect scene changes: ${err.message}`));
+      });
+    killOnAbort(command, signal);
+    command.run();
+  });
+};
+
+export interface AudioAnalysis {
+  /** Detected pauses, in seconds from the start of the video */
+  silences: Array<{ start: number; end: number }>;
+  /** Short-term (3s window) loudness in LUFS, sampled every 100ms */
+  loudness: Array<{ time: number; shortTerm: number }>;
+}
+
+/**
+ * Analyzes the audio track for pauses and loudness using FFmpeg
+ *
+ * Runs a single decode-only pass with the `silencedetect` filter (pauses below
+ * the noise threshold lasting at least `minPauseDuration`) and the `ebur128`
+ * filter (short-term loudness). Video is skipped and nothing is written to disk.
+ *
+ * @param {string} videoPath - Path to the video file
+ * @param {number} [silenceThreshold=-30] - Noise level in dB below which audio counts as silence
+ * @param {number} [minPauseDuration=0.5] - Minimum silence length in seconds to count as a pause
+ * @param {AbortSignal} [signal] - Kills FFmpeg when aborted
+ * @returns {Promise<AudioAnalysis>} Promise resolving to detected silences and loudness samples
+ * @throws {Error} If FFmpeg fails to analyze the audio
+ *
+ * @example
+ * const { silences, loudness } = await analyzeAudio('./uploads/talk.mp4', -35, 0.7);
+ */
+export const analyzeAudio = (
+  videoPath: string,
+  silenceThreshold: number = -30,
+  minPauseDuration: number = 0.5,
+  signal?: AbortSignal
+): Promise<AudioAnalysis> => {
+  return new Promise((resolve, reject) => {
+    const silences: AudioAnalysis['silences'] = [];
+    const loudness: AudioAnalysis['loudness'] = [];
+    let silenceStart: number | null = null;
+
+    const command = ffmpeg(videoPath)
+      .audioFilters([
+        `silencedetect=noise=${silenceThreshold}dB:d=${minPauseDuration}`,
+        'ebur128=framelog=info'
+      ])
+      .outputOptions(['-vn'])
+      .format('null')
+      .output('-')
+      .on('start', (commandLine) => {
+        logger.info(`Analyzing audio: ${commandLine}`);
+      })
+      .on('stderr', (line: string) => {
+        const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+        if (startMatch) {
+          silenceStart = Math.max(0, parseFloat(startMatch[1]));
+          return;
+        }
+
+        const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+        if (endMatch && silenceStart !== null) {
+          silences.push({ start: silenceStart, end: parseFloat(endMatch[1]) });
+          silenceStart = null;
+          return;
+        }
+
+        // ebur128 logs e.g. "t: 12.3  TARGET:-23 LUFS  M: -21.4 S: -22.8  I: -24.1 LUFS ..."
+        const loudnessMatch = line.match(/Parsed_ebur128.*t:\s*([\d.]+).*S:\s*(-?[\d.]+|-inf)/);
+        if (loudnessMatch) {
+          loudness.push({
+            time: parseFloat(loudnessMatch[1]),
+            shortTerm: loudnessMatch[2] === '-inf' ? -Infinity : parseFloat(loudnessMatch[2])
+          });
+        }
+      })
+      .on('end', () => {
+        logger.info(`Detected ${silences.length} pauses and ${loudness.length} loudness samples in ${videoPath}`);
+        resolve({ silences, loudness });
+      })
+      .on('error', (err) => {
+        logger.error(`Error analyzing audio: ${err.message}`);
+        reject(new Error(`Failed to analyze audio: ${err.message}`));
+      });
+    killOnAbort(command, signal);
+    command.run();
+  });
+};
+
 /**
  * Generates random non-overlapping segments for video splitting
  * 
@@ -74,18 +485,21 @@ export const getVideoMetadata = (videoPath: string): Promise<VideoMetadata> => {
  * @param {number} segmentCount - Number of segments to create (1-20)
  * @param {number} [minSegmentDuration=5] - Minimum duration for each segment in seconds
  * @param {number} [maxSegmentDuration=60] - Maximum duration for each segment in seconds
+ * @param {number} [seed] - PRNG seed; the same seed and arguments always produce the same segments (random seed if omitted)
  * @returns {Array<{startTime: number, endTime: number, duration: number}>} Array of segment objects
  * 
  * @example
- * const segments = generateRandomSegments(120, 5, 5, 60);
+ * const segments = generateRandomSegments(120, 5, 5, 60, 42);
  * // Returns: [{startTime: 10.5, endTime: 25.3, duration: 14.8}, ...]
  */
 export const generateRandomSegments = (
   duration: number,
   segmentCount: number,
   minSegmentDuration: number = 5,
-  maxSegmentDuration: number = 60
+  maxSegmentDuration: number = 60,
+  seed: number = generateSeed()
 ): Array<{ startTime: number; endTime: number; duration: number }> => {
+  const random = createSeededRandom(seed);
   const segments: Array<{ startTime: number; endTime: number; duration: number }> = [];
   const usedTimes: number[] = [];
 
@@ -102,11 +516,11 @@ export const generateRandomSegments = (
       
       // Generate random start time
       const maxStartTime = duration - minSegmentDuration;
-      const startTime = Math.random() * maxStartTime;
+      const startTime = random() * maxStartTime;
       
       // Generate random duration within constraints
       const segmentDuration = Math.min(
-        Math.random() * (maxSegmentDuration - minSegmentDuration) + minSegmentDuration,
+        random() * (maxSegmentDuration - minSegmentDuration) + minSegmentDuration,
         duration - startTime
       );
       
@@ -134,180 +548,676 @@ export const generateRandomSegments = (
   return segments.sort((a, b) => a.startTime - b.startTime);
 };
 
+/**
+ * Encodes one time range of the source into a single output file
+ *
+ * @param {string} inputPath - Path to the input video file
+ * @param {{startTime: number, duration: number}} segment - Time range to encode
+ * @param {string} outputPath - Path of the file to create
+ * @param {string[]} framingFilters - Filters from `buildFramingFilters`
+ * @param {number} segmentNumber - 1-based segment number, for logging
+ * @param {OutputFormat} format - Output aspect ratio, for logging
+ * @param {(percent: number) => void} [onProgress] - Called with FFmpeg's progress (0-100)
+ * @param {AbortSignal} [signal] - Kills FFmpeg when aborted
+ * @returns {Promise<void>} Promise that resolves when FFmpeg finishes
+ * @throws {Error} If FFmpeg processing fails or is killed
+ */
+const renderSegment = (
+  inputPath: string,
+  segment: { startTime: number; duration: number },
+  outputPath: string,
+  framingFilters: string[],
+  segmentNumber: number,
+  format: OutputFormat,
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const { width, height } = OUTPUT_DIMENSIONS[format];
+
+  return new Promise<void>((resolve, reject) => {
+    const command = ffmpeg(inputPath)
+      .setStartTime(segment.startTime)
+      .setDuration(segment.duration)
+      .videoFilters(framingFilters)
+      .outputOptions([
+        '-c:v libx264',
+        '-c:a aac',
+        '-preset fast',
+        '-crf 23',
+        '-movflags +faststart',
+        '-pix_fmt yuv420p',
+        `-threads ${getFfmpegThreads()}` // Bounded so parallel segments share the CPUs
+      ])
+      .output(outputPath)
+      .on('start', (commandLine) => {
+        console.log(`   ⏳ FFmpeg started processing segment ${segmentNumber} (converting to ${format}, ${width}x${height})`);
+        logger.info(`Processing segment ${segmentNumber} (${format}): ${commandLine}`);
+      })
+      .on('progress', (progress) => {
+        const percent = Math.round(progress.percent || 0);
+        if (percent % 25 === 0) { // Log every 25% to avoid spam
+          console.log(`   📊 Segment ${segmentNumber} (${format}) progress: ${percent}%`);
+        }
+        logger.debug(`Segment ${segmentNumber} (${format}) progress: ${percent}%`);
+        onProgress?.(Math.min(100, Math.max(0, progress.percent || 0)));
+      })
+      .on('end', () => {
+        console.log(`   ✅ Segment ${segmentNumber} completed successfully! (${format} format, ${width}x${height})`);
+        logger.info(`Segment ${segmentNumber} (${format}) completed: ${outputPath}`);
+        resolve();
+      })
+      .on('error', (err) => {
+        console.error(`   ❌ Error processing segment ${segmentNumber}: ${err.message}`);
+        logger.error(`Error processing segment ${segmentNumber} (${format}): ${err.message}`);
+        reject(new Error(`Failed to process segment ${segmentNumber}: ${err.message}`));
+      });
+    killOnAbort(command, signal);
+    command.run();
+  });
+};
+
+/**
+ * Burns the social media title into a rendered segment
+ *
+ * Keeps a `_original_no_title.mp4` backup first so the title can be replaced
+ * later without stacking overlays: when the backup already exists, the render
+ * is restored from it before the new title is drawn.
+ *
+ * @param {string} outputPath - Rendered segment to update in place
+ * @param {string} titlePath - Path to the `_social_title.txt` file
+ * @param {AbortSignal} [signal] - Kills FFmpeg when aborted
+ * @param {FramingMode} [framing] - Framing of the render, which the title style follows
+ * @returns {Promise<void>}
+ * @throws {Error} If the overlay fails
+ */
+const applyTitleOverlay = async (
+  outputPath: string,
+  titlePath: string,
+  signal?: AbortSignal,
+  framing?: FramingMode
+): Promise<void> => {
+  // Create backup of original video before adding title (to prevent duplicate overlays)
+  const originalBackupPath = outputPath.replace(/\.mp4$/, '_original_no_title.mp4');
+  try {
+    await fs.copyFile(originalBackupPath, outputPath);
+    logger.info(`Restored video without title from ${path.basename(originalBackupPath)}`);
+  } catch {
+    try {
+      await fs.copyFile(outputPath, originalBackupPath);
+      logger.info(`Created backup of original video: ${path.basename(originalBackupPath)}`);
+    } catch (backupError) {
+      logger.warn(`Failed to create backup: ${backupError}`);
+    }
+  }
+
+  const videoWithTitlePath = await addTitleToVideo(outputPath, titlePath, undefined, signal, framing);
+
+  // Replace original video with version that has title
+  await fs.rename(videoWithTitlePath, outputPath);
+};
+
+/**
+ * Options shared by the stage functions of a segment
+ */
+export interface SegmentStageOptions {
+  segmentNumber: number; // 1-based, for logging
+  onProgress?: (percent: number) => void; // Progress of the stage (0-100)
+  signal?: AbortSignal;
+  fresh?: boolean; // Summarize and title stages: ask the model again instead of reusing cached outputs
+}
+
+/**
+ * Path of the primary render's `.txt` transcript, which the other text files are named after
+ */
+export const getTranscriptPath = (outputPath: string): string => outputPath.replace(/\.mp4$/, '.txt');
+
+/**
+ * Path of the whole source's transcription in a video's output directory
+ */
+export const getSourceTranscriptPath = (outputDir: string): string => path.join(outputDir, 'source_transcript.json');
+
+/**
+ * Transcribes the whole source once, for every segment to take its part from
+ *
+ * The result is kept as `source_transcript.json` in the output directory and
+ * read from there by later calls (segments rendered again, stages re-run), so
+ * the provider is called once per video. Word timestamps are always requested,
+ * burning captions needs them. A transcription the segment planner already made
+ * is saved as is.
+ *
+ * @param {string} inputPath - Path to the source video
+ * @param {string} outputDir - The video's output directory
+ * @param {AbortSignal} [signal] - Aborts the provider call
+ * @param {TranscriptionResult} [transcription] - The source's transcription with word timestamps, when already known
+ * @returns {Promise<TranscriptionResult | undefined>} The source's transcription, or undefined if it failed (logged); segments are then transcribed one by one
+ */
+export const transcribeSource = async (
+  inputPath: string,
+  outputDir: string,
+  signal?: AbortSignal,
+  transcription?: TranscriptionResult
+): Promise<TranscriptionResult | undefined> => {
+  const transcriptPath = getSourceTranscriptPath(outputDir);
+  if (transcription) {
+    try {
+      await fs.writeFile(transcriptPath, JSON.stringify(transcription), 'utf-8');
+      console.log(`   📝 Source transcription from planning saved: ${transcriptPath}`);
+    } catch (error) {
+      logger.warn(`Failed to save ${transcriptPath}: ${error}`);
+    }
+    return transcription;
+  }
+
+  try {
+    return JSON.parse(await fs.readFile(transcriptPath, 'utf-8')) as TranscriptionResult;
+  } catch {
+    // Not transcribed yet
+  }
+
+  try {
+    console.log(`🎤 Transcribing the source once for all segments...`);
+    const transcription = await transcriptionService.transcribe(inputPath, {
+      responseFormat: 'verbose_json',
+      wordTimestamps: true,
+      signal
+    });
+    await fs.writeFile(transcriptPath, JSON.stringify(transcription), 'utf-8');
+    console.log(`   📝 Source transcription saved: ${transcriptPath}`);
+    return transcription;
+  } catch (error) {
+    if (!signal?.aborted) {
+      console.warn(`   ⚠️  Failed to transcribe the source, transcribing each segment instead: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      logger.warn(`Failed to transcribe ${inputPath}, falling back to per-segment transcription: ${error}`);
+    }
+    return undefined;
+  }
+};
+
+/**
+ * Encode stage: renders one time range of the source once per output format
+ *
+ * Backups left by the captions and title stages of an earlier render are
+ * deleted, they no longer match.
+ *
+ * @param {string} inputPath - Path to the source video
+ * @param {{startTime: number, duration: number}} segment - Time range to render
+ * @param {string} outputPath - Primary render (`segment_N_uuid.mp4`); other formats get an aspect ratio suffix
+ * @param {Object} options - Stage options
+ * @param {FramingMode} options.framing - How the picture is fitted into the output frame
+ * @param {OutputFormat[]} options.formats - Output aspect ratios, primary first
+ * @param {VideoMetadata} [options.source] - Source picture size, required for 'crop-track'
+ * @returns {Promise<SegmentRender[]>} One render per format, primary first
+ * @throws {Error} If FFmpeg fails for any format
+ */
+export const encodeSegment = async (
+  inputPath: string,
+  segment: { startTime: number; duration: number },
+  outputPath: string,
+  options: SegmentStageOptions & { framing: FramingMode; formats: OutputFormat[]; source?: VideoMetadata }
+): Promise<SegmentRender[]> => {
+  const { segmentNumber, framing, formats, source, onProgress, signal } = options;
+  const baseName = path.basename(outputPath, '.mp4');
+  const renders: SegmentRender[] = [];
+  // Analyzed once, for the first format that tracks the subject
+  const sampleSubject = framing === 'crop-track' && source
+    ? createSubjectSampler(inputPath, segment.startTime, segment.duration, source, signal)
+    : undefined;
+
+  if (framing === 'crop-track') {
+    console.log(`   🎯 Analyzing subject motion for segment ${segmentNumber}...`);
+  }
+
+  for (const [formatIndex, format] of formats.entries()) {
+    const renderPath = formatIndex === 0
+      ? outputPath
+      : path.join(path.dirname(outputPath), `${baseName}${formatFileSuffix(format)}.mp4`);
+
+    // Every format is an equal share of the encode stage
+    const reportRenderProgress = (percent: number) =>
+      onProgress?.(((formatIndex + percent / 100) / formats.length) * 100);
+
+    reportRenderProgress(0);
+    const framingFilters = await buildFramingFilters(framing, inputPath, segment.startTime, segment.duration, source, format, signal, sampleSubject);
+    await renderSegment(inputPath, segment, renderPath, framingFilters, segmentNumber, format, reportRenderProgress, signal);
+    for (const suffix of ['_original_no_captions.mp4', '_original_no_title.mp4']) {
+      await fs.rm(renderPath.replace(/\.mp4$/, suffix), { force: true });
+    }
+
+    renders.push({ format, ...OUTPUT_DIMENSIONS[format], outputPath: renderPath });
+  }
+
+  return renders;
+};
+
+/**
+ * Transcribe stage: takes the segment's part of the source transcription, or
+ * transcribes the primary render, and writes the text files
+ *
+ * With a source transcription (`transcribeSource`), the segment's text and
+ * timings are cut from it (`sliceTranscription`) and the provider is not called.
+ * The render is transcribed on its own when there is none, when it has no
+ * timings, or when it has no word timings and captions need them.
+ *
+ * Writes the `.txt` transcript, a `_timings.json` with the timed segments and
+ * words (relative to the segment start), and the `.srt`/`.vtt` sidecars.
+ * Failing to write the sidecars is only logged.
+ *
+ * @param {string} outputPath - Primary render
+ * @param {number} duration - Segment duration, the subtitles end there
+ * @param {Object} options - Stage options
+ * @param {boolean} [options.wordTimestamps=false] - Ask for word-level timing, needed to burn captions
+ * @param {Object} [options.source] - Transcription of the whole source and where the segment starts in it
+ * @returns {Promise<{transcript: SegmentTranscript, transcription: TranscriptionResult}>} The files written and the segment's transcription
+ * @throws {Error} If transcription fails
+ */
+export const transcribeSegment = async (
+  outputPath: string,
+  duration: number,
+  options: SegmentStageOptions & {
+    wordTimestamps?: boolean;
+    source?: { transcription: TranscriptionResult; startTime: number };
+  }
+): Promise<{ transcript: SegmentTranscript; transcription: TranscriptionResult }> => {
+  const { segmentNumber, wordTimestamps = false, source, signal } = options;
+
+  const sliced = source && sliceTranscription(source.transcription, source.startTime, source.startTime + duration);
+  let transcription: TranscriptionResult;
+  if (sliced && (!wordTimestamps || sliced.words)) {
+    transcription = sliced;
+    logger.info(`Segment ${segmentNumber} transcript taken from the source transcription`);
+  } else {
+    // verbose_json returns timed segments, needed for the subtitle sidecars
+    transcription = await transcriptionService.transcribe(outputPath, {
+      responseFormat: 'verbose_json',
+      wordTimestamps,
+      signal
+    });
+  }
+
+  // Create .txt file with same name as video
+  const txtPath = getTranscriptPath(outputPath);
+  await fs.writeFile(txtPath, transcription.text, 'utf-8');
+
+  const transcript: SegmentTranscript = { text: transcription.text, language: transcription.language, path: txtPath };
+  console.log(`   📝 Transcription saved: ${txtPath}`);
+  logger.info(`Transcription saved for segment ${segmentNumber}: ${txtPath}`);
+
+  // Create .srt and .vtt sidecars; timings are relative to the segment start either way
+  const timedPieces = transcription.words?.length ? transcription.words : transcription.segments;
+  if (timedPieces && timedPieces.length > 0) {
+    try {
+      // Kept so captions can be burned again later without another provider call
+      const timingsPath = outputPath.replace(/\.mp4$/, '_timings.json');
+      await fs.writeFile(timingsPath, JSON.stringify(transcription), 'utf-8');
+      transcript.timingsPath = timingsPath;
+
+      const subtitlePaths = await writeSubtitleFiles(outputPath, buildSubtitleCues(timedPieces, 0, duration));
+      transcript.subtitlePaths = subtitlePaths;
+      console.log(`   📝 Subtitles saved: ${path.basename(subtitlePaths.srt)}, ${path.basename(subtitlePaths.vtt)}`);
+    } catch (subtitleError) {
+      // Log error but don't fail the entire process
+      console.warn(`   ⚠️  Failed to save subtitles for segment ${segmentNumber}: ${subtitleError instanceof Error ? subtitleError.message : 'Unknown error'}`);
+      logger.warn(`Failed to save subtitles for segment ${segmentNumber}: ${subtitleError}`);
+    }
+  } else {
+    logger.warn(`No timestamps for segment ${segmentNumber}, skipping subtitle sidecars`);
+  }
+
+  return { transcript, transcription };
+};
+
+/**
+ * Captions stage: burns word-by-word captions into every render
+ *
+ * Keeps a `_original_no_captions.mp4` backup of each render so the captions
+ * can be burned again later; when the backup exists, the render is restored
+ * from it first. The title backup is then stale and deleted, the title stage
+ * has to run again. A render that fails is only logged.
+ *
+ * @param {SegmentRender[]} renders - Renders to update in place
+ * @param {TranscriptionResult['words']} words - Word timings, relative to the segment start
+ * @param {SegmentStageOptions} options - Stage options
+ * @returns {Promise<void>}
+ * @throws {Error} Only when the signal is aborted
+ */
+export const captionSegment = async (
+  renders: SegmentRender[],
+  words: NonNullable<TranscriptionResult['words']>,
+  options: SegmentStageOptions
+): Promise<void> => {
+  const { segmentNumber, onProgress, signal } = options;
+
+  for (const [renderIndex, render] of renders.entries()) {
+    onProgress?.((renderIndex / renders.length) * 100);
+    try {
+      console.log(`   💬 Adding captions to segment ${segmentNumber} (${render.format})...`);
+      const cleanPath = render.outputPath.replace(/\.mp4$/, '_original_no_captions.mp4');
+      try {
+        await fs.copyFile(cleanPath, render.outputPath);
+      } catch {
+        await fs.copyFile(render.outputPath, cleanPath);
+      }
+      const captionedPath = await addCaptionsToVideo(render.outputPath, words, undefined, {}, signal);
+      await fs.rename(captionedPath, render.outputPath);
+      await fs.rm(render.outputPath.replace(/\.mp4$/, '_original_no_title.mp4'), { force: true });
+      logger.info(`Captions added to segment ${segmentNumber}: ${render.outputPath}`);
+    } catch (captionError) {
+      if (signal?.aborted) {
+        throw captionError;
+      }
+      // Log error but don't fail the entire process
+      console.warn(`   ⚠️  Failed to add captions to segment ${segmentNumber} (${render.format}): ${captionError instanceof Error ? captionError.message : 'Unknown error'}`);
+      logger.warn(`Failed to add captions to segment ${segmentNumber} (${render.format}): ${captionError}`);
+    }
+  }
+};
+
+/**
+ * Summarize stage: summarizes the transcript into `_summary.txt`
+ *
+ * @param {string} txtPath - The segment's `.txt` transcript
+ * @param {SegmentStageOptions} options - Stage options
+ * @returns {Promise<SegmentSummary | undefined>} The summary, or undefined when summarization
+ * is not configured or the transcript is empty
+ * @throws {Error} If summarization fails
+ */
+export const summarizeSegment = async (
+  txtPath: string,
+  options: SegmentStageOptions
+): Promise<SegmentSummary | undefined> => {
+  const { segmentNumber, signal, fresh } = options;
+  const text = await fs.readFile(txtPath, 'utf-8');
+  if (!summarizationService.isAvailable() || text.trim().length === 0) {
+    return undefined;
+  }
+
+  console.log(`   📊 Summarizing segment ${segmentNumber}...`);
+  const summaryPath = txtPath.replace(/\.txt$/, '_summary.txt');
+  await summarizationService.summarizeFile(txtPath, summaryPath, {
+    maxLength: 100,
+    style: 'concise',
+    signal,
+    fresh
+  });
+  console.log(`   ✅ Summary saved: ${summaryPath}`);
+  logger.info(`Summary saved for segment ${segmentNumber}: ${summaryPath}`);
+  return { text: await fs.readFile(summaryPath, 'utf-8'), path: summaryPath };
+};
+
+/**
+ * Title stage: writes the social media title and description, then draws the
+ * title over every render
+ *
+ * The title and description are generated from the transcript, unless a title
+ * is given: then only the title file is rewritten (the description is kept) and
+ * the overlay redrawn, without calling the provider. A render whose overlay
+ * fails is only logged.
+ *
+ * @param {string} txtPath - The segment's `.txt` transcript
+ * @param {SegmentRender[]} renders - Renders to update in place
+ * @param {Object} options - Stage options
+ * @param {string} [options.title] - Title to use instead of generating one
+ * @param {FramingMode} [options.framing='letterbox'] - Framing of the renders: 'blur-fill' gets an opaque title box
+ * @returns {Promise<SegmentTitle | undefined>} The title, or undefined when no title is given and
+ * summarization is not configured or the transcript is empty
+ * @throws {Error} If generating the title fails
+ */
+export const titleSegment = async (
+  txtPath: string,
+  renders: SegmentRender[],
+  options: SegmentStageOptions & { title?: string; framing?: FramingMode }
+): Promise<SegmentTitle | undefined> => {
+  const { segmentNumber, onProgress, signal, fresh, framing } = options;
+  let title: SegmentTitle;
+
+  if (options.title !== undefined) {
+    const basePath = txtPath.replace(/\.txt$/, '');
+    const titlePath = `${basePath}_social_title.txt`;
+    const descriptionPath = `${basePath}_social_description.txt`;
+    const description = await fs.readFile(descriptionPath, 'utf-8').catch(() => '');
+    await fs.writeFile(titlePath, options.title, 'utf-8');
+    await fs.writeFile(descriptionPath, description, 'utf-8');
+    title = { title: options.title, description, titlePath, descriptionPath };
+    console.log(`   ✏️  Title set for segment ${segmentNumber}: ${options.title}`);
+  } else {
+    const text = await fs.readFile(txtPath, 'utf-8');
+    if (!summarizationService.isAvailable() || text.trim().length === 0) {
+      return undefined;
+    }
+
+    // Generate social media content (description + title) for TikTok/Instagram
+    console.log(`   📱 Generating social media content for segment ${segmentNumber}...`);
+    const socialContent = await summarizationService.generateSocialMediaContentFromFile(txtPath, {
+      maxLength: 150,
+      language: 'en', // Always generate in English
+      signal,
+      fresh
+    });
+    title = {
+      title: socialContent.content.title,
+      description: socialContent.content.description,
+      titlePath: socialContent.titlePath,
+      descriptionPath: socialContent.descriptionPath
+    };
+    console.log(`   ✅ Social media content saved:`);
+    console.log(`      - Description: ${path.basename(socialContent.descriptionPath)}`);
+    console.log(`      - Title: ${path.basename(socialContent.titlePath)}`);
+    logger.info(`Social media content saved for segment ${segmentNumber}`);
+  }
+
+  // Add title overlay to every rendered format in the top bar area
+  for (const [renderIndex, render] of renders.entries()) {
+    onProgress?.((renderIndex / renders.length) * 100);
+    try {
+      console.log(`   🎬 Adding title overlay to video segment ${segmentNumber} (${render.format})...`);
+      await applyTitleOverlay(render.outputPath, title.titlePath, signal, framing);
+      console.log(`   ✅ Title overlay added to video: ${path.basename(render.outputPath)}`);
+      logger.info(`Title overlay added to segment ${segmentNumber}: ${render.outputPath}`);
+    } catch (overlayError) {
+      if (signal?.aborted) {
+        throw overlayError;
+      }
+      // Log error but don't fail the entire process
+      console.warn(`   ⚠️  Failed to add title overlay to segment ${segmentNumber} (${render.format}): ${overlayError instanceof Error ? overlayError.message : 'Unknown error'}`);
+      logger.warn(`Failed to add title overlay to segment ${segmentNumber} (${render.format}): ${overlayError}`);
+    }
+  }
+
+  return title;
+};
+
 /**
  * Splits a video file into multiple segments using FFmpeg
  * 
- * Processes segments sequentially to avoid overwhelming the system.
- * Each segment is extracted with optimized encoding settings:
+ * Processes up to `concurrency` segments at the same time (see `getSegmentConcurrency`);
+ * segment numbering and the order of the result follow the input, whatever order
+ * the segments finish in. Each segment is rendered once per requested output format with optimized encoding settings:
  * - Video codec: H.264 (libx264)
  * - Audio codec: AAC
  * - Preset: fast (balance between speed and quality)
  * - CRF: 23 (good quality)
  * - Fast start: enabled for web playback
  * 
+ * The first format is the primary render (`segment_N_uuid.mp4`); transcription (`.txt`,
+ * `_timings.json`), subtitle (`.srt`, `.vtt`), summary and social content files are named after it.
+ * Other formats are written next to it with the aspect ratio as suffix
+ * (e.g. `segment_N_uuid_1x1.mp4`) and get the same title overlay.
+ *
+ * Each segment goes through the stage functions in order (`encodeSegment`,
+ * `transcribeSegment`, `captionSegment`, `summarizeSegment`, `titleSegment`),
+ * which can also be run again one by one on an existing segment.
+ *
+ * The source is transcribed once (`transcribeSource`, kept as
+ * `source_transcript.json` in the output directory) and each segment's transcript
+ * is cut from it, so overlapping segments are not paid for twice and words at the
+ * cuts are heard in context. If that fails, each segment is transcribed on its own.
+ * Transcript-based planners already transcribed the source: pass their result
+ * as `sourceTranscription` so the provider is not called twice.
+ * 
  * @param {string} inputPath - Path to the input video file
  * @param {string} outputDir - Directory to save output segments
  * @param {Array<{startTime: number, endTime: number, duration: number}>} segments - Array of segment definitions
+ * @param {Object} [options] - Render options
+ * @param {FramingMode} [options.framing='letterbox'] - How the picture is fitted into the output frame
+ * @param {OutputFormat[]} [options.formats=['9:16']] - Output aspect ratios to render, primary first
+ * @param {boolean} [options.captions=false] - Burn karaoke-style captions from word-level timestamps into every render
+ * @param {(progress: SplitProgress) => void} [options.onProgress] - Called as each segment moves through the stages (encode, transcribe, captions, summarize, title)
+ * @param {number} [options.concurrency] - Maximum number of segments processed at once (default from `SEGMENT_CONCURRENCY`, else CPU count / `FFMPEG_THREADS`)
+ * @param {number[]} [options.segmentNumbers] - Number of each segment in file names and logs, when re-rendering some segments of an earlier split (default 1, 2, 3...)
+ * @param {TranscriptionResult} [options.sourceTranscription] - The source's transcription with word timestamps, when the segment planner made one
+ * @param {AbortSignal} [options.signal] - Cancels the split: running FFmpeg processes are killed and pending provider calls aborted
  * @returns {Promise<VideoSegment[]>} Promise resolving to array of created segments with file paths
- * @throws {Error} If FFmpeg processing fails for any segment
+ * @throws {Error} If FFmpeg processing fails for any segment; segments already running finish first, no new ones start.
+ * Also when the signal is aborted, even from steps whose failures are otherwise only logged
  * 
  * @example
  * const segments = [{startTime: 0, endTime: 10, duration: 10}, ...];
- * const outputSegments = await splitVideo('./video.mp4', './output', segments);
+ * const outputSegments = await splitVideo('./video.mp4', './output', segments, { formats: ['9:16', '1:1'] });
  */
 export const splitVideo = async (
   inputPath: string,
   outputDir: string,
-  segments: Array<{ startTime: number; endTime: number; duration: number }>
+  segments: Array<{ startTime: number; endTime: number; duration: number }>,
+  options: {
+    framing?: FramingMode;
+    formats?: OutputFormat[];
+    captions?: boolean;
+    onProgress?: (progress: SplitProgress) => void;
+    concurrency?: number;
+    segmentNumbers?: number[];
+    sourceTranscription?: TranscriptionResult;
+    signal?: AbortSignal;
+  } = {}
 ): Promise<VideoSegment[]> => {
+  const {
+    framing = 'letterbox',
+    formats = [DEFAULT_OUTPUT_FORMAT],
+    captions = false,
+    onProgress,
+    concurrency = getSegmentConcurrency(),
+    segmentNumbers,
+    signal
+  } = options;
   await fs.mkdir(outputDir, { recursive: true });
 
-  const outputSegments: VideoSegment[] = [];
+  // Segments run in parallel, so overall progress is the mean of every segment's completion
+  const completion: number[] = new Array(segments.length).fill(0);
+  const reportProgress = (segmentIndex: number, stage: SplitStage, percent: number) => {
+    completion[segmentIndex] = Math.max(completion[segmentIndex], getSegmentCompletion(stage, percent));
+    onProgress?.({
+      stage,
+      segment: segmentIndex + 1,
+      totalSegments: segments.length,
+      percent,
+      overallPercent: (completion.reduce((total, value) => total + value, 0) / segments.length) * 100
+    });
+  };
 
-  for (let i = 0; i < segments.length; i++) {
-    const segment = segments[i];
-    const outputPath = path.join(outputDir, `segment_${i + 1}_${uuidv4()}.mp4`);
+  // Subject tracking needs the source picture size to plan the crop window
+  const source = framing === 'crop-track' ? await getVideoMetadata(inputPath) : undefined;
+  // Runs alongside the first encodes; each segment waits for it before its transcribe stage
+  const sourceTranscription = transcribeSource(inputPath, outputDir, signal, options.sourceTranscription);
 
-    console.log(`\n🎞️  Processing segment ${i + 1}/${segments.length}`);
+  const processSegment = async (
+    segment: { startTime: number; endTime: number; duration: number },
+    i: number
+  ): Promise<VideoSegment> => {
+    signal?.throwIfAborted();
+    const segmentNumber = segmentNumbers?.[i] ?? i + 1;
+    const baseName = `segment_${segmentNumber}_${uuidv4()}`;
+    const outputPath = path.join(outputDir, `${baseName}.mp4`);
+
+    console.log(`\n🎞️  Processing segment ${segmentNumber} (${i + 1}/${segments.length})`);
     console.log(`   Time range: ${segment.startTime.toFixed(2)}s - ${segment.endTime.toFixed(2)}s`);
     console.log(`   Duration: ${segment.duration.toFixed(2)}s`);
     console.log(`   Output: ${outputPath}`);
+    console.log(`   Formats: ${formats.join(', ')} (${framing})`);
 
-    await new Promise<void>((resolve, reject) => {
-      // Target resolution for 9:16 format (1080x1920 - Full HD vertical)
-      const targetWidth = 1080;
-      const targetHeight = 1920;
-
-      ffmpeg(inputPath)
-        .setStartTime(segment.startTime)
-        .setDuration(segment.duration)
-        .videoFilters([
-          // Scale video to fit within 9:16 area while maintaining aspect ratio
-          // This ensures no part of the video is cropped
-          `scale=${targetWidth}:${targetHeight}:force_original_aspect_ratio=decrease`,
-          // Add black bars (padding) to fill remaining space and center the video
-          // This maintains the entire image visible within the 9:16 frame
-          `pad=${targetWidth}:${targetHeight}:(ow-iw)/2:(oh-ih)/2:black`
-        ])
-        .outputOptions([
-          '-c:v libx264',
-          '-c:a aac',
-          '-preset fast',
-          '-crf 23',
-          '-movflags +faststart',
-          '-pix_fmt yuv420p'
-        ])
-        .output(outputPath)
-        .on('start', (commandLine) => {
-          console.log(`   ⏳ FFmpeg started processing segment ${i + 1} (converting to 9:16, preserving full image)`);
-          logger.info(`Processing segment ${i + 1}: ${commandLine}`);
-        })
-        .on('progress', (progress) => {
-          const percent = Math.round(progress.percent || 0);
-          if (percent % 25 === 0) { // Log every 25% to avoid spam
-            console.log(`   📊 Segment ${i + 1} progress: ${percent}%`);
-          }
-          logger.debug(`Segment ${i + 1} progress: ${percent}%`);
-        })
-        .on('end', async () => {
-          console.log(`   ✅ Segment ${i + 1} completed successfully! (9:16 format, ${targetWidth}x${targetHeight}, full image preserved)`);
-          logger.info(`Segment ${i + 1} completed: ${outputPath}`);
-          
-          // Transcribe the segment and save to .txt file
-          try {
-            console.log(`   🎤 Transcribing segment ${i + 1}...`);
-            const transcription = await transcriptionService.transcribe(outputPath, {});
-            
-            // Create .txt file with same name as video
-            const txtPath = outputPath.replace(/\.mp4$/, '.txt');
-            await fs.writeFile(txtPath, transcription.text, 'utf-8');
-            
-            console.log(`   📝 Transcription saved: ${txtPath}`);
-            logger.info(`Transcription saved for segment ${i + 1}: ${txtPath}`);
-            
-            // Summarize the transcription and save to _summary.txt file
-            try {
-              if (summarizationService.isAvailable() && transcription.text.trim().length > 0) {
-                console.log(`   📊 Summarizing segment ${i + 1}...`);
-                const summaryPath = outputPath.replace(/\.mp4$/, '_summary.txt');
-                await summarizationService.summarizeFile(txtPath, summaryPath, {
-                  maxLength: 100,
-                  style: 'concise'
-                });
-                console.log(`   ✅ Summary saved: ${summaryPath}`);
-                logger.info(`Summary saved for segment ${i + 1}: ${summaryPath}`);
-                
-                // Generate social media content (description + title) for TikTok/Instagram
-                try {
-                  console.log(`   📱 Generating social media content for segment ${i + 1}...`);
-                  const socialContent = await summarizationService.generateSocialMediaContentFromFile(txtPath, {
-                    maxLength: 150,
-                    language: 'en' // Always generate in English
-                  });
-                  console.log(`   ✅ Social media content saved:`);
-                  console.log(`      - Description: ${path.basename(socialContent.descriptionPath)}`);
-                  console.log(`      - Title: ${path.basename(socialContent.titlePath)}`);
-                  logger.info(`Social media content saved for segment ${i + 1}`);
-                  
-                  // Add title overlay to video in the top black bar area
-                  try {
-                    console.log(`   🎬 Adding title overlay to video segment ${i + 1}...`);
-                    
-                    // Create backup of original video before adding title (to prevent duplicate overlays)
-                    const originalBackupPath = outputPath.replace(/\.mp4$/, '_original_no_title.mp4');
-                    try {
-                      await fs.copyFile(outputPath, originalBackupPath);
-                      logger.info(`Created backup of original video: ${path.basename(originalBackupPath)}`);
-                    } catch (backupError) {
-                      logger.warn(`Failed to create backup: ${backupError}`);
-                    }
-                    
-                    const videoWithTitlePath = await addTitleToVideo(outputPath, socialContent.titlePath);
-                    
-                    // Replace original video with version that has title
-                    await fs.rename(videoWithTitlePath, outputPath);
-                    
-                    console.log(`   ✅ Title overlay added to video: ${path.basename(outputPath)}`);
-                    logger.info(`Title overlay added to segment ${i + 1}: ${outputPath}`);
-                  } catch (overlayError) {
-                    // Log error but don't fail the entire process
-                    console.warn(`   ⚠️  Failed to add title overlay to segment ${i + 1}: ${overlayError instanceof Error ? overlayError.message : 'Unknown error'}`);
-                    logger.warn(`Failed to add title overlay to segment ${i + 1}: ${overlayError}`);
-                  }
-                } catch (socialError) {
-                  // Log error but don't fail the entire process
-                  console.warn(`   ⚠️  Failed to generate social media content for segment ${i + 1}: ${socialError instanceof Error ? socialError.message : 'Unknown error'}`);
-                  logger.warn(`Failed to generate social media content for segment ${i + 1}: ${socialError}`);
-                }
-              }
-            } catch (summaryError) {
-              // Log error but don't fail the entire process
-              console.warn(`   ⚠️  Failed to summarize segment ${i + 1}: ${summaryError instanceof Error ? summaryError.message : 'Unknown error'}`);
-              logger.warn(`Failed to summarize segment ${i + 1}: ${summaryError}`);
-            }
-          } catch (transcriptionError) {
-            // Log error but don't fail the entire process
-            console.warn(`   ⚠️  Failed to transcribe segment ${i + 1}: ${transcriptionError instanceof Error ? transcriptionError.message : 'Unknown error'}`);
-            logger.warn(`Failed to transcribe segment ${i + 1}: ${transcriptionError}`);
-          }
-          
-          resolve();
-        })
-        .on('error', (err) => {
-          console.error(`   ❌ Error processing segment ${i + 1}: ${err.message}`);
-          logger.error(`Error processing segment ${i + 1}: ${err.message}`);
-          reject(new Error(`Failed to process segment ${i + 1}: ${err.message}`));
-        })
-        .run();
+    const stageOptions = (stage: SplitStage): SegmentStageOptions => ({
+      segmentNumber,
+      onProgress: (percent) => reportProgress(i, stage, percent),
+      signal
     });
 
-    outputSegments.push({
+    const renders = await encodeSegment(inputPath, segment, outputPath, { ...stageOptions('encode'), framing, formats, source });
+    let transcript: SegmentTranscript | undefined;
+    let summary: SegmentSummary | undefined;
+    let title: SegmentTitle | undefined;
+
+    // Transcribe the segment and save to .txt file
+    try {
+      console.log(`   🎤 Transcribing segment ${segmentNumber}...`);
+      reportProgress(i, 'transcribe', 0);
+      const transcription = await sourceTranscription;
+      signal?.throwIfAborted();
+      const result = await transcribeSegment(outputPath, segment.duration, {
+        ...stageOptions('transcribe'),
+        wordTimestamps: captions,
+        source: transcription && { transcription, startTime: segment.startTime }
+      });
+      transcript = result.transcript;
+      const { words } = result.transcription;
+
+      // Burn word-by-word captions into every render (before the title backup is taken)
+      if (captions) {
+        if (words && words.length > 0) {
+          await captionSegment(renders, words, stageOptions('captions'));
+        } else {
+          logger.warn(`No word timestamps for segment ${segmentNumber}, skipping captions`);
+        }
+      }
+
+      // Summarize the transcription and save to _summary.txt file
+      try {
+        reportProgress(i, 'summarize', 0);
+        summary = await summarizeSegment(transcript.path, stageOptions('summarize'));
+      } catch (summaryError) {
+        if (signal?.aborted) {
+          throw summaryError;
+        }
+        // Log error but don't fail the entire process
+        console.warn(`   ⚠️  Failed to summarize segment ${segmentNumber}: ${summaryError instanceof Error ? summaryError.message : 'Unknown error'}`);
+        logger.warn(`Failed to summarize segment ${segmentNumber}: ${summaryError}`);
+      }
+
+      // Generate the social media title and description, and draw the title over the renders
+      try {
+        reportProgress(i, 'summarize', 50);
+        title = await titleSegment(transcript.path, renders, { ...stageOptions('title'), framing });
+      } catch (socialError) {
+        if (signal?.aborted) {
+          throw socialError;
+        }
+        // Log error but don't fail the entire process
+        console.warn(`   ⚠️  Failed to generate social media content for segment ${segmentNumber}: ${socialError instanceof Error ? socialError.message : 'Unknown error'}`);
+        logger.warn(`Failed to generate social media content for segment ${segmentNumber}: ${socialError}`);
+      }
+    } catch (transcriptionError) {
+      // Cancelled: stop here instead of carrying on without this step
+      if (signal?.aborted) {
+        throw transcriptionError;
+      }
+      // Log error but don't fail the entire process
+      console.warn(`   ⚠️  Failed to transcribe segment ${segmentNumber}: ${transcriptionError instanceof Error ? transcriptionError.message : 'Unknown error'}`);
+      logger.warn(`Failed to transcribe segment ${segmentNumber}: ${transcriptionError}`);
+    }
+
+    reportProgress(i, 'title', 100);
+    return {
       startTime: segment.startTime,
       endTime: segment.endTime,
       duration: segment.duration,
-      outputPath
-    });
-  }
+      outputPath,
+      renders,
+      transcript,
+      summary,
+      title
+    };
+  };
+
+  const workers = Math.min(concurrency, segments.length);
+  logger.info(`Processing ${segments.length} segments, ${workers} at a time`);
+  const outputSegments = await mapWithConcurrency(segments, concurrency, processSegment);
 
   console.log(`\n🎉 All ${outputSegments.length} segments processed successfully!`);
 
@@ -3,6 +3,8 @@ import path from 'path';
 import fs from 'fs/promises';
 import { createCanvas } from 'canvas';
 import { logger } from './logger';
+import { killOnAbort } from './abort';
+import { FramingMode, getTitleTop } from './framing';
 
 export interface TextOverlayOptions {
   text: string;
@@ -137,11 +139,13 @@ async function generateTextImage(
  * 
  * This is an alternative to subtitles filter that doesn't require libass.
  * Generates a PNG image with text and overlays it on the video.
+ * FFmpeg is killed when `signal` is aborted.
  */
 export async function addTextOverlayToVideo(
   inputPath: string,
   outputPath: string,
-  options: TextOverlayOptions
+  options: TextOverlayOptions,
+  signal?: AbortSignal
 ): Promise<void> {
   // Get video dimensions
   const videoMetadata = await new Promise<{ width: number; height: number }>((resolve, reject) => {
@@ -173,8 +177,7 @@ export async function addTextOverlayToVideo(
   );
 
   // Calculate overlay position - center horizontally, position in top black bar
-  // For 9:16 videos (1920px height), top black bar is ~0-288px (15%)
-  // Center the text vertically in the black bar area
+  // The bar depends on the output format (none in 16:9), so it is derived from the video's size
   let yPosition: number;
   if (options.y !== undefined) {
     // If y is provided as a ratio, convert to pixels
@@ -183,12 +186,8 @@ export async function addTextOverlayToVideo(
     switch (options.position || 'top') {
       case 'top':
         // Position in the top black bar area, lower to match user's red box
-        // Position at ~14% from top (269px for 1920px height) to be lower in the black bar
-        // User requested to lower it a bit more
-        const blackBarPosition = Math.round(videoMetadata.height * 0.14); // 14% from top
-        yPosition = blackBarPosition - Math.round(imageHeight / 2) + 5; // Center the text box vertically + 5px down
-        // Ensure it doesn't go negative
-        yPosition = Math.max(0, yPosition);
+        // At most ~14% from top (269px for 1920px height) to be lower in the black bar
+        yPosition = getTitleTop(videoMetadata, imageHeight);
         break;
       case 'bottom':
         // Center vertically in the bottom black bar (85-100% of height)
@@ -201,8 +200,7 @@ export async function addTextOverlayToVideo(
         yPosition = Math.round((videoMetadata.height - imageHeight) / 2);
         break;
       default:
-        const defaultBlackBarPosition = Math.round(videoMetadata.height * 0.14);
-        yPosition = Math.max(0, defaultBlackBarPosition - Math.round(imageHeight / 2) + 5); // +5px down
+        yPosition = getTitleTop(videoMetadata, imageHeight);
     }
   }
 
@@ -221,7 +219,7 @@ export async function addTextOverlayToVideo(
 
     // Overlay filter: center horizontally, position vertically
     // Position is calculated to ensure overlay stays within video bounds
-    ffmpeg(absoluteInputPath)
+    const command = ffmpeg(absoluteInputPath)
       .input(absoluteImagePath)
       .complexFilter([
         `[0:v][1:v]overlay=${overlayX}:${overlayY}[out]`
@@ -265,18 +263,44 @@ export async function addTextOverlayToVideo(
         }
         logger.error(`Error adding text overlay: ${err.message}`);
         reject(new Error(`Failed to add text overlay: ${err.message}`));
-      })
-      .run();
+      });
+    killOnAbort(command, signal);
+    command.run();
   });
 }
 
+/**
+ * Overlay options for a segment title
+ *
+ * The box is semi-opaque over the black bars of 'letterbox'. 'blur-fill' keeps
+ * the same picture geometry, so the title lands in the same top band, but the
+ * band shows blurred video: the box is drawn opaque there to stay readable.
+ */
+export function getTitleOverlayOptions(text: string, framing: FramingMode = 'letterbox'): TextOverlayOptions {
+  return {
+    text,
+    position: 'top',
+    fontSize: 56, // Slightly larger for better visibility
+    fontColor: 'white',
+    backgroundColor: 'black',
+    backgroundColorOpacity: framing === 'blur-fill' ? 1 : 0.8, // More opaque background for better readability
+    padding: 25, // More padding for better visibility
+    fontWeight: 'bold', // Bold font for better visibility
+    x: 0.5 // Center horizontally
+  };
+}
+
 /**
  * Add title text to video segment from title file
+ * The title style follows the segment's framing (see `getTitleOverlayOptions`).
+ * FFmpeg is killed when `signal` is aborted.
  */
 export async function addTitleToVideo(
   videoPath: string,
   titleFilePath?: string,
-  outputPath?: string
+  outputPath?: string,
+  signal?: AbortSignal,
+  framing?: FramingMode
 ): Promise<string> {
   // If title file not provided, try to find it
   if (!titleFilePath) {
@@ -302,17 +326,7 @@ export async function addTitleToVideo(
   const finalOutputPath = outputPath || videoPath.replace(/\.mp4$/, '_with_title.mp4');
 
   // Add text overlay - positioned in top black bar, centered horizontally
-  await addTextOverlayToVideo(videoPath, finalOutputPath, {
-    text: titleText,
-    position: 'top',
-    fontSize: 56, // Slightly larger for better visibility
-    fontColor: 'white',
-    backgroundColor: 'black',
-    backgroundColorOpacity: 0.8, // More opaque background for better readability
-    padding: 25, // More padding for better visibility
-    fontWeight: 'bold', // Bold font for better visibility
-    x: 0.5 // Center horizontally
-  });
+  await addTextOverlayToVideo(videoPath, finalOutputPath, getTitleOverlayOptions(titleText, framing), signal);
 
   return finalOutputPath;
 }
@@ -2,6 +2,7 @@ import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
 import { Toaster } from 'react-hot-toast';
 import { StructuredData } from '@/components/StructuredData';
+import { SessionRestore } from '@/components/SessionRestore';
 import './globals.css';
 
 const inter = Inter({ subsets: ['latin'], display: 'swap' });
@@ -67,6 +68,7 @@ export default function RootLayout({
         <StructuredData />
       </head>
       <body className={inter.className}>
+        <SessionRestore />
         {children}
         <Toaster
           position="top-right"
@@ -0,0 +1,119 @@
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { useRouter } from 'next/navigation';
+import LibraryPage from '../page';
+import { useVideoStore } from '@/store/videoStore';
+import { getLibraryVideo, getVideoThumbnailUrl, LibraryVideo, listVideos } from '@/services/api';
+
+jest.mock('@/services/api');
+jest.mock('next/navigation', () => ({
+  useRouter: jest.fn(),
+}));
+jest.mock('react-hot-toast', () => ({
+  __esModule: true,
+  default: {
+    success: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const video: LibraryVideo = {
+  id: 'video-1',
+  originalName: 'talk.mp4',
+  status: 'ready',
+  metadata: { duration: 125, width: 1920, height: 1080, format: 'mp4', size: 1024 },
+  formats: ['9:16'],
+  captions: false,
+  createdAt: '2024-05-01T10:00:00.000Z',
+  updatedAt: '2024-05-01T10:05:00.000Z',
+  segmentCount: 2,
+  uploaded: false,
+};
+
+const waitForList = () =>
+  waitFor(() => expect(screen.getByRole('region', { name: 'Processed videos' })).toHaveAttribute('aria-busy', 'false'));
+
+const page = (videos: LibraryVideo[], pageNumber = 1, totalPages = 1) => ({
+  videos,
+  page: pageNumber,
+  pageSize: 12,
+  total: videos.length * totalPages,
+  totalPages,
+});
+
+describe('LibraryPage', () => {
+  const push = jest.fn();
+
+  beforeEach(() => {
+    useVideoStore.getState().reset();
+    (useRouter as jest.Mock).mockReturnValue({ push });
+    (getVideoThumbnailUrl as jest.Mock).mockImplementation((id: string) => `/api/videos/${id}/thumbnail`);
+    (listVideos as jest.Mock).mockResolvedValue(page([video]));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends the search once typing pauses', async () => {
+    jest.useFakeTimers();
+    render(<LibraryPage />);
+    await waitForList();
+
+    fireEvent.change(screen.getByRole('searchbox'), { target: { value: ' pri' } });
+    await act(async () => { jest.advanceTimersByTime(100); });
+    fireEvent.change(screen.getByRole('searchbox'), { target: { value: ' pricing ' } });
+    await act(async () => { jest.advanceTimersByTime(299); });
+    expect(listVideos).not.toHaveBeenCalledWith(expect.objectContaining({ q: expect.anything() }));
+
+    await act(async () => { jest.advanceTimersByTime(1); });
+
+    await waitFor(() => expect(listVideos).toHaveBeenLastCalledWith(expect.objectContaining({ q: 'pricing', page: 1 })));
+    expect(listVideos).not.toHaveBeenCalledWith(expect.objectContaining({ q: 'pri' }));
+    await waitForList();
+  });
+
+  it('goes back to the first page when a filter changes', async () => {
+    (listVideos as jest.Mock).mockImplementation(async ({ page: pageNumber }) => page([video], pageNumber, 3));
+    render(<LibraryPage />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Next →' }));
+    await waitFor(() => expect(listVideos).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 })));
+    expect(await screen.findByText(/Page 2 of 3/)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Status'), { target: { value: 'ready' } });
+
+    await waitFor(() => expect(listVideos).toHaveBeenLastCalledWith(expect.objectContaining({ page: 1, status: 'ready' })));
+    await waitForList();
+  });
+
+  it('invites to split a video when the library is empty', async () => {
+    (listVideos as jest.Mock).mockResolvedValue(page([]));
+    render(<LibraryPage />);
+
+    expect(await screen.findByText('No processed videos yet.')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Upload and split a video' })).toHaveAttribute('href', '/');
+  });
+
+  it('says when no video matches the filters', async () => {
+    render(<LibraryPage />);
+    await screen.findByText('talk.mp4');
+    (listVideos as jest.Mock).mockResolvedValue(page([]));
+
+    fireEvent.change(screen.getByLabelText('Google Drive'), { target: { value: 'true' } });
+
+    expect(await screen.findByText('No videos match these filters.')).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'Upload and split a video' })).not.toBeInTheDocument();
+  });
+
+  it('opens a video for review with its segments', async () => {
+    const segments = [{ segmentNumber: 1, startTime: 0, endTime: 10, duration: 10, downloadUrl: '/api/videos/download/segment_1_abc.mp4' }];
+    (getLibraryVideo as jest.Mock).mockResolvedValue({ ...video, segments });
+    render(<LibraryPage />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Open talk.mp4' }));
+
+    await waitFor(() => expect(push).toHaveBeenCalledWith('/review'));
+    expect(getLibraryVideo).toHaveBeenCalledWith('video-1');
+    expect(useVideoStore.getState()).toMatchObject({ videoId: 'video-1', videoName: 'talk.mp4', segments });
+  });
+});
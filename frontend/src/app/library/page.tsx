@@ -0,0 +1,329 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import axios from 'axios';
+import {
+  getLibraryVideo,
+  getVideoThumbnailUrl,
+  LibraryVideo,
+  ListVideosParams,
+  listVideos,
+  VideoList,
+} from '@/services/api';
+import { useVideoStore } from '@/store/videoStore';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { DarkModeToggle } from '@/components/ui/DarkModeToggle';
+import { LoadingSkeleton } from '@/components/ui/LoadingSkeleton';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import toast from 'react-hot-toast';
+
+const PAGE_SIZE = 12;
+
+/** Delay after the last keystroke before the search is sent */
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_OPTIONS: Record<string, { label: string; sort: ListVideosParams['sort']; order: ListVideosParams['order'] }> = {
+  newest: { label: 'Newest first', sort: 'createdAt', order: 'desc' },
+  oldest: { label: 'Oldest first', sort: 'createdAt', order: 'asc' },
+  longest: { label: 'Longest first', sort: 'duration', order: 'desc' },
+  shortest: { label: 'Shortest first', sort: 'duration', order: 'asc' },
+  name: { label: 'Name (A-Z)', sort: 'name', order: 'asc' },
+};
+
+const selectClassName =
+  'px-3 py-2 border rounded-md shadow-sm border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-primary-500 focus:border-primary-500';
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+/** Message of the API's error response, else of the error itself */
+function getErrorMessage(err: unknown, fallback: string): string {
+  if (axios.isAxiosError<{ error?: { message?: string } }>(err) && err.response?.data?.error?.message) {
+    return err.response.data.error.message;
+  }
+  return (err instanceof Error && err.message) || fallback;
+}
+
+function VideoCard({
+  video,
+  opening,
+  onOpen,
+}: {
+  video: LibraryVideo;
+  opening: boolean;
+  onOpen: (video: LibraryVideo) => void;
+}) {
+  const canOpen = video.status === 'ready' && video.segmentCount > 0;
+
+  return (
+    <article className="rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 overflow-hidden shadow-sm flex flex-col">
+      <div className="relative aspect-video bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
+        {canOpen ? (
+          <Image
+            src={getVideoThumbnailUrl(video.id)}
+            alt=""
+            fill
+            unoptimized
+            className="object-contain"
+          />
+        ) : (
+          <span className="text-sm text-gray-400 dark:text-gray-500 italic">
+            {video.status === 'processing' ? 'Processing…' : 'No segments'}
+          </span>
+        )}
+      </div>
+
+      <div className="p-4 flex flex-col gap-2 flex-1">
+        <h2 className="font-semibold text-gray-900 dark:text-white truncate" title={video.originalName}>
+          {video.originalName}
+        </h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {new Date(video.createdAt).toLocaleString()}
+        </p>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {formatTime(video.metadata.duration)} · {video.segmentCount} segment{video.segmentCount !== 1 ? 's' : ''}
+        </p>
+        <p>
+          <span
+            className={
+              video.uploaded
+                ? 'inline-block text-xs font-medium px-2 py-0.5 rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                : 'inline-block text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+            }
+          >
+            {video.uploaded ? 'Uploaded to Drive' : 'Not uploaded'}
+          </span>
+        </p>
+        <div className="mt-auto pt-2">
+          <Button
+            size="sm"
+            onClick={() => onOpen(video)}
+            isLoading={opening}
+            disabled={!canOpen}
+            aria-label={`Open ${video.originalName}`}
+          >
+            Open
+          </Button>
+        </div>
+      </div>
+    </article>
+  );
+}
+
+export default function LibraryPage() {
+  const router = useRouter();
+  const { reset, setVideoId, setVideoName, setSegments } = useVideoStore();
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState('newest');
+  const [status, setStatus] = useState<ListVideosParams['status'] | ''>('');
+  const [uploaded, setUploaded] = useState<'' | 'true' | 'false'>('');
+  const [page, setPage] = useState(1);
+  const [list, setList] = useState<VideoList | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setQuery(search.trim());
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    const { sort, order } = SORT_OPTIONS[sortKey];
+    listVideos({
+      page,
+      pageSize: PAGE_SIZE,
+      sort,
+      order,
+      ...(status && { status }),
+      ...(uploaded && { uploaded: uploaded === 'true' }),
+      ...(query && { q: query }),
+    })
+      .then((result) => {
+        if (!cancelled) setList(result);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(getErrorMessage(err, 'Failed to load the library'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [page, sortKey, status, uploaded, query, reloadCount]);
+
+  const handleOpen = async (video: LibraryVideo) => {
+    setOpeningId(video.id);
+    try {
+      const detail = await getLibraryVideo(video.id);
+      reset();
+      setVideoId(detail.id);
+      setVideoName(detail.originalName);
+      setSegments(detail.segments);
+      router.push('/review');
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Failed to open the video'));
+      setOpeningId(null);
+    }
+  };
+
+  const filtersActive = Boolean(query || status || uploaded);
+
+  return (
+    <ErrorBoundary>
+      <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+        <div className="container mx-auto px-4 py-8">
+          <header className="flex flex-wrap items-center justify-between gap-4 mb-8">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/"
+                className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                aria-label="Back to home"
+              >
+                ← Back
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Library
+              </h1>
+            </div>
+            <DarkModeToggle />
+          </header>
+
+          <div className="max-w-6xl mx-auto space-y-8">
+            {/* Search and filters */}
+            <section className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6 flex flex-wrap items-end gap-4">
+              <div className="flex-1 min-w-[240px]">
+                <Input
+                  label="Search transcripts and titles"
+                  type="search"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="e.g. pricing"
+                />
+              </div>
+              <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300 gap-2">
+                Sort
+                <select
+                  value={sortKey}
+                  onChange={(e) => { setSortKey(e.target.value); setPage(1); }}
+                  className={selectClassName}
+                >
+                  {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+                    <option key={key} value={key}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300 gap-2">
+                Status
+                <select
+                  value={status}
+                  onChange={(e) => { setStatus(e.target.value as ListVideosParams['status'] | ''); setPage(1); }}
+                  className={selectClassName}
+                >
+                  <option value="">All</option>
+                  <option value="ready">Ready</option>
+                  <option value="processing">Processing</option>
+                </select>
+              </label>
+              <label className="flex flex-col text-sm font-medium text-gray-700 dark:text-gray-300 gap-2">
+                Google Drive
+                <select
+                  value={uploaded}
+                  onChange={(e) => { setUploaded(e.target.value as '' | 'true' | 'false'); setPage(1); }}
+                  className={selectClassName}
+                >
+                  <option value="">All</option>
+                  <option value="true">Uploaded</option>
+                  <option value="false">Not uploaded</option>
+                </select>
+              </label>
+            </section>
+
+            {/* Videos */}
+            <section aria-label="Processed videos" aria-busy={loading}>
+              {error ? (
+                <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-6 flex items-center justify-between gap-4">
+                  <p className="text-red-800 dark:text-red-200">{error}</p>
+                  <Button variant="outline" onClick={() => setReloadCount((count) => count + 1)}>
+                    Retry
+                  </Button>
+                </div>
+              ) : loading && !list ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {Array.from({ length: 3 }).map((_, i) => (
+                    <LoadingSkeleton key={i} height={280} className="rounded-xl" />
+                  ))}
+                </div>
+              ) : list && list.videos.length === 0 ? (
+                <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-12 text-center">
+                  <p className="text-lg text-gray-600 dark:text-gray-400 mb-4">
+                    {filtersActive ? 'No videos match these filters.' : 'No processed videos yet.'}
+                  </p>
+                  {!filtersActive && (
+                    <Link
+                      href="/"
+                      className="text-primary-600 dark:text-primary-400 font-medium hover:underline"
+                    >
+                      Upload and split a video
+                    </Link>
+                  )}
+                </div>
+              ) : list && (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {list.videos.map((video) => (
+                      <VideoCard
+                        key={video.id}
+                        video={video}
+                        opening={openingId === video.id}
+                        onOpen={handleOpen}
+                      />
+                    ))}
+                  </div>
+
+                  {list.totalPages > 1 && (
+                    <nav className="flex items-center justify-center gap-4 mt-8" aria-label="Pagination">
+                      <Button
+                        variant="ghost"
+                        onClick={() => setPage(page - 1)}
+                        disabled={page <= 1 || loading}
+                      >
+                        ← Previous
+                      </Button>
+                      <span className="text-sm text-gray-600 dark:text-gray-400">
+                        Page {list.page} of {list.totalPages} · {list.total} videos
+                      </span>
+                      <Button
+                        variant="ghost"
+                        onClick={() => setPage(page + 1)}
+                        disabled={page >= list.totalPages || loading}
+                      >
+                        Next →
+                      </Button>
+                    </nav>
+                  )}
+                </>
+              )}
+            </section>
+          </div>
+        </div>
+      </main>
+    </ErrorBoundary>
+  );
+}
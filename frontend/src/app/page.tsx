@@ -1,5 +1,6 @@
 'use client';
 
+import Link from 'next/link';
 import { VideoUploader } from '@/components/VideoUploader';
 import { VideoPlayer } from '@/components/VideoPlayer';
 import { SegmentsList } from '@/components/SegmentsList';
@@ -19,7 +20,13 @@ export default function Home() {
       <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
         <div className="container mx-auto px-4 py-8">
           <header className="text-center mb-12 relative">
-            <div className="absolute top-0 right-0">
+            <div className="absolute top-0 right-0 flex items-center gap-4">
+              <Link
+                href="/library"
+                className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white font-medium"
+              >
+                Library
+              </Link>
               <DarkModeToggle />
             </div>
             <h1 className="text-5xl font-bold text-gray-900 dark:text-white mb-4">
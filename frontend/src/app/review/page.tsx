@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { DarkModeToggle } from '@/components/ui/DarkModeToggle';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { TimelineEditor } from '@/components/TimelineEditor';
 import toast from 'react-hot-toast';
 
 function formatTime(seconds: number): string {
@@ -38,6 +39,11 @@ function SegmentCard({
         <p className="text-sm text-gray-500 dark:text-gray-400">
           {formatTime(segment.startTime)} – {formatTime(segment.endTime)} · Duration {formatTime(segment.duration)}
         </p>
+        {segment.score !== undefined && (
+          <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+            Highlight score {segment.score}/10{segment.rationale ? ` · ${segment.rationale}` : ''}
+          </p>
+        )}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-0">
@@ -80,9 +86,8 @@ function SegmentCard({
 }
 
 export default function ReviewPage() {
-  const { segments, videoId, videoFile } = useVideoStore();
+  const { segments, videoId, videoName, driveFolderName: folderName, setDriveFolderName: setFolderName } = useVideoStore();
   const [summaries, setSummaries] = useState<Record<number, string>>({});
-  const [folderName, setFolderName] = useState('');
   const [uploadingAll, setUploadingAll] = useState(false);
   const [uploadedAll, setUploadedAll] = useState(false);
   const [driveStatus, setDriveStatus] = useState<{ configured: boolean; authenticated: boolean } | null>(null);
@@ -160,21 +165,29 @@ export default function ReviewPage() {
         <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
           <div className="container mx-auto px-4 py-16 text-center">
             <p className="text-lg text-gray-600 dark:text-gray-400 mb-4">
-              No processed segments. Upload and split a video first.
+              No processed segments. Upload and split a video first, or open one from the library.
             </p>
-            <Link
-              href="/"
-              className="text-primary-600 dark:text-primary-400 font-medium hover:underline"
-            >
-              ← Back to home
-            </Link>
+            <div className="flex justify-center gap-6">
+              <Link
+                href="/"
+                className="text-primary-600 dark:text-primary-400 font-medium hover:underline"
+              >
+                ← Back to home
+              </Link>
+              <Link
+                href="/library"
+                className="text-primary-600 dark:text-primary-400 font-medium hover:underline"
+              >
+                Open the library
+              </Link>
+            </div>
           </div>
         </main>
       </ErrorBoundary>
     );
   }
 
-  const videoLabel = videoFile?.name || (videoId ? `Video ${videoId}` : 'Processed video');
+  const videoLabel = videoName || (videoId ? `Video ${videoId}` : 'Processed video');
 
   return (
     <ErrorBoundary>
@@ -232,6 +245,9 @@ export default function ReviewPage() {
               </section>
             )}
 
+            {/* Timeline */}
+            <TimelineEditor />
+
             {/* Video + segments */}
             <section className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6">
               <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
@@ -17,9 +17,8 @@ import toast from 'react-hot-toast';
  * - Requires a folder name; always uploads all segments together to that folder.
  */
 export function GoogleDriveUpload() {
-  const { segments, videoId } = useVideoStore();
+  const { segments, videoId, driveFolderName: folderName, setDriveFolderName: setFolderName } = useVideoStore();
   const [status, setStatus] = useState<GoogleDriveStatus | null>(null);
-  const [folderName, setFolderName] = useState('');
   const [uploadingAll, setUploadingAll] = useState(false);
   const [uploadedAll, setUploadedAll] = useState(false);
   const [shareLink, setShareLink] = useState<string | null>(null);
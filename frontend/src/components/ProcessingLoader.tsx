@@ -1,53 +1,116 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
 import { useVideoStore } from '@/store/videoStore';
+import { cancelJob, subscribeToJobEvents, JobProgress, JobStatus } from '@/services/api';
+import { Button } from './ui/Button';
 
-/** Simulated progress: reach ~90% over this many ms (long videos may take longer) */
-const PROGRESS_DURATION_MS = 55000;
-const PROGRESS_CAP = 90;
+/** Names shown for the stages reported by split jobs */
+const STAGE_LABELS: Record<string, string> = {
+  plan: 'Planning segments',
+  encode: 'Encoding',
+  transcribe: 'Transcribing',
+  captions: 'Adding captions to',
+  summarize: 'Summarizing',
+  title: 'Adding title to',
+};
+
+/**
+ * Describes what the job is doing, e.g. "Encoding segment 2 of 5"
+ */
+const describeProgress = (
+  jobId: string | null,
+  uploadProgress: number | null,
+  status: JobStatus | null,
+  progress: JobProgress | null,
+  queuePosition: number
+): string => {
+  if (!jobId) {
+    return uploadProgress !== null ? `Uploading video (${uploadProgress}%)...` : 'Uploading video...';
+  }
+  if (status === 'queued') {
+    return queuePosition > 0
+      ? `Waiting in queue (${queuePosition} ${queuePosition === 1 ? 'job' : 'jobs'} ahead)...`
+      : 'Waiting in queue...';
+  }
+  if (!progress) {
+    return 'Starting...';
+  }
+
+  const label = STAGE_LABELS[progress.stage] || progress.stage;
+  return progress.segment && progress.totalSegments
+    ? `${label} segment ${progress.segment} of ${progress.totalSegments}`
+    : `${label}...`;
+};
 
 /**
  * Full-screen loader overlay that displays while videos are being processed
  *
- * Shows a prominent loading indicator with progress bar and message.
- * Progress bar simulates progress (backend does not stream progress).
+ * Shows the upload progress while the video is sent, then follows the split
+ * job over Server-Sent Events and shows the real overall progress, the current stage and segment, and the progress of that stage.
+ * Once the job is queued it can be cancelled; the overlay closes when the
+ * uploader sees the job cancelled.
  *
  * @component
  * @returns {JSX.Element | null} Processing loader overlay or null if not processing
  */
 export function ProcessingLoader() {
-  const { isProcessing } = useVideoStore();
-  const [progress, setProgress] = useState(0);
+  const { isProcessing, jobId, uploadProgress } = useVideoStore();
+  const [status, setStatus] = useState<JobStatus | null>(null);
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+  const [queuePosition, setQueuePosition] = useState(0);
+  const [isCancelling, setIsCancelling] = useState(false);
 
   useEffect(() => {
-    if (!isProcessing) {
-      setProgress(0);
+    setStatus(null);
+    setProgress(null);
+    setQueuePosition(0);
+    setIsCancelling(false);
+    if (!isProcessing || !jobId) {
       return;
     }
-    setProgress(0);
-    const start = Date.now();
-    const tick = () => {
-      const elapsed = Date.now() - start;
-      const p = Math.min((elapsed / PROGRESS_DURATION_MS) * PROGRESS_CAP, PROGRESS_CAP);
-      setProgress(Math.round(p));
-    };
-    const id = setInterval(tick, 200);
-    tick();
-    return () => clearInterval(id);
-  }, [isProcessing]);
+
+    return subscribeToJobEvents(jobId, {
+      onStatus: (job) => {
+        setStatus(job.status);
+        setQueuePosition(job.queuePosition ?? 0);
+        if (job.status === 'completed') {
+          setProgress((current) => current && { ...current, percent: 100, overallPercent: 100 });
+        }
+      },
+      onProgress: setProgress,
+    });
+  }, [isProcessing, jobId]);
+
+  const handleCancel = async () => {
+    if (!jobId) {
+      return;
+    }
+
+    setIsCancelling(true);
+    try {
+      await cancelJob(jobId);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error?.message || 'Failed to cancel processing');
+      setIsCancelling(false);
+    }
+  };
 
   if (!isProcessing) {
     return null;
   }
 
+  const overallPercent = jobId ? progress?.overallPercent ?? 0 : uploadProgress ?? 0;
+  const message = isCancelling ? 'Cancelling...' : describeProgress(jobId, uploadProgress, status, progress, queuePosition);
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
       role="status"
       aria-live="polite"
       aria-label="Processing videos"
-      aria-valuenow={progress}
+      aria-valuenow={overallPercent}
       aria-valuemin={0}
       aria-valuemax={100}
     >
@@ -64,20 +127,33 @@ export function ProcessingLoader() {
         <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
           Processing Videos
         </h3>
-        <p className="text-gray-600 dark:text-gray-400 mb-6">
-          Please wait while we split your video into segments...
+        <p className="text-gray-600 dark:text-gray-400 mb-6" data-testid="processing-stage">
+          {message}
         </p>
 
         {/* Progress bar */}
         <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3 overflow-hidden">
           <div
             className="h-full bg-primary-600 dark:bg-primary-500 rounded-full transition-[width] duration-300 ease-out"
-            style={{ width: `${progress}%` }}
+            style={{ width: `${overallPercent}%` }}
           />
         </div>
-        <p className="text-sm text-gray-500 dark:text-gray-400 mt-2 tabular-nums">
-          {progress}%
-        </p>
+        <div className="flex justify-between text-sm text-gray-500 dark:text-gray-400 mt-2 tabular-nums">
+          <span>{progress && progress.stage !== 'plan' ? `This step: ${progress.percent}%` : ''}</span>
+          <span>{overallPercent}%</span>
+        </div>
+
+        {jobId && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mt-6"
+            onClick={handleCancel}
+            isLoading={isCancelling}
+          >
+            Cancel
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -12,7 +12,7 @@ import toast from 'react-hot-toast';
  * 
  * Features:
  * - Lists all generated segments with timing information
- * - Download functionality for each segment
+ * - Download functionality for each segment, one button per aspect ratio when several were rendered
  * - Empty state when no segments available
  * - Accessible with ARIA labels
  * 
@@ -24,12 +24,13 @@ import toast from 'react-hot-toast';
  */
 export function SegmentsList() {
   const { segments, isProcessing } = useVideoStore();
-  const [downloadingId, setDownloadingId] = useState<number | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
 
-  const handleDownload = async (segment: VideoSegment) => {
-    setDownloadingId(segment.segmentNumber);
+  const handleDownload = async (segment: VideoSegment, format?: { format: string; downloadUrl: string }) => {
+    const label = format ? `segment ${segment.segmentNumber} (${format.format})` : `segment ${segment.segmentNumber}`;
+    setDownloadingId(`${segment.segmentNumber}-${format?.format ?? ''}`);
     try {
-      const url = `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3051'}${segment.downloadUrl}`;
+      const url = `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3051'}${format?.downloadUrl ?? segment.downloadUrl}`;
       const response = await fetch(url);
       
       if (!response.ok) {
@@ -40,15 +41,17 @@ export function SegmentsList() {
       const downloadUrl = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = downloadUrl;
-      link.download = `segment_${segment.segmentNumber}.mp4`;
+      link.download = format
+        ? `segment_${segment.segmentNumber}_${format.format.replace(':', 'x')}.mp4`
+        : `segment_${segment.segmentNumber}.mp4`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
       window.URL.revokeObjectURL(downloadUrl);
-      toast.success(`Downloaded segment ${segment.segmentNumber}`);
+      toast.success(`Downloaded ${label}`);
     } catch (error: any) {
       console.error('Download failed:', error);
-      toast.error(`Failed to download segment ${segment.segmentNumber}`);
+      toast.error(`Failed to download ${label}`);
     } finally {
       setDownloadingId(null);
     }
@@ -121,15 +124,31 @@ export function SegmentsList() {
               </span>
             </div>
           </div>
-          <Button
-            onClick={() => handleDownload(segment)}
-            isLoading={downloadingId === segment.segmentNumber}
-            size="sm"
-            aria-label={`Download segment ${segment.segmentNumber}`}
-            className="ml-4 flex-shrink-0"
-          >
-            Download
-          </Button>
+          {segment.formats && segment.formats.length > 1 ? (
+            <div className="ml-4 flex flex-shrink-0 flex-wrap justify-end gap-2">
+              {segment.formats.map((format) => (
+                <Button
+                  key={format.format}
+                  onClick={() => handleDownload(segment, format)}
+                  isLoading={downloadingId === `${segment.segmentNumber}-${format.format}`}
+                  size="sm"
+                  aria-label={`Download segment ${segment.segmentNumber} in ${format.format}`}
+                >
+                  {format.format}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <Button
+              onClick={() => handleDownload(segment)}
+              isLoading={downloadingId === `${segment.segmentNumber}-`}
+              size="sm"
+              aria-label={`Download segment ${segment.segmentNumber}`}
+              className="ml-4 flex-shrink-0"
+            >
+              Download
+            </Button>
+          )}
         </div>
       ))}
     </div>
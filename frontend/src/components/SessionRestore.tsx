@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { Button } from './ui/Button';
+import { useVideoStore } from '@/store/videoStore';
+import { getLibraryVideo } from '@/services/api';
+import toast from 'react-hot-toast';
+
+/**
+ * Restores the session saved by `useVideoStore` after a page load
+ *
+ * Rehydrates the store once mounted, then re-fetches the video from the
+ * library so the segments are current. A video that is no longer in the
+ * library is dropped; if the backend cannot be reached, the saved segments are
+ * kept. While a restored session is active, a banner offers to keep or discard it.
+ */
+export function SessionRestore() {
+  const { videoName, segments, sessionRestored, setSessionRestored, reset } = useVideoStore();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      await useVideoStore.persist.rehydrate();
+      const { videoId } = useVideoStore.getState();
+      if (!videoId || cancelled) return;
+
+      useVideoStore.setState({ sessionRestored: true });
+      try {
+        const video = await getLibraryVideo(videoId);
+        if (!cancelled) {
+          useVideoStore.setState({ videoName: video.originalName, segments: video.segments });
+        }
+      } catch (err: any) {
+        if (!cancelled && err.response?.status === 404) {
+          useVideoStore.getState().reset();
+          toast.error('The video from your last session is no longer available');
+        }
+      }
+    })();
+
+    return () => { cancelled = true; };
+  }, []);
+
+  if (!sessionRestored) {
+    return null;
+  }
+
+  const handleDiscard = () => {
+    reset();
+    toast.success('Session discarded');
+  };
+
+  return (
+    <div
+      role="status"
+      className="bg-primary-50 dark:bg-primary-900/20 border-b border-primary-200 dark:border-primary-800"
+    >
+      <div className="container mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-primary-800 dark:text-primary-200">
+          Session restored: <span className="font-medium">{videoName || 'your last video'}</span>
+          {' '}({segments.length} segment{segments.length !== 1 ? 's' : ''})
+        </p>
+        <div className="flex items-center gap-2">
+          {pathname !== '/review' && segments.length > 0 && (
+            <Link
+              href="/review"
+              className="text-sm font-medium text-primary-700 dark:text-primary-300 hover:underline mr-2"
+            >
+              Review segments
+            </Link>
+          )}
+          <Button size="sm" variant="ghost" onClick={() => setSessionRestored(false)}>
+            Keep
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleDiscard}>
+            Discard
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
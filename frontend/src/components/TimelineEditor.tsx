@@ -0,0 +1,368 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { useVideoStore, VideoSegment } from '@/store/videoStore';
+import {
+  addSegment,
+  deleteSegment,
+  getLibraryVideo,
+  getVideoFilmstripUrl,
+  getVideoWaveform,
+  updateSegment,
+  waitForJob,
+} from '@/services/api';
+import { Button } from './ui/Button';
+import { LoadingSkeleton } from './ui/LoadingSkeleton';
+import toast from 'react-hot-toast';
+
+/** Shortest segment the handles can make, in seconds */
+const MIN_SEGMENT_DURATION = 1;
+
+/** Length of a segment added with "Add segment", in seconds */
+const NEW_SEGMENT_DURATION = 10;
+
+/** Handle movement per arrow key press; Shift moves ten times as far */
+const KEYBOARD_STEP = 0.1;
+
+interface DraftSegment {
+  /** Stable key for rendering; new segments have none in the library yet */
+  key: string;
+  /** Segment number in the library, null for a segment added in the editor */
+  segmentNumber: number | null;
+  start: number;
+  end: number;
+}
+
+type Edge = 'start' | 'end';
+
+const toDrafts = (segments: VideoSegment[]): DraftSegment[] =>
+  segments.map((segment) => ({
+    key: `segment-${segment.segmentNumber}`,
+    segmentNumber: segment.segmentNumber,
+    start: segment.startTime,
+    end: segment.endTime,
+  }));
+
+const roundTime = (seconds: number): number => Math.round(seconds * 10) / 10;
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${mins}:${secs}`;
+}
+
+/**
+ * Timeline editor for the segments of a library video
+ *
+ * Features:
+ * - Source waveform and a strip of frames under the segments
+ * - Drag (or arrow keys on) each segment's in/out handles
+ * - Add and delete segments
+ * - Applying renders only the changed and added segments again, one job at a time,
+ *   and deletes the removed ones; the store is then refreshed from the library
+ *
+ * @component
+ * @returns {JSX.Element | null} Timeline editor, or nothing when no video is open
+ *
+ * @example
+ * <TimelineEditor />
+ */
+export function TimelineEditor() {
+  const { videoId, segments, setSegments } = useVideoStore();
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragging = useRef<{ key: string; edge: Edge } | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [filmstripFailed, setFilmstripFailed] = useState(false);
+  const [drafts, setDrafts] = useState<DraftSegment[]>(() => toDrafts(segments));
+  const [deleted, setDeleted] = useState<number[]>([]);
+  const [applying, setApplying] = useState<string | null>(null);
+  const nextKey = useRef(0);
+
+  useEffect(() => {
+    setDrafts(toDrafts(segments));
+    setDeleted([]);
+  }, [segments]);
+
+  useEffect(() => {
+    if (!videoId) return;
+    let cancelled = false;
+
+    getLibraryVideo(videoId)
+      .then((video) => {
+        if (!cancelled) setDuration(video.metadata.duration);
+      })
+      .catch(() => {
+        if (!cancelled) setDuration(null);
+      });
+    // The waveform is decoration: a source without audio simply has none
+    getVideoWaveform(videoId)
+      .then((waveform) => {
+        if (!cancelled) setPeaks(waveform.peaks);
+      })
+      .catch(() => {});
+
+    return () => { cancelled = true; };
+  }, [videoId]);
+
+  if (!videoId) {
+    return null;
+  }
+
+  const original = (segmentNumber: number | null) =>
+    segments.find((segment) => segment.segmentNumber === segmentNumber);
+
+  const isChanged = (draft: DraftSegment): boolean => {
+    const segment = original(draft.segmentNumber);
+    return !segment || segment.startTime !== draft.start || segment.endTime !== draft.end;
+  };
+
+  const pendingCount = drafts.filter(isChanged).length + deleted.length;
+
+  const moveHandle = (key: string, edge: Edge, time: number) => {
+    if (duration === null) return;
+    setDrafts((current) =>
+      current.map((draft) => {
+        if (draft.key !== key) return draft;
+        return edge === 'start'
+          ? { ...draft, start: Math.min(Math.max(roundTime(time), 0), roundTime(draft.end - MIN_SEGMENT_DURATION)) }
+          : { ...draft, end: Math.max(Math.min(roundTime(time), duration), roundTime(draft.start + MIN_SEGMENT_DURATION)) };
+      })
+    );
+  };
+
+  const timeAt = (clientX: number): number | null => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || duration === null) return null;
+    return ((clientX - rect.left) / rect.width) * duration;
+  };
+
+  const handlePointerDown = (key: string, edge: Edge) => (event: React.PointerEvent<HTMLDivElement>) => {
+    if (applying) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    dragging.current = { key, edge };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging.current) return;
+    const time = timeAt(event.clientX);
+    if (time !== null) moveHandle(dragging.current.key, dragging.current.edge, time);
+  };
+
+  const handlePointerUp = () => {
+    dragging.current = null;
+  };
+
+  const handleKeyDown = (draft: DraftSegment, edge: Edge) => (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (applying || (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight')) return;
+    event.preventDefault();
+    const step = (event.shiftKey ? KEYBOARD_STEP * 10 : KEYBOARD_STEP) * (event.key === 'ArrowLeft' ? -1 : 1);
+    moveHandle(draft.key, edge, (edge === 'start' ? draft.start : draft.end) + step);
+  };
+
+  const handleAdd = () => {
+    if (duration === null) return;
+    // Start where the last segment ends, pulled back if that leaves too little room
+    const lastEnd = Math.max(0, ...drafts.map((draft) => draft.end));
+    const start = roundTime(Math.max(0, Math.min(lastEnd, duration - NEW_SEGMENT_DURATION)));
+    const end = roundTime(Math.min(duration, start + NEW_SEGMENT_DURATION));
+    if (end - start < MIN_SEGMENT_DURATION) {
+      toast.error('The video is too short for another segment');
+      return;
+    }
+    nextKey.current += 1;
+    setDrafts((current) => [...current, { key: `new-${nextKey.current}`, segmentNumber: null, start, end }]);
+  };
+
+  const handleDelete = (draft: DraftSegment) => {
+    setDrafts((current) => current.filter((item) => item.key !== draft.key));
+    if (draft.segmentNumber !== null) {
+      setDeleted((current) => [...current, draft.segmentNumber as number]);
+    }
+  };
+
+  const handleReset = () => {
+    setDrafts(toDrafts(segments));
+    setDeleted([]);
+  };
+
+  const handleApply = async () => {
+    if (pendingCount === 0 || applying) return;
+
+    const changed = drafts.filter((draft) => draft.segmentNumber !== null && isChanged(draft));
+    const added = drafts.filter((draft) => draft.segmentNumber === null);
+    const renderCount = changed.length + added.length;
+
+    try {
+      for (const segmentNumber of deleted) {
+        setApplying(`Deleting segment ${segmentNumber}…`);
+        await deleteSegment(videoId, segmentNumber);
+      }
+      for (const [index, draft] of changed.entries()) {
+        setApplying(`Rendering segment ${draft.segmentNumber} (${index + 1} of ${renderCount})…`);
+        const { data } = await updateSegment(videoId, draft.segmentNumber as number, { start: draft.start, end: draft.end });
+        await waitForJob(data.jobId);
+      }
+      // New segments are numbered by the backend when their job runs
+      for (const [index, draft] of added.entries()) {
+        setApplying(`Adding a segment (${changed.length + index + 1} of ${renderCount})…`);
+        const { data } = await addSegment(videoId, { start: draft.start, end: draft.end });
+        await waitForJob(data.jobId);
+      }
+      toast.success(`${pendingCount} change${pendingCount !== 1 ? 's' : ''} applied`);
+    } catch (err: any) {
+      toast.error(err.response?.data?.error?.message || err.message || 'Failed to apply the changes');
+    }
+
+    // Changes applied before a failure are kept, so reload either way
+    try {
+      const video = await getLibraryVideo(videoId);
+      setSegments(video.segments);
+    } catch {
+      // Keep the current segments; the next change or reload picks up the library state
+    } finally {
+      setApplying(null);
+    }
+  };
+
+  const percent = (seconds: number) => (duration ? (seconds / duration) * 100 : 0);
+
+  return (
+    <section
+      aria-label="Timeline editor"
+      className="bg-white dark:bg-gray-800 rounded-xl shadow-xl p-6"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Edit segments
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Drag the handles to change where a segment starts and ends. Only changed segments are rendered again.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="ghost" onClick={handleAdd} disabled={duration === null || Boolean(applying)}>
+            Add segment
+          </Button>
+          <Button size="sm" variant="ghost" onClick={handleReset} disabled={pendingCount === 0 || Boolean(applying)}>
+            Reset
+          </Button>
+          <Button size="sm" onClick={handleApply} isLoading={Boolean(applying)} disabled={pendingCount === 0}>
+            Apply changes{pendingCount > 0 ? ` (${pendingCount})` : ''}
+          </Button>
+        </div>
+      </div>
+
+      {duration === null ? (
+        <LoadingSkeleton height={96} className="rounded-lg" />
+      ) : (
+        <>
+          <div
+            ref={trackRef}
+            className="relative h-24 rounded-lg overflow-hidden bg-gray-900 select-none touch-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {!filmstripFailed && (
+              <Image
+                src={getVideoFilmstripUrl(videoId)}
+                alt=""
+                fill
+                unoptimized
+                className="object-fill opacity-50 pointer-events-none"
+                onError={() => setFilmstripFailed(true)}
+              />
+            )}
+            {peaks.length > 0 && (
+              <svg
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                viewBox={`0 0 ${peaks.length} 100`}
+                preserveAspectRatio="none"
+                aria-hidden="true"
+              >
+                <path
+                  d={peaks.map((peak, i) => `M${i + 0.5} ${50 - peak * 48}V${50 + peak * 48}`).join('')}
+                  className="stroke-white/70"
+                  strokeWidth={1}
+                />
+              </svg>
+            )}
+
+            {drafts.map((draft, index) => {
+              const name = draft.segmentNumber !== null ? `segment ${draft.segmentNumber}` : `new segment ${index + 1}`;
+              return (
+                <div
+                  key={draft.key}
+                  className={
+                    isChanged(draft)
+                      ? 'absolute inset-y-1 rounded border-2 border-yellow-400 bg-yellow-400/20'
+                      : 'absolute inset-y-1 rounded border-2 border-primary-400 bg-primary-400/20'
+                  }
+                  style={{ left: `${percent(draft.start)}%`, width: `${percent(draft.end - draft.start)}%` }}
+                >
+                  <span className="absolute top-1 left-3 text-xs font-semibold text-white drop-shadow">
+                    {draft.segmentNumber ?? '+'}
+                  </span>
+                  {(['start', 'end'] as const).map((edge) => (
+                    <div
+                      key={edge}
+                      role="slider"
+                      tabIndex={0}
+                      aria-label={`${edge === 'start' ? 'Start' : 'End'} of ${name}`}
+                      aria-valuemin={edge === 'start' ? 0 : roundTime(draft.start + MIN_SEGMENT_DURATION)}
+                      aria-valuemax={edge === 'start' ? roundTime(draft.end - MIN_SEGMENT_DURATION) : duration}
+                      aria-valuenow={edge === 'start' ? draft.start : draft.end}
+                      aria-valuetext={formatTime(edge === 'start' ? draft.start : draft.end)}
+                      className={`absolute inset-y-0 ${edge === 'start' ? 'left-0' : 'right-0'} w-2 cursor-ew-resize bg-white/80 hover:bg-white focus:outline-none focus:ring-2 focus:ring-primary-500`}
+                      onPointerDown={handlePointerDown(draft.key, edge)}
+                      onKeyDown={handleKeyDown(draft, edge)}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+            <span>0:00.0</span>
+            <span>{formatTime(duration)}</span>
+          </div>
+
+          <ul className="mt-4 divide-y divide-gray-100 dark:divide-gray-700">
+            {drafts.map((draft, index) => (
+              <li key={draft.key} className="flex items-center justify-between gap-3 py-2 text-sm">
+                <span className="text-gray-700 dark:text-gray-300">
+                  {draft.segmentNumber !== null ? `Segment ${draft.segmentNumber}` : `New segment ${index + 1}`}
+                  {' · '}{formatTime(draft.start)} – {formatTime(draft.end)}
+                  {isChanged(draft) && (
+                    <span className="ml-2 text-xs font-medium text-yellow-700 dark:text-yellow-300">
+                      {draft.segmentNumber !== null ? 'changed' : 'new'}
+                    </span>
+                  )}
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleDelete(draft)}
+                  disabled={Boolean(applying)}
+                  aria-label={`Delete ${draft.segmentNumber !== null ? `segment ${draft.segmentNumber}` : `new segment ${index + 1}`}`}
+                >
+                  Delete
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {applying && (
+        <p role="status" className="mt-4 text-sm text-gray-600 dark:text-gray-300">
+          {applying}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -3,15 +3,28 @@
 import { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { useVideoStore } from '@/store/videoStore';
-import { splitVideo } from '@/services/api';
+import { JobCancelledError, splitVideo, uploadVideoFile } from '@/services/api';
 import toast from 'react-hot-toast';
 import clsx from 'clsx';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { LoadingSkeleton } from './ui/LoadingSkeleton';
 
+/** Largest accepted video, from NEXT_PUBLIC_MAX_UPLOAD_SIZE (bytes); keep in line with the backend's MAX_UPLOAD_SIZE */
+const MAX_UPLOAD_SIZE = Number(process.env.NEXT_PUBLIC_MAX_UPLOAD_SIZE) || 10 * 1024 * 1024 * 1024;
+
+/**
+ * Formats a size limit for messages, e.g. "10GB" or "500MB"
+ */
+const formatSizeLimit = (bytes: number): string => {
+  const gigabytes = bytes / (1024 * 1024 * 1024);
+  return gigabytes >= 1 ? `${Number(gigabytes.toFixed(1))}GB` : `${Math.round(bytes / (1024 * 1024))}MB`;
+};
+
+const MAX_UPLOAD_SIZE_LABEL = formatSizeLimit(MAX_UPLOAD_SIZE);
+
 export function VideoUploader() {
-  const { setVideoFile, setIsProcessing, setSegments, setVideoId, setError, videoFile, isProcessing } = useVideoStore();
+  const { setVideoFile, setIsProcessing, setSegments, setVideoId, setJobId, setUploadProgress, setError, videoFile, isProcessing } = useVideoStore();
   const [segmentCount, setSegmentCount] = useState('');
   const [minDuration, setMinDuration] = useState('');
   const [maxDuration, setMaxDuration] = useState('');
@@ -21,8 +34,8 @@ export function VideoUploader() {
     if (rejectedFiles.length > 0) {
       const rejection = rejectedFiles[0];
       if (rejection.errors.some((e: any) => e.code === 'file-too-large')) {
-        setFileError('File size exceeds 1GB limit');
-        toast.error('File size exceeds 1GB limit');
+        setFileError(`File size exceeds ${MAX_UPLOAD_SIZE_LABEL} limit`);
+        toast.error(`File size exceeds ${MAX_UPLOAD_SIZE_LABEL} limit`);
       } else if (rejection.errors.some((e: any) => e.code === 'file-invalid-type')) {
         setFileError('Invalid file type. Please upload MP4, MOV, or AVI files');
         toast.error('Invalid file type');
@@ -50,7 +63,7 @@ export function VideoUploader() {
       'video/x-msvideo': ['.avi'],
     },
     maxFiles: 1,
-    maxSize: 1024 * 1024 * 1024, // 1GB
+    maxSize: MAX_UPLOAD_SIZE,
     disabled: isProcessing,
     noClick: false,
     noKeyboard: false,
@@ -87,21 +100,31 @@ export function VideoUploader() {
     setError(null);
 
     try {
+      // Sent in chunks so a dropped connection resumes instead of starting over
+      const uploadId = await uploadVideoFile(videoFile, setUploadProgress);
+      setUploadProgress(null);
+
       const formData = new FormData();
-      formData.append('video', videoFile);
+      formData.append('uploadId', uploadId);
       formData.append('segmentCount', String(segCount));
       formData.append('minSegmentDuration', String(minD));
       formData.append('maxSegmentDuration', String(maxD));
 
-      const response = await splitVideo(formData);
+      const response = await splitVideo(formData, (jobId) => setJobId(jobId));
       setVideoId(response.data.videoId);
       setSegments(response.data.segments);
       toast.success(`Successfully created ${response.data.segments.length} segments!`);
     } catch (error: any) {
+      if (error instanceof JobCancelledError) {
+        toast('Processing cancelled');
+        return;
+      }
       const errorMessage = error.response?.data?.error?.message || error.message || 'Failed to split video';
       setError(errorMessage);
       toast.error(errorMessage);
     } finally {
+      setJobId(null);
+      setUploadProgress(null);
       setIsProcessing(false);
     }
   };
@@ -168,7 +191,7 @@ export function VideoUploader() {
                 {isDragActive ? 'Drop the video here' : 'Drag & drop a video file'}
               </p>
               <p id="dropzone-description" className="text-sm text-gray-500 dark:text-gray-400 mt-2">
-                or click the button below to select a file (MP4, MOV, AVI - Max 1GB)
+                or click the button below to select a file (MP4, MOV, AVI - Max {MAX_UPLOAD_SIZE_LABEL})
               </p>
               <Button
                 type="button"
@@ -0,0 +1,111 @@
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import toast from 'react-hot-toast';
+import { ProcessingLoader } from '../ProcessingLoader';
+import { useVideoStore } from '@/store/videoStore';
+import { cancelJob, subscribeToJobEvents } from '@/services/api';
+
+jest.mock('@/store/videoStore');
+jest.mock('@/services/api');
+jest.mock('react-hot-toast', () => ({
+  __esModule: true,
+  default: {
+    error: jest.fn(),
+  },
+}));
+
+describe('ProcessingLoader', () => {
+  const mockUnsubscribe = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (subscribeToJobEvents as jest.Mock).mockReturnValue(mockUnsubscribe);
+  });
+
+  it('renders nothing when not processing', () => {
+    (useVideoStore as jest.Mock).mockReturnValue({ isProcessing: false, jobId: null });
+
+    const { container } = render(<ProcessingLoader />);
+    expect(container).toBeEmptyDOMElement();
+    expect(subscribeToJobEvents).not.toHaveBeenCalled();
+  });
+
+  it('shows the upload step before the job exists', () => {
+    (useVideoStore as jest.Mock).mockReturnValue({ isProcessing: true, jobId: null, uploadProgress: null });
+
+    render(<ProcessingLoader />);
+    expect(screen.getByTestId('processing-stage')).toHaveTextContent('Uploading video...');
+    expect(screen.queryByRole('button', { name: /cancel/i })).not.toBeInTheDocument();
+  });
+
+  it('shows the upload progress while the video is sent', () => {
+    (useVideoStore as jest.Mock).mockReturnValue({ isProcessing: true, jobId: null, uploadProgress: 42 });
+
+    render(<ProcessingLoader />);
+    expect(screen.getByTestId('processing-stage')).toHaveTextContent('Uploading video (42%)...');
+    expect(screen.getByRole('status')).toHaveAttribute('aria-valuenow', '42');
+  });
+
+  it('shows the stage, segment and percentages reported by the job', () => {
+    (useVideoStore as jest.Mock).mockReturnValue({ isProcessing: true, jobId: 'job-1' });
+
+    render(<ProcessingLoader />);
+    expect(subscribeToJobEvents).toHaveBeenCalledWith('job-1', expect.any(Object));
+
+    const { onProgress } = (subscribeToJobEvents as jest.Mock).mock.calls[0][1];
+    act(() => {
+      onProgress({ stage: 'encode', segment: 2, totalSegments: 5, percent: 40, overallPercent: 28 });
+    });
+
+    expect(screen.getByTestId('processing-stage')).toHaveTextContent('Encoding segment 2 of 5');
+    expect(screen.getByText('This step: 40%')).toBeInTheDocument();
+    expect(screen.getByText('28%')).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveAttribute('aria-valuenow', '28');
+  });
+
+  it('shows the queue position while waiting', () => {
+    (useVideoStore as jest.Mock).mockReturnValue({ isProcessing: true, jobId: 'job-1' });
+
+    render(<ProcessingLoader />);
+    const { onStatus } = (subscribeToJobEvents as jest.Mock).mock.calls[0][1];
+    act(() => {
+      onStatus({ id: 'job-1', status: 'queued', queuePosition: 2 });
+    });
+
+    expect(screen.getByTestId('processing-stage')).toHaveTextContent('Waiting in queue (2 jobs ahead)...');
+  });
+
+  it('cancels the job', () => {
+    (useVideoStore as jest.Mock).mockReturnValue({ isProcessing: true, jobId: 'job-1' });
+    (cancelJob as jest.Mock).mockResolvedValue({ id: 'job-1', status: 'cancelled' });
+
+    render(<ProcessingLoader />);
+    fireEvent.click(screen.getByRole('button', { name: /cancel/i }));
+
+    expect(cancelJob).toHaveBeenCalledWith('job-1');
+    expect(screen.getByTestId('processing-stage')).toHaveTextContent('Cancelling...');
+  });
+
+  it('shows an error when the job cannot be cancelled', async () => {
+    (useVideoStore as jest.Mock).mockReturnValue({ isProcessing: true, jobId: 'job-1' });
+    (cancelJob as jest.Mock).mockRejectedValue({
+      response: { data: { error: { message: 'Job is already completed' } } },
+    });
+
+    render(<ProcessingLoader />);
+    fireEvent.click(screen.getByRole('button', { name: /cancel/i }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: /cancel/i })).not.toBeDisabled();
+    });
+    expect(toast.error).toHaveBeenCalledWith('Job is already completed');
+  });
+
+  it('closes the event stream when unmounted', () => {
+    (useVideoStore as jest.Mock).mockReturnValue({ isProcessing: true, jobId: 'job-1' });
+
+    const { unmount } = render(<ProcessingLoader />);
+    unmount();
+
+    expect(mockUnsubscribe).toHaveBeenCalled();
+  });
+});
@@ -71,4 +71,22 @@ describe('SegmentsList', () => {
     const downloadButtons = screen.getAllByTestId('download-button');
     expect(downloadButtons.length).toBe(2);
   });
+
+  it('should have one download button per format when several were rendered', () => {
+    const [segment] = createMockSegments(1);
+    (useVideoStore as jest.Mock).mockReturnValue({
+      segments: [{
+        ...segment,
+        formats: [
+          { format: '9:16', width: 1080, height: 1920, downloadUrl: segment.downloadUrl },
+          { format: '1:1', width: 1080, height: 1080, downloadUrl: '/api/videos/download/segment_1_1x1.mp4' },
+        ],
+      }],
+      isProcessing: false,
+    });
+
+    render(<SegmentsList />);
+    const downloadButtons = screen.getAllByTestId('download-button');
+    expect(downloadButtons.map((button) => button.textContent)).toEqual(['9:16', '1:1']);
+  });
 });
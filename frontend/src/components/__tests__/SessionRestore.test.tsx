@@ -0,0 +1,90 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { SessionRestore } from '../SessionRestore';
+import { useVideoStore, VIDEO_STORE_STORAGE_KEY } from '@/store/videoStore';
+import { getLibraryVideo } from '@/services/api';
+
+jest.mock('@/services/api');
+jest.mock('react-hot-toast', () => ({
+  __esModule: true,
+  default: {
+    success: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const segment = {
+  segmentNumber: 1,
+  startTime: 0,
+  endTime: 10,
+  duration: 10,
+  downloadUrl: '/api/videos/download/segment_1_abc.mp4',
+};
+
+const saveSession = (state: Record<string, unknown>) => {
+  localStorage.setItem(VIDEO_STORE_STORAGE_KEY, JSON.stringify({ state, version: 0 }));
+};
+
+describe('SessionRestore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    useVideoStore.getState().reset();
+  });
+
+  it('renders nothing when there is no saved session', async () => {
+    const { container } = render(<SessionRestore />);
+
+    await waitFor(() => expect(useVideoStore.persist.hasHydrated()).toBe(true));
+    expect(container).toBeEmptyDOMElement();
+    expect(getLibraryVideo).not.toHaveBeenCalled();
+  });
+
+  it('restores the saved session and refreshes its segments from the library', async () => {
+    saveSession({ videoId: 'video-1', videoName: 'talk.mp4', segments: [segment], driveFolderName: 'Reels' });
+    (getLibraryVideo as jest.Mock).mockResolvedValue({
+      id: 'video-1',
+      originalName: 'talk.mp4',
+      segments: [segment, { ...segment, segmentNumber: 2, startTime: 10, endTime: 20 }],
+    });
+
+    render(<SessionRestore />);
+
+    expect(await screen.findByText('talk.mp4')).toBeInTheDocument();
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('(2 segments)'));
+    expect(getLibraryVideo).toHaveBeenCalledWith('video-1');
+    expect(useVideoStore.getState()).toMatchObject({ videoId: 'video-1', driveFolderName: 'Reels' });
+  });
+
+  it('discards the restored session', async () => {
+    saveSession({ videoId: 'video-1', videoName: 'talk.mp4', segments: [segment], driveFolderName: '' });
+    (getLibraryVideo as jest.Mock).mockResolvedValue({ id: 'video-1', originalName: 'talk (renamed).mp4', segments: [segment] });
+
+    render(<SessionRestore />);
+    await screen.findByText('talk (renamed).mp4');
+    fireEvent.click(screen.getByRole('button', { name: /discard/i }));
+
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    expect(useVideoStore.getState()).toMatchObject({ videoId: null, segments: [] });
+    expect(JSON.parse(localStorage.getItem(VIDEO_STORE_STORAGE_KEY) || '{}').state.videoId).toBeNull();
+  });
+
+  it('drops a session whose video is no longer in the library', async () => {
+    saveSession({ videoId: 'video-1', videoName: 'talk.mp4', segments: [segment], driveFolderName: '' });
+    (getLibraryVideo as jest.Mock).mockRejectedValue({ response: { status: 404 } });
+
+    render(<SessionRestore />);
+
+    await waitFor(() => expect(useVideoStore.getState().videoId).toBeNull());
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  it('keeps the saved segments when the backend cannot be reached', async () => {
+    saveSession({ videoId: 'video-1', videoName: 'talk.mp4', segments: [segment], driveFolderName: '' });
+    (getLibraryVideo as jest.Mock).mockRejectedValue(new Error('Network Error'));
+
+    render(<SessionRestore />);
+
+    expect(await screen.findByRole('status')).toHaveTextContent('(1 segment)');
+    expect(useVideoStore.getState().segments).toEqual([segment]);
+  });
+});
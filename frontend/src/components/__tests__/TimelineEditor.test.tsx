@@ -0,0 +1,92 @@
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { TimelineEditor } from '../TimelineEditor';
+import { useVideoStore } from '@/store/videoStore';
+import {
+  addSegment,
+  deleteSegment,
+  getLibraryVideo,
+  getVideoWaveform,
+  updateSegment,
+  waitForJob,
+} from '@/services/api';
+
+jest.mock('@/services/api');
+jest.mock('react-hot-toast', () => ({
+  __esModule: true,
+  default: {
+    success: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const segment = (segmentNumber: number) => ({
+  segmentNumber,
+  startTime: (segmentNumber - 1) * 20,
+  endTime: (segmentNumber - 1) * 20 + 10,
+  duration: 10,
+  downloadUrl: `/api/videos/download/segment_${segmentNumber}_abc.mp4`,
+});
+
+describe('TimelineEditor', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useVideoStore.getState().reset();
+    useVideoStore.setState({ videoId: 'video-1', segments: [segment(1), segment(2)] });
+    (getLibraryVideo as jest.Mock).mockResolvedValue({ id: 'video-1', metadata: { duration: 60 }, segments: [segment(1), segment(2)] });
+    (getVideoWaveform as jest.Mock).mockResolvedValue({ duration: 60, peaks: [0.1, 0.5, 0.2] });
+    (updateSegment as jest.Mock).mockResolvedValue({ data: { jobId: 'job-1' } });
+    (addSegment as jest.Mock).mockResolvedValue({ data: { jobId: 'job-2' } });
+    (waitForJob as jest.Mock).mockResolvedValue({});
+  });
+
+  it('renders in and out handles for every segment', async () => {
+    render(<TimelineEditor />);
+
+    expect(await screen.findByRole('slider', { name: 'Start of segment 1' })).toHaveAttribute('aria-valuenow', '0');
+    expect(screen.getByRole('slider', { name: 'End of segment 2' })).toHaveAttribute('aria-valuenow', '30');
+    expect(screen.getByRole('button', { name: /apply changes/i })).toBeDisabled();
+  });
+
+  it('renders only the segment whose handles moved', async () => {
+    (getLibraryVideo as jest.Mock)
+      .mockResolvedValueOnce({ id: 'video-1', metadata: { duration: 60 }, segments: [segment(1), segment(2)] })
+      .mockResolvedValueOnce({ id: 'video-1', metadata: { duration: 60 }, segments: [segment(1), { ...segment(2), endTime: 31 }] });
+    render(<TimelineEditor />);
+
+    const end = await screen.findByRole('slider', { name: 'End of segment 2' });
+    fireEvent.keyDown(end, { key: 'ArrowRight', shiftKey: true });
+    expect(end).toHaveAttribute('aria-valuenow', '31');
+    fireEvent.click(screen.getByRole('button', { name: /apply changes \(1\)/i }));
+
+    await waitFor(() => expect(useVideoStore.getState().segments[1].endTime).toBe(31));
+    expect(updateSegment).toHaveBeenCalledTimes(1);
+    expect(updateSegment).toHaveBeenCalledWith('video-1', 2, { start: 20, end: 31 });
+    expect(waitForJob).toHaveBeenCalledWith('job-1');
+  });
+
+  it('keeps a handle from crossing the other end of its segment', async () => {
+    render(<TimelineEditor />);
+
+    const start = await screen.findByRole('slider', { name: 'Start of segment 1' });
+    for (let i = 0; i < 12; i++) {
+      fireEvent.keyDown(start, { key: 'ArrowRight', shiftKey: true });
+    }
+
+    expect(start).toHaveAttribute('aria-valuenow', '9');
+  });
+
+  it('deletes removed segments and leaves numbering new ones to the backend', async () => {
+    render(<TimelineEditor />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Delete segment 2' }));
+    fireEvent.click(screen.getByRole('button', { name: /add segment/i }));
+    expect(screen.getByRole('slider', { name: 'Start of new segment 2' })).toHaveAttribute('aria-valuenow', '10');
+    fireEvent.click(screen.getByRole('button', { name: /apply changes \(2\)/i }));
+
+    await waitFor(() => expect(addSegment).toHaveBeenCalledWith('video-1', { start: 10, end: 20 }));
+    expect(deleteSegment).toHaveBeenCalledWith('video-1', 2);
+    expect(updateSegment).not.toHaveBeenCalled();
+    expect(waitForJob).toHaveBeenCalledWith('job-2');
+    await waitFor(() => expect(screen.queryByRole('status')).not.toBeInTheDocument());
+  });
+});
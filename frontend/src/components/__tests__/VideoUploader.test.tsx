@@ -2,7 +2,7 @@ import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { VideoUploader } from '../VideoUploader';
 import { useVideoStore } from '@/store/videoStore';
-import { splitVideo } from '@/services/api';
+import { splitVideo, uploadVideoFile } from '@/services/api';
 
 jest.mock('@/store/videoStore');
 jest.mock('@/services/api');
@@ -24,6 +24,8 @@ describe('VideoUploader', () => {
   const mockSetIsProcessing = jest.fn();
   const mockSetSegments = jest.fn();
   const mockSetError = jest.fn();
+  const mockSetJobId = jest.fn();
+  const mockSetUploadProgress = jest.fn();
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -31,6 +33,8 @@ describe('VideoUploader', () => {
       setVideoFile: mockSetVideoFile,
       setIsProcessing: mockSetIsProcessing,
       setSegments: mockSetSegments,
+      setJobId: mockSetJobId,
+      setUploadProgress: mockSetUploadProgress,
       setError: mockSetError,
       videoFile: null,
       isProcessing: false,
@@ -55,6 +59,8 @@ describe('VideoUploader', () => {
       setVideoFile: mockSetVideoFile,
       setIsProcessing: mockSetIsProcessing,
       setSegments: mockSetSegments,
+      setJobId: mockSetJobId,
+      setUploadProgress: mockSetUploadProgress,
       setError: mockSetError,
       videoFile: mockFile,
       isProcessing: false,
@@ -76,11 +82,14 @@ describe('VideoUploader', () => {
       setVideoFile: mockSetVideoFile,
       setIsProcessing: mockSetIsProcessing,
       setSegments: mockSetSegments,
+      setJobId: mockSetJobId,
+      setUploadProgress: mockSetUploadProgress,
       setError: mockSetError,
       videoFile: mockFile,
       isProcessing: false,
     });
 
+    (uploadVideoFile as jest.Mock).mockResolvedValue('upload-1');
     (splitVideo as jest.Mock).mockResolvedValue({
       data: { segments: mockSegments },
     });
@@ -93,6 +102,38 @@ describe('VideoUploader', () => {
       expect(mockSetIsProcessing).toHaveBeenCalledWith(true);
       expect(splitVideo).toHaveBeenCalled();
     });
+    expect(uploadVideoFile).toHaveBeenCalledWith(mockFile, mockSetUploadProgress);
+
+    const formData: FormData = (splitVideo as jest.Mock).mock.calls[0][0];
+    expect(formData.get('uploadId')).toBe('upload-1');
+    expect(formData.get('video')).toBeNull();
+  });
+
+  it('does not split when the upload fails', async () => {
+    const user = userEvent.setup();
+    const mockFile = new File(['test'], 'test.mp4', { type: 'video/mp4' });
+
+    (useVideoStore as jest.Mock).mockReturnValue({
+      setVideoFile: mockSetVideoFile,
+      setIsProcessing: mockSetIsProcessing,
+      setSegments: mockSetSegments,
+      setJobId: mockSetJobId,
+      setUploadProgress: mockSetUploadProgress,
+      setError: mockSetError,
+      videoFile: mockFile,
+      isProcessing: false,
+    });
+
+    (uploadVideoFile as jest.Mock).mockRejectedValue(new Error('Network Error'));
+
+    render(<VideoUploader />);
+    await user.click(screen.getByRole('button', { name: /split video/i }));
+
+    await waitFor(() => {
+      expect(mockSetError).toHaveBeenCalledWith('Network Error');
+    });
+    expect(splitVideo).not.toHaveBeenCalled();
+    expect(mockSetIsProcessing).toHaveBeenLastCalledWith(false);
   });
 
   it('validates min duration is less than max duration', async () => {
@@ -103,6 +144,8 @@ describe('VideoUploader', () => {
       setVideoFile: mockSetVideoFile,
       setIsProcessing: mockSetIsProcessing,
       setSegments: mockSetSegments,
+      setJobId: mockSetJobId,
+      setUploadProgress: mockSetUploadProgress,
       setError: mockSetError,
       videoFile: mockFile,
       isProcessing: false,
@@ -11,6 +11,7 @@ export interface SplitVideoResponse {
   success: boolean;
   data: {
     videoId: string;
+    seed: number; // PRNG seed used for random choices; resend it to reproduce the split
     originalVideo: {
       filename: string;
       duration: number;
@@ -28,20 +29,351 @@ export interface SplitVideoResponse {
       endTime: number;
       duration: number;
       downloadUrl: string;
+      formats: Array<{
+        format: string;
+        width: number;
+        height: number;
+        downloadUrl: string;
+      }>;
+      score?: number;
+      rationale?: string;
     }>;
     totalSegments: number;
   };
 }
 
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface SplitJobCreatedResponse {
+  success: boolean;
+  data: {
+    jobId: string;
+    videoId: string;
+    seed: number;
+    status: JobStatus;
+    statusUrl: string;
+  };
+}
+
+/**
+ * Progress of a processing job
+ * 
+ * Split jobs report 'plan', then for every segment 'encode', 'transcribe',
+ * 'captions' (only with captions on), 'summarize' and 'title'.
+ */
+export interface JobProgress {
+  stage: string;
+  /** Progress of the stage for the current segment (0-100) */
+  percent: number;
+  /** Progress of the whole job (0-100) */
+  overallPercent: number;
+  /** 1-based segment the stage is working on */
+  segment?: number;
+  totalSegments?: number;
+}
+
+/**
+ * Background job as returned by `GET /api/jobs/:id`
+ * 
+ * `progress` is set while processing, `result` once the job is completed,
+ * `error` once it failed.
+ */
+export interface Job<TResult = unknown> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  queuePosition?: number;
+  progress?: JobProgress;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: TResult;
+  error?: {
+    message: string;
+    statusCode?: number;
+  };
+}
+
+/** Delay between job status requests while waiting for a split */
+const JOB_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Thrown by `waitForJob` when the job was cancelled, so callers can tell a
+ * cancellation from a failure
+ */
+export class JobCancelledError extends Error {
+  constructor(public readonly jobId: string) {
+    super('Processing was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Resumable upload as returned by `/api/uploads`
+ */
+export interface UploadInfo {
+  id: string;
+  filename: string;
+  size: number;
+  /** Bytes received so far */
+  offset: number;
+  complete: boolean;
+  createdAt: string;
+  completedAt?: string;
+}
+
+/** Size of each chunk sent by `uploadVideoFile` */
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+/** Failed chunk requests in a row before `uploadVideoFile` gives up */
+const UPLOAD_MAX_RETRIES = 5;
+const UPLOAD_RETRY_BASE_DELAY_MS = 1000;
+const UPLOAD_STORAGE_PREFIX = 'divideit:upload:';
+
+/**
+ * Starts a resumable upload for a file
+ *
+ * @param {File} file - File to upload
+ * @returns {Promise<UploadInfo>} Promise resolving to the new, empty upload
+ * @throws {Error} If the file type is not allowed (400) or the file is too large (413)
+ */
+export const createUpload = async (file: File): Promise<UploadInfo> => {
+  const response = await apiClient.post<{ success: boolean; data: UploadInfo }>('/uploads', {
+    filename: file.name,
+    size: file.size,
+    mimeType: file.type || undefined,
+  });
+  return response.data.data;
+};
+
+/**
+ * Gets the number of bytes the backend has received for an upload
+ *
+ * @param {string} uploadId - Upload ID returned by `createUpload`
+ * @returns {Promise<number>} Promise resolving to the offset to resume from
+ * @throws {Error} If the upload does not exist (404)
+ */
+export const getUploadOffset = async (uploadId: string): Promise<number> => {
+  const response = await apiClient.head(`/uploads/${uploadId}`);
+  return Number(response.headers['upload-offset']);
+};
+
+/**
+ * Sends one chunk of an upload
+ *
+ * @param {string} uploadId - Upload ID returned by `createUpload`
+ * @param {number} offset - Position of the chunk in the file; must equal the bytes received so far
+ * @param {Blob} chunk - Chunk bytes
+ * @returns {Promise<UploadInfo>} Promise resolving to the upload with its new offset
+ * @throws {Error} If the offset does not match (409)
+ */
+export const uploadChunk = async (uploadId: string, offset: number, chunk: Blob): Promise<UploadInfo> => {
+  const response = await apiClient.patch<{ success: boolean; data: UploadInfo }>(`/uploads/${uploadId}`, chunk, {
+    headers: {
+      'Content-Type': 'application/offset+octet-stream',
+      'Upload-Offset': String(offset),
+    },
+  });
+  return response.data.data;
+};
+
+/**
+ * Whether a failed chunk request is worth retrying after asking for the offset again
+ *
+ * Network failures and server errors are; a 409 means the backend has a
+ * different offset than we assumed, e.g. after a chunk was cut off midway.
+ * Errors that did not come from a request are not.
+ */
+const isRetriableUploadError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status >= 500 || status === 409;
+};
+
+/**
+ * Uploads a video file in chunks, resuming after network failures
+ *
+ * Failed chunks are retried with exponential backoff from the offset the
+ * backend reports. The upload ID is kept in localStorage, so uploading the
+ * same file again (e.g. after a page reload) continues where it stopped.
+ *
+ * @param {File} file - Video file to upload
+ * @param {(percent: number) => void} [onProgress] - Called with the upload progress (0-100) after every chunk
+ * @returns {Promise<string>} Promise resolving to the upload ID, ready to be passed to `splitVideo` as `uploadId`
+ * @throws {Error} If the upload cannot be created or a chunk keeps failing
+ *
+ * @example
+ * const uploadId = await uploadVideoFile(file, (percent) => console.log(`${percent}%`));
+ * formData.append('uploadId', uploadId);
+ */
+export const uploadVideoFile = async (file: File, onProgress?: (percent: number) => void): Promise<string> => {
+  const storageKey = `${UPLOAD_STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+  let uploadId = localStorage.getItem(storageKey);
+  let offset = 0;
+
+  if (uploadId) {
+    try {
+      offset = await getUploadOffset(uploadId);
+    } catch {
+      // Expired or already split: start over
+      uploadId = null;
+    }
+  }
+  if (!uploadId) {
+    uploadId = (await createUpload(file)).id;
+    localStorage.setItem(storageKey, uploadId);
+  }
+
+  let retries = 0;
+  while (offset < file.size) {
+    onProgress?.(Math.floor((offset / file.size) * 100));
+    try {
+      const upload = await uploadChunk(uploadId, offset, file.slice(offset, offset + UPLOAD_CHUNK_SIZE));
+      offset = upload.offset;
+      retries = 0;
+    } catch (error) {
+      if (!isRetriableUploadError(error) || retries >= UPLOAD_MAX_RETRIES) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, UPLOAD_RETRY_BASE_DELAY_MS * 2 ** retries));
+      retries++;
+      try {
+        offset = await getUploadOffset(uploadId);
+      } catch {
+        // Backend still unreachable: retry the same chunk after the next delay
+      }
+    }
+  }
+
+  localStorage.removeItem(storageKey);
+  onProgress?.(100);
+  return uploadId;
+};
+
+/**
+ * Queues a video split job
+ *
+ * Uploads a video file (or names one sent earlier with `uploadVideoFile`);
+ * the backend answers with 202 as soon as the split job is queued. Use
+ * `getJob` or `waitForJob` to follow it.
+ *
+ * @param {FormData} formData - FormData containing the video file or uploadId, and split parameters
+ * @returns {Promise<SplitJobCreatedResponse>} Promise resolving to the job ID and video ID
+ * @throws {Error} If the upload or validation fails
+ */
+export const submitSplitJob = async (formData: FormData): Promise<SplitJobCreatedResponse> => {
+  const response = await apiClient.post<SplitJobCreatedResponse>('/videos/split', formData);
+  return response.data;
+};
+
+/**
+ * Gets the current status of a background job
+ * 
+ * @param {string} jobId - Job ID returned when the job was queued
+ * @returns {Promise<Job>} Promise resolving to the job
+ */
+export const getJob = async <TResult = unknown>(jobId: string): Promise<Job<TResult>> => {
+  const response = await apiClient.get<{ success: boolean; data: Job<TResult> }>(`/jobs/${jobId}`);
+  return response.data.data;
+};
+
+/**
+ * Polls a job until it completes, fails or is cancelled
+ * 
+ * @param {string} jobId - Job ID to follow
+ * @param {(job: Job) => void} [onUpdate] - Called with every status received
+ * @returns {Promise<TResult>} Promise resolving to the job result
+ * @throws {Error} With the job's error message if the job failed
+ * @throws {JobCancelledError} If the job was cancelled
+ */
+export const waitForJob = async <TResult = unknown>(
+  jobId: string,
+  onUpdate?: (job: Job<TResult>) => void
+): Promise<TResult> => {
+  for (;;) {
+    const job = await getJob<TResult>(jobId);
+    onUpdate?.(job);
+
+    if (job.status === 'completed') {
+      return job.result as TResult;
+    }
+    if (job.status === 'failed') {
+      throw new Error(job.error?.message || 'Video processing failed');
+    }
+    if (job.status === 'cancelled') {
+      throw new JobCancelledError(jobId);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+};
+
+/**
+ * Cancels a queued or running job
+ * 
+ * Running split jobs stop their FFmpeg processes; the upload and partial output
+ * are deleted. Resolves once the job has stopped.
+ * 
+ * @param {string} jobId - Job ID to cancel
+ * @returns {Promise<Job>} Promise resolving to the job, normally with status 'cancelled'
+ * @throws {Error} If the job already finished (409) or does not exist (404)
+ */
+export const cancelJob = async (jobId: string): Promise<Job> => {
+  const response = await apiClient.delete<{ success: boolean; data: Job }>(`/jobs/${jobId}`);
+  return response.data.data;
+};
+
 /**
- * Splits a video into random segments
+ * Follows a job's progress with Server-Sent Events
  * 
- * Uploads a video file and requests the backend to split it into segments.
+ * Opens `GET /api/jobs/:id/events` and closes it once the job completes, fails or is cancelled.
+ * 
+ * @param {string} jobId - Job ID to follow
+ * @param {Object} handlers - Event callbacks
+ * @param {(job: Job) => void} [handlers.onStatus] - Called with the job when it starts, completes, fails or is cancelled (and once on connect)
+ * @param {(progress: JobProgress) => void} [handlers.onProgress] - Called with every progress report
+ * @returns {() => void} Function that closes the stream
+ * 
+ * @example
+ * const unsubscribe = subscribeToJobEvents(jobId, {
+ *   onProgress: (progress) => console.log(progress.stage, progress.overallPercent),
+ * });
+ */
+export const subscribeToJobEvents = (
+  jobId: string,
+  handlers: { onStatus?: (job: Job) => void; onProgress?: (progress: JobProgress) => void }
+): (() => void) => {
+  const events = new EventSource(`${API_URL}/api/jobs/${jobId}/events`);
+
+  events.addEventListener('status', (event) => {
+    const job: Job = JSON.parse((event as MessageEvent).data);
+    handlers.onStatus?.(job);
+    // The server ends the stream here; without closing, EventSource would reconnect
+    if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+      events.close();
+    }
+  });
+  events.addEventListener('progress', (event) => {
+    handlers.onProgress?.(JSON.parse((event as MessageEvent).data));
+  });
+
+  return () => events.close();
+};
+
+/**
+ * Splits a video into segments
+ * 
+ * Queues a split job, then polls it until the segments are ready.
  * Returns the response with original video info and generated segments.
  * 
- * @param {FormData} formData - FormData containing video file and split parameters
+ * @param {FormData} formData - FormData containing the video file or uploadId, and split parameters
+ * @param {(jobId: string) => void} [onJobCreated] - Called once the job is queued
  * @returns {Promise<SplitVideoResponse>} Promise resolving to split response
  * @throws {Error} If request fails or video processing fails
+ * @throws {JobCancelledError} If the job was cancelled (see `cancelJob`)
  * 
  * @example
  * const formData = new FormData();
@@ -49,9 +381,15 @@ export interface SplitVideoResponse {
  * formData.append('segmentCount', '5');
  * const response = await splitVideo(formData);
  */
-export const splitVideo = async (formData: FormData): Promise<SplitVideoResponse> => {
-  const response = await apiClient.post<SplitVideoResponse>('/videos/split', formData);
-  return response.data;
+export const splitVideo = async (
+  formData: FormData,
+  onJobCreated?: (jobId: string) => void
+): Promise<SplitVideoResponse> => {
+  const { data: created } = await submitSplitJob(formData);
+  onJobCreated?.(created.jobId);
+
+  const result = await waitForJob<SplitVideoResponse['data']>(created.jobId);
+  return { success: true, data: result };
 };
 
 /**
@@ -89,6 +427,213 @@ export const getSegmentSummary = async (
   return response.data.data;
 };
 
+export type LibraryVideoStatus = 'processing' | 'ready';
+
+/**
+ * Video recorded in the backend's library, as listed by `GET /api/videos`
+ */
+export interface LibraryVideo {
+  id: string;
+  originalName: string;
+  status: LibraryVideoStatus;
+  metadata: SplitVideoResponse['data']['originalVideo']['metadata'];
+  strategy?: string;
+  seed?: number;
+  framing?: string;
+  formats: string[];
+  captions: boolean;
+  createdAt: string;
+  updatedAt: string;
+  segmentCount: number;
+  /** Whether any file of the video was uploaded to Google Drive */
+  uploaded: boolean;
+}
+
+type SplitSegment = SplitVideoResponse['data']['segments'][number];
+
+/**
+ * Segment of a library video, with the text generated for it
+ */
+export interface LibrarySegment extends SplitSegment {
+  label?: string;
+  transcript: { text: string; language?: string } | null;
+  summary: string | null;
+  title: { title: string; description: string } | null;
+  captions: Array<{ format: string; url: string }>;
+  destinations: Array<{
+    filename: string;
+    provider: string;
+    remoteId: string;
+    webViewLink?: string;
+    shareableLink?: string;
+    uploadedAt: string;
+  }>;
+}
+
+export interface LibraryVideoDetail extends Omit<LibraryVideo, 'segmentCount' | 'uploaded'> {
+  segments: LibrarySegment[];
+}
+
+export interface ListVideosParams {
+  page?: number;
+  pageSize?: number;
+  sort?: 'createdAt' | 'duration' | 'name';
+  order?: 'asc' | 'desc';
+  status?: LibraryVideoStatus;
+  from?: string;
+  to?: string;
+  minDuration?: number;
+  maxDuration?: number;
+  uploaded?: boolean;
+  /** Only videos with a segment whose transcript or title matches */
+  q?: string;
+}
+
+export interface VideoList {
+  videos: LibraryVideo[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * Lists the videos in the library
+ *
+ * @param {ListVideosParams} [params] - Page, sort order and filters (newest first by default)
+ * @returns {Promise<VideoList>} Promise resolving to one page of videos
+ *
+ * @example
+ * const { videos, totalPages } = await listVideos({ page: 2, uploaded: false });
+ */
+export const listVideos = async (params: ListVideosParams = {}): Promise<VideoList> => {
+  const response = await apiClient.get<{ success: boolean; data: VideoList }>('/videos', { params });
+  return response.data.data;
+};
+
+/**
+ * Gets a library video with all of its segments
+ *
+ * @param {string} videoId - Video ID
+ * @returns {Promise<LibraryVideoDetail>} Promise resolving to the video and its segments
+ * @throws {Error} If the video is not in the library (404)
+ */
+export const getLibraryVideo = async (videoId: string): Promise<LibraryVideoDetail> => {
+  const response = await apiClient.get<{ success: boolean; data: LibraryVideoDetail }>(`/videos/${videoId}`);
+  return response.data.data;
+};
+
+/**
+ * URL of the thumbnail of a library video, for use as an image source
+ */
+export const getVideoThumbnailUrl = (videoId: string): string => `${API_URL}/api/videos/${videoId}/thumbnail`;
+
+export interface SegmentJobCreatedResponse {
+  success: boolean;
+  data: {
+    jobId: string;
+    videoId: string;
+    segmentNumber?: number; // Only for a changed segment; a new one is numbered when its job runs
+    status: JobStatus;
+    statusUrl: string;
+  };
+}
+
+/**
+ * Result of a segment job: the segment rendered with its new range
+ */
+export interface SegmentJobResult {
+  videoId: string;
+  segment: SplitSegment & { label?: string };
+}
+
+export interface VideoWaveform {
+  /** Source duration in seconds */
+  duration: number;
+  /** Evenly spaced peak levels (0-1) */
+  peaks: number[];
+}
+
+/**
+ * Renders a segment of a library video again with new in/out points
+ *
+ * The backend answers with 202 as soon as the job is queued; follow it with
+ * `waitForJob`.
+ *
+ * @param {string} videoId - Video ID
+ * @param {number} segmentNumber - Segment to change
+ * @param {Object} range - New range in seconds of the source video
+ * @returns {Promise<SegmentJobCreatedResponse>} Promise resolving to the job ID
+ * @throws {Error} If the range is invalid (400), the segment does not exist (404) or the video is still being split (409)
+ *
+ * @example
+ * const { data } = await updateSegment(videoId, 2, { start: 12.5, end: 41 });
+ * const { segment } = await waitForJob<SegmentJobResult>(data.jobId);
+ */
+export const updateSegment = async (
+  videoId: string,
+  segmentNumber: number,
+  range: { start: number; end: number; label?: string }
+): Promise<SegmentJobCreatedResponse> => {
+  const response = await apiClient.put<SegmentJobCreatedResponse>(`/videos/${videoId}/segments/${segmentNumber}`, range);
+  return response.data;
+};
+
+/**
+ * Adds a segment to a library video
+ *
+ * The backend answers with 202 as soon as the job is queued; follow it with
+ * `waitForJob`. The segment is numbered when the job runs, after the highest
+ * number the video ever had; the job result holds it.
+ *
+ * @param {string} videoId - Video ID
+ * @param {Object} range - Range in seconds of the source video
+ * @returns {Promise<SegmentJobCreatedResponse>} Promise resolving to the job ID
+ * @throws {Error} If the range is invalid (400), the video does not exist (404) or is still being split (409)
+ *
+ * @example
+ * const { data } = await addSegment(videoId, { start: 95, end: 120 });
+ * const { segment } = await waitForJob<SegmentJobResult>(data.jobId);
+ */
+export const addSegment = async (
+  videoId: string,
+  range: { start: number; end: number; label?: string }
+): Promise<SegmentJobCreatedResponse> => {
+  const response = await apiClient.post<SegmentJobCreatedResponse>(`/videos/${videoId}/segments`, range);
+  return response.data;
+};
+
+/**
+ * Deletes a segment of a library video and its files
+ *
+ * @param {string} videoId - Video ID
+ * @param {number} segmentNumber - Segment to delete; the others keep their numbers
+ * @returns {Promise<LibrarySegment[]>} Promise resolving to the remaining segments
+ */
+export const deleteSegment = async (videoId: string, segmentNumber: number): Promise<LibrarySegment[]> => {
+  const response = await apiClient.delete<{ success: boolean; data: { videoId: string; segments: LibrarySegment[] } }>(
+    `/videos/${videoId}/segments/${segmentNumber}`
+  );
+  return response.data.data.segments;
+};
+
+/**
+ * Gets the audio waveform of a library video's source
+ *
+ * @param {string} videoId - Video ID
+ * @returns {Promise<VideoWaveform>} Promise resolving to the source duration and its peaks
+ * @throws {Error} If the video or its source is gone (404), or the source has no audio
+ */
+export const getVideoWaveform = async (videoId: string): Promise<VideoWaveform> => {
+  const response = await apiClient.get<{ success: boolean; data: VideoWaveform }>(`/videos/${videoId}/waveform`);
+  return response.data.data;
+};
+
+/**
+ * URL of a strip of frames across a library video's source, for use as an image source
+ */
+export const getVideoFilmstripUrl = (videoId: string): string => `${API_URL}/api/videos/${videoId}/filmstrip`;
+
 // Google Drive API interfaces
 export interface GoogleDriveStatus {
   initialized: boolean;
@@ -1,4 +1,8 @@
 import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+/** localStorage key of the persisted session */
+export const VIDEO_STORE_STORAGE_KEY = 'divideit:session';
 
 /**
  * Video segment information
@@ -14,8 +18,20 @@ export interface VideoSegment {
   endTime: number;
   /** Segment duration (seconds) */
   duration: number;
-  /** URL to download the segment */
+  /** URL to download the segment (primary format) */
   downloadUrl: string;
+  /** One rendition per requested aspect ratio, primary first */
+  formats?: Array<{
+    /** Aspect ratio, e.g. '9:16' or '1:1' */
+    format: string;
+    width: number;
+    height: number;
+    downloadUrl: string;
+  }>;
+  /** Highlight score (0-10), only set for the 'highlights' strategy */
+  score?: number;
+  /** One-line reason for the highlight score */
+  rationale?: string;
 }
 
 /**
@@ -30,15 +46,30 @@ interface VideoState {
   videoFile: File | null;
   videoUrl: string | null;
   videoId: string | null;
+  /** Name of the source video; set from the file, or from the library when a past video is opened */
+  videoName: string | null;
+  /** Background split job being processed, if any */
+  jobId: string | null;
+  /** Progress of the chunked upload (0-100) while the video is being sent */
+  uploadProgress: number | null;
   segments: VideoSegment[];
   isProcessing: boolean;
   error: string | null;
+  /** Folder name entered for the Google Drive upload */
+  driveFolderName: string;
+  /** Set when the session was restored after a page load, until it is dismissed or discarded */
+  sessionRestored: boolean;
   setVideoFile: (file: File | null) => void;
   setVideoUrl: (url: string | null) => void;
   setVideoId: (videoId: string | null) => void;
+  setVideoName: (videoName: string | null) => void;
+  setJobId: (jobId: string | null) => void;
+  setUploadProgress: (uploadProgress: number | null) => void;
   setSegments: (segments: VideoSegment[]) => void;
   setIsProcessing: (isProcessing: boolean) => void;
   setError: (error: string | null) => void;
+  setDriveFolderName: (driveFolderName: string) => void;
+  setSessionRestored: (sessionRestored: boolean) => void;
   reset: () => void;
 }
 
@@ -47,9 +78,16 @@ interface VideoState {
  * 
  * Provides global state for:
  * - Uploaded video file and preview URL
+ * - Video ID and name (also set when a video is opened from the library)
  * - Generated segments
  * - Processing status
  * - Error messages
+ * - Google Drive folder name
+ * 
+ * The video ID and name, segments and Drive folder name are persisted to
+ * localStorage. The store is rehydrated by `SessionRestore` after the first
+ * render (`skipHydration`), so the server-rendered markup matches; the file
+ * itself and the processing state are not kept.
  * 
  * @constant
  * @returns {VideoState} Video store hook
@@ -57,32 +95,58 @@ interface VideoState {
  * @example
  * const { videoFile, setVideoFile, segments, isProcessing } = useVideoStore();
  */
-export const useVideoStore = create<VideoState>((set) => ({
+export const useVideoStore = create<VideoState>()(persist((set) => ({
   videoFile: null,
   videoUrl: null,
   videoId: null,
+  videoName: null,
+  jobId: null,
+  uploadProgress: null,
   segments: [],
   isProcessing: false,
   error: null,
+  driveFolderName: '',
+  sessionRestored: false,
   setVideoFile: (file) => {
     if (file) {
       const url = URL.createObjectURL(file);
-      set({ videoFile: file, videoUrl: url });
+      // A new file starts a new session
+      set({ videoFile: file, videoUrl: url, videoName: file.name, sessionRestored: false });
     } else {
-      set({ videoFile: null, videoUrl: null });
+      set({ videoFile: null, videoUrl: null, videoName: null });
     }
   },
   setVideoUrl: (url) => set({ videoUrl: url }),
   setVideoId: (videoId) => set({ videoId }),
+  setVideoName: (videoName) => set({ videoName }),
+  setJobId: (jobId) => set({ jobId }),
+  setUploadProgress: (uploadProgress) => set({ uploadProgress }),
   setSegments: (segments) => set({ segments }),
   setIsProcessing: (isProcessing) => set({ isProcessing }),
   setError: (error) => set({ error }),
+  setDriveFolderName: (driveFolderName) => set({ driveFolderName }),
+  setSessionRestored: (sessionRestored) => set({ sessionRestored }),
   reset: () => set({
     videoFile: null,
     videoUrl: null,
     videoId: null,
+    videoName: null,
+    jobId: null,
+    uploadProgress: null,
     segments: [],
     isProcessing: false,
     error: null,
+    driveFolderName: '',
+    sessionRestored: false,
+  }),
+}), {
+  name: VIDEO_STORE_STORAGE_KEY,
+  storage: createJSONStorage(() => localStorage),
+  partialize: (state) => ({
+    videoId: state.videoId,
+    videoName: state.videoName,
+    segments: state.segments,
+    driveFolderName: state.driveFolderName,
   }),
+  skipHydration: true,
 }));